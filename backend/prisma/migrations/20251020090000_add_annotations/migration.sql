@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "annotations" (
+    "id" TEXT NOT NULL,
+    "ref" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "havrutaId" TEXT NOT NULL,
+
+    CONSTRAINT "annotations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "annotations_havrutaId_ref_idx" ON "annotations"("havrutaId", "ref");
+
+-- AddForeignKey
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_havrutaId_fkey" FOREIGN KEY ("havrutaId") REFERENCES "havrutot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
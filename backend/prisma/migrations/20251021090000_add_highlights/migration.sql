@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "highlights" (
+    "id" TEXT NOT NULL,
+    "ref" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "startIndex" INTEGER NOT NULL,
+    "endIndex" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "havrutaId" TEXT NOT NULL,
+
+    CONSTRAINT "highlights_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "highlights_havrutaId_ref_idx" ON "highlights"("havrutaId", "ref");
+
+-- AddForeignKey
+ALTER TABLE "highlights" ADD CONSTRAINT "highlights_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "highlights" ADD CONSTRAINT "highlights_havrutaId_fkey" FOREIGN KEY ("havrutaId") REFERENCES "havrutot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "study_plans" (
+    "id" TEXT NOT NULL,
+    "startRef" TEXT NOT NULL,
+    "endRef" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL DEFAULT 1,
+    "unit" TEXT NOT NULL DEFAULT 'chapter',
+    "period" TEXT NOT NULL DEFAULT 'day',
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "havrutaId" TEXT NOT NULL,
+
+    CONSTRAINT "study_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "study_plans_havrutaId_key" ON "study_plans"("havrutaId");
+
+-- AddForeignKey
+ALTER TABLE "study_plans" ADD CONSTRAINT "study_plans_havrutaId_fkey" FOREIGN KEY ("havrutaId") REFERENCES "havrutot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "recurrence_patterns" ADD COLUMN "timeZone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "recurrence_exceptions" (
+    "id" TEXT NOT NULL,
+    "originalStartTime" TIMESTAMP(3) NOT NULL,
+    "originalStartingSection" TEXT NOT NULL DEFAULT '',
+    "isSkipped" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "recurrencePatternId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+
+    CONSTRAINT "recurrence_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recurrence_exceptions_sessionId_key" ON "recurrence_exceptions"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "recurrence_exceptions_recurrencePatternId_idx" ON "recurrence_exceptions"("recurrencePatternId");
+
+-- AddForeignKey
+ALTER TABLE "recurrence_exceptions" ADD CONSTRAINT "recurrence_exceptions_recurrencePatternId_fkey" FOREIGN KEY ("recurrencePatternId") REFERENCES "recurrence_patterns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurrence_exceptions" ADD CONSTRAINT "recurrence_exceptions_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "recurrence_patterns" ADD COLUMN "holidayPolicy" TEXT NOT NULL DEFAULT 'none',
+ADD COLUMN "avoidFastDays" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "recurrence_exceptions" ADD COLUMN "reason" TEXT;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "scheduling_polls" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "chosenSlotId" TEXT,
+    "recurrencePatternId" TEXT,
+    "havrutaId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "scheduling_polls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_slots" (
+    "id" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "pollId" TEXT NOT NULL,
+
+    CONSTRAINT "poll_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_responses" (
+    "id" TEXT NOT NULL,
+    "availability" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "slotId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "poll_responses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduling_polls_havrutaId_status_idx" ON "scheduling_polls"("havrutaId", "status");
+
+-- CreateIndex
+CREATE INDEX "poll_slots_pollId_idx" ON "poll_slots"("pollId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poll_responses_slotId_userId_key" ON "poll_responses"("slotId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "scheduling_polls" ADD CONSTRAINT "scheduling_polls_havrutaId_fkey" FOREIGN KEY ("havrutaId") REFERENCES "havrutot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduling_polls" ADD CONSTRAINT "scheduling_polls_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_slots" ADD CONSTRAINT "poll_slots_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "scheduling_polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_responses" ADD CONSTRAINT "poll_responses_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "poll_slots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_responses" ADD CONSTRAINT "poll_responses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
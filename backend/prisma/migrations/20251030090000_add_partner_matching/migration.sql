@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "matching_profiles" (
+    "id" TEXT NOT NULL,
+    "books" TEXT[],
+    "language" TEXT NOT NULL DEFAULT 'either',
+    "level" TEXT NOT NULL DEFAULT 'beginner',
+    "availability" JSONB NOT NULL DEFAULT '[]',
+    "bio" TEXT NOT NULL DEFAULT '',
+    "isPublished" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "matching_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "match_requests" (
+    "id" TEXT NOT NULL,
+    "bookTitle" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" TIMESTAMP(3),
+    "havrutaId" TEXT,
+    "requesterId" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+
+    CONSTRAINT "match_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matching_profiles_userId_key" ON "matching_profiles"("userId");
+
+-- CreateIndex
+CREATE INDEX "match_requests_recipientId_status_idx" ON "match_requests"("recipientId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "match_requests_requesterId_recipientId_bookTitle_key" ON "match_requests"("requesterId", "recipientId", "bookTitle");
+
+-- AddForeignKey
+ALTER TABLE "matching_profiles" ADD CONSTRAINT "matching_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "match_requests" ADD CONSTRAINT "match_requests_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "match_requests" ADD CONSTRAINT "match_requests_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
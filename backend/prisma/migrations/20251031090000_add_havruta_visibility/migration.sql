@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "havrutot" ADD COLUMN     "description" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "visibility" TEXT NOT NULL DEFAULT 'private';
+
+-- CreateTable
+CREATE TABLE "join_requests" (
+    "id" TEXT NOT NULL,
+    "message" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" TIMESTAMP(3),
+    "userId" TEXT NOT NULL,
+    "havrutaId" TEXT NOT NULL,
+
+    CONSTRAINT "join_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "havrutot_visibility_isActive_idx" ON "havrutot"("visibility", "isActive");
+
+-- CreateIndex
+CREATE INDEX "join_requests_havrutaId_status_idx" ON "join_requests"("havrutaId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "join_requests_userId_havrutaId_key" ON "join_requests"("userId", "havrutaId");
+
+-- AddForeignKey
+ALTER TABLE "join_requests" ADD CONSTRAINT "join_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "join_requests" ADD CONSTRAINT "join_requests_havrutaId_fkey" FOREIGN KEY ("havrutaId") REFERENCES "havrutot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
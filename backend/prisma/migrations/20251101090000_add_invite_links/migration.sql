@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "invite_links" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT NOT NULL,
+    "havrutaId" TEXT NOT NULL,
+
+    CONSTRAINT "invite_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invite_link_uses" (
+    "id" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "linkId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "invite_link_uses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invite_links_token_key" ON "invite_links"("token");
+
+-- CreateIndex
+CREATE INDEX "invite_links_havrutaId_idx" ON "invite_links"("havrutaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invite_link_uses_linkId_userId_key" ON "invite_link_uses"("linkId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "invite_links" ADD CONSTRAINT "invite_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invite_links" ADD CONSTRAINT "invite_links_havrutaId_fkey" FOREIGN KEY ("havrutaId") REFERENCES "havrutot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invite_link_uses" ADD CONSTRAINT "invite_link_uses_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "invite_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invite_link_uses" ADD CONSTRAINT "invite_link_uses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "havruta_participants" ADD COLUMN     "role" TEXT NOT NULL DEFAULT 'participant';
+
+-- Existing owners keep their rights
+UPDATE "havruta_participants"
+SET "role" = 'owner'
+FROM "havrutot" h
+WHERE "havruta_participants"."havrutaId" = h."id" AND "havruta_participants"."userId" = h."ownerId";
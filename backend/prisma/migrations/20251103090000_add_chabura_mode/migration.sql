@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "leaderId" TEXT,
+ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'havruta';
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_leaderId_fkey" FOREIGN KEY ("leaderId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "havrutot" ADD COLUMN     "conflictStrategy" TEXT NOT NULL DEFAULT 'last-writer-wins';
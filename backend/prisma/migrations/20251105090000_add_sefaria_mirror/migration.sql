@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "sefaria_books" (
+    "title" TEXT NOT NULL,
+    "heTitle" TEXT NOT NULL,
+    "categories" TEXT[],
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "index" JSONB NOT NULL,
+    "structure" JSONB NOT NULL,
+    "importedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sefaria_books_pkey" PRIMARY KEY ("title")
+);
+
+-- CreateTable
+CREATE TABLE "sefaria_sections" (
+    "ref" TEXT NOT NULL,
+    "heRef" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "sections" INTEGER[],
+    "text" TEXT[],
+    "he" TEXT[],
+    "versionTitle" TEXT NOT NULL DEFAULT '',
+    "heVersionTitle" TEXT NOT NULL DEFAULT '',
+    "content" TEXT NOT NULL DEFAULT '',
+    "bookTitle" TEXT NOT NULL,
+
+    CONSTRAINT "sefaria_sections_pkey" PRIMARY KEY ("ref")
+);
+
+-- CreateTable
+CREATE TABLE "sefaria_links" (
+    "id" TEXT NOT NULL,
+    "anchorRef" TEXT NOT NULL,
+    "anchorSection" TEXT NOT NULL,
+    "sourceRef" TEXT NOT NULL,
+    "sourceTitle" TEXT NOT NULL,
+    "category" TEXT NOT NULL DEFAULT '',
+    "type" TEXT NOT NULL DEFAULT '',
+
+    CONSTRAINT "sefaria_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sefaria_sections_bookTitle_position_key" ON "sefaria_sections"("bookTitle", "position");
+
+-- CreateIndex
+CREATE INDEX "sefaria_links_anchorSection_idx" ON "sefaria_links"("anchorSection");
+
+-- CreateIndex
+CREATE INDEX "sefaria_links_anchorRef_idx" ON "sefaria_links"("anchorRef");
+
+-- AddForeignKey
+ALTER TABLE "sefaria_sections" ADD CONSTRAINT "sefaria_sections_bookTitle_fkey" FOREIGN KEY ("bookTitle") REFERENCES "sefaria_books"("title") ON DELETE CASCADE ON UPDATE CASCADE;
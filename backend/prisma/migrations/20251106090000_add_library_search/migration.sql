@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "sefaria_search_entries" (
+    "ref" TEXT NOT NULL,
+    "heRef" TEXT NOT NULL,
+    "book" TEXT NOT NULL,
+    "categories" TEXT[],
+    "text" TEXT[],
+    "he" TEXT[],
+    "terms" TEXT NOT NULL,
+    "search_vector" tsvector GENERATED ALWAYS AS (array_to_tsvector(string_to_array("terms", ' '))) STORED,
+    "indexedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sefaria_search_entries_pkey" PRIMARY KEY ("ref")
+);
+
+-- CreateIndex
+CREATE INDEX "sefaria_search_entries_book_idx" ON "sefaria_search_entries"("book");
+
+-- CreateIndex
+CREATE INDEX "sefaria_search_entries_search_vector_idx" ON "sefaria_search_entries" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "sefaria_search_entries_categories_idx" ON "sefaria_search_entries" USING GIN ("categories");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sefaria_links" ADD COLUMN "anchorTitle" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE INDEX "sefaria_links_anchorTitle_idx" ON "sefaria_links"("anchorTitle");
@@ -49,7 +49,7 @@ async function demonstrateSefariaService() {
 
         // 6. Show cache statistics
         console.log('6. Cache statistics:')
-        const stats = sefariaService.getCacheStats()
+        const stats = await sefariaService.getCacheStats()
         console.log(`Cache size: ${stats.size} entries`)
         console.log('Cached keys:', stats.keys)
 
@@ -2,12 +2,19 @@ import { RecurrencePattern as PrismaRecurrencePattern } from '@prisma/client';
 
 export type RecurrenceFrequency = 'once' | 'daily' | 'weekly' | 'bi-weekly' | 'monthly';
 
+export type HolidayPolicy = 'none' | 'skip' | 'shift';
+
 export interface RecurrencePattern extends PrismaRecurrencePattern {
   id: string;
   frequency: string;
   interval: number;
   endDate: Date | null;
   daysOfWeek: number[];
+  timeZone: string;
+  holidayPolicy: string;
+  avoidFastDays: boolean;
+  latitude: number | null;
+  longitude: number | null;
   createdAt: Date;
 }
 
@@ -16,6 +23,11 @@ export interface CreateRecurrencePatternData {
   interval?: number;
   endDate?: Date;
   daysOfWeek?: number[];
+  timeZone?: string;
+  holidayPolicy?: HolidayPolicy;
+  avoidFastDays?: boolean;
+  latitude?: number;
+  longitude?: number;
 }
 
 export interface UpdateRecurrencePatternData {
@@ -23,8 +35,20 @@ export interface UpdateRecurrencePatternData {
   interval?: number;
   endDate?: Date;
   daysOfWeek?: number[];
+  timeZone?: string;
+  holidayPolicy?: HolidayPolicy;
+  avoidFastDays?: boolean;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface UpdateOccurrenceData {
+  startTime?: Date;
+  startingSection?: string;
+  isSkipped?: boolean;
 }
 
 export type RecurrencePatternWithRelations = RecurrencePattern & {
   sessions?: any[];
+  exceptions?: any[];
 };
\ No newline at end of file
@@ -82,7 +82,7 @@ router.get('/me', authenticateToken, (req, res) => {
     }
 
     // Return user profile without sensitive data
-    const { id, email, name, profilePicture, createdAt, lastActiveAt } = req.user
+    const { id, email, name, profilePicture, timeZone, createdAt, lastActiveAt } = req.user
 
     res.json({
       user: {
@@ -90,6 +90,7 @@ router.get('/me', authenticateToken, (req, res) => {
         email,
         name,
         profilePicture,
+        timeZone,
         createdAt,
         lastActiveAt
       },
@@ -1,6 +1,11 @@
 import { Router, Request, Response } from 'express'
 import { havrutaService } from '../services/havrutaService'
 import { invitationService } from '../services/invitationService'
+import { annotationService } from '../services/annotationService'
+import { highlightService } from '../services/highlightService'
+import { studyPlanService } from '../services/studyPlanService'
+import { progressService } from '../services/progressService'
+import { publicHavrutaService } from '../services/publicHavrutaService'
 import { authenticateToken } from '../middleware/auth'
 import { z } from 'zod'
 
@@ -9,6 +14,14 @@ const router = Router()
 // Apply authentication middleware to all routes
 router.use(authenticateToken)
 
+const RespondToJoinRequestSchema = z.object({
+  approve: z.boolean()
+})
+
+const TransferOwnershipSchema = z.object({
+  userId: z.string().min(1, 'User ID is required')
+})
+
 /**
  * POST /api/havrutot
  * Create a new Havruta
@@ -74,6 +87,46 @@ router.get('/active', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/havrutot/public
+ * Browse public Havrutot, filterable by book, search text and meeting day
+ */
+router.get('/public', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const result = await publicHavrutaService.getPublicHavrutot(userId, req.query as Record<string, string>)
+    res.json(result)
+  } catch (error) {
+    console.error('Error fetching public Havrutot:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch public Havrutot'
+    const statusCode = message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/havrutot/join-requests
+ * Get pending join requests for the Havrutot the user can approve them for
+ */
+router.get('/join-requests', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const requests = await publicHavrutaService.getPendingJoinRequests(userId)
+    res.json({ requests })
+  } catch (error) {
+    console.error('Error fetching join requests:', error)
+    res.status(500).json({ error: 'Failed to fetch join requests' })
+  }
+})
+
 /**
  * GET /api/havrutot/:id
  * Get Havruta by ID
@@ -108,7 +161,7 @@ router.get('/:id', async (req: Request, res: Response) => {
 
 /**
  * PUT /api/havrutot/:id
- * Update Havruta (only by creator)
+ * Update Havruta (owner or co-host)
  */
 router.put('/:id', async (req: Request, res: Response) => {
   try {
@@ -125,7 +178,7 @@ router.put('/:id', async (req: Request, res: Response) => {
     console.error('Error updating Havruta:', error)
     const message = error instanceof Error ? error.message : 'Failed to update Havruta'
     const statusCode = message.includes('not found') ? 404 : 
-                      message.includes('Only the creator') ? 403 : 400
+                      message.includes('Only the creator') || message.includes('Only the owner') ? 403 : 400
     res.status(statusCode).json({ error: message })
   }
 })
@@ -149,14 +202,37 @@ router.delete('/:id', async (req: Request, res: Response) => {
     console.error('Error deleting Havruta:', error)
     const message = error instanceof Error ? error.message : 'Failed to delete Havruta'
     const statusCode = message.includes('not found') ? 404 : 
-                      message.includes('Only the creator') ? 403 : 400
+                      message.includes('Only the creator') || message.includes('Only the owner') ? 403 : 400
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/havrutot/:id/preview
+ * Get the public details of a public or link-only Havruta
+ */
+router.get('/:id/preview', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const havruta = await publicHavrutaService.getHavrutaPreview(havrutaId, userId)
+    res.json(havruta)
+  } catch (error) {
+    console.error('Error fetching Havruta preview:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch Havruta'
+    const statusCode = message.includes('not found') ? 404 : 500
     res.status(statusCode).json({ error: message })
   }
 })
 
 /**
  * POST /api/havrutot/:id/join
- * Join a Havruta
+ * Ask to join a public or link-only Havruta; the owner approves the request
  */
 router.post('/:id/join', async (req: Request, res: Response) => {
   try {
@@ -167,14 +243,77 @@ router.post('/:id/join', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'User not authenticated' })
     }
 
-    const participant = await havrutaService.joinHavruta({ userId, havrutaId })
-    res.status(201).json(participant)
+    const request = await publicHavrutaService.requestToJoin(userId, havrutaId, req.body)
+    res.status(201).json({
+      message: 'Join request sent to the owner',
+      request
+    })
   } catch (error) {
-    console.error('Error joining Havruta:', error)
-    const message = error instanceof Error ? error.message : 'Failed to join Havruta'
+    console.error('Error requesting to join Havruta:', error)
+    const message = error instanceof Error ? error.message : 'Failed to request to join Havruta'
     const statusCode = message.includes('not found') ? 404 : 
-                      message.includes('full') || message.includes('already a participant') || 
-                      message.includes('inactive') ? 400 : 500
+                      message.includes('already') ? 409 :
+                      message.includes('full') || message.includes('inactive') ||
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * DELETE /api/havrutot/:id/join
+ * Withdraw a pending join request
+ */
+router.delete('/:id/join', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    await publicHavrutaService.cancelJoinRequest(userId, havrutaId)
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error cancelling join request:', error)
+    const message = error instanceof Error ? error.message : 'Failed to cancel join request'
+    const statusCode = message.includes('not found') ? 404 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * PUT /api/havrutot/:id/join-requests/:requestId
+ * Approve or decline a join request (owner or co-host)
+ */
+router.put('/:id/join-requests/:requestId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const { id: havrutaId, requestId } = req.params
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const { approve } = RespondToJoinRequestSchema.parse(req.body)
+    const request = await publicHavrutaService.respondToJoinRequest(havrutaId, requestId, userId, approve)
+
+    res.json({
+      message: approve ? 'Join request approved' : 'Join request declined',
+      request
+    })
+  } catch (error) {
+    console.error('Error responding to join request:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to respond to join request'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 :
+                      message.includes('already') || message.includes('full') || message.includes('inactive') ? 409 : 500
     res.status(statusCode).json({ error: message })
   }
 })
@@ -202,6 +341,64 @@ router.post('/:id/leave', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * PUT /api/havrutot/:id/participants/:userId/role
+ * Make a participant a co-host, participant or observer (owner only)
+ */
+router.put('/:id/participants/:userId/role', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const participant = await havrutaService.updateParticipantRole(havrutaId, req.params.userId, req.body, userId)
+    res.json(participant)
+  } catch (error) {
+    console.error('Error updating participant role:', error)
+    const message = error instanceof Error ? error.message : 'Failed to update participant role'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 :
+                      message.includes('Validation error') || message.includes('Transfer ownership') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * POST /api/havrutot/:id/transfer
+ * Hand ownership to another participant (owner only)
+ */
+router.post('/:id/transfer', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const { userId: newOwnerId } = TransferOwnershipSchema.parse(req.body)
+    const havruta = await havrutaService.transferOwnership(havrutaId, newOwnerId, userId)
+
+    res.json(havruta)
+  } catch (error) {
+    console.error('Error transferring Havruta ownership:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to transfer ownership'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 :
+                      message.includes('already') ? 409 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
 /**
  * GET /api/havrutot/:id/state
  * Get Havruta state for real-time synchronization
@@ -262,6 +459,30 @@ router.put('/:id/progress', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/havrutot/:id/progress/summary
+ * Get chapter-level coverage of the book for each participant
+ */
+router.get('/:id/progress/summary', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const summary = await progressService.getProgressSummary(havrutaId, userId)
+    res.json(summary)
+  } catch (error) {
+    console.error('Error fetching progress summary:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch progress summary'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('not a participant') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
 /**
  * POST /api/havrutot/:id/invite
  * Invite participants to a Havruta by email
@@ -297,7 +518,7 @@ router.post('/:id/invite', async (req: Request, res: Response) => {
     console.error('Error inviting participants:', error)
     const message = error instanceof Error ? error.message : 'Failed to invite participants'
     const statusCode = message.includes('not found') ? 404 : 
-                      message.includes('Only participants') ? 403 : 400
+                      message.includes('Only participants') || message.includes('Observers') ? 403 : 400
     res.status(statusCode).json({ error: message })
   }
 })
@@ -330,4 +551,345 @@ router.get('/:id/invitations', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * POST /api/havrutot/:id/invite-links
+ * Create a reusable invite link with optional max uses and expiry (owner or co-host)
+ */
+router.post('/:id/invite-links', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const link = await invitationService.createInviteLink(havrutaId, userId, req.body)
+    res.status(201).json(link)
+  } catch (error) {
+    console.error('Error creating invite link:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create invite link'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/havrutot/:id/invite-links
+ * Get invite links and who joined through each (owner or co-host)
+ */
+router.get('/:id/invite-links', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const links = await invitationService.getInviteLinks(havrutaId, userId)
+    res.json({ links })
+  } catch (error) {
+    console.error('Error fetching invite links:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch invite links'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * DELETE /api/havrutot/:id/invite-links/:linkId
+ * Revoke an invite link (owner or co-host)
+ */
+router.delete('/:id/invite-links/:linkId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const { id: havrutaId, linkId } = req.params
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    await invitationService.revokeInviteLink(havrutaId, linkId, userId)
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error revoking invite link:', error)
+    const message = error instanceof Error ? error.message : 'Failed to revoke invite link'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/havrutot/:id/annotations
+ * Get shared annotations for a Havruta (optionally filtered by ref)
+ */
+router.get('/:id/annotations', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const annotations = await annotationService.getAnnotations(havrutaId, userId, req.query)
+    res.json(annotations)
+  } catch (error) {
+    console.error('Error fetching annotations:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch annotations'
+    const statusCode = message.includes('not a participant') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * POST /api/havrutot/:id/annotations
+ * Add an annotation to a line of text
+ */
+router.post('/:id/annotations', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+    const { ref, content } = req.body
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const annotation = await annotationService.createAnnotation({ havrutaId, userId, ref, content })
+    res.status(201).json(annotation)
+  } catch (error) {
+    console.error('Error creating annotation:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create annotation'
+    const statusCode = message.includes('not a participant') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * PUT /api/havrutot/:id/annotations/:annotationId
+ * Edit an annotation (only by its author)
+ */
+router.put('/:id/annotations/:annotationId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+    const { annotationId } = req.params
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const annotation = await annotationService.updateAnnotation(havrutaId, annotationId, userId, req.body)
+    res.json(annotation)
+  } catch (error) {
+    console.error('Error updating annotation:', error)
+    const message = error instanceof Error ? error.message : 'Failed to update annotation'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the author') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * DELETE /api/havrutot/:id/annotations/:annotationId
+ * Delete an annotation (by its author or the Havruta owner)
+ */
+router.delete('/:id/annotations/:annotationId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+    const { annotationId } = req.params
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    await annotationService.deleteAnnotation(havrutaId, annotationId, userId)
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting annotation:', error)
+    const message = error instanceof Error ? error.message : 'Failed to delete annotation'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the author') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/havrutot/:id/highlights
+ * Get shared highlights for a Havruta (optionally filtered by ref)
+ */
+router.get('/:id/highlights', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const highlights = await highlightService.getHighlights(havrutaId, userId, req.query)
+    res.json(highlights)
+  } catch (error) {
+    console.error('Error fetching highlights:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch highlights'
+    const statusCode = message.includes('not a participant') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * POST /api/havrutot/:id/highlights
+ * Highlight a span of text
+ */
+router.post('/:id/highlights', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+    const { ref, language, startIndex, endIndex, text, color } = req.body
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const highlight = await highlightService.createHighlight({
+      havrutaId,
+      userId,
+      ref,
+      language,
+      startIndex,
+      endIndex,
+      text,
+      color
+    })
+    res.status(201).json(highlight)
+  } catch (error) {
+    console.error('Error creating highlight:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create highlight'
+    const statusCode = message.includes('not a participant') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * DELETE /api/havrutot/:id/highlights/:highlightId
+ * Remove a highlight (by its author or the Havruta owner)
+ */
+router.delete('/:id/highlights/:highlightId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+    const { highlightId } = req.params
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    await highlightService.deleteHighlight(havrutaId, highlightId, userId)
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting highlight:', error)
+    const message = error instanceof Error ? error.message : 'Failed to delete highlight'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the author') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/havrutot/:id/plan
+ * Get the study plan for a Havruta with its ahead/behind status
+ */
+router.get('/:id/plan', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const plan = await studyPlanService.getStudyPlan(havrutaId, userId)
+    const status = plan ? await studyPlanService.getStudyPlanStatus(havrutaId, userId) : null
+    res.json({ plan, status })
+  } catch (error) {
+    console.error('Error fetching study plan:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch study plan'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('not a participant') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * PUT /api/havrutot/:id/plan
+ * Create or replace the study plan for a Havruta (owner or co-host)
+ */
+router.put('/:id/plan', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+    const { startRef, endRef, amount, unit, period, startDate } = req.body
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const plan = await studyPlanService.upsertStudyPlan({
+      havrutaId,
+      userId,
+      startRef,
+      endRef,
+      amount,
+      unit,
+      period,
+      startDate
+    })
+    const status = await studyPlanService.getStudyPlanStatus(havrutaId, userId)
+    res.json({ plan, status })
+  } catch (error) {
+    console.error('Error saving study plan:', error)
+    const message = error instanceof Error ? error.message : 'Failed to save study plan'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * DELETE /api/havrutot/:id/plan
+ * Remove the study plan from a Havruta (owner or co-host)
+ */
+router.delete('/:id/plan', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const havrutaId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    await studyPlanService.deleteStudyPlan(havrutaId, userId)
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting study plan:', error)
+    const message = error instanceof Error ? error.message : 'Failed to delete study plan'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
 export default router
\ No newline at end of file
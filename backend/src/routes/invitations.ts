@@ -6,7 +6,7 @@ const router = Router()
 
 /**
  * GET /api/invitations/:token
- * Get invitation details by token (public route for invitation preview)
+ * Get invitation or invite link details by token (public route for invitation preview)
  */
 router.get('/:token', async (req: Request, res: Response) => {
   try {
@@ -19,7 +19,43 @@ router.get('/:token', async (req: Request, res: Response) => {
     const invitation = await invitationService.getInvitationByToken(token)
     
     if (!invitation) {
-      return res.status(404).json({ error: 'Invitation not found' })
+      const inviteLink = await invitationService.getInviteLinkByToken(token)
+      if (!inviteLink) {
+        return res.status(404).json({ error: 'Invitation not found' })
+      }
+
+      if (inviteLink.revokedAt || !inviteLink.havruta.isActive ||
+          (inviteLink.maxUses !== null && inviteLink.useCount >= inviteLink.maxUses)) {
+        return res.status(400).json({
+          error: 'Invitation is no longer valid',
+          status: 'revoked'
+        })
+      }
+
+      if (inviteLink.expiresAt && inviteLink.expiresAt < new Date()) {
+        return res.status(400).json({
+          error: 'Invitation has expired',
+          status: 'expired'
+        })
+      }
+
+      return res.json({
+        type: 'link',
+        id: inviteLink.id,
+        status: 'pending',
+        createdAt: inviteLink.createdAt,
+        expiresAt: inviteLink.expiresAt,
+        remainingUses: inviteLink.maxUses === null ? null : inviteLink.maxUses - inviteLink.useCount,
+        havruta: {
+          id: inviteLink.havruta.id,
+          name: inviteLink.havruta.name,
+          bookTitle: inviteLink.havruta.bookTitle
+        },
+        inviter: {
+          name: inviteLink.createdBy.name,
+          profilePicture: inviteLink.createdBy.profilePicture
+        }
+      })
     }
 
     // Check if invitation is still valid
@@ -39,6 +75,7 @@ router.get('/:token', async (req: Request, res: Response) => {
 
     // Return invitation details (without sensitive information)
     res.json({
+      type: 'email',
       id: invitation.id,
       inviteeEmail: invitation.inviteeEmail,
       status: invitation.status,
@@ -63,7 +100,7 @@ router.get('/:token', async (req: Request, res: Response) => {
 
 /**
  * POST /api/invitations/:token/accept
- * Accept an invitation (requires authentication)
+ * Accept an email invitation or join through an invite link (requires authentication)
  */
 router.post('/:token/accept', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -78,6 +115,12 @@ router.post('/:token/accept', authenticateToken, async (req: Request, res: Respo
       return res.status(400).json({ error: 'Invitation token is required' })
     }
 
+    const inviteLink = await invitationService.getInviteLinkByToken(token)
+    if (inviteLink) {
+      const havrutaId = await invitationService.acceptInviteLink({ token, userId })
+      return res.json({ message: 'Invitation accepted successfully', havrutaId })
+    }
+
     await invitationService.acceptInvitation({ token, userId })
     res.json({ message: 'Invitation accepted successfully' })
   } catch (error) {
@@ -85,7 +128,8 @@ router.post('/:token/accept', authenticateToken, async (req: Request, res: Respo
     const message = error instanceof Error ? error.message : 'Failed to accept invitation'
     const statusCode = message.includes('not found') ? 404 : 
                       message.includes('expired') || message.includes('no longer valid') || 
-                      message.includes('does not match') ? 400 : 500
+                      message.includes('does not match') || message.includes('maximum uses') ||
+                      message.includes('full') || message.includes('inactive') ? 400 : 500
     res.status(statusCode).json({ error: message })
   }
 })
@@ -0,0 +1,159 @@
+import { Router, Request, Response } from 'express'
+import { matchingService } from '../services/matchingService'
+import { authenticateToken } from '../middleware/auth'
+import { z } from 'zod'
+
+const router = Router()
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken)
+
+const RespondToMatchSchema = z.object({
+  accept: z.boolean()
+})
+
+/**
+ * GET /api/matching/profile
+ * Get the current user's matching profile
+ */
+router.get('/profile', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const profile = await matchingService.getProfile(userId)
+    res.json({ profile })
+  } catch (error) {
+    console.error('Error fetching matching profile:', error)
+    res.status(500).json({ error: 'Failed to fetch matching profile' })
+  }
+})
+
+/**
+ * PUT /api/matching/profile
+ * Create or update the current user's matching profile
+ */
+router.put('/profile', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const profile = await matchingService.upsertProfile(userId, req.body)
+    res.json({ profile })
+  } catch (error) {
+    console.error('Error saving matching profile:', error)
+    const message = error instanceof Error ? error.message : 'Failed to save matching profile'
+    const statusCode = message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/matching/suggestions
+ * Suggest compatible partners, best matches first
+ */
+router.get('/suggestions', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50)
+    const suggestions = await matchingService.getSuggestions(userId, limit)
+    res.json({ suggestions })
+  } catch (error) {
+    console.error('Error fetching match suggestions:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch match suggestions'
+    const statusCode = message.includes('matching profile first') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/matching/requests
+ * Get pending match requests sent to and by the current user
+ */
+router.get('/requests', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const requests = await matchingService.getRequests(userId)
+    res.json(requests)
+  } catch (error) {
+    console.error('Error fetching match requests:', error)
+    res.status(500).json({ error: 'Failed to fetch match requests' })
+  }
+})
+
+/**
+ * POST /api/matching/requests
+ * Ask a suggested partner to learn a book together
+ */
+router.post('/requests', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const { recipientId, bookTitle } = req.body
+    const { request, havrutaId } = await matchingService.sendRequest(userId, { recipientId, bookTitle })
+
+    res.status(201).json({
+      message: havrutaId ? 'It\'s a match! Your Havruta is ready' : 'Match request sent',
+      request,
+      havrutaId
+    })
+  } catch (error) {
+    console.error('Error sending match request:', error)
+    const message = error instanceof Error ? error.message : 'Failed to send match request'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('already') ? 409 :
+                      message.includes('Validation error') || message.includes('matching profile first') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * PUT /api/matching/requests/:requestId
+ * Accept or decline a match request; accepting creates the Havruta
+ */
+router.put('/requests/:requestId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const { accept } = RespondToMatchSchema.parse(req.body)
+    const request = await matchingService.respondToRequest(req.params.requestId, userId, accept)
+
+    res.json({
+      message: accept ? 'It\'s a match! Your Havruta is ready' : 'Match request declined',
+      request
+    })
+  } catch (error) {
+    console.error('Error responding to match request:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to respond to match request'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the recipient') ? 403 :
+                      message.includes('already') || message.includes('full') || message.includes('Maximum') ? 409 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+export default router
\ No newline at end of file
@@ -2,6 +2,9 @@ import { Router, Request, Response } from 'express'
 import { authenticateToken } from '../middleware/auth'
 import { schedulingService } from '../services/schedulingService'
 import { notificationService } from '../services/notificationService'
+import { calendarService } from '../services/calendarService'
+import { pollService } from '../services/pollService'
+import { isValidTimeZone } from '../utils/timeZone'
 import { z } from 'zod'
 
 const router = Router()
@@ -16,7 +19,12 @@ const CreateScheduledSessionSchema = z.object({
     frequency: z.enum(['once', 'daily', 'weekly', 'bi-weekly', 'monthly']),
     interval: z.number().min(1).max(365).default(1),
     endDate: z.string().datetime().optional(),
-    daysOfWeek: z.array(z.number().min(0).max(6)).optional().default([])
+    daysOfWeek: z.array(z.number().min(0).max(6)).optional().default([]),
+    timeZone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional(),
+    holidayPolicy: z.enum(['none', 'skip', 'shift']).optional(),
+    avoidFastDays: z.boolean().optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional()
   }).optional()
 })
 
@@ -25,10 +33,60 @@ const UpdateScheduledSessionSchema = z.object({
   updateFutureInstances: z.boolean().default(false)
 })
 
+const CreateStudyPlanSessionsSchema = z.object({
+  havrutaId: z.string().cuid(),
+  startTime: z.string().datetime(),
+  participantIds: z.array(z.string().cuid()).optional().default([])
+})
+
+const PreviewCalendarImportSchema = z.object({
+  calendar: z.string().min(1).max(100000),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional()
+})
+
+const ImportCalendarSchema = z.object({
+  havrutaId: z.string().cuid(),
+  calendar: z.string().min(1).max(100000),
+  startTime: z.string().datetime().optional(),
+  participantIds: z.array(z.string().cuid()).optional().default([]),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional()
+})
+
 const CancelSessionSchema = z.object({
   cancelFutureInstances: z.boolean().default(false)
 })
 
+const HolidayWindowsQuerySchema = z.object({
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid time zone'),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  includeFastDays: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+})
+
+const ConvertPollSchema = z.object({
+  slotId: z.string().optional(),
+  recurrencePattern: z.object({
+    frequency: z.enum(['once', 'daily', 'weekly', 'bi-weekly', 'monthly']),
+    interval: z.number().min(1).max(365).default(1),
+    endDate: z.string().datetime().optional(),
+    daysOfWeek: z.array(z.number().min(0).max(6)).optional(),
+    holidayPolicy: z.enum(['none', 'skip', 'shift']).optional(),
+    avoidFastDays: z.boolean().optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional()
+  }).optional()
+})
+
+const UpdateOccurrenceSchema = z.object({
+  startTime: z.string().datetime().optional(),
+  startingSection: z.string().max(200).optional(),
+  isSkipped: z.boolean().optional()
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: 'Nothing to change'
+})
+
 /**
  * POST /api/scheduling/sessions
  * Create a new scheduled session
@@ -50,7 +108,12 @@ router.post('/sessions', authenticateToken, async (req: Request, res: Response)
         frequency: validatedData.recurrencePattern.frequency,
         interval: validatedData.recurrencePattern.interval,
         endDate: validatedData.recurrencePattern.endDate ? new Date(validatedData.recurrencePattern.endDate) : undefined,
-        daysOfWeek: validatedData.recurrencePattern.daysOfWeek
+        daysOfWeek: validatedData.recurrencePattern.daysOfWeek,
+        timeZone: validatedData.recurrencePattern.timeZone,
+        holidayPolicy: validatedData.recurrencePattern.holidayPolicy,
+        avoidFastDays: validatedData.recurrencePattern.avoidFastDays,
+        latitude: validatedData.recurrencePattern.latitude,
+        longitude: validatedData.recurrencePattern.longitude
       })
       recurrencePatternId = pattern.id
     }
@@ -101,6 +164,317 @@ router.post('/sessions', authenticateToken, async (req: Request, res: Response)
   }
 })
 
+/**
+ * POST /api/scheduling/study-plan-sessions
+ * Create recurring sessions that follow a Havruta's study plan (owner or co-host)
+ */
+router.post('/study-plan-sessions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const validatedData = CreateStudyPlanSessionsSchema.parse(req.body)
+
+    const { sessions, recurrencePatternId } = await schedulingService.generateStudyPlanSessions(
+      validatedData.havrutaId,
+      new Date(validatedData.startTime),
+      userId,
+      validatedData.participantIds
+    )
+
+    res.status(201).json({
+      message: 'Study plan sessions created successfully',
+      sessions: sessions,
+      recurrencePatternId: recurrencePatternId
+    })
+  } catch (error) {
+    console.error('Error creating study plan sessions:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: 'Validation error', 
+        details: error.errors 
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to create study plan sessions'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('not a participant') || message.includes('Only the owner') ? 403 :
+                      message.includes('already ended') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * POST /api/scheduling/import/preview
+ * Show how an ICS file or RRULE maps onto a recurrence pattern, and what gets dropped
+ */
+router.post('/import/preview', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const validatedData = PreviewCalendarImportSchema.parse(req.body)
+
+    const preview = schedulingService.previewCalendarImport(validatedData.calendar, validatedData.timeZone)
+
+    res.json(preview)
+  } catch (error) {
+    console.error('Error previewing calendar import:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: 'Validation error', 
+        details: error.errors 
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to read calendar'
+    const statusCode = message.includes('Invalid calendar') || message.includes('Unsupported') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * POST /api/scheduling/import
+ * Create recurring sessions from an ICS file or RRULE
+ */
+router.post('/import', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const validatedData = ImportCalendarSchema.parse(req.body)
+
+    const { sessions, recurrencePatternId, unsupported } = await schedulingService.importRecurringSessions(
+      validatedData.havrutaId,
+      validatedData.calendar,
+      userId,
+      {
+        startTime: validatedData.startTime ? new Date(validatedData.startTime) : undefined,
+        participantIds: validatedData.participantIds,
+        timeZone: validatedData.timeZone
+      }
+    )
+
+    res.status(201).json({
+      message: 'Sessions imported successfully',
+      sessions: sessions,
+      recurrencePatternId: recurrencePatternId,
+      unsupported: unsupported
+    })
+  } catch (error) {
+    console.error('Error importing calendar:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: 'Validation error', 
+        details: error.errors 
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to import calendar'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 :
+                      message.includes('Invalid calendar') || message.includes('Unsupported') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/scheduling/holidays
+ * Get Shabbat and Yom Tov windows (and optionally fast days) for a location
+ */
+router.get('/holidays', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const validatedQuery = HolidayWindowsQuerySchema.parse(req.query)
+
+    const windows = schedulingService.getHolidayWindows(
+      new Date(validatedQuery.from),
+      new Date(validatedQuery.to),
+      {
+        timeZone: validatedQuery.timeZone,
+        latitude: validatedQuery.latitude,
+        longitude: validatedQuery.longitude
+      },
+      { includeFastDays: validatedQuery.includeFastDays }
+    )
+
+    res.json({ windows })
+  } catch (error) {
+    console.error('Error fetching holidays:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: 'Validation error', 
+        details: error.errors 
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to fetch holidays'
+    const statusCode = message.includes('Date range') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * POST /api/scheduling/polls
+ * Propose time slots for a Havruta so participants can mark their availability
+ */
+router.post('/polls', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const { havrutaId, title, timeZone, slots } = req.body
+    const poll = await pollService.createPoll({ havrutaId, userId, title, timeZone, slots })
+
+    res.status(201).json({
+      message: 'Poll created successfully',
+      poll
+    })
+  } catch (error) {
+    console.error('Error creating poll:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create poll'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Only the owner') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/scheduling/polls
+ * Get open polls across the user's Havrutot (optionally for one Havruta, or including closed ones)
+ */
+router.get('/polls', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const polls = await pollService.getPolls(userId, {
+      havrutaId: typeof req.query.havrutaId === 'string' ? req.query.havrutaId : undefined,
+      includeClosed: req.query.includeClosed === 'true'
+    })
+
+    res.json({ polls })
+  } catch (error) {
+    console.error('Error fetching polls:', error)
+    res.status(500).json({ error: 'Failed to fetch polls' })
+  }
+})
+
+/**
+ * GET /api/scheduling/polls/:pollId
+ * Get a poll with everyone's availability
+ */
+router.get('/polls/:pollId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const poll = await pollService.getPoll(req.params.pollId, userId)
+
+    res.json({ poll })
+  } catch (error) {
+    console.error('Error fetching poll:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch poll'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('not a participant') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * PUT /api/scheduling/polls/:pollId/responses
+ * Mark the user's availability for the poll's time slots
+ */
+router.put('/polls/:pollId/responses', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const poll = await pollService.respondToPoll(req.params.pollId, userId, req.body.responses)
+
+    res.json({ poll })
+  } catch (error) {
+    console.error('Error responding to poll:', error)
+    const message = error instanceof Error ? error.message : 'Failed to respond to poll'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('not a participant') ? 403 :
+                      message.includes('Validation error') || message.includes('closed') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * POST /api/scheduling/polls/:pollId/convert
+ * Schedule the winning (or chosen) slot as a session or recurring series and close the poll
+ */
+router.post('/polls/:pollId/convert', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const validatedData = ConvertPollSchema.parse(req.body)
+
+    const { poll, sessions, recurrencePatternId } = await pollService.convertPoll(req.params.pollId, userId, {
+      slotId: validatedData.slotId,
+      recurrencePattern: validatedData.recurrencePattern && {
+        ...validatedData.recurrencePattern,
+        endDate: validatedData.recurrencePattern.endDate ? new Date(validatedData.recurrencePattern.endDate) : undefined
+      }
+    })
+
+    res.status(201).json({
+      message: 'Sessions scheduled from poll',
+      poll,
+      sessions,
+      recurrencePatternId
+    })
+  } catch (error) {
+    console.error('Error converting poll:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: 'Validation error', 
+        details: error.errors 
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to schedule from poll'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('not a participant') || message.includes('Only the owner') ? 403 :
+                      message.includes('Validation error') || message.includes('closed') ||
+                      message.includes('passed') || message.includes('No upcoming') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * DELETE /api/scheduling/polls/:pollId
+ * Delete a poll
+ */
+router.delete('/polls/:pollId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    await pollService.deletePoll(req.params.pollId, userId)
+
+    res.json({ message: 'Poll deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting poll:', error)
+    const message = error instanceof Error ? error.message : 'Failed to delete poll'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('not a participant') || message.includes('Only the owner') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
 /**
  * GET /api/scheduling/sessions/upcoming
  * Get upcoming sessions for the authenticated user
@@ -213,6 +587,98 @@ router.delete('/sessions/:sessionId', authenticateToken, async (req: Request, re
   }
 })
 
+/**
+ * PUT /api/scheduling/sessions/:sessionId/occurrence
+ * Move, skip or change the starting point of one occurrence of a recurring series
+ */
+router.put('/sessions/:sessionId/occurrence', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const { sessionId } = req.params
+    const validatedData = UpdateOccurrenceSchema.parse(req.body)
+
+    const session = await schedulingService.updateOccurrence(sessionId, userId, {
+      startTime: validatedData.startTime ? new Date(validatedData.startTime) : undefined,
+      startingSection: validatedData.startingSection,
+      isSkipped: validatedData.isSkipped
+    })
+
+    res.json({
+      message: 'Occurrence updated successfully',
+      session
+    })
+  } catch (error) {
+    console.error('Error updating occurrence:', error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: 'Validation error', 
+        details: error.errors 
+      })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to update occurrence'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Access denied') ? 403 :
+                      message.includes('not part of') || message.includes('Only upcoming') || message.includes('must be in the future') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * DELETE /api/scheduling/sessions/:sessionId/occurrence
+ * Undo the changes to one occurrence of a recurring series
+ */
+router.delete('/sessions/:sessionId/occurrence', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const { sessionId } = req.params
+    const session = await schedulingService.restoreOccurrence(sessionId, userId)
+
+    res.json({
+      message: 'Occurrence restored successfully',
+      session
+    })
+  } catch (error) {
+    console.error('Error restoring occurrence:', error)
+    const message = error instanceof Error ? error.message : 'Failed to restore occurrence'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Access denied') ? 403 :
+                      message.includes('not part of') || message.includes('Only upcoming') || message.includes('no changes') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
+/**
+ * GET /api/scheduling/patterns/:patternId/series
+ * Get every occurrence of a recurring series with its exceptions
+ */
+router.get('/patterns/:patternId/series', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const { patternId } = req.params
+    const { pattern, sessions } = await schedulingService.getSeries(patternId, userId)
+
+    res.json({ pattern, sessions })
+  } catch (error) {
+    console.error('Error fetching series:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch series'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('Access denied') ? 403 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
 /**
  * GET /api/scheduling/patterns/:patternId
  * Get recurrence pattern details
@@ -333,15 +799,84 @@ router.put('/notifications/:notificationId/read', authenticateToken, async (req:
     }
 
     const { notificationId } = req.params
-    await notificationService.markNotificationAsRead(notificationId)
+    await notificationService.markNotificationAsRead(notificationId, userId)
 
     res.json({
       message: 'Notification marked as read'
     })
   } catch (error) {
     console.error('Error marking notification as read:', error)
+    const message = error instanceof Error ? error.message : ''
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message })
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message })
+    }
     res.status(500).json({ error: 'Failed to mark notification as read' })
   }
 })
 
+/**
+ * GET /api/scheduling/calendar-token
+ * Get the token for the current user's subscribable calendar feed
+ */
+router.get('/calendar-token', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const token = await calendarService.getCalendarToken(userId)
+
+    res.json({ token })
+  } catch (error) {
+    console.error('Error fetching calendar token:', error)
+    res.status(500).json({ error: 'Failed to fetch calendar token' })
+  }
+})
+
+/**
+ * POST /api/scheduling/calendar-token/reset
+ * Replace the calendar feed token, cutting off existing subscriptions
+ */
+router.post('/calendar-token/reset', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const token = await calendarService.resetCalendarToken(userId)
+
+    res.json({ token })
+  } catch (error) {
+    console.error('Error resetting calendar token:', error)
+    res.status(500).json({ error: 'Failed to reset calendar token' })
+  }
+})
+
+/**
+ * GET /api/scheduling/calendar/:token.ics
+ * ICS feed of the token owner's sessions. Calendar apps can't send auth
+ * headers, so the secret token in the URL identifies the user.
+ */
+router.get('/calendar/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const calendar = await calendarService.getCalendarFeed(req.params.token)
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8')
+    res.set('Content-Disposition', 'inline; filename="havruta.ics"')
+    res.send(calendar)
+  } catch (error) {
+    console.error('Error serving calendar feed:', error)
+    const message = error instanceof Error ? error.message : ''
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message })
+    }
+    res.status(500).json({ error: 'Failed to build calendar feed' })
+  }
+})
+
 export default router
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express'
 import { sefariaService } from '../services/sefariaService'
+import { textSearchService } from '../services/textSearchService'
 import { optionalAuth } from '../middleware/auth'
 
 const router = Router()
@@ -102,6 +103,62 @@ router.get('/search', optionalAuth, async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * Full-text search across every mirrored or previously read section
+ * GET /api/sefaria/library-search?q=query&categories=Tanakh,Talmud&limit=20&offset=0
+ */
+router.get('/library-search', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { q: query, categories, limit, offset } = req.query
+
+    if (!query || typeof query !== 'string') {
+      return res.status(400).json({ error: 'Search query is required' })
+    }
+
+    const searchLimit = limit ? parseInt(limit as string, 10) : 20
+    const searchOffset = offset ? parseInt(offset as string, 10) : 0
+
+    if (isNaN(searchLimit) || searchLimit < 1 || searchLimit > 100) {
+      return res.status(400).json({ error: 'Limit must be a number between 1 and 100' })
+    }
+
+    if (isNaN(searchOffset) || searchOffset < 0) {
+      return res.status(400).json({ error: 'Offset must be a non-negative number' })
+    }
+
+    const results = await textSearchService.search(query, {
+      categories: typeof categories === 'string' && categories ? categories.split(',') : undefined,
+      limit: searchLimit,
+      offset: searchOffset
+    })
+    return res.json(results)
+  } catch (error) {
+    console.error('Error searching the library:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return res.status(message.includes('must contain') ? 400 : 500).json({
+      error: 'Failed to search the library',
+      message
+    })
+  }
+})
+
+/**
+ * Top-level categories that have searchable texts
+ * GET /api/sefaria/library-search/categories
+ */
+router.get('/library-search/categories', optionalAuth, async (_req: Request, res: Response) => {
+  try {
+    const categories = await textSearchService.getCategories()
+    res.json(categories)
+  } catch (error) {
+    console.error('Error fetching search categories:', error)
+    res.status(500).json({ 
+      error: 'Failed to fetch search categories',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+})
+
 /**
  * Get links between texts
  * GET /api/sefaria/links/:ref
@@ -131,7 +188,7 @@ router.get('/links/:ref', optionalAuth, async (req: Request, res: Response) => {
  */
 router.get('/cache/stats', optionalAuth, async (req: Request, res: Response) => {
   try {
-    const stats = sefariaService.getCacheStats()
+    const stats = await sefariaService.getCacheStats()
     res.json(stats)
   } catch (error) {
     console.error('Error fetching cache stats:', error)
@@ -148,7 +205,7 @@ router.get('/cache/stats', optionalAuth, async (req: Request, res: Response) =>
  */
 router.delete('/cache', optionalAuth, async (req: Request, res: Response) => {
   try {
-    sefariaService.clearCache()
+    await sefariaService.clearCache()
     res.json({ message: 'Cache cleared successfully' })
   } catch (error) {
     console.error('Error clearing cache:', error)
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express'
-import { sessionService } from '../services/sessionService'
+import { sessionService, sessionModeSchema } from '../services/sessionService'
+import { chatService } from '../services/chatService'
+import { permissionService } from '../services/permissionService'
 import { authenticateToken } from '../middleware/auth'
 
 const router = Router()
@@ -29,7 +31,8 @@ router.post('/', async (req: Request, res: Response) => {
     console.error('Error initializing session:', error)
     const message = error instanceof Error ? error.message : 'Failed to initialize session'
     const statusCode = message.includes('not found') ? 404 : 
-                      message.includes('inactive') || message.includes('already an active') ? 400 : 500
+                      message.includes('inactive') || message.includes('already an active') ||
+                      message.includes('Validation error') || message.includes('leader') ? 400 : 500
     res.status(statusCode).json({ error: message })
   }
 })
@@ -41,7 +44,7 @@ router.post('/', async (req: Request, res: Response) => {
 router.post('/instant', async (req: Request, res: Response) => {
   try {
     const userId = req.user?.id
-    const { havrutaId } = req.body
+    const { havrutaId, mode } = req.body
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' })
@@ -51,7 +54,11 @@ router.post('/instant', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Havruta ID is required' })
     }
 
-    const session = await sessionService.createInstantSession(havrutaId, userId)
+    if (mode !== undefined && !sessionModeSchema.safeParse(mode).success) {
+      return res.status(400).json({ error: 'Mode must be havruta or chabura' })
+    }
+
+    const session = await sessionService.createInstantSession(havrutaId, userId, mode)
     res.status(201).json(session)
   } catch (error) {
     console.error('Error creating instant session:', error)
@@ -169,11 +176,12 @@ router.get('/:id/state', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Session not found' })
     }
 
-    // Add current user's ownership status
+    // Add current user's ownership status and role
     const isOwner = await sessionService.isSessionOwner(sessionId, userId)
     const stateWithOwnership = {
       ...state,
-      isCurrentUserOwner: isOwner
+      isCurrentUserOwner: isOwner,
+      currentUserRole: await permissionService.getRole(state.havrutaId, userId)
     }
 
     res.json(stateWithOwnership)
@@ -184,6 +192,31 @@ router.get('/:id/state', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/sessions/:id/messages
+ * Get chat messages for a session (used to restore the chat after reconnecting)
+ */
+router.get('/:id/messages', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id
+    const sessionId = req.params.id
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const messages = await chatService.getSessionMessages(sessionId, userId, req.query)
+    res.json(messages)
+  } catch (error) {
+    console.error('Error fetching chat messages:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch chat messages'
+    const statusCode = message.includes('not found') ? 404 :
+                      message.includes('does not have access') ? 403 :
+                      message.includes('Validation error') ? 400 : 500
+    res.status(statusCode).json({ error: message })
+  }
+})
+
 /**
  * POST /api/sessions/:id/join
  * Join a session
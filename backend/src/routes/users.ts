@@ -239,8 +239,8 @@ router.get('/profile/havrutot-summary', authenticateToken, async (req, res) => {
 
 /**
  * GET /api/users
- * Get users with pagination and search (for admin or discovery features)
- * Note: In production, this would require additional authorization
+ * Discover other learners with pagination and search.
+ * Filter by book, language or level to find people with a published matching profile.
  */
 router.get('/', authenticateToken, async (req, res) => {
   try {
@@ -255,15 +255,21 @@ router.get('/', authenticateToken, async (req, res) => {
       })
     }
 
-    const result = await userService.getUsers(req.query as any)
+    const result = await userService.getUsers(req.query as any, { excludeUserId: req.user.id })
     
-    // Remove sensitive data from all users
+    // Remove sensitive data from all users; unpublished matching profiles stay private
     const safeUsers = result.users.map(user => ({
       id: user.id,
       name: user.name,
       profilePicture: user.profilePicture,
       createdAt: user.createdAt,
-      lastActiveAt: user.lastActiveAt
+      lastActiveAt: user.lastActiveAt,
+      matchingProfile: user.matchingProfile?.isPublished ? {
+        books: user.matchingProfile.books,
+        language: user.matchingProfile.language,
+        level: user.matchingProfile.level,
+        bio: user.matchingProfile.bio
+      } : null
     }))
     
     res.json({
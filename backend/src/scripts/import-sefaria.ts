@@ -0,0 +1,201 @@
+import fs from 'fs'
+import path from 'path'
+import readline from 'readline'
+import { prisma } from '../utils/database'
+import { sefariaLocalService, SefariaExportLink, SefariaExportVersion } from '../services/sefariaLocalService'
+
+/**
+ * Import a Sefaria-Export dump (https://github.com/Sefaria/Sefaria-Export)
+ * into the local mirror served when SEFARIA_SOURCE=local.
+ *
+ * Usage: npm run sefaria:import -- <export-dir> [--books "Genesis,Berakhot"] [--skip-links]
+ */
+
+const USAGE = 'Usage: npm run sefaria:import -- <export-dir> [--books "Genesis,Berakhot"] [--skip-links]'
+const LINK_BATCH_SIZE = 5000
+
+interface ImportOptions {
+  exportDir: string
+  books: Set<string> | null
+  skipLinks: boolean
+}
+
+const parseArgs = (args: string[]): ImportOptions => {
+  const booksIndex = args.indexOf('--books')
+  const books = booksIndex >= 0 && args[booksIndex + 1]
+    ? new Set(args[booksIndex + 1].split(',').map(title => title.trim()).filter(Boolean))
+    : null
+  const exportDir = args.find((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--books')
+
+  if (!exportDir) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  return { exportDir: path.resolve(exportDir), books, skipLinks: args.includes('--skip-links') }
+}
+
+/**
+ * Every json/<categories...>/<title>/<English|Hebrew>/merged.json in the dump
+ */
+const findMergedTexts = (dir: string, found: Map<string, Record<string, string>> = new Map()) => {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      findMergedTexts(fullPath, found)
+    } else if (entry.name === 'merged.json') {
+      const language = path.basename(dir)
+      const title = path.basename(path.dirname(dir))
+      found.set(title, { ...found.get(title), [language]: fullPath })
+    }
+  }
+  return found
+}
+
+const readVersion = (file?: string): SefariaExportVersion | undefined => {
+  if (!file) return undefined
+
+  const data = JSON.parse(fs.readFileSync(file, 'utf8'))
+  return {
+    text: data.text,
+    // merged.json lists the versions it was assembled from
+    versionTitle: data.versions?.[0]?.[0] || data.versionTitle || 'merged'
+  }
+}
+
+const readSchema = (exportDir: string, title: string): any | null => {
+  for (const name of [`${title}.json`, `${title.replace(/ /g, '_')}.json`]) {
+    const file = path.join(exportDir, 'schemas', name)
+    if (fs.existsSync(file)) {
+      return JSON.parse(fs.readFileSync(file, 'utf8'))
+    }
+  }
+  return null
+}
+
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  fields.push(field)
+  return fields
+}
+
+async function importBooks(options: ImportOptions): Promise<Set<string>> {
+  const texts = findMergedTexts(path.join(options.exportDir, 'json'))
+  const imported = new Set<string>()
+
+  for (const [title, files] of texts) {
+    if (options.books && !options.books.has(title)) continue
+
+    const schema = readSchema(options.exportDir, title)
+    if (!schema) {
+      console.warn(`⚠️  Skipping ${title}: no schema found`)
+      continue
+    }
+
+    try {
+      const result = await sefariaLocalService.importBook({
+        schema,
+        english: readVersion(files.English),
+        hebrew: readVersion(files.Hebrew)
+      })
+      imported.add(result.title)
+      console.log(`📖 ${result.title}: ${result.sections} sections`)
+    } catch (error) {
+      console.warn(`⚠️  Skipping ${title}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  return imported
+}
+
+async function importLinks(options: ImportOptions, titles: Set<string>): Promise<number> {
+  const linksDir = path.join(options.exportDir, 'links')
+  if (!fs.existsSync(linksDir)) {
+    console.warn('⚠️  No links directory found, skipping links')
+    return 0
+  }
+
+  // Without --books every link is kept, even to texts not imported yet. With it,
+  // links of books imported earlier stay in place.
+  const onlyTitles = options.books ? titles : undefined
+  await sefariaLocalService.clearLinks(onlyTitles)
+  const files = fs.readdirSync(linksDir).filter(name => /^links\d*\.csv$/.test(name))
+  let total = 0
+
+  for (const name of files) {
+    const lines = readline.createInterface({ input: fs.createReadStream(path.join(linksDir, name)) })
+    let batch: SefariaExportLink[] = []
+    let isHeader = true
+
+    for await (const line of lines) {
+      if (isHeader) {
+        isHeader = false
+        continue
+      }
+
+      // Citation 1, Citation 2, Connection Type, Text 1, Text 2, Category 1, Category 2
+      const [ref1, ref2, type, title1, title2, category1, category2] = parseCsvLine(line)
+      if (!ref1 || !ref2) continue
+
+      batch.push({ refs: [ref1, ref2], titles: [title1, title2], categories: [category1, category2], type })
+      if (batch.length >= LINK_BATCH_SIZE) {
+        total += await sefariaLocalService.importLinks(batch, onlyTitles)
+        batch = []
+      }
+    }
+
+    total += await sefariaLocalService.importLinks(batch, onlyTitles)
+    console.log(`🔗 ${name}: ${total} links so far`)
+  }
+
+  return total
+}
+
+async function importSefaria() {
+  const options = parseArgs(process.argv.slice(2))
+
+  try {
+    console.log(`📦 Importing Sefaria-Export from ${options.exportDir}`)
+
+    const titles = await importBooks(options)
+    console.log(`✅ Imported ${titles.size} books`)
+
+    if (!options.skipLinks) {
+      const links = await importLinks(options, titles)
+      console.log(`✅ Imported ${links} links`)
+    }
+
+    console.log('Set SEFARIA_SOURCE=local to serve texts from the mirror')
+  } catch (error) {
+    console.error('❌ Sefaria import failed:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+importSefaria()
\ No newline at end of file
@@ -21,6 +21,8 @@ import { schedulingService } from './services/schedulingService'
 import { monitoringService } from './services/monitoringService'
 import { notificationService } from './services/notificationService'
 import { sessionService } from './services/sessionService'
+import { annotationService } from './services/annotationService'
+import { highlightService } from './services/highlightService'
 import authRoutes from './routes/auth'
 import userRoutes from './routes/users'
 import havrutotRoutes from './routes/havrutot'
@@ -28,6 +30,7 @@ import sessionRoutes from './routes/sessions'
 import schedulingRoutes from './routes/scheduling'
 import sefariaRoutes from './routes/sefaria'
 import invitationRoutes from './routes/invitations'
+import matchingRoutes from './routes/matching'
 import errorRoutes from './routes/errors'
 
 // Load environment variables
@@ -100,6 +103,7 @@ app.use('/api/sessions', sessionRoutes)
 app.use('/api/scheduling', schedulingRoutes)
 app.use('/api/sefaria', sefariaRoutes)
 app.use('/api/invitations', invitationRoutes)
+app.use('/api/matching', matchingRoutes)
 app.use('/api/errors', errorRoutes)
 
 // Basic health check route
@@ -166,6 +170,8 @@ async function initializeServer() {
   // Set up service dependencies
   websocketService.setSyncService(syncService)
   notificationService.setWebSocketService(websocketService)
+  annotationService.setWebSocketService(websocketService)
+  highlightService.setWebSocketService(websocketService)
   sessionService.setNotificationService(notificationService)
 
   // Initialize background job system for scheduling
@@ -174,7 +180,9 @@ async function initializeServer() {
   // Cleanup inactive rooms and sync data every 30 minutes
   setInterval(() => {
     websocketService.cleanupInactiveRooms(60)
-    syncService.cleanupInactiveSessions()
+    syncService.cleanupInactiveSessions().catch(error => {
+      logger.error('Error cleaning up sync data:', error)
+    })
     sessionService.cleanupOldInstantSessions()
   }, 30 * 60 * 1000)
 
@@ -0,0 +1,173 @@
+import { Annotation } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { SharedContentService } from './sharedContentService'
+import { z } from 'zod'
+
+// Validation schemas
+export const createAnnotationSchema = z.object({
+  havrutaId: z.string().min(1, 'Havruta ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  ref: z.string().min(1, 'Reference is required'),
+  content: z.string().trim().min(1, 'Content is required').max(5000, 'Content must be less than 5000 characters')
+})
+
+export const updateAnnotationSchema = z.object({
+  content: z.string().trim().min(1, 'Content is required').max(5000, 'Content must be less than 5000 characters')
+})
+
+export const getAnnotationsQuerySchema = z.object({
+  ref: z.string().optional()
+})
+
+export type CreateAnnotationData = z.infer<typeof createAnnotationSchema>
+export type UpdateAnnotationData = z.infer<typeof updateAnnotationSchema>
+export type GetAnnotationsQuery = z.infer<typeof getAnnotationsQuerySchema>
+
+export interface AnnotationWithUser extends Annotation {
+  user: {
+    id: string
+    name: string
+    profilePicture?: string | null
+  }
+}
+
+const annotationInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      profilePicture: true
+    }
+  }
+}
+
+export class AnnotationService extends SharedContentService {
+  /**
+   * Create an annotation on a line of text and share it with the Havruta
+   */
+  async createAnnotation(data: CreateAnnotationData): Promise<AnnotationWithUser> {
+    try {
+      const validatedData = createAnnotationSchema.parse(data)
+
+      await this.verifyParticipant(validatedData.havrutaId, validatedData.userId)
+
+      const annotation = await prisma.annotation.create({
+        data: validatedData,
+        include: annotationInclude
+      })
+
+      this.broadcast(annotation.havrutaId, 'annotation-created', annotation)
+
+      return annotation
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error creating annotation:', error)
+      throw error instanceof Error ? error : new Error('Failed to create annotation')
+    }
+  }
+
+  /**
+   * Get annotations for a Havruta, optionally limited to a ref and the lines beneath it
+   */
+  async getAnnotations(havrutaId: string, userId: string, query: Partial<GetAnnotationsQuery> = {}): Promise<AnnotationWithUser[]> {
+    try {
+      const { ref } = getAnnotationsQuerySchema.parse(query)
+
+      await this.verifyParticipant(havrutaId, userId)
+
+      return await prisma.annotation.findMany({
+        where: {
+          havrutaId,
+          ...(ref ? {
+            OR: [
+              { ref },
+              { ref: { startsWith: `${ref}:` } }
+            ]
+          } : {})
+        },
+        include: annotationInclude,
+        orderBy: { createdAt: 'asc' }
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error fetching annotations:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch annotations')
+    }
+  }
+
+  /**
+   * Update an annotation (only by its author)
+   */
+  async updateAnnotation(havrutaId: string, annotationId: string, userId: string, data: UpdateAnnotationData): Promise<AnnotationWithUser> {
+    try {
+      const validatedData = updateAnnotationSchema.parse(data)
+
+      const existing = await prisma.annotation.findUnique({
+        where: { id: annotationId }
+      })
+      if (!existing || existing.havrutaId !== havrutaId) {
+        throw new Error('Annotation not found')
+      }
+      if (existing.userId !== userId) {
+        throw new Error('Only the author can edit this annotation')
+      }
+
+      const annotation = await prisma.annotation.update({
+        where: { id: annotationId },
+        data: { content: validatedData.content },
+        include: annotationInclude
+      })
+
+      this.broadcast(annotation.havrutaId, 'annotation-updated', annotation)
+
+      return annotation
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error updating annotation:', error)
+      throw error instanceof Error ? error : new Error('Failed to update annotation')
+    }
+  }
+
+  /**
+   * Delete an annotation (by its author or the Havruta owner)
+   */
+  async deleteAnnotation(havrutaId: string, annotationId: string, userId: string): Promise<void> {
+    try {
+      const existing = await prisma.annotation.findUnique({
+        where: { id: annotationId },
+        include: {
+          havruta: {
+            select: { ownerId: true }
+          }
+        }
+      })
+      if (!existing || existing.havrutaId !== havrutaId) {
+        throw new Error('Annotation not found')
+      }
+      if (!this.canRemove(userId, existing)) {
+        throw new Error('Only the author or the Havruta owner can delete this annotation')
+      }
+
+      await prisma.annotation.delete({
+        where: { id: annotationId }
+      })
+
+      this.broadcast(existing.havrutaId, 'annotation-deleted', {
+        id: existing.id,
+        havrutaId: existing.havrutaId,
+        ref: existing.ref
+      })
+    } catch (error) {
+      console.error('Error deleting annotation:', error)
+      throw error instanceof Error ? error : new Error('Failed to delete annotation')
+    }
+  }
+}
+
+export const annotationService = new AnnotationService()
\ No newline at end of file
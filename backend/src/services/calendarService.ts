@@ -0,0 +1,618 @@
+import { Havruta, RecurrenceException, RecurrencePattern, Session } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { CreateRecurrencePatternData } from '../models/RecurrencePattern'
+import { DEFAULT_TIME_ZONE, getTimeZoneOffset, getZonedParts, isValidTimeZone, zonedTimeToUtc } from '../utils/timeZone'
+import crypto from 'crypto'
+
+// Sessions don't store a planned length, so calendar entries default to an hour
+const DEFAULT_SESSION_MINUTES = 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+// RRULE parts that are accepted without changing the schedule
+const IGNORED_RULE_PARTS = ['WKST']
+
+type CalendarSession = Session & {
+  havruta: Havruta
+  recurrencePattern: RecurrencePattern | null
+  exception?: RecurrenceException | null
+}
+
+export interface ParsedRecurrence {
+  startTime: Date | null
+  recurrencePattern: CreateRecurrencePatternData
+  count: number | null // Number of occurrences when the rule uses COUNT
+  unsupported: string[] // Parts of the calendar that couldn't be represented and were ignored
+}
+
+export class CalendarService {
+  /**
+   * Get the user's calendar feed token, creating one the first time
+   */
+  async getCalendarToken(userId: string): Promise<string> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { calendarToken: true }
+      })
+      if (!user) {
+        throw new Error('User not found')
+      }
+      if (user.calendarToken) {
+        return user.calendarToken
+      }
+
+      return await this.resetCalendarToken(userId)
+    } catch (error) {
+      console.error('Error getting calendar token:', error)
+      throw error instanceof Error ? error : new Error('Failed to get calendar token')
+    }
+  }
+
+  /**
+   * Replace the user's calendar feed token, invalidating existing subscriptions
+   */
+  async resetCalendarToken(userId: string): Promise<string> {
+    try {
+      const calendarToken = crypto.randomBytes(32).toString('hex')
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { calendarToken }
+      })
+
+      return calendarToken
+    } catch (error) {
+      console.error('Error resetting calendar token:', error)
+      throw error instanceof Error ? error : new Error('Failed to reset calendar token')
+    }
+  }
+
+  /**
+   * Build the ICS feed of every session the token's owner takes part in
+   */
+  async getCalendarFeed(token: string): Promise<string> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { calendarToken: token },
+        select: { id: true }
+      })
+      if (!user) {
+        throw new Error('Calendar not found')
+      }
+
+      const sessions = await prisma.session.findMany({
+        where: {
+          participants: {
+            some: { userId: user.id }
+          }
+        },
+        include: {
+          havruta: true,
+          recurrencePattern: true,
+          exception: true
+        },
+        orderBy: { startTime: 'asc' }
+      })
+
+      return this.buildCalendar(sessions, 'Havruta Sessions')
+    } catch (error) {
+      console.error('Error building calendar feed:', error)
+      throw error instanceof Error ? error : new Error('Failed to build calendar feed')
+    }
+  }
+
+  /**
+   * Build an ICS file for a single session, suitable for an email attachment
+   */
+  async getSessionCalendar(sessionId: string): Promise<string | null> {
+    try {
+      const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        include: {
+          havruta: true,
+          recurrencePattern: true,
+          exception: true
+        }
+      })
+      if (!session || session.status === 'cancelled') {
+        return null
+      }
+
+      // A single occurrence, not the whole series
+      return this.buildCalendar([{ ...session, recurrencePattern: null }])
+    } catch (error) {
+      console.error('Error building session calendar:', error)
+      throw error instanceof Error ? error : new Error('Failed to build session calendar')
+    }
+  }
+
+  /**
+   * Build an ICS file of a Havruta's upcoming sessions, or null if none are scheduled
+   */
+  async getHavrutaCalendar(havrutaId: string): Promise<string | null> {
+    try {
+      const sessions = await prisma.session.findMany({
+        where: {
+          havrutaId,
+          // Skipped occurrences are kept so the series can exclude them
+          status: { in: ['scheduled', 'cancelled'] },
+          startTime: { gte: new Date() }
+        },
+        include: {
+          havruta: true,
+          recurrencePattern: true,
+          exception: true
+        },
+        orderBy: { startTime: 'asc' }
+      })
+
+      return sessions.length > 0 ? this.buildCalendar(sessions) : null
+    } catch (error) {
+      console.error('Error building Havruta calendar:', error)
+      throw error instanceof Error ? error : new Error('Failed to build Havruta calendar')
+    }
+  }
+
+  /**
+   * Render sessions as an iCalendar document.
+   * Sessions generated from the same recurrence pattern collapse into one
+   * event with an RRULE; cancelled occurrences become EXDATEs and moved or
+   * re-pointed ones are overridden with a RECURRENCE-ID. Series in a time zone
+   * other than UTC come with a VTIMEZONE describing it over their dates.
+   */
+  buildCalendar(sessions: CalendarSession[], name?: string): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Havruta//Havruta Platform//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH'
+    ]
+    if (name) {
+      lines.push(`X-WR-CALNAME:${this.escapeText(name)}`)
+    }
+
+    const events: string[] = []
+    const series = new Map<string, CalendarSession[]>()
+    for (const session of sessions) {
+      const pattern = session.recurrencePattern
+      if (pattern && pattern.frequency !== 'once') {
+        const instances = series.get(pattern.id) || []
+        instances.push(session)
+        series.set(pattern.id, instances)
+      } else if (session.status !== 'cancelled') {
+        events.push(...this.buildEvent(session, `session-${session.id}`))
+      }
+    }
+
+    // The span of dates each time zone has to be described over
+    const zoneRanges = new Map<string, { from: number; to: number }>()
+
+    // Occurrences are placed in the series by when the pattern scheduled them
+    const plannedStart = (session: CalendarSession) => session.exception?.originalStartTime ?? session.startTime
+
+    for (const instances of series.values()) {
+      instances.sort((a, b) => plannedStart(a).getTime() - plannedStart(b).getTime())
+      const active = instances.filter(s => s.status !== 'cancelled')
+      if (active.length === 0) continue
+
+      const first = active[0]
+      const last = instances[instances.length - 1]
+      const pattern = first.recurrencePattern!
+      const uid = `pattern-${pattern.id}`
+      const timeZone = pattern.timeZone || DEFAULT_TIME_ZONE
+      const extraLines = [`RRULE:${this.toRRule(pattern, plannedStart(last))}`]
+
+      const cancelled = instances.filter(s => s.status === 'cancelled' && plannedStart(s) > plannedStart(first))
+      if (cancelled.length > 0) {
+        extraLines.push(`EXDATE:${cancelled.map(s => this.formatDate(plannedStart(s))).join(',')}`)
+      }
+
+      const planned = {
+        ...first,
+        startTime: plannedStart(first),
+        startingSection: first.exception ? first.exception.originalStartingSection : first.startingSection
+      }
+      events.push(...this.buildEvent(planned, uid, extraLines, timeZone))
+
+      for (const session of active.filter(s => s.exception)) {
+        const recurrenceId = this.formatDateProperty('RECURRENCE-ID', plannedStart(session), timeZone)
+        events.push(...this.buildEvent(session, uid, [recurrenceId], timeZone))
+      }
+
+      if (timeZone !== DEFAULT_TIME_ZONE) {
+        const times = [
+          ...instances.map(s => plannedStart(s).getTime()),
+          ...active.flatMap(s => [s.startTime.getTime(), s.endTime?.getTime() ?? s.startTime.getTime()]),
+          (pattern.endDate ?? plannedStart(last)).getTime()
+        ]
+        const range = zoneRanges.get(timeZone)
+        zoneRanges.set(timeZone, {
+          from: Math.min(range?.from ?? Infinity, ...times),
+          to: Math.max(range?.to ?? -Infinity, ...times)
+        })
+      }
+    }
+
+    for (const [timeZone, range] of zoneRanges) {
+      lines.push(...this.buildTimeZone(timeZone, range.from, range.to))
+    }
+    lines.push(...events, 'END:VCALENDAR')
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n'
+  }
+
+  /**
+   * Render a recurrence pattern as an RRULE value.
+   * Sessions are only generated up to a fixed number of instances, so
+   * open-ended patterns stop at the last generated session.
+   */
+  toRRule(pattern: RecurrencePattern, lastOccurrence?: Date): string {
+    const parts: string[] = []
+
+    switch (pattern.frequency) {
+      case 'daily':
+        parts.push('FREQ=DAILY', `INTERVAL=${pattern.interval}`)
+        break
+
+      case 'weekly':
+        parts.push('FREQ=WEEKLY', `INTERVAL=${pattern.interval}`)
+        break
+
+      case 'bi-weekly':
+        parts.push('FREQ=WEEKLY', `INTERVAL=${2 * pattern.interval}`)
+        break
+
+      case 'monthly':
+        parts.push('FREQ=MONTHLY', `INTERVAL=${pattern.interval}`)
+        break
+
+      default:
+        throw new Error(`Unsupported recurrence frequency: ${pattern.frequency}`)
+    }
+
+    if ((pattern.frequency === 'weekly' || pattern.frequency === 'bi-weekly') && pattern.daysOfWeek.length > 0) {
+      const days = [...pattern.daysOfWeek].sort((a, b) => a - b)
+      parts.push(`BYDAY=${days.map(day => DAY_CODES[day]).join(',')}`)
+    }
+
+    const until = pattern.endDate || lastOccurrence
+    if (until) {
+      parts.push(`UNTIL=${this.formatDate(until)}`)
+    }
+
+    return parts.join(';')
+  }
+
+  /**
+   * Read an ICS file or a bare RRULE and map it onto our recurrence model.
+   * Anything the model can't express (EXDATE, BYSETPOS, ...) is reported in
+   * `unsupported` rather than silently changing the schedule.
+   * Times without a TZID are read in the given default time zone.
+   */
+  parseRecurrence(input: string, defaultTimeZone: string = DEFAULT_TIME_ZONE): ParsedRecurrence {
+    // Unfold continuation lines before splitting
+    let lines = input.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    const unsupported: string[] = []
+
+    const eventStart = lines.findIndex(line => line.toUpperCase() === 'BEGIN:VEVENT')
+    if (eventStart !== -1) {
+      const eventEnd = lines.findIndex((line, index) => index > eventStart && line.toUpperCase() === 'END:VEVENT')
+      const otherEvents = lines.filter(line => line.toUpperCase() === 'BEGIN:VEVENT').length - 1
+      if (otherEvents > 0) {
+        unsupported.push(`${otherEvents} additional event${otherEvents === 1 ? '' : 's'} (only the first is imported)`)
+      }
+      lines = lines.slice(eventStart + 1, eventEnd === -1 ? undefined : eventEnd)
+    }
+
+    let startTime: Date | null = null
+    let rule: string | null = null
+    let timeZone = defaultTimeZone
+
+    for (const line of lines) {
+      if (/^FREQ=/i.test(line)) {
+        rule = line
+        continue
+      }
+
+      const separator = line.indexOf(':')
+      if (separator === -1) continue
+      const [rawName, ...params] = line.slice(0, separator).split(';')
+      const name = rawName.toUpperCase()
+      const value = line.slice(separator + 1).trim()
+
+      switch (name) {
+        case 'DTSTART': {
+          const tzid = params.find(param => param.toUpperCase().startsWith('TZID='))?.slice(5)
+          if (tzid && isValidTimeZone(tzid)) {
+            timeZone = tzid
+          } else if (tzid) {
+            unsupported.push(`TZID=${tzid} (unknown time zone, read as ${defaultTimeZone})`)
+          }
+          startTime = this.parseDateValue(value, timeZone)
+          break
+        }
+
+        case 'RRULE':
+          rule = value
+          break
+
+        case 'EXDATE':
+        case 'RDATE': {
+          const dates = value.split(',').length
+          unsupported.push(`${name} (${dates} date${dates === 1 ? '' : 's'})`)
+          break
+        }
+
+        case 'EXRULE':
+          unsupported.push(`EXRULE:${value}`)
+          break
+      }
+    }
+
+    if (!rule) {
+      if (!startTime) {
+        throw new Error('Invalid calendar: no RRULE or DTSTART found')
+      }
+      return {
+        startTime,
+        recurrencePattern: { frequency: 'once', interval: 1, daysOfWeek: [], timeZone },
+        count: null,
+        unsupported
+      }
+    }
+
+    const parts = new Map<string, string>()
+    for (const part of rule.split(';')) {
+      const [key, value = ''] = part.split('=')
+      if (key) parts.set(key.trim().toUpperCase(), value.trim().toUpperCase())
+    }
+
+    let interval = parseInt(parts.get('INTERVAL') || '1', 10)
+    if (isNaN(interval) || interval < 1) {
+      throw new Error(`Invalid calendar: INTERVAL=${parts.get('INTERVAL')}`)
+    }
+
+    const byDay = parts.get('BYDAY')?.split(',').filter(Boolean) || []
+    const plainDays = byDay.filter(day => DAY_CODES.includes(day)).map(day => DAY_CODES.indexOf(day))
+    if (plainDays.length < byDay.length) {
+      // Ordinal days such as 2MO ("second Monday") have no equivalent
+      unsupported.push(`BYDAY=${parts.get('BYDAY')}`)
+    }
+
+    const startParts = startTime ? getZonedParts(startTime, timeZone) : null
+
+    let frequency: CreateRecurrencePatternData['frequency']
+    let daysOfWeek: number[] = []
+
+    switch (parts.get('FREQ')) {
+      case 'DAILY':
+        if (plainDays.length > 0 && interval === 1) {
+          // "Every day, but only on these days" is a weekly pattern
+          frequency = 'weekly'
+          daysOfWeek = plainDays
+        } else {
+          frequency = 'daily'
+          if (byDay.length > 0 && plainDays.length === byDay.length) {
+            unsupported.push(`BYDAY=${parts.get('BYDAY')}`)
+          }
+        }
+        break
+
+      case 'WEEKLY':
+        frequency = interval === 2 ? 'bi-weekly' : 'weekly'
+        interval = interval === 2 ? 1 : interval
+        daysOfWeek = plainDays.length > 0 ? plainDays : (startParts ? [startParts.weekday] : [])
+        if (daysOfWeek.length === 0) {
+          throw new Error('Invalid calendar: weekly rules need BYDAY or a DTSTART')
+        }
+        break
+
+      case 'MONTHLY':
+        frequency = 'monthly'
+        if (byDay.length > 0 && plainDays.length === byDay.length) {
+          unsupported.push(`BYDAY=${parts.get('BYDAY')}`)
+        }
+        break
+
+      case 'YEARLY':
+        frequency = 'monthly'
+        interval *= 12
+        if (byDay.length > 0 && plainDays.length === byDay.length) {
+          unsupported.push(`BYDAY=${parts.get('BYDAY')}`)
+        }
+        break
+
+      default:
+        throw new Error(`Unsupported recurrence frequency: ${parts.get('FREQ') || 'missing FREQ'}`)
+    }
+
+    // BYMONTHDAY / BYMONTH are fine when they just restate the start date
+    const byMonthDay = parts.get('BYMONTHDAY')
+    if (byMonthDay && !(startParts && byMonthDay === String(startParts.day))) {
+      unsupported.push(`BYMONTHDAY=${byMonthDay}`)
+    }
+    const byMonth = parts.get('BYMONTH')
+    if (byMonth && !(startParts && byMonth === String(startParts.month))) {
+      unsupported.push(`BYMONTH=${byMonth}`)
+    }
+
+    for (const [key, value] of parts) {
+      if (['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT', 'BYMONTHDAY', 'BYMONTH', ...IGNORED_RULE_PARTS].includes(key)) continue
+      unsupported.push(`${key}=${value}`)
+    }
+
+    const until = parts.get('UNTIL')
+    const count = parts.has('COUNT') ? parseInt(parts.get('COUNT')!, 10) : null
+
+    return {
+      startTime,
+      recurrencePattern: {
+        frequency,
+        interval,
+        endDate: until ? this.parseDateValue(until, timeZone) : undefined,
+        daysOfWeek: daysOfWeek.sort((a, b) => a - b),
+        timeZone
+      },
+      count: count && count > 0 ? count : null,
+      unsupported
+    }
+  }
+
+  /**
+   * Parse an ICS date or date-time; anything not marked UTC is read in the time zone
+   */
+  private parseDateValue(value: string, timeZone: string): Date {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+    if (!match) {
+      throw new Error(`Invalid calendar: cannot read date ${value}`)
+    }
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match
+
+    return zonedTimeToUtc({
+      year: parseInt(year, 10),
+      month: parseInt(month, 10),
+      day: parseInt(day, 10),
+      hour: parseInt(hour, 10),
+      minute: parseInt(minute, 10),
+      second: parseInt(second, 10)
+    }, utc ? DEFAULT_TIME_ZONE : timeZone)
+  }
+
+  private buildEvent(
+    session: CalendarSession,
+    uid: string,
+    extraLines: string[] = [],
+    timeZone: string = DEFAULT_TIME_ZONE
+  ): string[] {
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000'
+    const endTime = session.endTime && session.endTime > session.startTime
+      ? session.endTime
+      : new Date(session.startTime.getTime() + DEFAULT_SESSION_MINUTES * 60 * 1000)
+    const description = session.startingSection
+      ? `Studying ${session.havruta.bookTitle} from ${session.startingSection}`
+      : `Studying ${session.havruta.bookTitle}`
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${uid}@havruta.app`,
+      `DTSTAMP:${this.formatDate(new Date())}`,
+      this.formatDateProperty('DTSTART', session.startTime, timeZone),
+      this.formatDateProperty('DTEND', endTime, timeZone),
+      ...extraLines,
+      `SUMMARY:${this.escapeText(`Havruta: ${session.havruta.name}`)}`,
+      `DESCRIPTION:${this.escapeText(description)}`,
+      `URL:${baseUrl}/dashboard`,
+      'END:VEVENT'
+    ]
+  }
+
+  /**
+   * Describe a time zone's UTC offsets between two instants as a VTIMEZONE,
+   * with one observance for the offset at the start and one per change after it
+   */
+  private buildTimeZone(timeZone: string, from: number, to: number): string[] {
+    const offsetAt = (time: number) => getTimeZoneOffset(new Date(time), timeZone)
+    const start = Math.floor((from - DAY_MS) / MINUTE_MS) * MINUTE_MS
+    const end = to + DAY_MS
+
+    let offset = offsetAt(start)
+    const changes = [{ time: start, from: offset, to: offset }]
+    for (let time = start; time < end; time += DAY_MS) {
+      const nextOffset = offsetAt(time + DAY_MS)
+      if (nextOffset === offset) continue
+
+      // Narrow the change down to the minute
+      let before = time
+      let after = time + DAY_MS
+      while (after - before > MINUTE_MS) {
+        const middle = before + Math.floor((after - before) / (2 * MINUTE_MS)) * MINUTE_MS
+        if (offsetAt(middle) === offset) {
+          before = middle
+        } else {
+          after = middle
+        }
+      }
+      changes.push({ time: after, from: offset, to: nextOffset })
+      offset = nextOffset
+    }
+
+    // Offsets above the zone's lowest one in the span are its daylight saving time
+    const standardOffset = Math.min(...changes.map(change => change.to))
+    const formatOffset = (value: number) => {
+      const minutes = Math.abs(value) / MINUTE_MS
+      const pad = (part: number) => String(part).padStart(2, '0')
+      return `${value < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`
+    }
+
+    return [
+      'BEGIN:VTIMEZONE',
+      `TZID:${timeZone}`,
+      ...changes.flatMap(change => {
+        const kind = change.to > standardOffset ? 'DAYLIGHT' : 'STANDARD'
+        return [
+          `BEGIN:${kind}`,
+          // Observances start at the wall-clock time before the change
+          `DTSTART:${this.formatDate(new Date(change.time + change.from)).slice(0, -1)}`,
+          `TZOFFSETFROM:${formatOffset(change.from)}`,
+          `TZOFFSETTO:${formatOffset(change.to)}`,
+          `END:${kind}`
+        ]
+      }),
+      'END:VTIMEZONE'
+    ]
+  }
+
+  // Recurring series carry their zone so calendars repeat them at the same local time across DST
+  private formatDateProperty(name: string, date: Date, timeZone: string): string {
+    if (timeZone === DEFAULT_TIME_ZONE) {
+      return `${name}:${this.formatDate(date)}`
+    }
+
+    const parts = getZonedParts(date, timeZone)
+    const pad = (value: number) => String(value).padStart(2, '0')
+    const local = `${parts.year}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`
+    return `${name};TZID=${timeZone}:${local}`
+  }
+
+  // e.g., 20251020T180000Z
+  private formatDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  }
+
+  private escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n')
+  }
+
+  // RFC 5545 limits content lines to 75 octets; longer lines continue after CRLF + space
+  private foldLine(line: string): string {
+    if (Buffer.byteLength(line) <= 75) {
+      return line
+    }
+
+    const chunks: string[] = []
+    let current = ''
+    for (const char of line) {
+      const limit = chunks.length === 0 ? 75 : 74
+      if (Buffer.byteLength(current + char) > limit) {
+        chunks.push(current)
+        current = ''
+      }
+      current += char
+    }
+    chunks.push(current)
+
+    return chunks.join('\r\n ')
+  }
+}
+
+export const calendarService = new CalendarService()
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { ChatMessage } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { sefariaService } from './sefariaService'
+import { z } from 'zod'
+
+// Validation schemas
+export const sendChatMessageSchema = z.object({
+  sessionId: z.string().min(1, 'Session ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  content: z.string().trim().min(1, 'Message cannot be empty').max(2000, 'Message must be less than 2000 characters')
+})
+
+export const getChatMessagesQuerySchema = z.object({
+  before: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(100)
+})
+
+export type SendChatMessageData = z.infer<typeof sendChatMessageSchema>
+export type GetChatMessagesQuery = z.infer<typeof getChatMessagesQuerySchema>
+
+export interface ChatMessageWithUser extends ChatMessage {
+  user: {
+    id: string
+    name: string
+    profilePicture?: string | null
+  }
+}
+
+const chatMessageInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      profilePicture: true
+    }
+  }
+}
+
+// Candidate refs: capitalized book name (optionally numbered, e.g. "1 Samuel") followed by a chapter/daf and optional verse
+const REF_PATTERN = /\b((?:[1-3] )?[A-Z][A-Za-z'’]*(?: (?:of )?[A-Z][A-Za-z'’]*)*) (\d+[ab]?)(?::(\d+))?\b/g
+
+// Capitalized words that commonly start a sentence right before a ref and are never part of a book title
+const LEADING_WORDS = new Set(['See', 'Compare', 'Check', 'Look', 'Read', 'Then', 'And', 'But', 'So', 'Also', 'In', 'At', 'From', 'On', 'Like', 'Per', 'Cf'])
+
+export class ChatService {
+  /**
+   * Store a chat message sent in a session
+   */
+  async sendMessage(data: SendChatMessageData): Promise<ChatMessageWithUser> {
+    try {
+      const validatedData = sendChatMessageSchema.parse(data)
+
+      const session = await this.verifySessionAccess(validatedData.sessionId, validatedData.userId)
+
+      return await prisma.chatMessage.create({
+        data: {
+          ...validatedData,
+          refs: this.extractRefs(validatedData.content, session.havruta.bookTitle)
+        },
+        include: chatMessageInclude
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error sending chat message:', error)
+      throw error instanceof Error ? error : new Error('Failed to send chat message')
+    }
+  }
+
+  /**
+   * Get chat messages for a session, oldest first
+   */
+  async getSessionMessages(sessionId: string, userId: string, query: Partial<GetChatMessagesQuery> = {}): Promise<ChatMessageWithUser[]> {
+    try {
+      const { before, limit } = getChatMessagesQuerySchema.parse(query)
+
+      await this.verifySessionAccess(sessionId, userId)
+
+      // Fetch the newest page, then return it in reading order
+      const messages = await prisma.chatMessage.findMany({
+        where: {
+          sessionId,
+          ...(before && { createdAt: { lt: new Date(before) } })
+        },
+        include: chatMessageInclude,
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      })
+
+      return messages.reverse()
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error fetching chat messages:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch chat messages')
+    }
+  }
+
+  /**
+   * Find Sefaria refs mentioned in a message.
+   * Bare chapter refs (e.g., "Genesis 3") are only accepted for the Havruta's own book
+   * to avoid linking ordinary phrases like "Room 5".
+   */
+  extractRefs(content: string, bookTitle?: string): string[] {
+    const refs = new Set<string>()
+
+    for (const match of content.matchAll(REF_PATTERN)) {
+      const [matched, book, location, verse] = match
+
+      // Drop leading words picked up before the book (e.g., "Then Genesis 1:3")
+      let candidate = matched
+      if (bookTitle && book !== bookTitle && book.endsWith(` ${bookTitle}`)) {
+        candidate = matched.slice(book.length - bookTitle.length)
+      } else {
+        while (LEADING_WORDS.has(candidate.split(' ')[0]) && candidate.split(' ').length > 2) {
+          candidate = candidate.slice(candidate.indexOf(' ') + 1)
+        }
+      }
+
+      const parsed = sefariaService.parseRef(candidate)
+
+      if (!parsed.book || parsed.chapter === undefined || isNaN(parsed.chapter)) continue
+
+      const isDaf = /[ab]$/.test(location)
+      if (verse === undefined && !isDaf && parsed.book !== bookTitle) continue
+
+      refs.add(candidate)
+    }
+
+    return Array.from(refs)
+  }
+
+  /**
+   * Verify that the user is a participant in the session's Havruta
+   */
+  private async verifySessionAccess(sessionId: string, userId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        havruta: {
+          select: {
+            id: true,
+            bookTitle: true
+          }
+        }
+      }
+    })
+    if (!session) {
+      throw new Error('Session not found')
+    }
+
+    const participant = await prisma.havrutaParticipant.findUnique({
+      where: {
+        userId_havrutaId: {
+          userId,
+          havrutaId: session.havrutaId
+        }
+      }
+    })
+    if (!participant) {
+      throw new Error('User does not have access to this session')
+    }
+
+    return session
+  }
+}
+
+export const chatService = new ChatService()
\ No newline at end of file
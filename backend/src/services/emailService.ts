@@ -8,6 +8,7 @@ export interface HavrutaInvitation {
   inviterName: string
   joinLink: string
   invitationToken: string
+  calendar?: string // ICS of the Havruta's upcoming sessions, attached when present
 }
 
 export interface InvitationResult {
@@ -17,6 +18,14 @@ export interface InvitationResult {
   newUsers: string[]
 }
 
+export interface NotificationEmail {
+  subject: string
+  message: string
+  actionUrl?: string
+  actionLabel?: string
+  calendar?: string // ICS for the session, attached when present
+}
+
 export interface EmailConfig {
   host: string
   port: number
@@ -122,7 +131,8 @@ export class EmailService {
         to: email.trim(),
         subject,
         text: textContent,
-        html: htmlContent
+        html: htmlContent,
+        attachments: this.getCalendarAttachments(invitation.calendar)
       })
 
       console.log(`Invitation email sent successfully to ${email}`)
@@ -132,6 +142,50 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send a notification email (session reminders, instant session invitations, etc.)
+   */
+  async sendNotificationEmail(email: string, notification: NotificationEmail): Promise<void> {
+    if (!this.isConfigured || !this.transporter) {
+      throw new Error('Email service is not configured')
+    }
+
+    if (!this.validateEmailFormat(email)) {
+      throw new Error('Invalid email format')
+    }
+
+    try {
+      await this.transporter.sendMail({
+        from: process.env.EMAIL_FROM || 'noreply@havruta.app',
+        to: email.trim(),
+        subject: notification.subject,
+        text: this.generateNotificationEmailText(notification),
+        html: this.generateNotificationEmailHTML(notification),
+        attachments: this.getCalendarAttachments(notification.calendar)
+      })
+
+      console.log(`Notification email sent successfully to ${email}`)
+    } catch (error) {
+      console.error(`Failed to send notification email to ${email}:`, error)
+      throw new Error(`Failed to send email to ${email}`)
+    }
+  }
+
+  /**
+   * Build the .ics attachment for an email, if there is a calendar to attach
+   */
+  private getCalendarAttachments(calendar?: string): nodemailer.SendMailOptions['attachments'] {
+    if (!calendar) {
+      return []
+    }
+
+    return [{
+      filename: 'havruta.ics',
+      content: calendar,
+      contentType: 'text/calendar; charset=utf-8; method=PUBLISH'
+    }]
+  }
+
   /**
    * Generate HTML content for invitation email
    */
@@ -251,6 +305,65 @@ If you have any questions, feel free to reach out to ${invitation.inviterName}.
 
 This invitation will expire in 7 days.
 
+© 2025 Havruta Platform
+    `.trim()
+  }
+
+  /**
+   * Generate HTML content for notification email
+   */
+  private generateNotificationEmailHTML(notification: NotificationEmail): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${notification.subject}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #1976d2; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background-color: #1976d2; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 20px 0; }
+          .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 14px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>📚 Havruta</h1>
+        </div>
+        
+        <div class="content">
+          <p>${notification.message}</p>
+          
+          ${notification.actionUrl ? `
+            <div style="text-align: center;">
+              <a href="${notification.actionUrl}" class="button">
+                ${notification.actionLabel || 'Open Havruta'}
+              </a>
+            </div>
+          ` : ''}
+        </div>
+        
+        <div class="footer">
+          <p>
+            <small>© 2025 Havruta Platform. You are receiving this email because you are a participant in this Havruta.</small>
+          </p>
+        </div>
+      </body>
+      </html>
+    `
+  }
+
+  /**
+   * Generate plain text content for notification email
+   */
+  private generateNotificationEmailText(notification: NotificationEmail): string {
+    return `
+${notification.message}
+${notification.actionUrl ? `
+${notification.actionLabel || 'Open Havruta'}: ${notification.actionUrl}
+` : ''}
 © 2025 Havruta Platform
     `.trim()
   }
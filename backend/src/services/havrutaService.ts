@@ -1,15 +1,21 @@
-import { Havruta, HavrutaParticipant } from '@prisma/client'
+import { Havruta, HavrutaParticipant, Prisma } from '@prisma/client'
 import { prisma } from '../utils/database'
 import { invitationService, InvitationResult } from './invitationService'
+import { permissionService, havrutaRoleSchema } from './permissionService'
+import { conflictStrategySchema } from './navigationConflictStrategies'
 import { z } from 'zod'
 
 // Validation schemas
+export const havrutaVisibilitySchema = z.enum(['private', 'link-only', 'public'])
+
 export const createHavrutaSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
   bookId: z.string().min(1, 'Book ID is required'),
   bookTitle: z.string().min(1, 'Book title is required'),
   ownerId: z.string().min(1, 'Owner ID is required'),
   lastPlace: z.string().optional().default(''),
+  visibility: havrutaVisibilitySchema.optional().default('private'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional().default(''),
   participantIds: z.array(z.string()).optional().default([])
 })
 
@@ -18,7 +24,10 @@ export const updateHavrutaSchema = z.object({
   lastPlace: z.string().optional(),
   isActive: z.boolean().optional(),
   lastStudiedAt: z.date().optional(),
-  totalSessions: z.number().int().min(0).optional()
+  totalSessions: z.number().int().min(0).optional(),
+  visibility: havrutaVisibilitySchema.optional(),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+  conflictStrategy: conflictStrategySchema.optional()
 })
 
 export const joinHavrutaSchema = z.object({
@@ -26,6 +35,10 @@ export const joinHavrutaSchema = z.object({
   havrutaId: z.string().min(1, 'Havruta ID is required')
 })
 
+export const updateParticipantRoleSchema = z.object({
+  role: havrutaRoleSchema.exclude(['owner'], { message: 'Use an ownership transfer to make someone the owner' })
+})
+
 export const getHavrutotQuerySchema = z.object({
   page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
   limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
@@ -37,6 +50,8 @@ export type CreateHavrutaData = z.infer<typeof createHavrutaSchema>
 export type UpdateHavrutaData = z.infer<typeof updateHavrutaSchema>
 export type JoinHavrutaData = z.infer<typeof joinHavrutaSchema>
 export type GetHavrutotQuery = z.infer<typeof getHavrutotQuerySchema>
+export type HavrutaVisibility = z.infer<typeof havrutaVisibilitySchema>
+export type UpdateParticipantRoleData = z.infer<typeof updateParticipantRoleSchema>
 
 export interface HavrutaWithRelations extends Havruta {
   owner: {
@@ -74,18 +89,22 @@ export interface HavrutaState {
   totalSessions: number
 }
 
+// Including the owner; large enough for a chabura of 15
+export const MAX_PARTICIPANTS = 15
+
 export class HavrutaService {
   /**
-   * Create a new Havruta
+   * Create a new Havruta. Pass tx to create it as part of a larger transaction.
    */
-  async createHavruta(data: CreateHavrutaData): Promise<HavrutaWithRelations> {
+  async createHavruta(data: CreateHavrutaData, tx?: Prisma.TransactionClient): Promise<HavrutaWithRelations> {
     try {
       // Validate input data
       const validatedData = createHavrutaSchema.parse(data)
       const { participantIds, ...havrutaData } = validatedData
+      const client = tx ?? prisma
 
       // Verify owner exists
-      const owner = await prisma.user.findUnique({
+      const owner = await client.user.findUnique({
         where: { id: validatedData.ownerId }
       })
       if (!owner) {
@@ -94,7 +113,7 @@ export class HavrutaService {
 
       // Verify all participants exist
       if (participantIds.length > 0) {
-        const participants = await prisma.user.findMany({
+        const participants = await client.user.findMany({
           where: { id: { in: participantIds } }
         })
         if (participants.length !== participantIds.length) {
@@ -102,13 +121,13 @@ export class HavrutaService {
         }
       }
 
-      // Validate participant limits (max 10 participants including owner)
-      if (participantIds.length > 9) {
-        throw new Error('Maximum 10 participants allowed (including owner)')
+      // Validate participant limits (the owner takes one place)
+      if (participantIds.length > MAX_PARTICIPANTS - 1) {
+        throw new Error(`Maximum ${MAX_PARTICIPANTS} participants allowed (including owner)`)
       }
 
       // Create Havruta with participants in a transaction
-      const havruta = await prisma.$transaction(async (tx) => {
+      const createRecords = async (tx: Prisma.TransactionClient) => {
         // Create the Havruta
         const newHavruta = await tx.havruta.create({
           data: havrutaData
@@ -129,15 +148,17 @@ export class HavrutaService {
         await tx.havrutaParticipant.create({
           data: {
             userId: validatedData.ownerId,
-            havrutaId: newHavruta.id
+            havrutaId: newHavruta.id,
+            role: 'owner'
           }
         })
 
         return newHavruta
-      })
+      }
+      const havruta = tx ? await createRecords(tx) : await prisma.$transaction(createRecords)
 
       // Return the created Havruta with relations
-      return await this.getHavrutaById(havruta.id) as HavrutaWithRelations
+      return await this.getHavrutaById(havruta.id, client) as HavrutaWithRelations
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
@@ -150,9 +171,12 @@ export class HavrutaService {
   /**
    * Get Havruta by ID with relations
    */
-  async getHavrutaById(havrutaId: string): Promise<HavrutaWithRelations | null> {
+  async getHavrutaById(
+    havrutaId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<HavrutaWithRelations | null> {
     try {
-      const havruta = await prisma.havruta.findUnique({
+      const havruta = await client.havruta.findUnique({
         where: { id: havrutaId },
         include: {
           owner: {
@@ -170,7 +194,8 @@ export class HavrutaService {
                   id: true,
                   name: true,
                   email: true,
-                  profilePicture: true
+                  profilePicture: true,
+                  timeZone: true
                 }
               }
             },
@@ -192,16 +217,16 @@ export class HavrutaService {
   }
 
   /**
-   * Join a Havruta
+   * Join a Havruta, optionally as part of a larger transaction
    */
-  async joinHavruta(data: JoinHavrutaData): Promise<HavrutaParticipant> {
+  async joinHavruta(data: JoinHavrutaData, client: Prisma.TransactionClient = prisma): Promise<HavrutaParticipant> {
     try {
       // Validate input data
       const validatedData = joinHavrutaSchema.parse(data)
       const { userId, havrutaId } = validatedData
 
       // Verify user exists
-      const user = await prisma.user.findUnique({
+      const user = await client.user.findUnique({
         where: { id: userId }
       })
       if (!user) {
@@ -209,7 +234,7 @@ export class HavrutaService {
       }
 
       // Verify Havruta exists and is active
-      const havruta = await prisma.havruta.findUnique({
+      const havruta = await client.havruta.findUnique({
         where: { id: havrutaId },
         include: {
           _count: {
@@ -224,13 +249,13 @@ export class HavrutaService {
         throw new Error('Cannot join inactive Havruta')
       }
 
-      // Check participant limit (max 10 including owner)
-      if (havruta._count.participants >= 10) {
-        throw new Error('Havruta is full (maximum 10 participants)')
+      // Check participant limit (including owner)
+      if (havruta._count.participants >= MAX_PARTICIPANTS) {
+        throw new Error(`Havruta is full (maximum ${MAX_PARTICIPANTS} participants)`)
       }
 
       // Check if user is already a participant
-      const existingParticipant = await prisma.havrutaParticipant.findUnique({
+      const existingParticipant = await client.havrutaParticipant.findUnique({
         where: {
           userId_havrutaId: {
             userId,
@@ -243,7 +268,7 @@ export class HavrutaService {
       }
 
       // Add user as participant
-      const participant = await prisma.havrutaParticipant.create({
+      const participant = await client.havrutaParticipant.create({
         data: {
           userId,
           havrutaId
@@ -286,40 +311,32 @@ export class HavrutaService {
         throw new Error('User is not a participant in this Havruta')
       }
 
-      // If user is the owner, transfer ownership or deactivate
-      if (havruta.ownerId === userId) {
-        // Find another participant to transfer ownership to
-        const otherParticipant = await prisma.havrutaParticipant.findFirst({
-          where: {
-            havrutaId,
-            userId: { not: userId }
-          },
-          include: { user: true }
-        })
-
-        if (otherParticipant) {
-          // Transfer ownership to another participant
-          await prisma.havruta.update({
-            where: { id: havrutaId },
-            data: { ownerId: otherParticipant.userId }
-          })
-        } else {
-          // No other participants, deactivate the Havruta
-          await prisma.havruta.update({
-            where: { id: havrutaId },
-            data: { isActive: false }
-          })
+      await prisma.$transaction(async (tx) => {
+        // If user is the owner, transfer ownership or deactivate
+        if (havruta.ownerId === userId) {
+          // Find another participant to transfer ownership to, preferring co-hosts
+          const successorId = await permissionService.getSuccessor(havrutaId, userId, undefined, tx)
+
+          if (successorId) {
+            await permissionService.transferOwnership(havrutaId, userId, successorId, tx)
+          } else {
+            // No other participants, deactivate the Havruta
+            await tx.havruta.update({
+              where: { id: havrutaId },
+              data: { isActive: false }
+            })
+          }
         }
-      }
 
-      // Remove participant
-      await prisma.havrutaParticipant.delete({
-        where: {
-          userId_havrutaId: {
-            userId,
-            havrutaId
+        // Remove participant
+        await tx.havrutaParticipant.delete({
+          where: {
+            userId_havrutaId: {
+              userId,
+              havrutaId
+            }
           }
-        }
+        })
       })
     } catch (error) {
       console.error('Error leaving Havruta:', error)
@@ -341,8 +358,8 @@ export class HavrutaService {
       if (!havruta) {
         throw new Error('Havruta not found')
       }
-      if (havruta.ownerId !== userId) {
-        throw new Error('Only the owner can update this Havruta')
+      if (!await permissionService.hasPermission(havrutaId, userId, 'updateHavruta')) {
+        throw new Error('Only the owner or a co-host can update this Havruta')
       }
 
       // Update Havruta
@@ -374,7 +391,7 @@ export class HavrutaService {
       if (!havruta) {
         throw new Error('Havruta not found')
       }
-      if (havruta.ownerId !== userId) {
+      if (!await permissionService.hasPermission(havrutaId, userId, 'deleteHavruta')) {
         throw new Error('Only the owner can delete this Havruta')
       }
 
@@ -388,6 +405,83 @@ export class HavrutaService {
     }
   }
 
+  /**
+   * Make a participant a co-host, participant or observer (owner only)
+   */
+  async updateParticipantRole(
+    havrutaId: string,
+    participantUserId: string,
+    data: UpdateParticipantRoleData,
+    userId: string
+  ): Promise<HavrutaParticipant> {
+    try {
+      const { role } = updateParticipantRoleSchema.parse(data)
+
+      if (!await permissionService.hasPermission(havrutaId, userId, 'manageRoles')) {
+        throw new Error('Only the owner can change participant roles')
+      }
+      if (participantUserId === userId) {
+        throw new Error('Transfer ownership before changing your own role')
+      }
+
+      const participant = await prisma.havrutaParticipant.findUnique({
+        where: {
+          userId_havrutaId: {
+            userId: participantUserId,
+            havrutaId
+          }
+        }
+      })
+      if (!participant) {
+        throw new Error('Participant not found')
+      }
+
+      return await prisma.havrutaParticipant.update({
+        where: { id: participant.id },
+        data: { role }
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error updating participant role:', error)
+      throw error instanceof Error ? error : new Error('Failed to update participant role')
+    }
+  }
+
+  /**
+   * Hand ownership to another participant (owner only). The previous owner
+   * stays on as a co-host.
+   */
+  async transferOwnership(havrutaId: string, newOwnerId: string, userId: string): Promise<HavrutaWithRelations> {
+    try {
+      const havruta = await prisma.havruta.findUnique({
+        where: { id: havrutaId }
+      })
+      if (!havruta) {
+        throw new Error('Havruta not found')
+      }
+      if (havruta.ownerId !== userId) {
+        throw new Error('Only the owner can transfer ownership')
+      }
+      if (newOwnerId === userId) {
+        throw new Error('User is already the owner of this Havruta')
+      }
+      if (!await permissionService.getRole(havrutaId, newOwnerId)) {
+        throw new Error('Participant not found')
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await permissionService.transferOwnership(havrutaId, userId, newOwnerId, tx)
+      })
+
+      return await this.getHavrutaById(havrutaId) as HavrutaWithRelations
+    } catch (error) {
+      console.error('Error transferring Havruta ownership:', error)
+      throw error instanceof Error ? error : new Error('Failed to transfer ownership')
+    }
+  }
+
   /**
    * Get Havrutot for a user (created or participating)
    */
@@ -453,7 +547,8 @@ export class HavrutaService {
                   id: true,
                   name: true,
                   email: true,
-                  profilePicture: true
+                  profilePicture: true,
+                  timeZone: true
                 }
               }
             },
@@ -612,7 +707,8 @@ export class HavrutaService {
                   id: true,
                   name: true,
                   email: true,
-                  profilePicture: true
+                  profilePicture: true,
+                  timeZone: true
                 }
               }
             },
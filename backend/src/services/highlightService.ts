@@ -0,0 +1,137 @@
+import { Highlight } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { SharedContentService } from './sharedContentService'
+import { z } from 'zod'
+
+// Validation schemas
+export const createHighlightSchema = z.object({
+  havrutaId: z.string().min(1, 'Havruta ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  ref: z.string().min(1, 'Reference is required'),
+  language: z.enum(['en', 'he']),
+  startIndex: z.number().int().min(0, 'Start index must be non-negative'),
+  endIndex: z.number().int().min(1, 'End index must be positive'),
+  text: z.string().min(1, 'Highlighted text is required').max(2000, 'Highlighted text must be less than 2000 characters'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #ffeb3b')
+}).refine(data => data.endIndex > data.startIndex, {
+  message: 'End index must be after start index'
+})
+
+export const getHighlightsQuerySchema = z.object({
+  ref: z.string().optional()
+})
+
+export type CreateHighlightData = z.infer<typeof createHighlightSchema>
+export type GetHighlightsQuery = z.infer<typeof getHighlightsQuerySchema>
+
+export interface HighlightWithUser extends Highlight {
+  user: {
+    id: string
+    name: string
+  }
+}
+
+const highlightInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+}
+
+export class HighlightService extends SharedContentService {
+  /**
+   * Highlight a span of text and share it with the Havruta
+   */
+  async createHighlight(data: CreateHighlightData): Promise<HighlightWithUser> {
+    try {
+      const validatedData = createHighlightSchema.parse(data)
+
+      await this.verifyParticipant(validatedData.havrutaId, validatedData.userId)
+
+      const highlight = await prisma.highlight.create({
+        data: validatedData,
+        include: highlightInclude
+      })
+
+      this.broadcast(highlight.havrutaId, 'highlight-created', highlight)
+
+      return highlight
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error creating highlight:', error)
+      throw error instanceof Error ? error : new Error('Failed to create highlight')
+    }
+  }
+
+  /**
+   * Get highlights for a Havruta, optionally limited to a ref and the lines beneath it
+   */
+  async getHighlights(havrutaId: string, userId: string, query: Partial<GetHighlightsQuery> = {}): Promise<HighlightWithUser[]> {
+    try {
+      const { ref } = getHighlightsQuerySchema.parse(query)
+
+      await this.verifyParticipant(havrutaId, userId)
+
+      return await prisma.highlight.findMany({
+        where: {
+          havrutaId,
+          ...(ref ? {
+            OR: [
+              { ref },
+              { ref: { startsWith: `${ref}:` } }
+            ]
+          } : {})
+        },
+        include: highlightInclude,
+        orderBy: { createdAt: 'asc' }
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error fetching highlights:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch highlights')
+    }
+  }
+
+  /**
+   * Remove a highlight (by its author or the Havruta owner)
+   */
+  async deleteHighlight(havrutaId: string, highlightId: string, userId: string): Promise<void> {
+    try {
+      const existing = await prisma.highlight.findUnique({
+        where: { id: highlightId },
+        include: {
+          havruta: {
+            select: { ownerId: true }
+          }
+        }
+      })
+      if (!existing || existing.havrutaId !== havrutaId) {
+        throw new Error('Highlight not found')
+      }
+      if (!this.canRemove(userId, existing)) {
+        throw new Error('Only the author or the Havruta owner can remove this highlight')
+      }
+
+      await prisma.highlight.delete({
+        where: { id: highlightId }
+      })
+
+      this.broadcast(existing.havrutaId, 'highlight-deleted', {
+        id: existing.id,
+        havrutaId: existing.havrutaId,
+        ref: existing.ref
+      })
+    } catch (error) {
+      console.error('Error deleting highlight:', error)
+      throw error instanceof Error ? error : new Error('Failed to delete highlight')
+    }
+  }
+}
+
+export const highlightService = new HighlightService()
\ No newline at end of file
@@ -1,6 +1,9 @@
-import { Invitation } from '@prisma/client'
+import { Invitation, InviteLink } from '@prisma/client'
 import { prisma } from '../utils/database'
 import { emailService } from './emailService'
+import { calendarService } from './calendarService'
+import { permissionService, roleHasPermission, HavrutaRole } from './permissionService'
+import { MAX_PARTICIPANTS } from './havrutaService'
 
 import { z } from 'zod'
 import crypto from 'crypto'
@@ -27,6 +30,34 @@ export interface InvitationWithRelations extends Invitation {
   }
 }
 
+export interface InviteLinkWithUses extends InviteLink {
+  uses: Array<{
+    id: string
+    joinedAt: Date
+    user: {
+      id: string
+      name: string
+      email: string
+      profilePicture?: string | null
+    }
+  }>
+}
+
+export interface InviteLinkWithRelations extends InviteLink {
+  createdBy: {
+    id: string
+    name: string
+    profilePicture?: string | null
+  }
+  havruta: {
+    id: string
+    name: string
+    bookTitle: string
+    ownerId: string
+    isActive: boolean
+  }
+}
+
 const inviteParticipantsSchema = z.object({
   havrutaId: z.string().min(1, 'Havruta ID is required'),
   emails: z.array(z.string().email('Invalid email format')).min(1, 'At least one email is required'),
@@ -38,8 +69,30 @@ const acceptInvitationSchema = z.object({
   userId: z.string().min(1, 'User ID is required')
 })
 
+const createInviteLinkSchema = z.object({
+  maxUses: z.number().int().min(1, 'Max uses must be at least 1').max(1000, 'Max uses must be at most 1000').nullable().optional(),
+  expiresInDays: z.number().int().min(1, 'Links must last at least a day').max(365, 'Links can last at most a year').nullable().optional()
+})
+
 export type InviteParticipantsData = z.infer<typeof inviteParticipantsSchema>
 export type AcceptInvitationData = z.infer<typeof acceptInvitationSchema>
+export type CreateInviteLinkData = z.input<typeof createInviteLinkSchema>
+
+const inviteLinkUsesInclude = {
+  uses: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          profilePicture: true
+        }
+      }
+    },
+    orderBy: { joinedAt: 'asc' as const }
+  }
+}
 
 export class InvitationService {
   /**
@@ -93,26 +146,14 @@ export class InvitationService {
         throw new Error('Havruta not found')
       }
 
-      // Check if inviter is a participant (owner or member)
-      const isParticipant = havruta.ownerId === inviterUserId || 
-        havruta.participants.some(p => p.user.email === inviterUserId)
-      
-      if (!isParticipant) {
-        // Get inviter user to check by user ID
-        const inviterUser = await prisma.user.findUnique({
-          where: { id: inviterUserId }
-        })
-        
-        if (!inviterUser) {
-          throw new Error('Inviter not found')
-        }
-
-        const isParticipantByUserId = havruta.ownerId === inviterUserId || 
-          havruta.participants.some(p => p.userId === inviterUserId)
-
-        if (!isParticipantByUserId) {
-          throw new Error('Only participants can invite others to this Havruta')
-        }
+      // Check the inviter's role (observers can't invite)
+      const inviter = havruta.participants.find(p => p.userId === inviterUserId)
+      const inviterRole = havruta.ownerId === inviterUserId ? 'owner' : inviter?.role as HavrutaRole | undefined
+      if (!inviterRole) {
+        throw new Error('Only participants can invite others to this Havruta')
+      }
+      if (!roleHasPermission(inviterRole, 'invite')) {
+        throw new Error('Observers cannot invite others to this Havruta')
       }
 
       // Get current participant emails to avoid duplicate invitations
@@ -141,6 +182,9 @@ export class InvitationService {
         newUsers: []
       }
 
+      // Attach the Havruta's upcoming sessions to invitation emails when there are any
+      const calendar = await calendarService.getHavrutaCalendar(havrutaId).catch(() => null)
+
       // Process each email
       for (const email of uniqueEmails) {
         try {
@@ -240,7 +284,8 @@ export class InvitationService {
                 bookTitle: havruta.bookTitle,
                 inviterName: havruta.owner.name,
                 joinLink,
-                invitationToken
+                invitationToken,
+                calendar: calendar || undefined
               }, true) // isNewUser = true
 
               result.newUsers.push(email)
@@ -473,6 +518,230 @@ export class InvitationService {
     }
   }
 
+  /**
+   * Create a reusable invite link for a Havruta (owner or co-host)
+   */
+  async createInviteLink(havrutaId: string, userId: string, data: CreateInviteLinkData = {}): Promise<InviteLinkWithUses> {
+    try {
+      const { maxUses, expiresInDays } = createInviteLinkSchema.parse(data)
+
+      const havruta = await prisma.havruta.findUnique({
+        where: { id: havrutaId }
+      })
+      if (!havruta) {
+        throw new Error('Havruta not found')
+      }
+      if (!await permissionService.hasPermission(havrutaId, userId, 'manageInviteLinks')) {
+        throw new Error('Only the owner or a co-host can create invite links')
+      }
+
+      let expiresAt: Date | null = null
+      if (expiresInDays) {
+        expiresAt = new Date()
+        expiresAt.setDate(expiresAt.getDate() + expiresInDays)
+      }
+
+      return await prisma.inviteLink.create({
+        data: {
+          token: this.generateInvitationToken(),
+          maxUses: maxUses ?? null,
+          expiresAt,
+          createdById: userId,
+          havrutaId
+        },
+        include: inviteLinkUsesInclude
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error creating invite link:', error)
+      throw error instanceof Error ? error : new Error('Failed to create invite link')
+    }
+  }
+
+  /**
+   * Get a Havruta's invite links and who joined through each (owner or co-host)
+   */
+  async getInviteLinks(havrutaId: string, userId: string): Promise<InviteLinkWithUses[]> {
+    try {
+      const havruta = await prisma.havruta.findUnique({
+        where: { id: havrutaId }
+      })
+      if (!havruta) {
+        throw new Error('Havruta not found')
+      }
+      if (!await permissionService.hasPermission(havrutaId, userId, 'manageInviteLinks')) {
+        throw new Error('Only the owner or a co-host can view invite links')
+      }
+
+      return await prisma.inviteLink.findMany({
+        where: { havrutaId },
+        include: inviteLinkUsesInclude,
+        orderBy: { createdAt: 'desc' }
+      })
+    } catch (error) {
+      console.error('Error fetching invite links:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch invite links')
+    }
+  }
+
+  /**
+   * Stop an invite link from letting anyone else in (owner or co-host)
+   */
+  async revokeInviteLink(havrutaId: string, linkId: string, userId: string): Promise<void> {
+    try {
+      const link = await prisma.inviteLink.findUnique({
+        where: { id: linkId }
+      })
+      if (!link || link.havrutaId !== havrutaId) {
+        throw new Error('Invite link not found')
+      }
+      if (!await permissionService.hasPermission(havrutaId, userId, 'manageInviteLinks')) {
+        throw new Error('Only the owner or a co-host can revoke invite links')
+      }
+      if (link.revokedAt) {
+        return
+      }
+
+      await prisma.inviteLink.update({
+        where: { id: linkId },
+        data: { revokedAt: new Date() }
+      })
+    } catch (error) {
+      console.error('Error revoking invite link:', error)
+      throw error instanceof Error ? error : new Error('Failed to revoke invite link')
+    }
+  }
+
+  /**
+   * Get invite link by token
+   */
+  async getInviteLinkByToken(token: string): Promise<InviteLinkWithRelations | null> {
+    try {
+      return await prisma.inviteLink.findUnique({
+        where: { token },
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              profilePicture: true
+            }
+          },
+          havruta: {
+            select: {
+              id: true,
+              name: true,
+              bookTitle: true,
+              ownerId: true,
+              isActive: true
+            }
+          }
+        }
+      })
+    } catch (error) {
+      console.error('Error fetching invite link by token:', error)
+      throw new Error('Failed to fetch invitation')
+    }
+  }
+
+  /**
+   * Join a Havruta through an invite link. Returns the Havruta ID.
+   */
+  async acceptInviteLink(data: AcceptInvitationData): Promise<string> {
+    try {
+      const { token, userId } = acceptInvitationSchema.parse(data)
+
+      const link = await prisma.inviteLink.findUnique({
+        where: { token },
+        include: {
+          havruta: {
+            include: {
+              _count: { select: { participants: true } }
+            }
+          }
+        }
+      })
+
+      if (!link) {
+        throw new Error('Invitation not found')
+      }
+      if (link.revokedAt) {
+        throw new Error('Invitation is no longer valid')
+      }
+      if (link.expiresAt && link.expiresAt < new Date()) {
+        throw new Error('Invitation has expired')
+      }
+      if (!link.havruta.isActive) {
+        throw new Error('Cannot join inactive Havruta')
+      }
+
+      const existingParticipant = await prisma.havrutaParticipant.findUnique({
+        where: {
+          userId_havrutaId: {
+            userId,
+            havrutaId: link.havrutaId
+          }
+        }
+      })
+      if (existingParticipant) {
+        return link.havrutaId
+      }
+
+      if (link.havruta._count.participants >= MAX_PARTICIPANTS) {
+        throw new Error(`Havruta is full (maximum ${MAX_PARTICIPANTS} participants)`)
+      }
+
+      // Someone who left and comes back through the same link doesn't use it up again
+      const previousUse = await prisma.inviteLinkUse.findUnique({
+        where: { linkId_userId: { linkId: link.id, userId } }
+      })
+      if (!previousUse && link.maxUses !== null && link.useCount >= link.maxUses) {
+        throw new Error('Invitation link has reached its maximum uses')
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.havrutaParticipant.create({
+          data: {
+            userId,
+            havrutaId: link.havrutaId
+          }
+        })
+
+        if (previousUse) {
+          await tx.inviteLinkUse.update({
+            where: { id: previousUse.id },
+            data: { joinedAt: new Date() }
+          })
+        } else {
+          // Claim a use only while one is left, so concurrent joins can't overshoot maxUses
+          const claimed = await tx.inviteLink.updateMany({
+            where: {
+              id: link.id,
+              OR: [{ maxUses: null }, { useCount: { lt: link.maxUses ?? undefined } }]
+            },
+            data: { useCount: { increment: 1 } }
+          })
+          if (claimed.count === 0) {
+            throw new Error('Invitation link has reached its maximum uses')
+          }
+          await tx.inviteLinkUse.create({
+            data: { linkId: link.id, userId }
+          })
+        }
+      })
+
+      return link.havrutaId
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error accepting invite link:', error)
+      throw error instanceof Error ? error : new Error('Failed to accept invitation')
+    }
+  }
+
   /**
    * Clean up expired invitations (call this periodically)
    */
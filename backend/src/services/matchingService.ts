@@ -0,0 +1,410 @@
+import { MatchRequest, MatchingProfile } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { havrutaService } from './havrutaService'
+import { DEFAULT_TIME_ZONE, getTimeZoneOffset } from '../utils/timeZone'
+import { z } from 'zod'
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be in HH:MM format')
+
+// Validation schemas
+export const matchingProfileSchema = z.object({
+  books: z.array(z.string().trim().min(1))
+    .min(1, 'Choose at least one book')
+    .max(20, 'Choose at most 20 books'),
+  language: z.enum(['hebrew', 'english', 'either']).default('either'),
+  level: z.enum(['beginner', 'intermediate', 'advanced']).default('beginner'),
+  availability: z.array(z.object({
+    day: z.number().int().min(0).max(6),
+    start: timeOfDay,
+    end: timeOfDay
+  }).refine(window => window.start < window.end, 'Time windows must end after they start'))
+    .max(21, 'At most 21 time windows')
+    .default([]),
+  bio: z.string().trim().max(500, 'Bio must be at most 500 characters').default(''),
+  isPublished: z.boolean().default(true)
+})
+
+export const matchRequestSchema = z.object({
+  recipientId: z.string().min(1, 'Recipient ID is required'),
+  bookTitle: z.string().trim().min(1, 'Book title is required')
+})
+
+export type MatchingProfileData = z.input<typeof matchingProfileSchema>
+export type MatchingLanguage = 'hebrew' | 'english' | 'either'
+export type MatchingLevel = 'beginner' | 'intermediate' | 'advanced'
+
+export interface AvailabilityWindow {
+  day: number // 0=Sunday ... 6=Saturday
+  start: string // "HH:MM"
+  end: string // "HH:MM"
+}
+
+export interface MatchCandidate {
+  books: string[]
+  language: string
+  level: string
+  availability: AvailabilityWindow[]
+  timeZone: string
+}
+
+export interface MatchSuggestion {
+  user: {
+    id: string
+    name: string
+    profilePicture: string | null
+    timeZone: string
+  }
+  profile: {
+    books: string[]
+    language: string
+    level: string
+    bio: string
+  }
+  sharedBooks: string[]
+  overlapMinutes: number // Weekly minutes both are free
+  score: number
+}
+
+const LEVELS: MatchingLevel[] = ['beginner', 'intermediate', 'advanced']
+const WEEK_MINUTES = 7 * 24 * 60
+
+const publicUserSelect = {
+  id: true,
+  name: true,
+  profilePicture: true,
+  timeZone: true
+}
+
+export class MatchingService {
+  /**
+   * Get the user's matching profile, or null if they haven't created one
+   */
+  async getProfile(userId: string): Promise<MatchingProfile | null> {
+    try {
+      return await prisma.matchingProfile.findUnique({
+        where: { userId }
+      })
+    } catch (error) {
+      console.error('Error fetching matching profile:', error)
+      throw new Error('Failed to fetch matching profile')
+    }
+  }
+
+  /**
+   * Create or replace the user's matching profile
+   */
+  async upsertProfile(userId: string, data: MatchingProfileData): Promise<MatchingProfile> {
+    try {
+      const validatedData = matchingProfileSchema.parse(data)
+      const profileData = {
+        ...validatedData,
+        books: [...new Set(validatedData.books)]
+      }
+
+      return await prisma.matchingProfile.upsert({
+        where: { userId },
+        create: { userId, ...profileData },
+        update: profileData
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error saving matching profile:', error)
+      throw new Error('Failed to save matching profile')
+    }
+  }
+
+  /**
+   * Suggest partners who share a book and a language, best matches first.
+   * People the user has already sent, received or declined a request from are left out.
+   */
+  async getSuggestions(userId: string, limit: number = 10): Promise<MatchSuggestion[]> {
+    try {
+      const profile = await prisma.matchingProfile.findUnique({
+        where: { userId },
+        include: { user: { select: publicUserSelect } }
+      })
+      if (!profile) {
+        throw new Error('Create a matching profile first')
+      }
+
+      const requests = await prisma.matchRequest.findMany({
+        where: {
+          OR: [{ requesterId: userId }, { recipientId: userId }]
+        },
+        select: { requesterId: true, recipientId: true }
+      })
+      const excludedIds = new Set(requests.flatMap(request => [request.requesterId, request.recipientId]))
+      excludedIds.add(userId)
+
+      const candidates = await prisma.matchingProfile.findMany({
+        where: {
+          isPublished: true,
+          userId: { notIn: [...excludedIds] },
+          books: { hasSome: profile.books }
+        },
+        include: { user: { select: publicUserSelect } }
+      })
+
+      const self = this.toCandidate(profile, profile.user.timeZone)
+      const suggestions: MatchSuggestion[] = []
+      for (const candidate of candidates) {
+        const match = this.scoreMatch(self, this.toCandidate(candidate, candidate.user.timeZone))
+        if (!match) continue
+
+        suggestions.push({
+          user: candidate.user,
+          profile: {
+            books: candidate.books,
+            language: candidate.language,
+            level: candidate.level,
+            bio: candidate.bio
+          },
+          ...match
+        })
+      }
+
+      return suggestions
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+    } catch (error) {
+      console.error('Error fetching match suggestions:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch match suggestions')
+    }
+  }
+
+  /**
+   * Score how well two learners fit: shared books matter most, then how many
+   * hours a week they are both free, then how close their levels are.
+   * Returns null when they share no book or speak different languages.
+   */
+  scoreMatch(
+    a: MatchCandidate,
+    b: MatchCandidate
+  ): { sharedBooks: string[]; overlapMinutes: number; score: number } | null {
+    const sharedBooks = a.books.filter(book => b.books.includes(book))
+    if (sharedBooks.length === 0) {
+      return null
+    }
+    if (a.language !== 'either' && b.language !== 'either' && a.language !== b.language) {
+      return null
+    }
+
+    const levelGap = Math.abs(LEVELS.indexOf(a.level as MatchingLevel) - LEVELS.indexOf(b.level as MatchingLevel))
+    const overlapMinutes = this.getOverlapMinutes(a, b)
+
+    const score = sharedBooks.length * 3 +
+      (2 - levelGap) +
+      Math.min(overlapMinutes / 60, 5)
+
+    return { sharedBooks, overlapMinutes, score: Math.round(score * 10) / 10 }
+  }
+
+  /**
+   * Ask someone to learn a shared book together. If they already asked first,
+   * that counts as mutual acceptance and the Havruta is created right away.
+   */
+  async sendRequest(
+    userId: string,
+    data: { recipientId: string; bookTitle: string }
+  ): Promise<{ request: MatchRequest; havrutaId: string | null }> {
+    try {
+      const { recipientId, bookTitle } = matchRequestSchema.parse(data)
+
+      if (recipientId === userId) {
+        throw new Error('Validation error: You cannot match with yourself')
+      }
+
+      const [profile, recipientProfile] = await Promise.all([
+        prisma.matchingProfile.findUnique({ where: { userId } }),
+        prisma.matchingProfile.findUnique({ where: { userId: recipientId } })
+      ])
+      if (!profile) {
+        throw new Error('Create a matching profile first')
+      }
+      if (!recipientProfile || !recipientProfile.isPublished) {
+        throw new Error('Matching profile not found')
+      }
+      if (!profile.books.includes(bookTitle) || !recipientProfile.books.includes(bookTitle)) {
+        throw new Error('Validation error: Both profiles must include the book')
+      }
+
+      const existing = await prisma.matchRequest.findUnique({
+        where: {
+          requesterId_recipientId_bookTitle: { requesterId: userId, recipientId, bookTitle }
+        }
+      })
+      if (existing) {
+        throw new Error('Match request already sent')
+      }
+
+      const reverse = await prisma.matchRequest.findUnique({
+        where: {
+          requesterId_recipientId_bookTitle: { requesterId: recipientId, recipientId: userId, bookTitle }
+        }
+      })
+      if (reverse && reverse.status === 'pending') {
+        const accepted = await this.acceptRequest(reverse)
+        return { request: accepted, havrutaId: accepted.havrutaId }
+      }
+      if (reverse) {
+        throw new Error(`Match request already ${reverse.status}`)
+      }
+
+      const request = await prisma.matchRequest.create({
+        data: { requesterId: userId, recipientId, bookTitle }
+      })
+      return { request, havrutaId: null }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error sending match request:', error)
+      throw error instanceof Error ? error : new Error('Failed to send match request')
+    }
+  }
+
+  /**
+   * Get the user's pending requests, both received and sent
+   */
+  async getRequests(userId: string): Promise<{
+    incoming: Array<MatchRequest & { requester: MatchSuggestion['user'] }>
+    outgoing: Array<MatchRequest & { recipient: MatchSuggestion['user'] }>
+  }> {
+    try {
+      const [incoming, outgoing] = await Promise.all([
+        prisma.matchRequest.findMany({
+          where: { recipientId: userId, status: 'pending' },
+          include: { requester: { select: publicUserSelect } },
+          orderBy: { createdAt: 'desc' }
+        }),
+        prisma.matchRequest.findMany({
+          where: { requesterId: userId, status: 'pending' },
+          include: { recipient: { select: publicUserSelect } },
+          orderBy: { createdAt: 'desc' }
+        })
+      ])
+
+      return { incoming, outgoing }
+    } catch (error) {
+      console.error('Error fetching match requests:', error)
+      throw new Error('Failed to fetch match requests')
+    }
+  }
+
+  /**
+   * Accept or decline a request sent to the user (recipient only)
+   */
+  async respondToRequest(requestId: string, userId: string, accept: boolean): Promise<MatchRequest> {
+    try {
+      const request = await prisma.matchRequest.findUnique({
+        where: { id: requestId }
+      })
+      if (!request) {
+        throw new Error('Match request not found')
+      }
+      if (request.recipientId !== userId) {
+        throw new Error('Only the recipient can respond to a match request')
+      }
+      if (request.status !== 'pending') {
+        throw new Error(`Match request already ${request.status}`)
+      }
+
+      if (accept) {
+        return await this.acceptRequest(request)
+      }
+
+      return await prisma.matchRequest.update({
+        where: { id: requestId },
+        data: { status: 'declined', respondedAt: new Date() }
+      })
+    } catch (error) {
+      console.error('Error responding to match request:', error)
+      throw error instanceof Error ? error : new Error('Failed to respond to match request')
+    }
+  }
+
+  // Both sides said yes: the requester owns the new Havruta and the recipient joins it
+  private async acceptRequest(request: MatchRequest): Promise<MatchRequest> {
+    return await prisma.$transaction(async (tx) => {
+      // Claim the request first so a double-submitted accept can't create a second Havruta
+      const claimed = await tx.matchRequest.updateMany({
+        where: { id: request.id, status: 'pending' },
+        data: { status: 'accepted', respondedAt: new Date() }
+      })
+      if (claimed.count === 0) {
+        throw new Error('Match request has already been answered')
+      }
+
+      const havruta = await havrutaService.createHavruta({
+        name: `${request.bookTitle} Havruta`,
+        bookId: request.bookTitle,
+        bookTitle: request.bookTitle,
+        ownerId: request.requesterId,
+        lastPlace: '',
+        visibility: 'private',
+        description: '',
+        participantIds: []
+      }, tx)
+      await havrutaService.joinHavruta({
+        userId: request.recipientId,
+        havrutaId: havruta.id
+      }, tx)
+
+      return await tx.matchRequest.update({
+        where: { id: request.id },
+        data: { havrutaId: havruta.id }
+      })
+    })
+  }
+
+  private toCandidate(profile: MatchingProfile, timeZone: string): MatchCandidate {
+    return {
+      books: profile.books,
+      language: profile.language,
+      level: profile.level,
+      availability: (profile.availability as unknown as AvailabilityWindow[]) || [],
+      timeZone: timeZone || DEFAULT_TIME_ZONE
+    }
+  }
+
+  // Compare weekly windows on a common UTC week, using each zone's current offset
+  private getOverlapMinutes(a: MatchCandidate, b: MatchCandidate): number {
+    const segmentsA = this.toWeekSegments(a.availability, a.timeZone)
+    const segmentsB = this.toWeekSegments(b.availability, b.timeZone)
+
+    let overlap = 0
+    for (const [startA, endA] of segmentsA) {
+      for (const [startB, endB] of segmentsB) {
+        overlap += Math.max(0, Math.min(endA, endB) - Math.max(startA, startB))
+      }
+    }
+    return overlap
+  }
+
+  private toWeekSegments(windows: AvailabilityWindow[], timeZone: string): Array<[number, number]> {
+    const offsetMinutes = getTimeZoneOffset(new Date(), timeZone) / 60000
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number)
+      return hours * 60 + minutes
+    }
+
+    const segments: Array<[number, number]> = []
+    for (const window of windows) {
+      const start = ((window.day * 1440 + toMinutes(window.start) - offsetMinutes) % WEEK_MINUTES + WEEK_MINUTES) % WEEK_MINUTES
+      const end = start + toMinutes(window.end) - toMinutes(window.start)
+
+      // Windows that run past the end of the week continue at its start
+      if (end > WEEK_MINUTES) {
+        segments.push([start, WEEK_MINUTES], [0, end - WEEK_MINUTES])
+      } else {
+        segments.push([start, end])
+      }
+    }
+    return segments
+  }
+}
+
+export const matchingService = new MatchingService()
+export default matchingService
\ No newline at end of file
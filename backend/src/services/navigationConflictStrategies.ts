@@ -0,0 +1,53 @@
+import { z } from 'zod'
+import type { NavigationEvent } from './syncService'
+
+export const conflictStrategySchema = z.enum(['last-writer-wins', 'leader-wins', 'vote'])
+
+export type ConflictStrategyName = z.infer<typeof conflictStrategySchema>
+
+export interface ConflictContext {
+  leaderId: string | null // Chabura leader, otherwise the Havruta owner
+}
+
+export type ConflictResolution =
+  | { type: 'resolved'; winner: NavigationEvent }
+  | { type: 'vote' } // Nobody moves until everyone in the conflict picks the same section
+
+/**
+ * Decides which of several near-simultaneous navigations the group follows.
+ * Navigations arrive oldest first.
+ */
+export interface NavigationConflictStrategy {
+  resolve(navigations: NavigationEvent[], context: ConflictContext): ConflictResolution
+}
+
+const lastWriterWins: NavigationConflictStrategy = {
+  resolve: (navigations) => ({ type: 'resolved', winner: navigations[navigations.length - 1] })
+}
+
+const leaderWins: NavigationConflictStrategy = {
+  resolve: (navigations, { leaderId }) => {
+    // Without the leader in the conflict there's nothing to defer to
+    const leaderNavigations = navigations.filter(nav => nav.navigatedBy.id === leaderId)
+    return lastWriterWins.resolve(leaderNavigations.length > 0 ? leaderNavigations : navigations, { leaderId })
+  }
+}
+
+const vote: NavigationConflictStrategy = {
+  resolve: (navigations, context) => {
+    // One person paging quickly isn't a disagreement
+    const navigators = new Set(navigations.map(nav => nav.navigatedBy.id))
+    return navigators.size > 1 ? { type: 'vote' } : lastWriterWins.resolve(navigations, context)
+  }
+}
+
+export const CONFLICT_STRATEGIES: Record<ConflictStrategyName, NavigationConflictStrategy> = {
+  'last-writer-wins': lastWriterWins,
+  'leader-wins': leaderWins,
+  vote
+}
+
+export const getConflictStrategy = (name: string | null | undefined): NavigationConflictStrategy => {
+  const parsed = conflictStrategySchema.safeParse(name)
+  return parsed.success ? CONFLICT_STRATEGIES[parsed.data] : lastWriterWins
+}
\ No newline at end of file
@@ -1,5 +1,8 @@
-import { Session, User } from '@prisma/client'
+import { Notification, Prisma, User } from '@prisma/client'
 import { prisma } from '../utils/database'
+import { emailService } from './emailService'
+import { calendarService } from './calendarService'
+import { DEFAULT_TIME_ZONE, getZonedParts } from '../utils/timeZone'
 import cron from 'node-cron'
 
 export interface NotificationData {
@@ -16,16 +19,8 @@ export interface NotificationData {
   }
 }
 
-export interface SessionNotification {
-  id: string
-  sessionId: string
-  userId: string
-  type: string
-  message: string
-  scheduledFor: Date
-  sent: boolean
-  createdAt: Date
-}
+// Overdue notifications older than this are marked delivered on boot instead of being sent late
+const MISSED_NOTIFICATION_GRACE_MS = 60 * 60 * 1000
 
 export class NotificationService {
   private scheduledJobs: Map<string, cron.ScheduledTask> = new Map()
@@ -100,8 +95,9 @@ export class NotificationService {
           }
         }
 
-        // Also send immediate notification (could be email, push, etc.)
-        await this.sendNotification(notificationData)
+        // Also record it in the notification center and email it
+        const notification = await this.createNotification(notificationData)
+        await this.sendNotification(notification)
       }
 
       console.log(`Sent instant session invitations for session ${sessionId} to ${participantsToNotify.length} participants`)
@@ -163,69 +159,171 @@ export class NotificationService {
     users: User[]
   ): Promise<void> {
     for (const user of users) {
-      const notification = {
+      // Store the notification first so it survives a restart
+      const notification = await this.createNotification({
         ...notificationData,
         userId: user.id
+      })
+
+      this.scheduleJob(notification, user.timeZone)
+    }
+  }
+
+  /**
+   * Store a notification in the database
+   */
+  private async createNotification(notificationData: NotificationData): Promise<Notification> {
+    return await prisma.notification.create({
+      data: {
+        type: notificationData.type,
+        message: notificationData.message,
+        scheduledFor: notificationData.scheduledFor,
+        userId: notificationData.userId,
+        sessionId: notificationData.sessionId || null,
+        ...(notificationData.metadata && { metadata: notificationData.metadata as Prisma.InputJsonValue })
       }
+    })
+  }
 
-      // Store notification in database (you might want to create a notifications table)
-      // For now, we'll use a simple in-memory approach with cron jobs
+  /**
+   * Create a cron job that delivers a stored notification at its scheduled time,
+   * expressed in the recipient's time zone
+   */
+  private scheduleJob(notification: Notification, timeZone: string = DEFAULT_TIME_ZONE): void {
+    const cronExpression = this.dateToCronExpression(notification.scheduledFor, timeZone)
+    if (!cronExpression) {
+      return
+    }
 
-      const jobId = `${notification.sessionId}-${notification.userId}-${notification.type}`
-      
-      // Create cron job for the scheduled time
-      const cronExpression = this.dateToCronExpression(notification.scheduledFor)
-      
-      if (cronExpression) {
-        const task = cron.schedule(cronExpression, async () => {
-          await this.sendNotification(notification)
-          this.scheduledJobs.delete(jobId)
-        }, {
-          scheduled: false,
-          timezone: 'UTC'
-        })
+    const task = cron.schedule(cronExpression, async () => {
+      // The expression has no year, so a match more than a minute early is the same date in an earlier year
+      if (notification.scheduledFor.getTime() - Date.now() > 60 * 1000) {
+        return
+      }
+
+      // One-time job: stop it before it can repeat
+      task.stop()
+      task.destroy()
+      this.scheduledJobs.delete(notification.id)
+
+      try {
+        await this.sendNotification(notification)
+      } catch (error) {
+        console.error(`Failed to send notification ${notification.id}:`, error)
+      }
+    }, {
+      scheduled: false,
+      timezone: timeZone
+    })
+
+    this.scheduledJobs.set(notification.id, task)
+    task.start()
+  }
+
+  /**
+   * Deliver a notification in real time (WebSocket) and by email, then mark it sent
+   */
+  private async sendNotification(notification: Notification): Promise<void> {
+    const sentNotification = await prisma.notification.update({
+      where: { id: notification.id },
+      data: { sentAt: new Date() },
+      include: { user: true }
+    })
+    const { user, ...notificationData } = sentNotification
 
-        this.scheduledJobs.set(jobId, task)
-        task.start()
+    if (this.websocketService) {
+      try {
+        this.websocketService.broadcastToUser(user.id, 'notification', notificationData)
+      } catch (wsError) {
+        console.error(`WebSocket notification failed for user ${user.id}:`, wsError)
+      }
+    }
+
+    if (emailService.isAvailable()) {
+      const metadata = (notification.metadata || {}) as NotificationData['metadata']
+      const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000'
+
+      try {
+        const calendar = notification.sessionId && notification.type !== 'session_cancelled'
+          ? await calendarService.getSessionCalendar(notification.sessionId).catch(() => null)
+          : null
+
+        await emailService.sendNotificationEmail(user.email, {
+          subject: metadata?.havrutaName ? `Havruta: ${metadata.havrutaName}` : 'Havruta notification',
+          message: notification.message,
+          actionUrl: metadata?.joinUrl ? `${baseUrl}${metadata.joinUrl}` : baseUrl,
+          actionLabel: metadata?.joinUrl ? 'Join Session' : 'Open Havruta',
+          calendar: calendar || undefined
+        })
+      } catch (emailError) {
+        console.error(`Email notification failed for user ${user.id}:`, emailError)
       }
     }
   }
 
   /**
-   * Send a notification (implement your preferred notification method)
+   * Recreate cron jobs for notifications that were pending when the server stopped
    */
-  private async sendNotification(notification: NotificationData): Promise<void> {
-    // This is where you would integrate with your notification system
-    // For example: email, push notifications, SMS, etc.
-    
-    console.log(`Sending notification to user ${notification.userId}:`, {
-      type: notification.type,
-      message: notification.message,
-      sessionId: notification.sessionId
+  async restorePendingNotifications(): Promise<void> {
+    const pending = await prisma.notification.findMany({
+      where: { sentAt: null },
+      include: {
+        user: {
+          select: { timeZone: true }
+        }
+      },
+      orderBy: { scheduledFor: 'asc' }
     })
 
-    // You could also emit a WebSocket event for real-time notifications
-    // socketService.emitToUser(notification.userId, 'notification', notification)
-    
-    // Or send an email
-    // await emailService.sendNotification(notification)
+    const now = Date.now()
+    let restored = 0
+
+    for (const notification of pending) {
+      const scheduledAt = notification.scheduledFor.getTime()
+
+      if (scheduledAt > now) {
+        this.scheduleJob(notification, notification.user?.timeZone)
+        restored++
+      } else if (now - scheduledAt <= MISSED_NOTIFICATION_GRACE_MS) {
+        // Came due while the server was down; deliver it now
+        try {
+          await this.sendNotification(notification)
+        } catch (error) {
+          console.error(`Failed to send overdue notification ${notification.id}:`, error)
+        }
+      } else {
+        // Too late to be useful as a reminder; keep it in the notification center only
+        await prisma.notification.update({
+          where: { id: notification.id },
+          data: { sentAt: new Date() }
+        })
+      }
+    }
+
+    console.log(`Restored ${restored} pending notification jobs`)
   }
 
   /**
    * Cancel all notifications for a session
    */
   async cancelSessionNotifications(sessionId: string): Promise<void> {
-    const jobsToCancel = Array.from(this.scheduledJobs.keys())
-      .filter(jobId => jobId.startsWith(sessionId))
+    const pending = await prisma.notification.findMany({
+      where: { sessionId, sentAt: null },
+      select: { id: true }
+    })
 
-    for (const jobId of jobsToCancel) {
-      const task = this.scheduledJobs.get(jobId)
+    for (const { id } of pending) {
+      const task = this.scheduledJobs.get(id)
       if (task) {
         task.stop()
         task.destroy()
-        this.scheduledJobs.delete(jobId)
+        this.scheduledJobs.delete(id)
       }
     }
+
+    await prisma.notification.deleteMany({
+      where: { sessionId, sentAt: null }
+    })
   }
 
   /**
@@ -240,60 +338,78 @@ export class NotificationService {
   }
 
   /**
-   * Convert a Date to a cron expression
+   * Convert a Date to a cron expression in the given time zone
    */
-  private dateToCronExpression(date: Date): string | null {
+  private dateToCronExpression(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string | null {
     // Only schedule if the date is in the future
     if (date <= new Date()) {
       return null
     }
 
-    const minute = date.getUTCMinutes()
-    const hour = date.getUTCHours()
-    const day = date.getUTCDate()
-    const month = date.getUTCMonth() + 1
-    const year = date.getUTCFullYear()
+    const { minute, hour, day, month } = getZonedParts(date, timeZone)
 
     // Create a one-time cron expression
     return `${minute} ${hour} ${day} ${month} *`
   }
 
   /**
-   * Get all scheduled notifications for a user
+   * Get delivered notifications for a user, newest first
    */
-  async getUserNotifications(userId: string): Promise<NotificationData[]> {
-    // In a real implementation, you would query a notifications table
-    // For now, return empty array as we're using in-memory scheduling
-    return []
+  async getUserNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    return await prisma.notification.findMany({
+      where: {
+        userId,
+        sentAt: { not: null }
+      },
+      orderBy: { scheduledFor: 'desc' },
+      take: limit
+    })
   }
 
   /**
    * Mark a notification as read/handled
    */
-  async markNotificationAsRead(notificationId: string): Promise<void> {
-    // Implementation would update the notification status in database
-    console.log(`Marking notification ${notificationId} as read`)
+  async markNotificationAsRead(notificationId: string, userId: string): Promise<void> {
+    const notification = await prisma.notification.findUnique({
+      where: { id: notificationId }
+    })
+    if (!notification) {
+      throw new Error('Notification not found')
+    }
+    if (notification.userId !== userId) {
+      throw new Error('Access denied')
+    }
+
+    if (!notification.readAt) {
+      await prisma.notification.update({
+        where: { id: notificationId },
+        data: { readAt: new Date() }
+      })
+    }
   }
 
   /**
-   * Clean up expired jobs (call this periodically)
+   * Drop jobs whose notification was already sent, deleted or is long past due.
+   * One-time jobs destroy themselves after firing, so this only catches leftovers.
    */
-  cleanupExpiredJobs(): void {
-    const now = new Date()
-    const jobsToCleanup: string[] = []
-
-    // In a real implementation, you would check against stored notification data
-    // For now, we'll just clean up jobs that have been running for more than 24 hours
-    this.scheduledJobs.forEach((task, jobId) => {
-      // This is a simplified cleanup - in practice you'd store job creation time
-      if (!task.running) {
-        jobsToCleanup.push(jobId)
-      }
+  async cleanupExpiredJobs(): Promise<void> {
+    const jobIds = [...this.scheduledJobs.keys()]
+    if (jobIds.length === 0) {
+      return
+    }
+
+    const notifications = await prisma.notification.findMany({
+      where: { id: { in: jobIds } },
+      select: { id: true, sentAt: true, scheduledFor: true }
     })
+    const pending = new Set(notifications
+      .filter(n => !n.sentAt && Date.now() - n.scheduledFor.getTime() <= MISSED_NOTIFICATION_GRACE_MS)
+      .map(n => n.id))
 
-    jobsToCleanup.forEach(jobId => {
+    jobIds.filter(jobId => !pending.has(jobId)).forEach(jobId => {
       const task = this.scheduledJobs.get(jobId)
       if (task) {
+        task.stop()
         task.destroy()
         this.scheduledJobs.delete(jobId)
       }
@@ -305,7 +421,9 @@ export class NotificationService {
    */
   startCleanupJob(): void {
     cron.schedule('0 * * * *', () => {
-      this.cleanupExpiredJobs()
+      this.cleanupExpiredJobs().catch(error => {
+        console.error('Failed to clean up notification jobs:', error)
+      })
     })
   }
 
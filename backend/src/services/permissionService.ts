@@ -0,0 +1,131 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { z } from 'zod'
+
+export const havrutaRoleSchema = z.enum(['owner', 'co-host', 'participant', 'observer'])
+
+export type HavrutaRole = z.infer<typeof havrutaRoleSchema>
+
+export type HavrutaPermission =
+  | 'updateHavruta'
+  | 'deleteHavruta'
+  | 'manageRoles'
+  | 'invite'
+  | 'manageInviteLinks'
+  | 'startSession'
+  | 'endSession'
+  | 'navigate'
+  | 'schedule'
+  | 'manageStudyPlan'
+  | 'approveJoinRequests'
+
+// Which roles may do what inside a Havruta. Observers can follow along
+// (read the text, watch the video, chat) but never drive the session.
+export const HAVRUTA_PERMISSIONS: Record<HavrutaPermission, HavrutaRole[]> = {
+  updateHavruta: ['owner', 'co-host'],
+  deleteHavruta: ['owner'],
+  manageRoles: ['owner'],
+  invite: ['owner', 'co-host', 'participant'],
+  manageInviteLinks: ['owner', 'co-host'],
+  startSession: ['owner', 'co-host'],
+  endSession: ['owner', 'co-host'],
+  navigate: ['owner', 'co-host', 'participant'],
+  schedule: ['owner', 'co-host'], // Polls and calendar imports
+  manageStudyPlan: ['owner', 'co-host'],
+  approveJoinRequests: ['owner', 'co-host']
+}
+
+// Who takes over when the owner leaves, most preferred first
+const SUCCESSION_ORDER: HavrutaRole[] = ['co-host', 'participant', 'observer']
+
+export const roleHasPermission = (role: HavrutaRole | null, permission: HavrutaPermission): boolean =>
+  !!role && HAVRUTA_PERMISSIONS[permission].includes(role)
+
+export class PermissionService {
+  /**
+   * Get the user's role in a Havruta, or null if they aren't a participant
+   */
+  async getRole(havrutaId: string, userId: string): Promise<HavrutaRole | null> {
+    const participant = await prisma.havrutaParticipant.findUnique({
+      where: {
+        userId_havrutaId: {
+          userId,
+          havrutaId
+        }
+      },
+      select: { role: true }
+    })
+    return participant ? participant.role as HavrutaRole : null
+  }
+
+  /**
+   * Check whether the user's role in a Havruta allows an action
+   */
+  async hasPermission(havrutaId: string, userId: string, permission: HavrutaPermission): Promise<boolean> {
+    try {
+      return roleHasPermission(await this.getRole(havrutaId, userId), permission)
+    } catch (error) {
+      console.error('Error checking Havruta permission:', error)
+      return false
+    }
+  }
+
+  /**
+   * Pick who should take over from a departing owner: co-hosts first, then
+   * participants, then observers, earliest joiner first within each role.
+   * Pass candidateUserIds to only consider some participants (e.g. those
+   * still in a session).
+   */
+  async getSuccessor(
+    havrutaId: string,
+    leavingUserId: string,
+    candidateUserIds?: string[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<string | null> {
+    const participants = await client.havrutaParticipant.findMany({
+      where: {
+        havrutaId,
+        userId: candidateUserIds
+          ? { in: candidateUserIds.filter(id => id !== leavingUserId) }
+          : { not: leavingUserId }
+      },
+      orderBy: { joinedAt: 'asc' }
+    })
+
+    const [successor] = participants.sort((a, b) =>
+      SUCCESSION_ORDER.indexOf(a.role as HavrutaRole) - SUCCESSION_ORDER.indexOf(b.role as HavrutaRole))
+    return successor?.userId || null
+  }
+
+  /**
+   * Hand a Havruta to another participant. The previous owner, if they're
+   * still a participant, stays on as a co-host.
+   */
+  async transferOwnership(
+    havrutaId: string,
+    fromUserId: string,
+    toUserId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await client.havruta.update({
+      where: { id: havrutaId },
+      data: { ownerId: toUserId }
+    })
+    await client.havrutaParticipant.updateMany({
+      where: { havrutaId, userId: fromUserId },
+      data: { role: 'co-host' }
+    })
+    await client.havrutaParticipant.update({
+      where: {
+        userId_havrutaId: {
+          userId: toUserId,
+          havrutaId
+        }
+      },
+      data: { role: 'owner' }
+    })
+  }
+}
+
+export const permissionService = new PermissionService()
+export default permissionService
\ No newline at end of file
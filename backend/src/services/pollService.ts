@@ -0,0 +1,332 @@
+import { Prisma, Session } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { schedulingService } from './schedulingService'
+import { permissionService } from './permissionService'
+import { CreateRecurrencePatternData } from '../models/RecurrencePattern'
+import { DEFAULT_TIME_ZONE, getZonedParts, isValidTimeZone } from '../utils/timeZone'
+import { z } from 'zod'
+
+// Validation schemas
+export const createPollSchema = z.object({
+  havrutaId: z.string().min(1, 'Havruta ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  title: z.string().trim().max(200).default(''),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional(),
+  slots: z.array(z.coerce.date())
+    .min(1, 'At least one time slot is required')
+    .max(20, 'At most 20 time slots can be proposed')
+})
+
+export const pollResponsesSchema = z.array(z.object({
+  slotId: z.string().min(1, 'Slot ID is required'),
+  availability: z.enum(['yes', 'maybe', 'no'])
+})).min(1, 'At least one response is required')
+
+export type CreatePollData = z.input<typeof createPollSchema>
+
+export type PollAvailability = 'yes' | 'maybe' | 'no'
+
+export interface PollResponseData {
+  slotId: string
+  availability: PollAvailability
+}
+
+export interface ConvertPollOptions {
+  slotId?: string // Defaults to the slot with the most availability
+  recurrencePattern?: Omit<CreateRecurrencePatternData, 'timeZone'>
+}
+
+const pollInclude = {
+  havruta: {
+    select: {
+      id: true,
+      name: true,
+      ownerId: true,
+      participants: {
+        select: {
+          role: true,
+          user: { select: { id: true, name: true } }
+        }
+      }
+    }
+  },
+  slots: {
+    orderBy: { startTime: 'asc' },
+    include: {
+      responses: {
+        include: {
+          user: { select: { id: true, name: true } }
+        }
+      }
+    }
+  }
+} satisfies Prisma.SchedulingPollInclude
+
+export type PollWithDetails = Prisma.SchedulingPollGetPayload<{ include: typeof pollInclude }>
+
+export class PollService {
+  /**
+   * Propose time slots for a Havruta (owner or co-host)
+   */
+  async createPoll(data: CreatePollData): Promise<PollWithDetails> {
+    try {
+      const { havrutaId, userId, title, timeZone, slots } = createPollSchema.parse(data)
+
+      await this.verifyScheduler(havrutaId, userId, 'Only the owner or a co-host can create polls')
+
+      const now = new Date()
+      if (slots.some(slot => slot <= now)) {
+        throw new Error('Validation error: Time slots must be in the future')
+      }
+      const uniqueSlots = [...new Set(slots.map(slot => slot.getTime()))].map(time => new Date(time))
+
+      // Slots are shown, and recurring sessions kept, in the zone they were proposed in
+      let pollTimeZone = timeZone
+      if (!pollTimeZone) {
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { timeZone: true }
+        })
+        pollTimeZone = user?.timeZone || DEFAULT_TIME_ZONE
+      }
+
+      return await prisma.schedulingPoll.create({
+        data: {
+          title,
+          timeZone: pollTimeZone,
+          havrutaId,
+          createdById: userId,
+          slots: {
+            create: uniqueSlots.map(startTime => ({ startTime }))
+          }
+        },
+        include: pollInclude
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error creating poll:', error)
+      throw error instanceof Error ? error : new Error('Failed to create poll')
+    }
+  }
+
+  /**
+   * Get polls across the user's Havrutot, open ones only unless asked
+   */
+  async getPolls(
+    userId: string,
+    options: { havrutaId?: string; includeClosed?: boolean } = {}
+  ): Promise<PollWithDetails[]> {
+    try {
+      return await prisma.schedulingPoll.findMany({
+        where: {
+          havruta: {
+            participants: { some: { userId } }
+          },
+          ...(options.havrutaId && { havrutaId: options.havrutaId }),
+          ...(!options.includeClosed && { status: 'open' })
+        },
+        include: pollInclude,
+        orderBy: { createdAt: 'desc' }
+      })
+    } catch (error) {
+      console.error('Error fetching polls:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch polls')
+    }
+  }
+
+  /**
+   * Get a single poll with everyone's availability
+   */
+  async getPoll(pollId: string, userId: string): Promise<PollWithDetails> {
+    try {
+      return await this.findPoll(pollId, userId)
+    } catch (error) {
+      console.error('Error fetching poll:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch poll')
+    }
+  }
+
+  /**
+   * Record the user's availability for some or all of the poll's slots
+   */
+  async respondToPoll(pollId: string, userId: string, responses: PollResponseData[]): Promise<PollWithDetails> {
+    try {
+      const validatedResponses = pollResponsesSchema.parse(responses)
+      const poll = await this.findPoll(pollId, userId)
+
+      if (poll.status !== 'open') {
+        throw new Error('Poll is closed')
+      }
+
+      const slotIds = new Set(poll.slots.map(slot => slot.id))
+      if (validatedResponses.some(response => !slotIds.has(response.slotId))) {
+        throw new Error('Validation error: Unknown time slot')
+      }
+
+      await prisma.$transaction(async (tx) => {
+        for (const response of validatedResponses) {
+          await tx.pollResponse.upsert({
+            where: {
+              slotId_userId: { slotId: response.slotId, userId }
+            },
+            create: { slotId: response.slotId, userId, availability: response.availability },
+            update: { availability: response.availability }
+          })
+        }
+      })
+
+      return await this.findPoll(pollId, userId)
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error responding to poll:', error)
+      throw error instanceof Error ? error : new Error('Failed to respond to poll')
+    }
+  }
+
+  /**
+   * Schedule the chosen slot, once or as the start of a recurring series, and close the poll (owner or co-host)
+   */
+  async convertPoll(
+    pollId: string,
+    userId: string,
+    options: ConvertPollOptions = {}
+  ): Promise<{ poll: PollWithDetails; sessions: Session[]; recurrencePatternId: string }> {
+    try {
+      const poll = await this.findPoll(pollId, userId)
+
+      if (!await permissionService.hasPermission(poll.havrutaId, userId, 'schedule')) {
+        throw new Error('Only the owner or a co-host can schedule from a poll')
+      }
+      if (poll.status !== 'open') {
+        throw new Error('Poll is closed')
+      }
+
+      const slot = options.slotId
+        ? poll.slots.find(candidate => candidate.id === options.slotId)
+        : this.getWinningSlot(poll.slots)
+      if (!slot) {
+        throw new Error(options.slotId ? 'Validation error: Unknown time slot' : 'No upcoming time slot to schedule')
+      }
+      if (slot.startTime <= new Date()) {
+        throw new Error('That time slot has already passed')
+      }
+
+      const recurrence = options.recurrencePattern || { frequency: 'once' as const }
+      const isWeekly = recurrence.frequency === 'weekly' || recurrence.frequency === 'bi-weekly'
+
+      const { pattern, sessions, closedPoll } = await prisma.$transaction(async (tx) => {
+        // Close the poll first so a second conversion (e.g. a double click) can't schedule it again
+        const claimed = await tx.schedulingPoll.updateMany({
+          where: { id: pollId, status: 'open' },
+          data: { status: 'closed', closedAt: new Date(), chosenSlotId: slot.id }
+        })
+        if (claimed.count === 0) {
+          throw new Error('Poll is closed')
+        }
+
+        const pattern = await schedulingService.createRecurrencePattern({
+          interval: 1,
+          ...recurrence,
+          // A weekly series without days repeats on the slot's weekday
+          daysOfWeek: isWeekly && !recurrence.daysOfWeek?.length
+            ? [getZonedParts(slot.startTime, poll.timeZone).weekday]
+            : recurrence.daysOfWeek || [],
+          timeZone: poll.timeZone
+        }, tx)
+
+        const sessions = await schedulingService.generateRecurringSessions({
+          havrutaId: poll.havrutaId,
+          startTime: slot.startTime,
+          recurrencePatternId: pattern.id
+        }, recurrence.frequency === 'once' ? 1 : undefined, tx)
+
+        const closedPoll = await tx.schedulingPoll.update({
+          where: { id: pollId },
+          data: { recurrencePatternId: pattern.id },
+          include: pollInclude
+        })
+
+        return { pattern, sessions, closedPoll }
+      }, { timeout: 30000 }) // A year of weekly sessions takes a few hundred writes
+
+      await schedulingService.scheduleReminders(sessions)
+
+      return { poll: closedPoll, sessions, recurrencePatternId: pattern.id }
+    } catch (error) {
+      console.error('Error converting poll:', error)
+      throw error instanceof Error ? error : new Error('Failed to schedule from poll')
+    }
+  }
+
+  /**
+   * Delete a poll and its responses (owner or co-host)
+   */
+  async deletePoll(pollId: string, userId: string): Promise<void> {
+    try {
+      const poll = await this.findPoll(pollId, userId)
+
+      if (!await permissionService.hasPermission(poll.havrutaId, userId, 'schedule')) {
+        throw new Error('Only the owner or a co-host can delete polls')
+      }
+
+      await prisma.schedulingPoll.delete({
+        where: { id: pollId }
+      })
+    } catch (error) {
+      console.error('Error deleting poll:', error)
+      throw error instanceof Error ? error : new Error('Failed to delete poll')
+    }
+  }
+
+  /**
+   * The upcoming slot most people can make: most "yes", then most "maybe", then earliest
+   */
+  getWinningSlot<T extends { startTime: Date; responses: Array<{ availability: string }> }>(
+    slots: T[],
+    now: Date = new Date()
+  ): T | null {
+    const count = (slot: T, availability: PollAvailability) =>
+      slot.responses.filter(response => response.availability === availability).length
+
+    return slots
+      .filter(slot => slot.startTime > now)
+      .sort((a, b) =>
+        count(b, 'yes') - count(a, 'yes') ||
+        count(b, 'maybe') - count(a, 'maybe') ||
+        a.startTime.getTime() - b.startTime.getTime()
+      )[0] || null
+  }
+
+  private async findPoll(pollId: string, userId: string): Promise<PollWithDetails> {
+    const poll = await prisma.schedulingPoll.findUnique({
+      where: { id: pollId },
+      include: pollInclude
+    })
+    if (!poll) {
+      throw new Error('Poll not found')
+    }
+    if (!poll.havruta.participants.some(participant => participant.user.id === userId)) {
+      throw new Error('User is not a participant in this Havruta')
+    }
+    return poll
+  }
+
+  private async verifyScheduler(havrutaId: string, userId: string, message: string): Promise<void> {
+    const havruta = await prisma.havruta.findUnique({
+      where: { id: havrutaId }
+    })
+    if (!havruta) {
+      throw new Error('Havruta not found')
+    }
+    if (!await permissionService.hasPermission(havrutaId, userId, 'schedule')) {
+      throw new Error(message)
+    }
+  }
+}
+
+export const pollService = new PollService()
+export default pollService
\ No newline at end of file
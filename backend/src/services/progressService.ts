@@ -0,0 +1,257 @@
+import { prisma } from '../utils/database'
+import { sefariaService } from './sefariaService'
+import { studyPlanService } from './studyPlanService'
+import { SefariaTextStructure } from '../types/sefaria'
+
+export interface SectionCoverage {
+  ref: string
+  coverage: number // 0 to 1
+}
+
+export interface ParticipantProgressSummary {
+  user: {
+    id: string
+    name: string
+    profilePicture?: string | null
+  }
+  lastSection: string
+  totalTimeStudied: number
+  percentComplete: number
+  sections: number[] // Coverage per section, aligned with ProgressSummary.sections
+}
+
+export interface ProgressSummary {
+  havrutaId: string
+  bookTitle: string
+  sectionName: string
+  totalSections: number
+  percentComplete: number
+  sections: SectionCoverage[] // Best coverage reached by any participant
+  participants: ParticipantProgressSummary[]
+}
+
+export class ProgressService {
+  /**
+   * Summarize how much of the book each participant has covered, section by section
+   */
+  async getProgressSummary(havrutaId: string, userId: string): Promise<ProgressSummary> {
+    try {
+      const havruta = await prisma.havruta.findUnique({
+        where: { id: havrutaId },
+        include: {
+          participants: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  profilePicture: true
+                }
+              }
+            },
+            orderBy: { joinedAt: 'asc' }
+          },
+          progress: true
+        }
+      })
+      if (!havruta) {
+        throw new Error('Havruta not found')
+      }
+      if (!havruta.participants.some(p => p.userId === userId)) {
+        throw new Error('User is not a participant in this Havruta')
+      }
+
+      const structure = await sefariaService.getTextStructure(havruta.bookTitle)
+      const sectionRefs = this.getSectionRefs(havruta.bookTitle, structure)
+
+      const participants = havruta.participants.map(participant => {
+        const progress = havruta.progress.find(p => p.userId === participant.userId)
+        const sections = this.calculateCoverage(progress?.sectionsCompleted || [], havruta.bookTitle, structure)
+
+        return {
+          user: participant.user,
+          lastSection: progress?.lastSection || '',
+          totalTimeStudied: progress?.totalTimeStudied || 0,
+          percentComplete: this.getPercentComplete(sections),
+          sections
+        }
+      })
+
+      const combined = sectionRefs.map((_, index) =>
+        Math.max(0, ...participants.map(p => p.sections[index]))
+      )
+
+      return {
+        havrutaId,
+        bookTitle: havruta.bookTitle,
+        sectionName: structure.sectionNames?.[0] || 'Chapter',
+        totalSections: sectionRefs.length,
+        percentComplete: this.getPercentComplete(combined),
+        sections: sectionRefs.map((ref, index) => ({ ref, coverage: combined[index] })),
+        participants
+      }
+    } catch (error) {
+      console.error('Error building progress summary:', error)
+      throw error instanceof Error ? error : new Error('Failed to build progress summary')
+    }
+  }
+
+  /**
+   * Record the sections a finished session covered for everyone who took part
+   */
+  async recordSessionCoverage(sessionId: string): Promise<void> {
+    try {
+      const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        include: {
+          havruta: true,
+          participants: true
+        }
+      })
+      if (!session || !session.endingSection) {
+        return
+      }
+
+      const { bookTitle } = session.havruta
+      const structure = await sefariaService.getTextStructure(bookTitle)
+
+      let startIndex: number
+      let endIndex: number
+      try {
+        endIndex = studyPlanService.getSectionIndex(session.endingSection, bookTitle, structure)
+        startIndex = session.startingSection
+          ? studyPlanService.getSectionIndex(session.startingSection, bookTitle, structure)
+          : endIndex
+      } catch {
+        // The session ended outside the Havruta's book; nothing to record
+        return
+      }
+
+      const coveredSections: string[] = []
+      for (let index = Math.min(startIndex, endIndex); index <= Math.max(startIndex, endIndex); index++) {
+        coveredSections.push(studyPlanService.getSectionRef(index, bookTitle, structure))
+      }
+
+      // A session that stopped mid-section only covers it up to the ending segment
+      const endingSegment = session.endingSection.split(':')[1]
+      if (endIndex >= startIndex && endingSegment && /^\d+$/.test(endingSegment)) {
+        coveredSections[coveredSections.length - 1] += `:1-${endingSegment}`
+      }
+
+      for (const participant of session.participants) {
+        const existingProgress = await prisma.progress.findUnique({
+          where: {
+            userId_havrutaId: {
+              userId: participant.userId,
+              havrutaId: session.havrutaId
+            }
+          }
+        })
+        const sectionsCompleted = Array.from(new Set([
+          ...(existingProgress?.sectionsCompleted || []),
+          ...coveredSections
+        ]))
+
+        await prisma.progress.upsert({
+          where: {
+            userId_havrutaId: {
+              userId: participant.userId,
+              havrutaId: session.havrutaId
+            }
+          },
+          update: {
+            sectionsCompleted: { set: sectionsCompleted },
+            lastSection: session.endingSection
+          },
+          create: {
+            userId: participant.userId,
+            havrutaId: session.havrutaId,
+            sectionsCompleted,
+            lastSection: session.endingSection
+          }
+        })
+      }
+    } catch (error) {
+      console.error('Error recording session coverage:', error)
+      throw error instanceof Error ? error : new Error('Failed to record session coverage')
+    }
+  }
+
+  /**
+   * Work out how much of each section the completed refs cover.
+   * A whole-section ref (e.g., "Genesis 3" or "Berakhot 2a") covers the section fully.
+   * Sefaria's index only gives the book's total segment count, so sections read
+   * segment by segment are measured against the average section length.
+   */
+  calculateCoverage(sectionsCompleted: string[], bookTitle: string, structure: SefariaTextStructure): number[] {
+    const firstIndex = studyPlanService.getFirstSectionIndex(structure)
+    const sectionCount = studyPlanService.getSectionCount(structure) - firstIndex
+    const averageSegments = Math.max(1, Math.round((structure.schema?.lengths?.[1] || sectionCount) / sectionCount))
+
+    const fullSections = new Set<number>()
+    const segmentsRead = new Map<number, Set<number>>()
+
+    for (const ref of sectionsCompleted) {
+      if (!ref.startsWith(`${bookTitle} `)) continue
+
+      const [sectionPart, segmentPart] = ref.slice(bookTitle.length + 1).split(':')
+
+      try {
+        if (segmentPart === undefined) {
+          // Whole section, or a range of sections (e.g., "Genesis 1-3")
+          const [from, to = from] = sectionPart.split('-')
+          const start = studyPlanService.getSectionIndex(`${bookTitle} ${from}`, bookTitle, structure)
+          const end = studyPlanService.getSectionIndex(`${bookTitle} ${to}`, bookTitle, structure)
+          for (let index = start; index <= end; index++) {
+            fullSections.add(index)
+          }
+          continue
+        }
+
+        // Segments within one section (e.g., "Genesis 1:3" or "Genesis 1:3-7")
+        const sectionIndex = studyPlanService.getSectionIndex(`${bookTitle} ${sectionPart}`, bookTitle, structure)
+        const [from, to = from] = segmentPart.split('-')
+        const first = parseInt(from, 10)
+        const last = /^\d+$/.test(to) ? parseInt(to, 10) : first
+        if (isNaN(first)) continue
+
+        if (!segmentsRead.has(sectionIndex)) {
+          segmentsRead.set(sectionIndex, new Set())
+        }
+        for (let segment = first; segment <= Math.max(first, last); segment++) {
+          segmentsRead.get(sectionIndex)!.add(segment)
+        }
+      } catch {
+        // Skip refs that don't map to a section of this book
+      }
+    }
+
+    return Array.from({ length: sectionCount }, (_, offset) => {
+      const index = firstIndex + offset
+      if (fullSections.has(index)) return 1
+
+      const segments = segmentsRead.get(index)
+      return segments ? Math.min(segments.size / averageSegments, 1) : 0
+    })
+  }
+
+  /**
+   * Get the refs for every section of the book, in order
+   */
+  getSectionRefs(bookTitle: string, structure: SefariaTextStructure): string[] {
+    const firstIndex = studyPlanService.getFirstSectionIndex(structure)
+    const sectionCount = studyPlanService.getSectionCount(structure)
+
+    return Array.from({ length: sectionCount - firstIndex }, (_, offset) =>
+      studyPlanService.getSectionRef(firstIndex + offset, bookTitle, structure)
+    )
+  }
+
+  private getPercentComplete(coverage: number[]): number {
+    if (coverage.length === 0) return 0
+    const total = coverage.reduce((sum, value) => sum + value, 0)
+    return Math.round((total / coverage.length) * 100)
+  }
+}
+
+export const progressService = new ProgressService()
\ No newline at end of file
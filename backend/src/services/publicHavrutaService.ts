@@ -0,0 +1,353 @@
+import { JoinRequest, Prisma } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { havrutaService, HavrutaVisibility, MAX_PARTICIPANTS } from './havrutaService'
+import { permissionService, HAVRUTA_PERMISSIONS } from './permissionService'
+import { DEFAULT_TIME_ZONE, getZonedParts } from '../utils/timeZone'
+import { z } from 'zod'
+
+// Validation schemas
+export const publicHavrutotQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+  limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
+  book: z.string().trim().optional(),
+  search: z.string().trim().optional(),
+  day: z.string().regex(/^[0-6]$/, 'Day must be 0 (Sunday) to 6 (Saturday)').transform(Number).optional()
+})
+
+export const joinRequestSchema = z.object({
+  message: z.string().trim().max(500, 'Message must be at most 500 characters').default('')
+})
+
+export type PublicHavrutotQuery = z.input<typeof publicHavrutotQuerySchema>
+
+export interface PublicHavruta {
+  id: string
+  name: string
+  bookId: string
+  bookTitle: string
+  description: string
+  lastPlace: string
+  visibility: HavrutaVisibility
+  owner: {
+    id: string
+    name: string
+    profilePicture: string | null
+  }
+  participantCount: number
+  nextSessionAt: Date | null
+  sessionDays: number[] // Weekdays of upcoming sessions in the viewer's time zone, 0=Sunday
+  isParticipant: boolean
+  joinRequestStatus: string | null // The viewer's own request, if any
+}
+
+export type JoinRequestWithUser = JoinRequest & {
+  user: { id: string; name: string; profilePicture: string | null }
+  havruta: { id: string; name: string; bookTitle: string }
+}
+
+const SCHEDULE_LOOKAHEAD_DAYS = 28
+
+const publicUserSelect = {
+  id: true,
+  name: true,
+  profilePicture: true
+}
+
+const catalogInclude = (userId: string, now: Date) => ({
+  owner: { select: publicUserSelect },
+  participants: { where: { userId }, select: { id: true } },
+  joinRequests: { where: { userId }, select: { status: true } },
+  sessions: {
+    where: { status: 'scheduled', startTime: { gte: now } },
+    orderBy: { startTime: 'asc' },
+    take: 10,
+    select: { startTime: true }
+  },
+  _count: { select: { participants: true } }
+} satisfies Prisma.HavrutaInclude)
+
+type CatalogHavruta = Prisma.HavrutaGetPayload<{ include: ReturnType<typeof catalogInclude> }>
+
+export class PublicHavrutaService {
+  /**
+   * Browse public Havrutot, optionally by book and by the weekday they meet on
+   */
+  async getPublicHavrutot(userId: string, query: PublicHavrutotQuery = {}): Promise<{
+    havrutot: PublicHavruta[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      totalPages: number
+    }
+  }> {
+    try {
+      const { page, limit: requestedLimit, book, search, day } = publicHavrutotQuerySchema.parse(query)
+      const limit = Math.min(Math.max(requestedLimit, 1), 50)
+      const skip = (Math.max(page, 1) - 1) * limit
+      const now = new Date()
+      const timeZone = await this.getUserTimeZone(userId)
+
+      const where: Prisma.HavrutaWhereInput = {
+        visibility: 'public',
+        isActive: true,
+        ...(book ? { bookTitle: { equals: book, mode: 'insensitive' } } : {}),
+        ...(search ? {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' } },
+            { bookTitle: { contains: search, mode: 'insensitive' } },
+            { description: { contains: search, mode: 'insensitive' } }
+          ]
+        } : {})
+      }
+
+      // Weekdays depend on the viewer's time zone, so they're matched against upcoming sessions here
+      if (day !== undefined) {
+        const sessions = await prisma.session.findMany({
+          where: {
+            status: 'scheduled',
+            startTime: {
+              gte: now,
+              lte: new Date(now.getTime() + SCHEDULE_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000)
+            },
+            havruta: { visibility: 'public', isActive: true }
+          },
+          select: { havrutaId: true, startTime: true }
+        })
+        const havrutaIds = [...new Set(sessions
+          .filter(session => getZonedParts(session.startTime, timeZone).weekday === day)
+          .map(session => session.havrutaId))]
+        where.id = { in: havrutaIds }
+      }
+
+      const [total, havrutot] = await Promise.all([
+        prisma.havruta.count({ where }),
+        prisma.havruta.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: [{ lastStudiedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+          include: catalogInclude(userId, now)
+        })
+      ])
+
+      return {
+        havrutot: havrutot.map(havruta => this.toPublicHavruta(havruta, timeZone)),
+        pagination: {
+          page: Math.max(page, 1),
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error fetching public Havrutot:', error)
+      throw new Error('Failed to fetch public Havrutot')
+    }
+  }
+
+  /**
+   * Get what someone opening a shared link sees. Private Havrutot are only
+   * visible to their participants.
+   */
+  async getHavrutaPreview(havrutaId: string, userId: string): Promise<PublicHavruta> {
+    try {
+      const havruta = await prisma.havruta.findUnique({
+        where: { id: havrutaId },
+        include: catalogInclude(userId, new Date())
+      })
+      if (!havruta || (havruta.visibility === 'private' && havruta.participants.length === 0)) {
+        throw new Error('Havruta not found')
+      }
+
+      return this.toPublicHavruta(havruta, await this.getUserTimeZone(userId))
+    } catch (error) {
+      console.error('Error fetching Havruta preview:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch Havruta')
+    }
+  }
+
+  /**
+   * Ask the owner of a public or link-only Havruta to let the user in
+   */
+  async requestToJoin(userId: string, havrutaId: string, data: z.input<typeof joinRequestSchema> = {}): Promise<JoinRequest> {
+    try {
+      const { message } = joinRequestSchema.parse(data)
+
+      const havruta = await prisma.havruta.findUnique({
+        where: { id: havrutaId },
+        include: {
+          participants: { where: { userId }, select: { id: true } },
+          _count: { select: { participants: true } }
+        }
+      })
+      if (!havruta || havruta.visibility === 'private') {
+        throw new Error('Havruta not found')
+      }
+      if (!havruta.isActive) {
+        throw new Error('Cannot join inactive Havruta')
+      }
+      if (havruta.participants.length > 0) {
+        throw new Error('User is already a participant in this Havruta')
+      }
+      if (havruta._count.participants >= MAX_PARTICIPANTS) {
+        throw new Error(`Havruta is full (maximum ${MAX_PARTICIPANTS} participants)`)
+      }
+
+      const existing = await prisma.joinRequest.findUnique({
+        where: { userId_havrutaId: { userId, havrutaId } }
+      })
+      if (existing?.status === 'pending') {
+        throw new Error('Join request already sent')
+      }
+      if (existing?.status === 'declined') {
+        throw new Error('Join request already declined')
+      }
+      if (existing) {
+        // Approved before, then left: start over
+        return await prisma.joinRequest.update({
+          where: { id: existing.id },
+          data: { status: 'pending', message, createdAt: new Date(), respondedAt: null }
+        })
+      }
+
+      return await prisma.joinRequest.create({
+        data: { userId, havrutaId, message }
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error requesting to join Havruta:', error)
+      throw error instanceof Error ? error : new Error('Failed to request to join Havruta')
+    }
+  }
+
+  /**
+   * Withdraw the user's pending request
+   */
+  async cancelJoinRequest(userId: string, havrutaId: string): Promise<void> {
+    try {
+      const request = await prisma.joinRequest.findUnique({
+        where: { userId_havrutaId: { userId, havrutaId } }
+      })
+      if (!request || request.status !== 'pending') {
+        throw new Error('Join request not found')
+      }
+
+      await prisma.joinRequest.delete({
+        where: { id: request.id }
+      })
+    } catch (error) {
+      console.error('Error cancelling join request:', error)
+      throw error instanceof Error ? error : new Error('Failed to cancel join request')
+    }
+  }
+
+  /**
+   * Get pending requests for every Havruta where the user can approve them
+   */
+  async getPendingJoinRequests(userId: string): Promise<JoinRequestWithUser[]> {
+    try {
+      return await prisma.joinRequest.findMany({
+        where: {
+          status: 'pending',
+          havruta: {
+            participants: {
+              some: { userId, role: { in: HAVRUTA_PERMISSIONS.approveJoinRequests } }
+            }
+          }
+        },
+        include: {
+          user: { select: publicUserSelect },
+          havruta: { select: { id: true, name: true, bookTitle: true } }
+        },
+        orderBy: { createdAt: 'asc' }
+      })
+    } catch (error) {
+      console.error('Error fetching join requests:', error)
+      throw new Error('Failed to fetch join requests')
+    }
+  }
+
+  /**
+   * Approve or decline a request (owner or co-host). The request is claimed before
+   * anything else, and approving adds the requester through the regular join
+   * checks in the same transaction.
+   */
+  async respondToJoinRequest(
+    havrutaId: string,
+    requestId: string,
+    userId: string,
+    approve: boolean
+  ): Promise<JoinRequest> {
+    try {
+      const request = await prisma.joinRequest.findUnique({
+        where: { id: requestId }
+      })
+      if (!request || request.havrutaId !== havrutaId) {
+        throw new Error('Join request not found')
+      }
+      if (!await permissionService.hasPermission(havrutaId, userId, 'approveJoinRequests')) {
+        throw new Error('Only the owner or a co-host can respond to join requests')
+      }
+      if (request.status !== 'pending') {
+        throw new Error(`Join request already ${request.status}`)
+      }
+
+      return await prisma.$transaction(async (tx) => {
+        const claimed = await tx.joinRequest.updateMany({
+          where: { id: requestId, status: 'pending' },
+          data: { status: approve ? 'approved' : 'declined', respondedAt: new Date() }
+        })
+        if (claimed.count === 0) {
+          throw new Error('Join request has already been answered')
+        }
+
+        if (approve) {
+          await havrutaService.joinHavruta({ userId: request.userId, havrutaId }, tx)
+        }
+
+        return await tx.joinRequest.findUniqueOrThrow({
+          where: { id: requestId }
+        })
+      })
+    } catch (error) {
+      console.error('Error responding to join request:', error)
+      throw error instanceof Error ? error : new Error('Failed to respond to join request')
+    }
+  }
+
+  private async getUserTimeZone(userId: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timeZone: true }
+    })
+    return user?.timeZone || DEFAULT_TIME_ZONE
+  }
+
+  private toPublicHavruta(havruta: CatalogHavruta, timeZone: string): PublicHavruta {
+    return {
+      id: havruta.id,
+      name: havruta.name,
+      bookId: havruta.bookId,
+      bookTitle: havruta.bookTitle,
+      description: havruta.description,
+      lastPlace: havruta.lastPlace,
+      visibility: havruta.visibility as HavrutaVisibility,
+      owner: havruta.owner,
+      participantCount: havruta._count.participants,
+      nextSessionAt: havruta.sessions[0]?.startTime || null,
+      sessionDays: [...new Set(havruta.sessions.map(session => getZonedParts(session.startTime, timeZone).weekday))]
+        .sort((a, b) => a - b),
+      isParticipant: havruta.participants.length > 0,
+      joinRequestStatus: havruta.joinRequests[0]?.status || null
+    }
+  }
+}
+
+export const publicHavrutaService = new PublicHavrutaService()
+export default publicHavrutaService
\ No newline at end of file
@@ -1,20 +1,39 @@
-import { RecurrencePattern, Session } from '@prisma/client'
+import { Prisma, RecurrenceException, RecurrencePattern, Session } from '@prisma/client'
 import { prisma } from '../utils/database'
 import { z } from 'zod'
 import { 
   RecurrenceFrequency, 
   CreateRecurrencePatternData, 
-  UpdateRecurrencePatternData 
+  UpdateRecurrencePatternData,
+  UpdateOccurrenceData
 } from '../models/RecurrencePattern'
 import { CreateSessionData } from '../models/Session'
 import { notificationService } from './notificationService'
+import { studyPlanService } from './studyPlanService'
+import { permissionService } from './permissionService'
+import { sefariaService } from './sefariaService'
+import { calendarService, ParsedRecurrence } from './calendarService'
+import {
+  DEFAULT_TIME_ZONE,
+  addZonedTime,
+  getZonedDayNumber,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc
+} from '../utils/timeZone'
+import { CalendarLocation, RestWindow, findRestWindow, getRestWindows } from '../utils/hebrewCalendar'
 
 // Validation schemas
 export const RecurrencePatternSchema = z.object({
   frequency: z.enum(['once', 'daily', 'weekly', 'bi-weekly', 'monthly']),
   interval: z.number().min(1).max(365).default(1),
   endDate: z.date().optional(),
-  daysOfWeek: z.array(z.number().min(0).max(6)).optional().default([])
+  daysOfWeek: z.array(z.number().min(0).max(6)).optional().default([]),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional().default(DEFAULT_TIME_ZONE),
+  holidayPolicy: z.enum(['none', 'skip', 'shift']).optional().default('none'),
+  avoidFastDays: z.boolean().optional().default(false),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional()
 }).refine((data) => {
   // For weekly and bi-weekly patterns, daysOfWeek should not be empty
   if ((data.frequency === 'weekly' || data.frequency === 'bi-weekly') && data.daysOfWeek.length === 0) {
@@ -37,19 +56,36 @@ export const ScheduledSessionSchema = z.object({
   recurrencePattern: RecurrencePatternSchema.optional()
 })
 
+export const UpdateOccurrenceSchema = z.object({
+  startTime: z.date().optional(),
+  startingSection: z.string().max(200).optional(),
+  isSkipped: z.boolean().optional()
+})
+
+// Sessions don't store a planned length; assume an hour when checking them against Shabbat and Yom Tov
+const ASSUMED_SESSION_MINUTES = 60
+
 export class SchedulingService {
   /**
    * Create a new recurrence pattern with validation
    */
-  async createRecurrencePattern(data: CreateRecurrencePatternData): Promise<RecurrencePattern> {
+  async createRecurrencePattern(
+    data: CreateRecurrencePatternData,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<RecurrencePattern> {
     const validatedData = RecurrencePatternSchema.parse(data)
     
-    return await prisma.recurrencePattern.create({
+    return await client.recurrencePattern.create({
       data: {
         frequency: validatedData.frequency,
         interval: validatedData.interval,
         endDate: validatedData.endDate,
-        daysOfWeek: validatedData.daysOfWeek
+        daysOfWeek: validatedData.daysOfWeek,
+        timeZone: validatedData.timeZone,
+        holidayPolicy: validatedData.holidayPolicy,
+        avoidFastDays: validatedData.avoidFastDays,
+        latitude: validatedData.latitude,
+        longitude: validatedData.longitude
       }
     })
   }
@@ -70,13 +106,17 @@ export class SchedulingService {
   }
 
   /**
-   * Generate future session instances based on recurrence pattern
+   * Generate future session instances based on recurrence pattern.
+   * Inside a transaction (tx), reminders are left for the caller to schedule
+   * with scheduleReminders once the sessions are committed.
    */
   async generateRecurringSessions(
     baseSession: CreateSessionData & { recurrencePatternId: string; participantIds?: string[] },
-    maxInstances: number = 52 // Default to 1 year of weekly sessions
+    maxInstances: number = 52, // Default to 1 year of weekly sessions
+    tx?: Prisma.TransactionClient
   ): Promise<Session[]> {
-    const pattern = await prisma.recurrencePattern.findUnique({
+    const client = tx ?? prisma
+    const pattern = await client.recurrencePattern.findUnique({
       where: { id: baseSession.recurrencePatternId }
     })
 
@@ -97,21 +137,37 @@ export class SchedulingService {
 
       // Generate session for current date
       if (this.shouldGenerateSessionForDate(currentDate, pattern, startDate)) {
-        const session = await prisma.session.create({
+        // Occurrences on Shabbat or Yom Tov are skipped or moved and kept as exceptions
+        const holiday = this.resolveHolidayConflict(currentDate, pattern, startDate)
+
+        const session = await client.session.create({
           data: {
             havrutaId: baseSession.havrutaId,
-            startTime: new Date(currentDate),
+            startTime: holiday ? holiday.startTime : new Date(currentDate),
             isRecurring: true,
-            recurrencePatternId: pattern.id
+            recurrencePatternId: pattern.id,
+            ...(holiday?.isSkipped && { status: 'cancelled' })
           }
         })
+
+        if (holiday) {
+          await client.recurrenceException.create({
+            data: {
+              sessionId: session.id,
+              recurrencePatternId: pattern.id,
+              originalStartTime: new Date(currentDate),
+              isSkipped: holiday.isSkipped,
+              reason: holiday.reason
+            }
+          })
+        }
         
         // Add participants to session
         let participantIds = baseSession.participantIds || []
         
         // If no specific participants provided, use all Havruta participants
         if (participantIds.length === 0) {
-          const havrutaParticipants = await prisma.havrutaParticipant.findMany({
+          const havrutaParticipants = await client.havrutaParticipant.findMany({
             where: { havrutaId: baseSession.havrutaId }
           })
           participantIds = havrutaParticipants.map(p => p.userId)
@@ -119,7 +175,7 @@ export class SchedulingService {
         
         // Add participants to the session
         for (const userId of participantIds) {
-          await prisma.sessionParticipant.create({
+          await client.sessionParticipant.create({
             data: {
               userId,
               sessionId: session.id
@@ -127,15 +183,6 @@ export class SchedulingService {
           })
         }
         
-        // Schedule notifications for this session
-        try {
-          if (notificationService && typeof notificationService.scheduleSessionNotifications === 'function') {
-            await notificationService.scheduleSessionNotifications(session.id)
-          }
-        } catch (error) {
-          console.error(`Failed to schedule notifications for session ${session.id}:`, error)
-        }
-        
         sessions.push(session)
         instanceCount++
       }
@@ -144,38 +191,104 @@ export class SchedulingService {
       currentDate = this.getNextDate(currentDate, pattern)
     }
 
+    if (!tx) {
+      await this.scheduleReminders(sessions)
+    }
+
     return sessions
   }
 
   /**
-   * Calculate the next occurrence date based on recurrence pattern
+   * Schedule notifications for generated sessions, except skipped occurrences
+   */
+  async scheduleReminders(sessions: Session[]): Promise<void> {
+    for (const session of sessions) {
+      try {
+        if (session.status !== 'cancelled' && notificationService && typeof notificationService.scheduleSessionNotifications === 'function') {
+          await notificationService.scheduleSessionNotifications(session.id)
+        }
+      } catch (error) {
+        console.error(`Failed to schedule notifications for session ${session.id}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Calculate the next candidate date based on recurrence pattern.
+   * Dates move in the pattern's time zone so sessions keep their local time across DST.
    */
   private getNextDate(currentDate: Date, pattern: RecurrencePattern): Date {
-    const nextDate = new Date(currentDate)
+    const timeZone = pattern.timeZone || DEFAULT_TIME_ZONE
 
     switch (pattern.frequency) {
       case 'daily':
-        nextDate.setDate(nextDate.getDate() + pattern.interval)
-        break
+        return addZonedTime(currentDate, { days: pattern.interval }, timeZone)
       
       case 'weekly':
-        nextDate.setDate(nextDate.getDate() + (7 * pattern.interval))
-        break
-      
       case 'bi-weekly':
-        nextDate.setDate(nextDate.getDate() + (14 * pattern.interval))
-        break
+        // Check every day; shouldGenerateSessionForDate picks the right weekdays and weeks
+        return addZonedTime(currentDate, { days: 1 }, timeZone)
       
       case 'monthly':
-        nextDate.setMonth(nextDate.getMonth() + pattern.interval)
-        break
+        return addZonedTime(currentDate, { months: pattern.interval }, timeZone)
       
       default:
         // For 'once', just add a day to exit the loop
-        nextDate.setDate(nextDate.getDate() + 1)
+        return addZonedTime(currentDate, { days: 1 }, timeZone)
+    }
+  }
+
+  /**
+   * Decide what happens to an occurrence that overlaps Shabbat or Yom Tov (or a
+   * fast day, if the pattern avoids them). 'skip' drops it; 'shift' moves it to
+   * the same local time on the next free day, as long as that comes before the
+   * series' next occurrence, and skips it otherwise.
+   */
+  private resolveHolidayConflict(
+    date: Date,
+    pattern: RecurrencePattern,
+    startDate: Date
+  ): { startTime: Date; isSkipped: boolean; reason: string } | null {
+    if (!pattern.holidayPolicy || pattern.holidayPolicy === 'none') {
+      return null
     }
 
-    return nextDate
+    const timeZone = pattern.timeZone || DEFAULT_TIME_ZONE
+    const location = { timeZone, latitude: pattern.latitude, longitude: pattern.longitude }
+    const findConflict = (start: Date) => findRestWindow(
+      start,
+      new Date(start.getTime() + ASSUMED_SESSION_MINUTES * 60 * 1000),
+      location,
+      { includeFastDays: pattern.avoidFastDays }
+    )
+
+    const conflict = findConflict(date)
+    if (!conflict) {
+      return null
+    }
+
+    if (pattern.holidayPolicy === 'shift') {
+      let nextOccurrence: Date | null = null
+      if (pattern.frequency !== 'once') {
+        nextOccurrence = this.getNextDate(date, pattern)
+        while (!this.shouldGenerateSessionForDate(nextOccurrence, pattern, startDate)) {
+          nextOccurrence = this.getNextDate(nextOccurrence, pattern)
+        }
+      }
+
+      // Yom Tov and Shabbat together last at most three days
+      for (let days = 1; days <= 4; days++) {
+        const candidate = addZonedTime(date, { days }, timeZone)
+        if (nextOccurrence && getZonedDayNumber(candidate, timeZone) >= getZonedDayNumber(nextOccurrence, timeZone)) {
+          break
+        }
+        if (!findConflict(candidate)) {
+          return { startTime: candidate, isSkipped: false, reason: conflict.name }
+        }
+      }
+    }
+
+    return { startTime: new Date(date), isSkipped: true, reason: conflict.name }
   }
 
   /**
@@ -191,16 +304,196 @@ export class SchedulingService {
       return date.getTime() === startDate.getTime()
     }
 
-    // For weekly and bi-weekly patterns, check if the day of week matches
+    // For weekly and bi-weekly patterns, check the local day of week and that it's an active week
     if (pattern.frequency === 'weekly' || pattern.frequency === 'bi-weekly') {
-      const dayOfWeek = date.getDay()
-      return pattern.daysOfWeek.includes(dayOfWeek)
+      const timeZone = pattern.timeZone || DEFAULT_TIME_ZONE
+      const startParts = getZonedParts(startDate, timeZone)
+      const daysOfWeek = pattern.daysOfWeek.length > 0 ? pattern.daysOfWeek : [startParts.weekday]
+
+      if (!daysOfWeek.includes(getZonedParts(date, timeZone).weekday)) {
+        return false
+      }
+
+      // Weeks run Sunday to Saturday, counted from the week the series starts in
+      const firstWeekStart = getZonedDayNumber(startDate, timeZone) - startParts.weekday
+      const week = Math.floor((getZonedDayNumber(date, timeZone) - firstWeekStart) / 7)
+      const weeksBetween = pattern.interval * (pattern.frequency === 'bi-weekly' ? 2 : 1)
+      return week % weeksBetween === 0
     }
 
     // For daily and monthly patterns, generate for every occurrence
     return true
   }
 
+  /**
+   * Generate sessions that follow a Havruta's study plan, one per plan period
+   * (owner or co-host). Each session starts at the portion the plan assigns
+   * for its date.
+   */
+  async generateStudyPlanSessions(
+    havrutaId: string,
+    startTime: Date,
+    userId: string,
+    participantIds?: string[]
+  ): Promise<{ sessions: Session[]; recurrencePatternId: string }> {
+    const plan = await studyPlanService.getStudyPlan(havrutaId, userId)
+    if (!plan) {
+      throw new Error('Study plan not found')
+    }
+
+    const havruta = await prisma.havruta.findUnique({
+      where: { id: havrutaId }
+    })
+    if (!havruta) {
+      throw new Error('Havruta not found')
+    }
+    if (!await permissionService.hasPermission(havrutaId, userId, 'schedule')) {
+      throw new Error('Only the owner or a co-host can schedule the study plan')
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timeZone: true }
+    })
+    const timeZone = user?.timeZone || DEFAULT_TIME_ZONE
+
+    const structure = await sefariaService.getTextStructure(havruta.bookTitle)
+    const planEndDate = studyPlanService.getPlanEndDate(plan, havruta.bookTitle, structure)
+
+    // Sessions run through the end of the day the last portion is due, in the scheduler's time zone
+    const endDate = zonedTimeToUtc({
+      ...getZonedParts(planEndDate, timeZone),
+      hour: 23,
+      minute: 59,
+      second: 59
+    }, timeZone)
+    if (startTime > endDate) {
+      throw new Error('Study plan has already ended')
+    }
+
+    const pattern = await this.createRecurrencePattern({
+      frequency: plan.period === 'week' ? 'weekly' : 'daily',
+      interval: 1,
+      endDate,
+      daysOfWeek: plan.period === 'week' ? [getZonedParts(startTime, timeZone).weekday] : [],
+      timeZone
+    })
+
+    const sessions = await this.generateRecurringSessions({
+      havrutaId,
+      startTime,
+      recurrencePatternId: pattern.id,
+      participantIds
+    }, 366)
+
+    // Point each session at the portion scheduled for its date
+    for (const session of sessions) {
+      const position = studyPlanService.getExpectedPosition(plan, havruta.bookTitle, structure, session.startTime)
+      session.startingSection = position.ref
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { startingSection: position.ref }
+      })
+    }
+
+    return { sessions, recurrencePatternId: pattern.id }
+  }
+
+  /**
+   * Read an ICS file or RRULE for the scheduling dialog. Calendars usually
+   * start in the past, so the start time is moved to the next occurrence.
+   */
+  previewCalendarImport(calendar: string, timeZone: string = DEFAULT_TIME_ZONE): ParsedRecurrence {
+    const parsed = calendarService.parseRecurrence(calendar, timeZone)
+    const { startTime, recurrencePattern } = parsed
+
+    if (startTime && recurrencePattern.frequency !== 'once') {
+      const pattern = { ...recurrencePattern, interval: recurrencePattern.interval || 1 } as RecurrencePattern
+      let nextStart = startTime
+      let remaining = parsed.count
+      while (nextStart < new Date() || !this.shouldGenerateSessionForDate(nextStart, pattern, startTime)) {
+        // Occurrences already in the past still use up a COUNT
+        if (remaining !== null && this.shouldGenerateSessionForDate(nextStart, pattern, startTime)) {
+          remaining--
+        }
+        nextStart = this.getNextDate(nextStart, pattern)
+      }
+      if (
+        (recurrencePattern.endDate && nextStart > recurrencePattern.endDate) ||
+        (remaining !== null && remaining <= 0)
+      ) {
+        throw new Error('Invalid calendar: the series has already ended')
+      }
+      parsed.startTime = nextStart
+      parsed.count = remaining
+    }
+
+    return parsed
+  }
+
+  /**
+   * Create recurring sessions from an imported ICS file or RRULE
+   */
+  async importRecurringSessions(
+    havrutaId: string,
+    calendar: string,
+    userId: string,
+    options: { startTime?: Date; participantIds?: string[]; timeZone?: string } = {}
+  ): Promise<{ sessions: Session[]; recurrencePatternId: string; unsupported: string[] }> {
+    const havruta = await prisma.havruta.findUnique({
+      where: { id: havrutaId }
+    })
+    if (!havruta) {
+      throw new Error('Havruta not found')
+    }
+    if (!await permissionService.hasPermission(havrutaId, userId, 'schedule')) {
+      throw new Error('Only the owner or a co-host can import sessions')
+    }
+
+    // Times without a TZID are read in the importer's zone
+    let timeZone = options.timeZone
+    if (!timeZone) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { timeZone: true }
+      })
+      timeZone = user?.timeZone || DEFAULT_TIME_ZONE
+    }
+
+    const parsed = this.previewCalendarImport(calendar, timeZone)
+    const startTime = options.startTime || parsed.startTime
+    if (!startTime) {
+      throw new Error('Invalid calendar: a start time is required')
+    }
+
+    const pattern = await this.createRecurrencePattern(parsed.recurrencePattern)
+
+    const sessions = await this.generateRecurringSessions({
+      havrutaId,
+      startTime,
+      recurrencePatternId: pattern.id,
+      participantIds: options.participantIds
+    }, parsed.recurrencePattern.frequency === 'once' ? 1 : (parsed.count ?? undefined))
+
+    return { sessions, recurrencePatternId: pattern.id, unsupported: parsed.unsupported }
+  }
+
+  /**
+   * Get the Shabbat and Yom Tov windows in a date range, for warning before scheduling
+   */
+  getHolidayWindows(
+    from: Date,
+    to: Date,
+    location: CalendarLocation,
+    options: { includeFastDays?: boolean } = {}
+  ): RestWindow[] {
+    if (to <= from || to.getTime() - from.getTime() > 366 * 24 * 60 * 60 * 1000) {
+      throw new Error('Date range must be positive and at most a year')
+    }
+
+    return getRestWindows(from, to, location, options)
+  }
+
   /**
    * Get upcoming sessions for a user within a date range
    */
@@ -215,6 +508,9 @@ export class SchedulingService {
       startTime: {
         gte: startDate
       },
+      status: {
+        not: 'cancelled'
+      },
       participants: {
         some: {
           userId: userId
@@ -325,7 +621,7 @@ export class SchedulingService {
   ): Promise<Session> {
     const session = await prisma.session.findUnique({
       where: { id: sessionId },
-      include: { recurrencePattern: true }
+      include: { recurrencePattern: true, exception: true }
     })
 
     if (!session) {
@@ -343,7 +639,8 @@ export class SchedulingService {
           startTime: {
             gte: session.startTime
           }
-        }
+        },
+        include: { exception: true }
       })
 
       for (const futureSession of futureSessions) {
@@ -353,6 +650,16 @@ export class SchedulingService {
           data: { startTime: newTime }
         })
 
+        // The series itself moved, so its exceptions' planned times move with it
+        if (futureSession.exception) {
+          await prisma.recurrenceException.update({
+            where: { sessionId: futureSession.id },
+            data: {
+              originalStartTime: new Date(futureSession.exception.originalStartTime.getTime() + timeDiff)
+            }
+          })
+        }
+
         // Reschedule notifications for this session
         try {
           await notificationService.rescheduleSessionNotifications(futureSession.id)
@@ -362,6 +669,18 @@ export class SchedulingService {
       }
     }
 
+    // Moving one occurrence of a series is an exception to its pattern
+    if (!updateFutureInstances && session.recurrencePatternId && !session.exception) {
+      await prisma.recurrenceException.create({
+        data: {
+          sessionId,
+          recurrencePatternId: session.recurrencePatternId,
+          originalStartTime: session.startTime,
+          originalStartingSection: session.startingSection
+        }
+      })
+    }
+
     // Update the specific session
     const updatedSession = await prisma.session.update({
       where: { id: sessionId },
@@ -380,6 +699,176 @@ export class SchedulingService {
     return updatedSession
   }
 
+  /**
+   * Get a recurring series with every occurrence and its exception, if any
+   */
+  async getSeries(
+    patternId: string,
+    userId: string
+  ): Promise<{ pattern: RecurrencePattern; sessions: Array<Session & { exception: RecurrenceException | null }> }> {
+    const pattern = await prisma.recurrencePattern.findUnique({
+      where: { id: patternId }
+    })
+
+    if (!pattern) {
+      throw new Error('Recurrence pattern not found')
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: { recurrencePatternId: patternId },
+      include: {
+        exception: true,
+        participants: {
+          select: { userId: true }
+        }
+      },
+      orderBy: { startTime: 'asc' }
+    })
+
+    if (!sessions.some(session => session.participants.some(p => p.userId === userId))) {
+      throw new Error('Access denied')
+    }
+
+    return {
+      pattern,
+      sessions: sessions.map(({ participants, ...session }) => session)
+    }
+  }
+
+  /**
+   * Move, skip or change the starting point of one occurrence of a series
+   * without touching the others. The session holds the effective values and
+   * its exception remembers what the pattern planned, so the change can be
+   * shown alongside the series and undone.
+   */
+  async updateOccurrence(sessionId: string, userId: string, data: UpdateOccurrenceData): Promise<Session> {
+    const validatedData = UpdateOccurrenceSchema.parse(data)
+    const session = await this.findOccurrence(sessionId, userId)
+
+    if (validatedData.startTime && validatedData.startTime < new Date()) {
+      throw new Error('Start time must be in the future')
+    }
+
+    const planned = session.exception || {
+      originalStartTime: session.startTime,
+      originalStartingSection: session.startingSection
+    }
+    const startTime = validatedData.startTime ?? session.startTime
+    const startingSection = validatedData.startingSection ?? session.startingSection
+    const isSkipped = validatedData.isSkipped ?? session.status === 'cancelled'
+
+    const updatedSession = await prisma.session.update({
+      where: { id: sessionId },
+      data: {
+        startTime,
+        startingSection,
+        status: isSkipped ? 'cancelled' : 'scheduled'
+      }
+    })
+
+    const isException = isSkipped ||
+      startTime.getTime() !== planned.originalStartTime.getTime() ||
+      startingSection !== planned.originalStartingSection
+
+    if (isException) {
+      await prisma.recurrenceException.upsert({
+        where: { sessionId },
+        create: {
+          sessionId,
+          recurrencePatternId: session.recurrencePatternId!,
+          originalStartTime: planned.originalStartTime,
+          originalStartingSection: planned.originalStartingSection,
+          isSkipped
+        },
+        update: { isSkipped }
+      })
+    } else if (session.exception) {
+      await prisma.recurrenceException.delete({
+        where: { sessionId }
+      })
+    }
+
+    const wasSkipped = session.status === 'cancelled'
+    if (isSkipped !== wasSkipped || startTime.getTime() !== session.startTime.getTime()) {
+      await this.updateOccurrenceNotifications(sessionId, isSkipped)
+    }
+
+    return updatedSession
+  }
+
+  /**
+   * Undo every override on an occurrence, putting it back where the pattern scheduled it
+   */
+  async restoreOccurrence(sessionId: string, userId: string): Promise<Session> {
+    const session = await this.findOccurrence(sessionId, userId)
+
+    if (!session.exception) {
+      throw new Error('Occurrence has no changes to undo')
+    }
+
+    const updatedSession = await prisma.session.update({
+      where: { id: sessionId },
+      data: {
+        startTime: session.exception.originalStartTime,
+        startingSection: session.exception.originalStartingSection,
+        status: 'scheduled'
+      }
+    })
+
+    await prisma.recurrenceException.delete({
+      where: { sessionId }
+    })
+
+    await this.updateOccurrenceNotifications(sessionId, false)
+
+    return updatedSession
+  }
+
+  /**
+   * Load an occurrence the user may change
+   */
+  private async findOccurrence(sessionId: string, userId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        exception: true,
+        participants: {
+          select: { userId: true }
+        }
+      }
+    })
+
+    if (!session) {
+      throw new Error('Session not found')
+    }
+    if (!session.recurrencePatternId) {
+      throw new Error('Session is not part of a recurring series')
+    }
+    if (!session.participants.some(p => p.userId === userId)) {
+      throw new Error('Access denied')
+    }
+    if (session.status === 'active' || session.status === 'completed') {
+      throw new Error('Only upcoming occurrences can be changed')
+    }
+
+    return session
+  }
+
+  /**
+   * Skipped occurrences lose their reminders; moved or restored ones get them at the new time
+   */
+  private async updateOccurrenceNotifications(sessionId: string, isSkipped: boolean): Promise<void> {
+    try {
+      if (isSkipped) {
+        await notificationService.cancelSessionNotifications(sessionId)
+      } else {
+        await notificationService.rescheduleSessionNotifications(sessionId)
+      }
+    } catch (error) {
+      console.error(`Failed to update notifications for session ${sessionId}:`, error)
+    }
+  }
+
   /**
    * Get recurrence pattern by ID
    */
@@ -428,6 +917,11 @@ export class SchedulingService {
   initializeBackgroundJobs(): void {
     // Start the notification service cleanup job
     notificationService.startCleanupJob()
+
+    // Reschedule reminders that were pending before the last restart
+    notificationService.restorePendingNotifications().catch(error => {
+      console.error('Failed to restore pending notifications:', error)
+    })
     
     console.log('Background job system initialized')
   }
@@ -0,0 +1,467 @@
+import { prisma } from '../utils/database'
+import { stripHtml } from '../utils/hebrewText'
+import { textSearchService } from './textSearchService'
+import {
+  SefariaText,
+  SefariaIndex,
+  SefariaTextStructure,
+  SefariaSearchResult,
+  SefariaLink,
+  SefariaVersion
+} from '../types/sefaria'
+
+// One language of a book from a Sefaria-Export merged.json
+export interface SefariaExportVersion {
+  text: unknown
+  versionTitle: string
+}
+
+export interface SefariaExportBook {
+  schema: any // Index record from Sefaria-Export's schemas/<title>.json
+  english?: SefariaExportVersion
+  hebrew?: SefariaExportVersion
+  order?: number
+}
+
+// One row of Sefaria-Export's links CSV files
+export interface SefariaExportLink {
+  refs: [string, string]
+  titles: [string, string]
+  categories: [string, string]
+  type: string
+}
+
+export interface SectionData {
+  ref: string
+  heRef: string
+  sections: number[]
+  text: string[]
+  he: string[]
+}
+
+const BATCH_SIZE = 500
+
+const HEBREW_ONES = ['', 'א', 'ב', 'ג', 'ד', 'ה', 'ו', 'ז', 'ח', 'ט']
+const HEBREW_TENS = ['', 'י', 'כ', 'ל', 'מ', 'נ', 'ס', 'ע', 'פ', 'צ']
+const HEBREW_HUNDREDS = ['', 'ק', 'ר', 'ש', 'ת', 'תק', 'תר', 'תש', 'תת', 'תתק']
+
+/**
+ * Hebrew numeral with geresh/gershayim (e.g. 1 → א׳, 15 → ט״ו)
+ */
+const toHebrewNumeral = (n: number): string => {
+  const rest = n % 100
+  let letters = HEBREW_HUNDREDS[Math.floor(n / 100) % 10]
+  // 15 and 16 are written ט״ו and ט״ז to avoid spelling the divine name
+  letters += rest === 15 ? 'טו' : rest === 16 ? 'טז' : HEBREW_TENS[Math.floor(rest / 10)] + HEBREW_ONES[rest % 10]
+
+  return letters.length === 1 ? `${letters}׳` : `${letters.slice(0, -1)}״${letters.slice(-1)}`
+}
+
+// Talmud pages count 1a, 1b, 2a, ... so the nth section is page n/2 + 1
+const formatAddress = (index: number, addressType: string): string => {
+  if (addressType === 'Talmud') {
+    return `${Math.floor(index / 2) + 1}${index % 2 ? 'b' : 'a'}`
+  }
+  return `${index + 1}`
+}
+
+const formatHeAddress = (index: number, addressType: string): string => {
+  if (addressType === 'Talmud') {
+    return `${toHebrewNumeral(Math.floor(index / 2) + 1)} ${index % 2 ? 'ב' : 'א'}`
+  }
+  return toHebrewNumeral(index + 1)
+}
+
+const toSegments = (node: unknown): string[] => {
+  if (Array.isArray(node)) {
+    return node.map(segment => typeof segment === 'string' ? segment : '')
+  }
+  return typeof node === 'string' && node ? [node] : []
+}
+
+// The section a link anchor belongs to: "Genesis 1:1" → "Genesis 1"
+const sectionOf = (ref: string): string => {
+  const start = ref.split('-')[0]
+  return start.includes(':') ? start.slice(0, start.lastIndexOf(':')) : start
+}
+
+const REF_PATTERN = /^(.*\S)\s+(\d+[ab]?(?::\d+)*(?:-\d+[ab]?(?::\d+)*)?)$/
+
+export class SefariaLocalService {
+  /**
+   * Split a book's jagged text arrays into sections (the level above
+   * segments), skipping sections with no text in either language
+   */
+  buildSections(
+    title: string,
+    heTitle: string,
+    depth: number,
+    addressTypes: string[],
+    english: unknown,
+    hebrew: unknown
+  ): SectionData[] {
+    const sections: SectionData[] = []
+
+    const walk = (en: unknown, he: unknown, path: number[]) => {
+      if (path.length >= depth - 1) {
+        const text = toSegments(en)
+        const heText = toSegments(he)
+        if (!text.some(Boolean) && !heText.some(Boolean)) return
+
+        const address = path.map((index, level) => formatAddress(index, addressTypes[level])).join(':')
+        const heAddress = path.map((index, level) => formatHeAddress(index, addressTypes[level])).join(':')
+        sections.push({
+          ref: address ? `${title} ${address}` : title,
+          heRef: heAddress ? `${heTitle} ${heAddress}` : heTitle,
+          sections: path.map(index => index + 1),
+          text,
+          he: heText
+        })
+        return
+      }
+
+      const enChildren = Array.isArray(en) ? en : []
+      const heChildren = Array.isArray(he) ? he : []
+      const count = Math.max(enChildren.length, heChildren.length)
+      for (let i = 0; i < count; i++) {
+        walk(enChildren[i], heChildren[i], [...path, i])
+      }
+    }
+
+    walk(english, hebrew, [])
+    return sections
+  }
+
+  /**
+   * Store one book from a Sefaria-Export dump, replacing any earlier import.
+   * Only simple (jagged array) texts are supported.
+   */
+  async importBook(book: SefariaExportBook): Promise<{ title: string; sections: number }> {
+    const schema = book.schema
+    const node = schema.schema || {}
+
+    if (node.nodeType && node.nodeType !== 'JaggedArrayNode') {
+      throw new Error(`${schema.title} has a complex structure, which local mode doesn't support yet`)
+    }
+
+    const depth: number = node.depth || 2
+    const addressTypes: string[] = node.addressTypes || []
+    const sectionNames: string[] = node.sectionNames || []
+    const english = book.english?.text || []
+    const hebrew = book.hebrew?.text || []
+
+    const sections = this.buildSections(schema.title, schema.heTitle, depth, addressTypes, english, hebrew)
+    if (sections.length === 0) {
+      throw new Error(`${schema.title} has no text to import`)
+    }
+
+    const topLevel = Math.max(Array.isArray(english) ? english.length : 0, Array.isArray(hebrew) ? hebrew.length : 0)
+    const segmentCount = sections.reduce((total, section) => total + Math.max(section.text.length, section.he.length), 0)
+
+    const index: SefariaIndex = {
+      title: schema.title,
+      heTitle: schema.heTitle,
+      categories: schema.categories || [],
+      primary_category: schema.categories?.[0] || '',
+      enDesc: schema.enDesc,
+      heDesc: schema.heDesc,
+      compDate: schema.compDate,
+      era: schema.era,
+      order: schema.order,
+      depth,
+      addressTypes,
+      sectionNames
+    }
+
+    const structure: SefariaTextStructure = {
+      title: schema.title,
+      heTitle: schema.heTitle,
+      titleVariants: schema.titleVariants || [],
+      heTitleVariants: schema.heTitleVariants || [],
+      sectionNames,
+      depth,
+      addressTypes,
+      textDepth: depth,
+      categories: schema.categories || [],
+      order: schema.order || [],
+      schema: {
+        ...node,
+        nodeType: 'JaggedArrayNode',
+        depth,
+        addressTypes,
+        sectionNames,
+        titles: node.titles || [],
+        lengths: [topLevel, segmentCount]
+      }
+    }
+
+    const bookData = {
+      heTitle: schema.heTitle,
+      categories: schema.categories || [],
+      order: book.order ?? schema.order?.[0] ?? 0,
+      index: index as any,
+      structure: structure as any,
+      importedAt: new Date()
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.sefariaBook.upsert({
+        where: { title: schema.title },
+        create: { title: schema.title, ...bookData },
+        update: bookData
+      })
+      await tx.sefariaSection.deleteMany({ where: { bookTitle: schema.title } })
+
+      for (let start = 0; start < sections.length; start += BATCH_SIZE) {
+        await tx.sefariaSection.createMany({
+          data: sections.slice(start, start + BATCH_SIZE).map((section, i) => ({
+            ...section,
+            position: start + i,
+            versionTitle: book.english?.versionTitle || '',
+            heVersionTitle: book.hebrew?.versionTitle || '',
+            content: stripHtml([...section.text, ...section.he].join(' ')),
+            bookTitle: schema.title
+          }))
+        })
+      }
+    }, { timeout: 120000 })
+
+    await textSearchService.replaceBook(schema.title, sections.map(section => ({
+      ref: section.ref,
+      heRef: section.heRef,
+      book: schema.title,
+      categories: schema.categories || [],
+      text: section.text,
+      he: section.he
+    })))
+
+    return { title: schema.title, sections: sections.length }
+  }
+
+  /**
+   * Store links in both directions, so each side lists the other as a
+   * connection. Anchors outside onlyTitles are skipped when it is given.
+   */
+  async importLinks(links: SefariaExportLink[], onlyTitles?: Set<string>): Promise<number> {
+    const rows = links.flatMap(link => [0, 1].flatMap(side => {
+      const other = 1 - side
+      if (onlyTitles && !onlyTitles.has(link.titles[side])) return []
+      return [{
+        anchorRef: link.refs[side],
+        anchorSection: sectionOf(link.refs[side]),
+        anchorTitle: link.titles[side],
+        sourceRef: link.refs[other],
+        sourceTitle: link.titles[other],
+        category: link.categories[other],
+        type: link.type
+      }]
+    }))
+
+    for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+      await prisma.sefariaLink.createMany({ data: rows.slice(start, start + BATCH_SIZE) })
+    }
+
+    return rows.length
+  }
+
+  /**
+   * Remove stored links, or only those anchored in the given books
+   */
+  async clearLinks(titles?: Set<string>): Promise<void> {
+    await prisma.sefariaLink.deleteMany({
+      where: titles ? { anchorTitle: { in: [...titles] } } : {}
+    })
+  }
+
+  /**
+   * Imported books grouped into the same category tree Sefaria's index returns
+   */
+  async getIndex(): Promise<SefariaIndex[]> {
+    const books = await prisma.sefariaBook.findMany({
+      orderBy: [{ order: 'asc' }, { title: 'asc' }]
+    })
+
+    const root: any[] = []
+    for (const book of books) {
+      let level = root
+      for (const category of book.categories) {
+        let node = level.find(item => item.category === category)
+        if (!node) {
+          node = { category, contents: [] }
+          level.push(node)
+        }
+        level = node.contents
+      }
+      level.push(book.index)
+    }
+
+    return root
+  }
+
+  async getTextStructure(title: string): Promise<SefariaTextStructure> {
+    const book = await this.findBook(title)
+    return book.structure as unknown as SefariaTextStructure
+  }
+
+  /**
+   * Resolve a ref to a whole section (e.g. "Genesis 1"), a segment range
+   * within one (e.g. "Genesis 1:1-3"), or the first section of a book
+   */
+  async getText(ref: string): Promise<SefariaText> {
+    const match = ref.trim().match(REF_PATTERN)
+    const book = await this.findBook(match ? match[1] : ref.trim())
+    const structure = book.structure as unknown as SefariaTextStructure
+    const depth = structure.depth || 2
+
+    const [start, end] = match ? match[2].split('-') : []
+    const startParts = start ? start.split(':') : []
+    const sectionParts = startParts.slice(0, depth - 1)
+    const sectionRef = sectionParts.length ? `${book.title} ${sectionParts.join(':')}` : book.title
+
+    const section = sectionParts.length === depth - 1
+      ? await prisma.sefariaSection.findUnique({ where: { ref: sectionRef } })
+      : await prisma.sefariaSection.findFirst({
+          where: sectionParts.length
+            ? { bookTitle: book.title, ref: { startsWith: `${sectionRef}:` } }
+            : { bookTitle: book.title },
+          orderBy: { position: 'asc' }
+        })
+
+    if (!section) {
+      throw new Error(`Text not found: ${ref}`)
+    }
+
+    // Narrow to a segment range within the section
+    let text = section.text
+    let he = section.he
+    let toSegment: number | undefined
+    const fromSegment = startParts.length > depth - 1 ? parseInt(startParts[depth - 1], 10) : undefined
+    if (fromSegment !== undefined) {
+      const endParts = end ? end.split(':') : []
+      if (endParts.length > 1 && endParts.slice(0, -1).join(':') !== sectionParts.join(':')) {
+        throw new Error(`Refs spanning several sections aren't supported in local mode: ${ref}`)
+      }
+      toSegment = endParts.length ? parseInt(endParts[endParts.length - 1], 10) : fromSegment
+      text = text.slice(fromSegment - 1, toSegment)
+      he = he.slice(fromSegment - 1, toSegment)
+    }
+
+    const [next, prev] = await Promise.all([
+      prisma.sefariaSection.findFirst({
+        where: { bookTitle: book.title, position: { gt: section.position } },
+        orderBy: { position: 'asc' },
+        select: { ref: true }
+      }),
+      prisma.sefariaSection.findFirst({
+        where: { bookTitle: book.title, position: { lt: section.position } },
+        orderBy: { position: 'desc' },
+        select: { ref: true }
+      })
+    ])
+
+    const versions: SefariaVersion[] = [
+      { versionTitle: section.versionTitle, language: 'en', status: 'locked', priority: 1 },
+      { versionTitle: section.heVersionTitle, language: 'he', status: 'locked', priority: 1 }
+    ].filter(version => version.versionTitle)
+
+    const segmentSuffix = fromSegment === undefined
+      ? ''
+      : `:${fromSegment}${toSegment !== fromSegment ? `-${toSegment}` : ''}`
+
+    return {
+      ref: `${section.ref}${segmentSuffix}`,
+      heRef: section.heRef,
+      text,
+      he,
+      versions,
+      textDepth: depth,
+      sectionNames: structure.sectionNames || [],
+      addressTypes: structure.addressTypes || [],
+      next: next?.ref || null,
+      prev: prev?.ref || null,
+      book: book.title,
+      title: book.title,
+      heTitle: book.heTitle,
+      categories: book.categories,
+      primary_category: book.categories[0] || '',
+      sections: fromSegment === undefined ? section.sections : [...section.sections, fromSegment],
+      toSections: toSegment === undefined ? section.sections : [...section.sections, toSegment],
+      sectionRef: section.ref,
+      heSectionRef: section.heRef,
+      firstAvailableSectionRef: section.ref,
+      isSpanning: false,
+      spanningRefs: []
+    }
+  }
+
+  /**
+   * Sections containing the query, reported at the first matching segment
+   */
+  async searchTexts(query: string, limit: number = 20): Promise<SefariaSearchResult[]> {
+    const sections = await prisma.sefariaSection.findMany({
+      where: { content: { contains: query, mode: 'insensitive' } },
+      orderBy: [{ bookTitle: 'asc' }, { position: 'asc' }],
+      take: limit
+    })
+
+    const needle = query.toLowerCase()
+    return sections.map(section => {
+      const segments = section.text.length >= section.he.length ? section.text : section.he
+      const matchIndex = segments.findIndex((_, i) =>
+        stripHtml(section.text[i] || '').toLowerCase().includes(needle) ||
+        stripHtml(section.he[i] || '').includes(query)
+      )
+      const index = Math.max(matchIndex, 0)
+      const matchedHebrew = !stripHtml(section.text[index] || '').toLowerCase().includes(needle)
+
+      return {
+        ref: `${section.ref}:${index + 1}`,
+        heRef: section.heRef,
+        version: matchedHebrew ? section.heVersionTitle : section.versionTitle,
+        content: stripHtml((matchedHebrew ? section.he[index] : section.text[index]) || ''),
+        highlight: [query],
+        type: 'text'
+      }
+    })
+  }
+
+  /**
+   * Connections for a section (all its segments) or a single segment
+   */
+  async getLinks(ref: string): Promise<SefariaLink[]> {
+    const links = await prisma.sefariaLink.findMany({
+      where: { OR: [{ anchorSection: ref }, { anchorRef: ref }] },
+      orderBy: [{ anchorRef: 'asc' }, { sourceRef: 'asc' }]
+    })
+
+    return links.map(link => ({
+      _id: link.id,
+      refs: [link.anchorRef, link.sourceRef],
+      anchorRef: link.anchorRef,
+      sourceRef: link.sourceRef,
+      sourceHeRef: link.sourceRef,
+      anchorVerse: parseInt(link.anchorRef.split(':').pop() || '', 10) || 0,
+      type: link.type,
+      auto: false,
+      ref: link.sourceRef,
+      heRef: link.sourceRef,
+      anchorHeRef: link.anchorRef,
+      category: link.category,
+      index_title: link.sourceTitle
+    }))
+  }
+
+  private async findBook(title: string) {
+    const book = await prisma.sefariaBook.findFirst({
+      where: { title: { equals: title, mode: 'insensitive' } }
+    })
+
+    if (!book) {
+      throw new Error(`Text not found: ${title}`)
+    }
+
+    return book
+  }
+}
+
+export const sefariaLocalService = new SefariaLocalService()
\ No newline at end of file
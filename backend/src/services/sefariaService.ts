@@ -8,22 +8,37 @@ import {
   SefariaApiError,
   CachedSefariaData
 } from '../types/sefaria'
+import { redisClient } from '../utils/redis'
+import { sefariaLocalService } from './sefariaLocalService'
+import { textSearchService } from './textSearchService'
+
+const CACHE_PREFIX = 'sefaria:'
+// Entries kept in process while Redis is unavailable
+const LOCAL_CACHE_SIZE = 200
 
 export class SefariaService {
   private readonly httpClient: AxiosInstance
-  private readonly cache: Map<string, CachedSefariaData<any>>
+  private readonly inFlight: Map<string, Promise<any>>
+  private readonly localCache: Map<string, CachedSefariaData<any>>
   private readonly baseUrl: string
+  private readonly source: 'remote' | 'local'
   private readonly defaultTtl: number
+  private readonly staleTtl: number
   private readonly maxRetries: number
   private readonly retryDelay: number
 
   constructor() {
     this.baseUrl = process.env.SEFARIA_API_URL || 'https://www.sefaria.org/api'
+    // 'local' serves texts imported with `npm run sefaria:import` instead of calling sefaria.org
+    this.source = process.env.SEFARIA_SOURCE === 'local' ? 'local' : 'remote'
     this.defaultTtl = parseInt(process.env.SEFARIA_CACHE_TTL || '300000') // 5 minutes default
+    // How long past its TTL an entry may still be served while it refreshes
+    this.staleTtl = parseInt(process.env.SEFARIA_CACHE_STALE_TTL || '604800000') // 7 days default
     this.maxRetries = parseInt(process.env.SEFARIA_MAX_RETRIES || '3')
     this.retryDelay = parseInt(process.env.SEFARIA_RETRY_DELAY || '1000') // 1 second default
     
-    this.cache = new Map()
+    this.inFlight = new Map()
+    this.localCache = new Map()
     
     this.httpClient = axios.create({
       baseURL: this.baseUrl,
@@ -54,34 +69,50 @@ export class SefariaService {
    * Get index of all available texts
    */
   async getIndex(): Promise<SefariaIndex[]> {
-    const cacheKey = 'index'
-    const cached = this.getFromCache<SefariaIndex[]>(cacheKey)
-    
-    if (cached) {
-      return cached
+    if (this.source === 'local') {
+      return sefariaLocalService.getIndex()
     }
 
-    const data = await this.makeRequestWithRetry<SefariaIndex[]>('/index')
-    this.setCache(cacheKey, data, this.defaultTtl * 2) // Cache index for longer
-    
-    return data
+    return this.getCached<SefariaIndex[]>(
+      'index',
+      () => this.makeRequestWithRetry<SefariaIndex[]>('/index'),
+      this.defaultTtl * 2 // Cache index for longer
+    )
   }
 
   /**
-   * Get specific text content by reference (e.g., "Genesis 1:1-3")
+   * Get specific text content by reference (e.g., "Genesis 1:1-3").
+   * The neighbouring sections are fetched in the background so page turns
+   * come straight from the cache.
    */
   async getText(ref: string): Promise<SefariaText> {
     if (!ref || ref.trim() === '') {
       throw new Error('Text reference cannot be empty')
     }
 
-    const cacheKey = `text:${ref}`
-    const cached = this.getFromCache<SefariaText>(cacheKey)
-    
-    if (cached) {
-      return cached
+    if (this.source === 'local') {
+      return sefariaLocalService.getText(ref)
+    }
+
+    const text = await this.getCached<SefariaText>(`text:${ref}`, () => this.fetchText(ref))
+    this.prefetchAdjacent(text)
+
+    return text
+  }
+
+  /**
+   * Warm the cache with the sections before and after a text
+   */
+  private prefetchAdjacent(text: SefariaText): void {
+    for (const ref of [text.next, text.prev]) {
+      if (!ref) continue
+
+      this.getCached<SefariaText>(`text:${ref}`, () => this.fetchText(ref))
+        .catch(error => console.warn(`Failed to prefetch ${ref}:`, error))
     }
+  }
 
+  private async fetchText(ref: string): Promise<SefariaText> {
     const encodedRef = encodeURIComponent(ref)
     const rawData = await this.makeRequestWithRetry<any>(`/texts/${encodedRef}`)
     
@@ -134,8 +165,10 @@ export class SefariaService {
     }
     
     console.log('Processed text data:', processedData)
-    
-    this.setCache(cacheKey, processedData)
+
+    // Every section read through the platform becomes searchable across the library
+    textSearchService.indexText(processedData)
+      .catch(error => console.warn(`Failed to index ${processedData.ref} for search:`, error))
     
     return processedData
   }
@@ -148,18 +181,16 @@ export class SefariaService {
       throw new Error('Text title cannot be empty')
     }
 
-    const cacheKey = `structure:${title}`
-    const cached = this.getFromCache<SefariaTextStructure>(cacheKey)
-    
-    if (cached) {
-      return cached
+    if (this.source === 'local') {
+      return sefariaLocalService.getTextStructure(title)
     }
 
     const encodedTitle = encodeURIComponent(title)
-    const data = await this.makeRequestWithRetry<SefariaTextStructure>(`/index/titles/${encodedTitle}`)
-    this.setCache(cacheKey, data, this.defaultTtl * 2) // Cache structure for longer
-    
-    return data
+    return this.getCached<SefariaTextStructure>(
+      `structure:${title}`,
+      () => this.makeRequestWithRetry<SefariaTextStructure>(`/index/titles/${encodedTitle}`),
+      this.defaultTtl * 2 // Cache structure for longer
+    )
   }
 
   /**
@@ -170,11 +201,8 @@ export class SefariaService {
       throw new Error('Search query cannot be empty')
     }
 
-    const cacheKey = `search:${query}:${limit}`
-    const cached = this.getFromCache<SefariaSearchResult[]>(cacheKey)
-    
-    if (cached) {
-      return cached
+    if (this.source === 'local') {
+      return sefariaLocalService.searchTexts(query, limit)
     }
 
     const params = new URLSearchParams({
@@ -182,10 +210,11 @@ export class SefariaService {
       limit: limit.toString()
     })
 
-    const data = await this.makeRequestWithRetry<SefariaSearchResult[]>(`/search-wrapper?${params}`)
-    this.setCache(cacheKey, data, this.defaultTtl / 2) // Cache searches for shorter time
-    
-    return data
+    return this.getCached<SefariaSearchResult[]>(
+      `search:${query}:${limit}`,
+      () => this.makeRequestWithRetry<SefariaSearchResult[]>(`/search-wrapper?${params}`),
+      this.defaultTtl / 2 // Cache searches for shorter time
+    )
   }
 
   /**
@@ -196,18 +225,15 @@ export class SefariaService {
       throw new Error('Text reference cannot be empty')
     }
 
-    const cacheKey = `links:${ref}`
-    const cached = this.getFromCache<SefariaLink[]>(cacheKey)
-    
-    if (cached) {
-      return cached
+    if (this.source === 'local') {
+      return sefariaLocalService.getLinks(ref)
     }
 
     const encodedRef = encodeURIComponent(ref)
-    const data = await this.makeRequestWithRetry<SefariaLink[]>(`/links/${encodedRef}`)
-    this.setCache(cacheKey, data)
-    
-    return data
+    return this.getCached<SefariaLink[]>(
+      `links:${ref}`,
+      () => this.makeRequestWithRetry<SefariaLink[]>(`/links/${encodedRef}`)
+    )
   }
 
   /**
@@ -234,62 +260,137 @@ export class SefariaService {
   }
 
   /**
-   * Get data from cache if not expired
+   * Serve from the shared Redis cache, or an in-process one while Redis is down. Expired entries are still returned
+   * while a fresh copy is fetched in the background (stale-while-revalidate).
    */
-  private getFromCache<T>(key: string): T | null {
-    const cached = this.cache.get(key)
-    
-    if (!cached) {
-      return null
+  private async getCached<T>(key: string, fetcher: () => Promise<T>, ttl: number = this.defaultTtl): Promise<T> {
+    const cached = await this.getFromCache<T>(key)
+
+    if (cached) {
+      if (Date.now() - cached.timestamp > cached.ttl) {
+        this.fetchAndCache(key, fetcher, ttl)
+          .catch(error => console.warn(`Failed to refresh cached Sefaria data for ${key}:`, error))
+      }
+      return cached.data
     }
 
-    const now = Date.now()
-    if (now - cached.timestamp > cached.ttl) {
-      this.cache.delete(key)
-      return null
+    return this.fetchAndCache(key, fetcher, ttl)
+  }
+
+  /**
+   * Fetch and store an entry, sharing the request with concurrent callers
+   */
+  private fetchAndCache<T>(key: string, fetcher: () => Promise<T>, ttl: number): Promise<T> {
+    const pending = this.inFlight.get(key)
+    if (pending) {
+      return pending
+    }
+
+    const request = fetcher()
+      .then(async (data) => {
+        await this.setCache(key, data, ttl)
+        return data
+      })
+      .finally(() => {
+        this.inFlight.delete(key)
+      })
+
+    this.inFlight.set(key, request)
+    return request
+  }
+
+  /**
+   * Get a cache entry, fresh or stale. Cache failures are treated as misses.
+   */
+  private async getFromCache<T>(key: string): Promise<CachedSefariaData<T> | null> {
+    if (!redisClient.isReady()) {
+      return this.getFromLocalCache<T>(key)
     }
 
-    return cached.data as T
+    try {
+      return await redisClient.getCacheEntry(`${CACHE_PREFIX}${key}`)
+    } catch (error) {
+      console.warn(`Failed to read Sefaria cache entry ${key}:`, error)
+      return null
+    }
   }
 
   /**
-   * Set data in cache with TTL
+   * Set data in cache with TTL. Redis keeps it for the stale window beyond that.
    */
-  private setCache<T>(key: string, data: T, ttl: number = this.defaultTtl): void {
-    this.cache.set(key, {
+  private async setCache<T>(key: string, data: T, ttl: number = this.defaultTtl): Promise<void> {
+    const entry: CachedSefariaData<T> = {
       data,
       timestamp: Date.now(),
       ttl
-    })
+    }
+
+    if (!redisClient.isReady()) {
+      this.setLocalCache(key, entry)
+      return
+    }
+
+    try {
+      await redisClient.setCacheEntry(`${CACHE_PREFIX}${key}`, entry, Math.ceil((ttl + this.staleTtl) / 1000))
+    } catch (error) {
+      console.warn(`Failed to write Sefaria cache entry ${key}:`, error)
+    }
   }
 
   /**
-   * Clear all cached data
+   * Get an entry from the in-process fallback cache, dropping it once past the stale window
    */
-  clearCache(): void {
-    this.cache.clear()
+  private getFromLocalCache<T>(key: string): CachedSefariaData<T> | null {
+    const entry = this.localCache.get(key)
+    if (!entry) {
+      return null
+    }
+
+    if (Date.now() - entry.timestamp > entry.ttl + this.staleTtl) {
+      this.localCache.delete(key)
+      return null
+    }
+
+    return entry
   }
 
   /**
-   * Clear expired cache entries
+   * Keep an entry in process while Redis is down, evicting the oldest beyond LOCAL_CACHE_SIZE
    */
-  clearExpiredCache(): void {
-    const now = Date.now()
-    
-    for (const [key, cached] of this.cache.entries()) {
-      if (now - cached.timestamp > cached.ttl) {
-        this.cache.delete(key)
-      }
+  private setLocalCache<T>(key: string, entry: CachedSefariaData<T>): void {
+    this.localCache.delete(key)
+    this.localCache.set(key, entry)
+
+    if (this.localCache.size > LOCAL_CACHE_SIZE) {
+      const oldest = this.localCache.keys().next().value as string
+      this.localCache.delete(oldest)
     }
   }
 
+  /**
+   * Clear all cached data
+   */
+  async clearCache(): Promise<void> {
+    this.localCache.clear()
+
+    if (!redisClient.isReady()) {
+      return
+    }
+
+    await redisClient.deleteCacheEntries(CACHE_PREFIX)
+  }
+
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; keys: string[] } {
+  async getCacheStats(): Promise<{ size: number; keys: string[] }> {
+    const keys = redisClient.isReady()
+      ? (await redisClient.getCacheKeys(CACHE_PREFIX)).map(key => key.slice(CACHE_PREFIX.length))
+      : [...this.localCache.keys()]
+
     return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
+      size: keys.length,
+      keys
     }
   }
 
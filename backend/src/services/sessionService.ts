@@ -1,13 +1,19 @@
 import { Session, SessionParticipant } from '@prisma/client'
 import { prisma } from '../utils/database'
+import { progressService } from './progressService'
+import { permissionService } from './permissionService'
 import { z } from 'zod'
 
 // Validation schemas
+export const sessionModeSchema = z.enum(['havruta', 'chabura'])
+
 export const createSessionSchema = z.object({
   havrutaId: z.string().min(1, 'Havruta ID is required'),
   type: z.enum(['scheduled', 'instant']).optional().default('scheduled'),
   startTime: z.date().optional().default(() => new Date()),
-  participantIds: z.array(z.string()).optional().default([])
+  participantIds: z.array(z.string()).optional().default([]),
+  mode: sessionModeSchema.optional().default('havruta'),
+  leaderId: z.string().optional() // Defaults to the Havruta owner in chabura mode
 })
 
 export const joinSessionSchema = z.object({
@@ -30,6 +36,7 @@ export type CreateSessionData = z.infer<typeof createSessionSchema>
 export type JoinSessionData = z.infer<typeof joinSessionSchema>
 export type UpdateProgressData = z.infer<typeof updateProgressSchema>
 export type EndSessionData = z.infer<typeof endSessionSchema>
+export type SessionMode = z.infer<typeof sessionModeSchema>
 
 export interface SessionWithRelations extends Session {
   havruta: {
@@ -58,7 +65,18 @@ export interface SessionWithRelations extends Session {
   }>
   _count?: {
     participants: number
+    chatMessages?: number
   }
+  chatMessages?: Array<{
+    id: string
+    content: string
+    refs: string[]
+    createdAt: Date
+    user: {
+      id: string
+      name: string
+    }
+  }>
 }
 
 export interface SessionState {
@@ -73,6 +91,8 @@ export interface SessionState {
   endingSection: string | null
   coverageRange: string | null
   sectionsStudied: string[]
+  mode: SessionMode
+  leaderId: string | null
   activeParticipants: Array<{
     userId: string
     name: string
@@ -98,7 +118,7 @@ export class SessionService {
     try {
       // Validate input data
       const validatedData = createSessionSchema.parse(data)
-      const { havrutaId, type, startTime, participantIds } = validatedData
+      const { havrutaId, type, startTime, participantIds, mode, leaderId } = validatedData
 
       // Verify Havruta exists and is active
       const havruta = await prisma.havruta.findUnique({
@@ -130,6 +150,10 @@ export class SessionService {
         throw new Error('There is already an active session for this Havruta')
       }
 
+      if (leaderId && !havruta.participants.some(p => p.userId === leaderId)) {
+        throw new Error('The chabura leader must be a participant in this Havruta')
+      }
+
       // Create session with participants in a transaction
       const session = await prisma.$transaction(async (tx) => {
         // Create the session - it loads Havruta's lastPlace as starting section
@@ -140,7 +164,9 @@ export class SessionService {
             status: type === 'instant' ? 'active' : 'scheduled',
             startTime,
             startingSection: havruta.lastPlace || `${havruta.bookTitle} 1:1`,
-            sectionsStudied: []
+            sectionsStudied: [],
+            mode,
+            leaderId: mode === 'chabura' ? leaderId || havruta.ownerId : null
           }
         })
 
@@ -365,14 +391,17 @@ export class SessionService {
 
         // If owner is leaving and there are other participants, transfer ownership
         if (isOwner && activeParticipants.length > 0) {
-          // Transfer ownership to the next participant (first one who joined)
-          const newOwnerId = activeParticipants[0].userId
-          await tx.havruta.update({
-            where: { id: session.havrutaId },
-            data: { ownerId: newOwnerId }
-          })
-          
-          console.log(`Ownership transferred from ${userId} to ${newOwnerId} for Havruta ${session.havrutaId}`)
+          // Prefer a co-host who is still in the session, then whoever joined the Havruta first
+          const newOwnerId = await permissionService.getSuccessor(
+            session.havrutaId,
+            userId,
+            activeParticipants.map(p => p.userId),
+            tx
+          )
+          if (newOwnerId) {
+            await permissionService.transferOwnership(session.havrutaId, userId, newOwnerId, tx)
+            console.log(`Ownership transferred from ${userId} to ${newOwnerId} for Havruta ${session.havrutaId}`)
+          }
         }
 
         // If no one is left in the session, auto-close it
@@ -429,7 +458,11 @@ export class SessionService {
   /**
    * Create an instant session that immediately starts and sends notifications
    */
-  async createInstantSession(havrutaId: string, creatorUserId: string): Promise<SessionWithRelations> {
+  async createInstantSession(
+    havrutaId: string,
+    creatorUserId: string,
+    mode: SessionMode = 'havruta'
+  ): Promise<SessionWithRelations> {
     try {
       // Verify user is the Havruta owner
       const havruta = await prisma.havruta.findUnique({
@@ -448,8 +481,8 @@ export class SessionService {
       if (!havruta.isActive) {
         throw new Error('Cannot create session for inactive Havruta')
       }
-      if (havruta.ownerId !== creatorUserId) {
-        throw new Error('Only the Havruta owner can create instant sessions')
+      if (!await permissionService.hasPermission(havrutaId, creatorUserId, 'startSession')) {
+        throw new Error('Only the Havruta owner or a co-host can create instant sessions')
       }
 
       // Check if there's already an active session - this is critical validation
@@ -469,7 +502,9 @@ export class SessionService {
         havrutaId,
         type: 'instant',
         startTime: new Date(),
-        participantIds: havruta.participants.map(p => p.userId)
+        participantIds: havruta.participants.map(p => p.userId),
+        mode,
+        leaderId: creatorUserId // Whoever starts a chabura leads it
       })
 
       // Send real-time notifications to all participants (excluding creator)
@@ -512,9 +547,9 @@ export class SessionService {
         throw new Error('Session has already ended')
       }
 
-      // Check if user is the current Havruta owner (ownership may have been transferred)
-      if (session.havruta.ownerId !== userId) {
-        throw new Error('Only the current session owner can end sessions for everyone')
+      // Check the user's current role (ownership may have been transferred)
+      if (!await permissionService.hasPermission(session.havrutaId, userId, 'endSession')) {
+        throw new Error('Only the session owner or a co-host can end sessions for everyone')
       }
 
       const endTime = new Date()
@@ -551,6 +586,13 @@ export class SessionService {
           data: { leftAt: endTime }
         })
       })
+
+      // Credit participants with the sections covered (best effort; needs the text structure)
+      try {
+        await progressService.recordSessionCoverage(sessionId)
+      } catch (error) {
+        console.error(`Failed to record coverage for session ${sessionId}:`, error)
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
@@ -603,6 +645,8 @@ export class SessionService {
         endingSection: session.endingSection,
         coverageRange: session.coverageRange,
         sectionsStudied: session.sectionsStudied,
+        mode: session.mode as SessionMode,
+        leaderId: session.leaderId,
         activeParticipants: session.participants.map(p => ({
           userId: p.user.id,
           name: p.user.name,
@@ -680,6 +724,20 @@ export class SessionService {
 
       const havrutaId = sessionParticipant.session.havrutaId
 
+      // Add newly studied sections to what the user has already covered
+      const existingProgress = await prisma.progress.findUnique({
+        where: {
+          userId_havrutaId: {
+            userId,
+            havrutaId
+          }
+        }
+      })
+      const sectionsCompleted = Array.from(new Set([
+        ...(existingProgress?.sectionsCompleted || []),
+        ...(validatedData.sectionsStudied || [])
+      ]))
+
       // Update or create user progress for this Havruta
       await prisma.progress.upsert({
         where: {
@@ -691,7 +749,7 @@ export class SessionService {
         update: {
           ...(validatedData.sectionsStudied && {
             sectionsCompleted: {
-              set: validatedData.sectionsStudied
+              set: sectionsCompleted
             }
           }),
           ...(validatedData.currentSection && {
@@ -707,7 +765,7 @@ export class SessionService {
         create: {
           userId,
           havrutaId,
-          sectionsCompleted: validatedData.sectionsStudied || [],
+          sectionsCompleted,
           lastSection: validatedData.currentSection || '',
           totalTimeStudied: validatedData.timeStudied || 0
         }
@@ -880,9 +938,21 @@ export class SessionService {
             },
             orderBy: { joinedAt: 'asc' }
           },
+          chatMessages: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true
+                }
+              }
+            },
+            orderBy: { createdAt: 'asc' }
+          },
           _count: {
             select: {
-              participants: true
+              participants: true,
+              chatMessages: true
             }
           }
         },
@@ -970,19 +1040,15 @@ export class SessionService {
   }
 
   /**
-   * Check if user is the current session owner (can end session for everyone)
+   * Check if user can run the session for everyone (the owner or a co-host)
    */
   async isSessionOwner(sessionId: string, userId: string): Promise<boolean> {
     try {
       const session = await prisma.session.findUnique({
         where: { id: sessionId },
-        include: {
-          havruta: {
-            select: { ownerId: true }
-          }
-        }
+        select: { havrutaId: true }
       })
-      return session?.havruta.ownerId === userId
+      return !!session && await permissionService.hasPermission(session.havrutaId, userId, 'endSession')
     } catch (error) {
       console.error('Error checking session ownership:', error)
       return false
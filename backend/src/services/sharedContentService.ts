@@ -0,0 +1,51 @@
+import { prisma } from '../utils/database'
+
+/**
+ * Common ground for content that participants share in a Havruta (annotations, highlights):
+ * who may see and add it, who may remove it, and how changes reach everyone in the room
+ */
+export abstract class SharedContentService {
+  private websocketService?: any // Will be set after WebSocketService is created
+
+  /**
+   * Set the WebSocket service (called after WebSocketService is instantiated)
+   */
+  setWebSocketService(websocketService: any): void {
+    this.websocketService = websocketService
+  }
+
+  /**
+   * Verify that the user is a participant in the Havruta
+   */
+  protected async verifyParticipant(havrutaId: string, userId: string): Promise<void> {
+    const participant = await prisma.havrutaParticipant.findUnique({
+      where: {
+        userId_havrutaId: {
+          userId,
+          havrutaId
+        }
+      }
+    })
+    if (!participant) {
+      throw new Error('User is not a participant in this Havruta')
+    }
+  }
+
+  /**
+   * Shared content can be removed by its author or the Havruta owner
+   */
+  protected canRemove(userId: string, content: { userId: string, havruta: { ownerId: string } }): boolean {
+    return content.userId === userId || content.havruta.ownerId === userId
+  }
+
+  /**
+   * Broadcast a change to everyone studying the Havruta
+   */
+  protected broadcast(havrutaId: string, event: string, data: any): void {
+    if (!this.websocketService) return
+
+    this.websocketService.broadcastToHavruta(havrutaId, event, data).catch((error: unknown) => {
+      console.error(`Failed to broadcast ${event} for Havruta ${havrutaId}:`, error)
+    })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,355 @@
+import { StudyPlan } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { sefariaService } from './sefariaService'
+import { permissionService } from './permissionService'
+import { SefariaTextStructure } from '../types/sefaria'
+import { z } from 'zod'
+
+// Validation schemas
+export const upsertStudyPlanSchema = z.object({
+  havrutaId: z.string().min(1, 'Havruta ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  startRef: z.string().trim().min(1, 'Start reference is required'),
+  endRef: z.string().trim().min(1, 'End reference is required'),
+  amount: z.number().int().min(1, 'Amount must be at least 1').max(50, 'Amount must be at most 50').default(1),
+  unit: z.enum(['chapter', 'daf', 'amud']).default('chapter'),
+  period: z.enum(['day', 'week']).default('day'),
+  startDate: z.coerce.date()
+})
+
+export type UpsertStudyPlanData = z.input<typeof upsertStudyPlanSchema>
+
+export type StudyPlanStatusType = 'not-started' | 'behind' | 'on-track' | 'ahead' | 'completed'
+
+export interface StudyPlanPosition {
+  index: number
+  ref: string
+  endRef: string // Last section of the portion assigned for the period
+}
+
+export interface StudyPlanStatus {
+  status: StudyPlanStatusType
+  expectedRef: string
+  expectedEndRef: string
+  currentRef: string
+  sectionsAhead: number // Negative when behind
+  periodsAhead: number // Negative when behind
+  percentComplete: number
+  endDate: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class StudyPlanService {
+  /**
+   * Create or replace the study plan for a Havruta (owner or co-host)
+   */
+  async upsertStudyPlan(data: UpsertStudyPlanData): Promise<StudyPlan> {
+    try {
+      const { havrutaId, userId, ...planData } = upsertStudyPlanSchema.parse(data)
+
+      const havruta = await this.verifyPlanner(havrutaId, userId)
+      const structure = await sefariaService.getTextStructure(havruta.bookTitle)
+
+      // Make sure both refs point at sections the plan can count
+      const startIndex = this.getSectionIndex(planData.startRef, havruta.bookTitle, structure)
+      const endIndex = this.getSectionIndex(planData.endRef, havruta.bookTitle, structure)
+      if (endIndex < startIndex) {
+        throw new Error('Validation error: End reference must come after start reference')
+      }
+      if (this.getSectionsPerUnit(planData.unit, structure) === 0) {
+        throw new Error(`Validation error: A ${planData.unit} cadence is not supported for ${havruta.bookTitle}`)
+      }
+
+      return await prisma.studyPlan.upsert({
+        where: { havrutaId },
+        create: { havrutaId, ...planData },
+        update: planData
+      })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`)
+      }
+      console.error('Error saving study plan:', error)
+      throw error instanceof Error ? error : new Error('Failed to save study plan')
+    }
+  }
+
+  /**
+   * Get the study plan for a Havruta, or null if it has none
+   */
+  async getStudyPlan(havrutaId: string, userId: string): Promise<StudyPlan | null> {
+    try {
+      await this.verifyParticipant(havrutaId, userId)
+
+      return await prisma.studyPlan.findUnique({
+        where: { havrutaId }
+      })
+    } catch (error) {
+      console.error('Error fetching study plan:', error)
+      throw error instanceof Error ? error : new Error('Failed to fetch study plan')
+    }
+  }
+
+  /**
+   * Remove the study plan from a Havruta (owner or co-host)
+   */
+  async deleteStudyPlan(havrutaId: string, userId: string): Promise<void> {
+    try {
+      await this.verifyPlanner(havrutaId, userId)
+
+      const plan = await prisma.studyPlan.findUnique({
+        where: { havrutaId }
+      })
+      if (!plan) {
+        throw new Error('Study plan not found')
+      }
+
+      await prisma.studyPlan.delete({
+        where: { havrutaId }
+      })
+    } catch (error) {
+      console.error('Error deleting study plan:', error)
+      throw error instanceof Error ? error : new Error('Failed to delete study plan')
+    }
+  }
+
+  /**
+   * Compare the Havruta's last place against where the plan expects it to be
+   */
+  async getStudyPlanStatus(havrutaId: string, userId: string, date: Date = new Date()): Promise<StudyPlanStatus | null> {
+    try {
+      await this.verifyParticipant(havrutaId, userId)
+
+      const havruta = await prisma.havruta.findUnique({
+        where: { id: havrutaId },
+        include: { studyPlan: true }
+      })
+      if (!havruta) {
+        throw new Error('Havruta not found')
+      }
+      if (!havruta.studyPlan) {
+        return null
+      }
+
+      const structure = await sefariaService.getTextStructure(havruta.bookTitle)
+      return this.calculateStatus(havruta.studyPlan, havruta.bookTitle, structure, havruta.lastPlace, date)
+    } catch (error) {
+      console.error('Error calculating study plan status:', error)
+      throw error instanceof Error ? error : new Error('Failed to calculate study plan status')
+    }
+  }
+
+  /**
+   * Work out the ahead/behind status for a plan from the last place studied
+   */
+  calculateStatus(
+    plan: StudyPlan,
+    bookTitle: string,
+    structure: SefariaTextStructure,
+    lastPlace: string,
+    date: Date
+  ): StudyPlanStatus {
+    const startIndex = this.getSectionIndex(plan.startRef, bookTitle, structure)
+    const endIndex = this.getSectionIndex(plan.endRef, bookTitle, structure)
+    const sectionsPerPeriod = plan.amount * this.getSectionsPerUnit(plan.unit, structure)
+    const expected = this.getExpectedPosition(plan, bookTitle, structure, date)
+    const endDate = this.getPlanEndDate(plan, bookTitle, structure)
+
+    // No recorded place yet means the Havruta is still at the start
+    let currentIndex = startIndex
+    try {
+      currentIndex = lastPlace ? this.getSectionIndex(lastPlace, bookTitle, structure) : startIndex
+    } catch {
+      // Last place is outside the plan's text (e.g., a commentary); treat it as the start
+    }
+
+    const totalSections = endIndex - startIndex + 1
+    const sectionsDone = Math.min(Math.max(currentIndex - startIndex, 0), totalSections)
+    const percentComplete = Math.round((sectionsDone / totalSections) * 100)
+
+    // Inside the current period's portion counts as on track
+    let sectionsAhead = 0
+    if (currentIndex < expected.index) {
+      sectionsAhead = currentIndex - expected.index
+    } else if (currentIndex > expected.index + sectionsPerPeriod - 1) {
+      sectionsAhead = currentIndex - (expected.index + sectionsPerPeriod - 1)
+    }
+
+    let status: StudyPlanStatusType
+    if (currentIndex >= endIndex && lastPlace) {
+      status = 'completed'
+    } else if (date < plan.startDate) {
+      status = 'not-started'
+    } else if (sectionsAhead < 0) {
+      status = 'behind'
+    } else if (sectionsAhead > 0) {
+      status = 'ahead'
+    } else {
+      status = 'on-track'
+    }
+
+    return {
+      status,
+      expectedRef: expected.ref,
+      expectedEndRef: expected.endRef,
+      currentRef: this.getSectionRef(currentIndex, bookTitle, structure),
+      sectionsAhead,
+      periodsAhead: sectionsAhead < 0
+        ? -Math.ceil(-sectionsAhead / sectionsPerPeriod)
+        : Math.floor(sectionsAhead / sectionsPerPeriod),
+      percentComplete,
+      endDate
+    }
+  }
+
+  /**
+   * Get the portion the plan assigns for a date
+   */
+  getExpectedPosition(plan: StudyPlan, bookTitle: string, structure: SefariaTextStructure, date: Date): StudyPlanPosition {
+    const startIndex = this.getSectionIndex(plan.startRef, bookTitle, structure)
+    const endIndex = this.getSectionIndex(plan.endRef, bookTitle, structure)
+    const sectionsPerPeriod = plan.amount * this.getSectionsPerUnit(plan.unit, structure)
+
+    const periodsElapsed = Math.max(
+      Math.floor((date.getTime() - plan.startDate.getTime()) / this.getPeriodLength(plan)),
+      0
+    )
+
+    const index = Math.min(startIndex + periodsElapsed * sectionsPerPeriod, endIndex)
+    const portionEnd = Math.min(index + sectionsPerPeriod - 1, endIndex)
+
+    return {
+      index,
+      ref: this.getSectionRef(index, bookTitle, structure),
+      endRef: this.getSectionRef(portionEnd, bookTitle, structure)
+    }
+  }
+
+  /**
+   * Get the date on which the plan's final portion is learned
+   */
+  getPlanEndDate(plan: StudyPlan, bookTitle: string, structure: SefariaTextStructure): Date {
+    const startIndex = this.getSectionIndex(plan.startRef, bookTitle, structure)
+    const endIndex = this.getSectionIndex(plan.endRef, bookTitle, structure)
+    const sectionsPerPeriod = plan.amount * this.getSectionsPerUnit(plan.unit, structure)
+    const periods = Math.ceil((endIndex - startIndex + 1) / sectionsPerPeriod)
+
+    return new Date(plan.startDate.getTime() + (periods - 1) * this.getPeriodLength(plan))
+  }
+
+  /**
+   * Convert a ref to its position in the book.
+   * Talmud texts are counted by amud from 1a (so 2a is 2); other texts by chapter from 0.
+   */
+  getSectionIndex(ref: string, bookTitle: string, structure: SefariaTextStructure): number {
+    if (!ref.startsWith(`${bookTitle} `)) {
+      throw new Error(`Validation error: ${ref} is not in ${bookTitle}`)
+    }
+
+    const location = ref.slice(bookTitle.length + 1).split(':')[0].trim()
+    const totalSections = this.getSectionCount(structure)
+
+    let index: number
+    if (this.isTalmud(structure)) {
+      const match = location.match(/^(\d+)([ab])$/)
+      if (!match) {
+        throw new Error(`Validation error: ${ref} is not a valid daf reference`)
+      }
+      index = (parseInt(match[1], 10) - 1) * 2 + (match[2] === 'b' ? 1 : 0)
+    } else {
+      if (!/^\d+$/.test(location)) {
+        throw new Error(`Validation error: ${ref} is not a valid chapter reference`)
+      }
+      index = parseInt(location, 10) - 1
+    }
+
+    if (index < 0 || index >= totalSections) {
+      throw new Error(`Validation error: ${ref} is outside of ${bookTitle}`)
+    }
+
+    return index
+  }
+
+  /**
+   * Convert a position in the book back to a ref
+   */
+  getSectionRef(index: number, bookTitle: string, structure: SefariaTextStructure): string {
+    if (this.isTalmud(structure)) {
+      return `${bookTitle} ${Math.floor(index / 2) + 1}${index % 2 === 0 ? 'a' : 'b'}`
+    }
+    return `${bookTitle} ${index + 1}`
+  }
+
+  /**
+   * Number of top-level sections in the book (chapters, or amudim counted from 1a)
+   */
+  getSectionCount(structure: SefariaTextStructure): number {
+    const totalSections = structure.schema?.lengths?.[0]
+    if (!totalSections) {
+      throw new Error('Text structure does not include section lengths')
+    }
+    return totalSections
+  }
+
+  /**
+   * Position of the first section that has text (Talmud tractates begin at 2a)
+   */
+  getFirstSectionIndex(structure: SefariaTextStructure): number {
+    return this.isTalmud(structure) ? 2 : 0
+  }
+
+  /**
+   * Number of sections (chapters or amudim) covered by one unit of the cadence, or 0 if the unit doesn't apply
+   */
+  private getSectionsPerUnit(unit: string, structure: SefariaTextStructure): number {
+    if (this.isTalmud(structure)) {
+      return unit === 'daf' ? 2 : unit === 'amud' ? 1 : 0
+    }
+    return unit === 'chapter' ? 1 : 0
+  }
+
+  private getPeriodLength(plan: StudyPlan): number {
+    return plan.period === 'week' ? 7 * DAY_MS : DAY_MS
+  }
+
+  private isTalmud(structure: SefariaTextStructure): boolean {
+    const addressTypes = structure.schema?.addressTypes || structure.addressTypes || []
+    return addressTypes[0] === 'Talmud'
+  }
+
+  /**
+   * Verify that the user's role lets them change the study plan
+   */
+  private async verifyPlanner(havrutaId: string, userId: string) {
+    const havruta = await prisma.havruta.findUnique({
+      where: { id: havrutaId }
+    })
+    if (!havruta) {
+      throw new Error('Havruta not found')
+    }
+    if (!await permissionService.hasPermission(havrutaId, userId, 'manageStudyPlan')) {
+      throw new Error('Only the owner or a co-host can change the study plan')
+    }
+    return havruta
+  }
+
+  /**
+   * Verify that the user is a participant in the Havruta
+   */
+  private async verifyParticipant(havrutaId: string, userId: string): Promise<void> {
+    const participant = await prisma.havrutaParticipant.findUnique({
+      where: {
+        userId_havrutaId: {
+          userId,
+          havrutaId
+        }
+      }
+    })
+    if (!participant) {
+      throw new Error('User is not a participant in this Havruta')
+    }
+  }
+}
+
+export const studyPlanService = new StudyPlanService()
\ No newline at end of file
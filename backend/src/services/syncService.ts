@@ -1,9 +1,13 @@
 import { Server } from 'socket.io'
 import { WebSocketService } from './websocketService'
+import { permissionService } from './permissionService'
+import { getConflictStrategy } from './navigationConflictStrategies'
 import { prisma } from '../utils/database'
+import { redisClient } from '../utils/redis'
 
 export interface NavigationEvent {
   havrutaId: string
+  sessionId?: string // Set for navigation inside a session room
   section: string
   navigatedBy: {
     id: string
@@ -15,14 +19,65 @@ export interface NavigationEvent {
 
 export interface SyncConflict {
   havrutaId: string
+  sessionId?: string
   conflictingNavigations: NavigationEvent[]
   currentSection: string
   timestamp: string
 }
 
+/**
+ * A navigation conflict waiting on a vote. It lives on the server so a
+ * partner who reconnects mid-conflict gets it back and can still vote.
+ */
+export interface PendingNavigationConflict {
+  id: string
+  sessionId: string
+  havrutaId: string
+  options: NavigationEvent[] // Latest navigation of each partner in the conflict
+  voterIds: string[] // Partners who still have to agree
+  votes: Record<string, string> // userId -> chosen section
+  createdAt: string
+}
+
+// What session clients receive on 'navigation:conflict'
+export interface NavigationConflictEvent {
+  sessionId: string
+  conflictId: string
+  strategy: 'vote'
+  conflictingRefs: Array<{
+    ref: string
+    participants: Array<{ userId: string; userName: string }>
+  }>
+  voterIds: string[]
+  votes: Record<string, string>
+  timestamp: string
+}
+
+/**
+ * Floor control for a chabura (group study) session: the leader drives
+ * navigation and can hand it to one participant at a time.
+ */
+export interface ChaburaState {
+  sessionId: string
+  havrutaId: string
+  leaderId: string
+  leaderName: string
+  driverId: string | null // Participant the leader handed navigation to
+  driverName: string | null
+  raisedHands: Array<{
+    userId: string
+    userName: string
+    raisedAt: string
+  }>
+  currentSection: string | null
+}
+
+/**
+ * Navigation history, chabura floor state and open conflict votes live in
+ * Redis, so any backend instance can handle a session's next event.
+ */
 export class SyncService {
   private websocketService: WebSocketService
-  private navigationHistory: Map<string, NavigationEvent[]> = new Map()
   private conflictResolutionTimeout = 5000 // 5 seconds
 
   constructor(websocketService: WebSocketService) {
@@ -54,7 +109,7 @@ export class SyncService {
       }
 
       // Store navigation in history
-      this.addToNavigationHistory(havrutaId, navigationEvent)
+      await this.addToNavigationHistory(havrutaId, navigationEvent)
 
       // Update database
       await prisma.havruta.update({
@@ -74,6 +129,265 @@ export class SyncService {
     }
   }
 
+  /**
+   * Broadcast navigation inside a session room. In chabura mode only the
+   * leader, or whoever they handed control to, can move the text.
+   */
+  async broadcastSessionNavigation(
+    sessionId: string,
+    havrutaId: string,
+    section: string,
+    navigatedBy: { id: string; name: string }
+  ): Promise<void> {
+    const chabura = await this.getChaburaState(sessionId)
+    if (chabura && !this.canDrive(chabura, navigatedBy.id)) {
+      throw new Error('Only the leader can move the text for everyone. Raise your hand to ask for control.')
+    }
+    if (await this.getPendingConflict(sessionId)) {
+      throw new Error('Navigation is locked until everyone agrees where to go')
+    }
+
+    const navigationEvent: NavigationEvent = {
+      havrutaId,
+      sessionId,
+      section,
+      navigatedBy,
+      timestamp: new Date().toISOString()
+    }
+
+    const conflict = await this.detectNavigationConflict(navigationEvent)
+    if (conflict) {
+      await this.handleNavigationConflict(conflict)
+      return
+    }
+
+    await this.addToNavigationHistory(sessionId, navigationEvent)
+    if (chabura) {
+      await this.setChaburaSection(sessionId, section)
+    }
+    await this.emitSessionNavigation(navigationEvent)
+  }
+
+  /**
+   * Get the floor state of a chabura session, or null for regular sessions
+   */
+  async getChaburaState(sessionId: string): Promise<ChaburaState | null> {
+    const cached: ChaburaState | null = await redisClient.getSyncState(sessionId, 'chabura')
+    if (cached) {
+      return cached
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        leader: {
+          select: { name: true }
+        },
+        havruta: {
+          select: { ownerId: true, owner: { select: { name: true } } }
+        }
+      }
+    })
+    if (!session || session.mode !== 'chabura') {
+      return null
+    }
+
+    const chabura: ChaburaState = {
+      sessionId,
+      havrutaId: session.havrutaId,
+      leaderId: session.leaderId || session.havruta.ownerId,
+      leaderName: session.leader?.name || session.havruta.owner.name,
+      driverId: null,
+      driverName: null,
+      raisedHands: [],
+      currentSection: session.startingSection || null
+    }
+    // Keep the state if another instance set it up in the meantime
+    return await redisClient.updateSyncState<ChaburaState>(sessionId, 'chabura', current => current ? undefined : chabura)
+  }
+
+  /**
+   * Ask the leader for control of navigation
+   */
+  async raiseHand(sessionId: string, user: { id: string; name: string }): Promise<ChaburaState> {
+    const chabura = await this.requireChabura(sessionId)
+
+    if (!await permissionService.hasPermission(chabura.havrutaId, user.id, 'navigate')) {
+      throw new Error('Observers cannot ask for control')
+    }
+
+    const updated = await this.updateChabura(sessionId, current => {
+      if (!this.canDrive(current, user.id) && !current.raisedHands.some(hand => hand.userId === user.id)) {
+        current.raisedHands.push({
+          userId: user.id,
+          userName: user.name,
+          raisedAt: new Date().toISOString()
+        })
+      }
+      return current
+    })
+
+    this.broadcastChaburaState(updated)
+    return updated
+  }
+
+  /**
+   * Withdraw a raised hand
+   */
+  async lowerHand(sessionId: string, userId: string): Promise<ChaburaState> {
+    await this.requireChabura(sessionId)
+
+    const updated = await this.updateChabura(sessionId, current => {
+      current.raisedHands = current.raisedHands.filter(hand => hand.userId !== userId)
+      return current
+    })
+
+    this.broadcastChaburaState(updated)
+    return updated
+  }
+
+  /**
+   * Let a participant drive navigation (leader only). Only one participant
+   * drives at a time, so granting replaces the previous driver.
+   */
+  async grantControl(sessionId: string, leaderId: string, userId: string): Promise<ChaburaState> {
+    const chabura = await this.requireChabura(sessionId)
+
+    if (chabura.leaderId !== leaderId) {
+      throw new Error('Only the leader can hand over control')
+    }
+    if (userId === leaderId) {
+      throw new Error('The leader already has control')
+    }
+    if (!await permissionService.hasPermission(chabura.havrutaId, userId, 'navigate')) {
+      throw new Error('Observers cannot be given control')
+    }
+
+    const updated = await this.updateChabura(sessionId, async current => {
+      const hand = current.raisedHands.find(raised => raised.userId === userId)
+      const driver = hand ? null : await prisma.user.findUnique({
+        where: { id: userId },
+        select: { name: true }
+      })
+
+      current.driverId = userId
+      current.driverName = hand?.userName || driver?.name || null
+      current.raisedHands = current.raisedHands.filter(hand => hand.userId !== userId)
+      return current
+    })
+
+    this.broadcastChaburaState(updated)
+    return updated
+  }
+
+  /**
+   * Take control back from the current driver. The driver can also give
+   * it back themselves.
+   */
+  async revokeControl(sessionId: string, userId: string): Promise<ChaburaState> {
+    await this.requireChabura(sessionId)
+
+    const updated = await this.updateChabura(sessionId, current => {
+      if (current.leaderId !== userId && current.driverId !== userId) {
+        throw new Error('Only the leader can take back control')
+      }
+
+      current.driverId = null
+      current.driverName = null
+      return current
+    })
+
+    this.broadcastChaburaState(updated)
+    return updated
+  }
+
+  /**
+   * Drop a departing participant's raised hand and any control they held
+   */
+  async handleChaburaLeave(userId: string, sessionId: string): Promise<void> {
+    let changed = false
+    const chabura = await redisClient.updateSyncState<ChaburaState>(sessionId, 'chabura', current => {
+      changed = false
+      if (!current) {
+        return undefined
+      }
+
+      const hadHand = current.raisedHands.some(hand => hand.userId === userId)
+      const wasDriver = current.driverId === userId
+      if (!hadHand && !wasDriver) {
+        return undefined
+      }
+
+      current.raisedHands = current.raisedHands.filter(hand => hand.userId !== userId)
+      if (wasDriver) {
+        current.driverId = null
+        current.driverName = null
+      }
+      changed = true
+      return current
+    })
+
+    if (chabura && changed) {
+      this.broadcastChaburaState(chabura)
+    }
+  }
+
+  /**
+   * Get the open conflict vote in a session, as clients receive it
+   */
+  async getConflictEvent(sessionId: string): Promise<NavigationConflictEvent | null> {
+    const pending = await this.getPendingConflict(sessionId)
+    return pending ? this.toConflictEvent(pending) : null
+  }
+
+  /**
+   * Record a partner's choice in a conflict vote. Once everyone in the
+   * conflict has picked the same section, the whole session moves there.
+   */
+  async voteOnConflict(sessionId: string, userId: string, section: string): Promise<void> {
+    await this.settleConflictVote(sessionId, pending => {
+      if (!pending) {
+        throw new Error('There is no navigation conflict to resolve')
+      }
+      if (!pending.voterIds.includes(userId)) {
+        throw new Error('Only the partners in this conflict can vote')
+      }
+      if (!pending.options.some(option => option.section === section)) {
+        throw new Error('Choose one of the sections in the conflict')
+      }
+
+      pending.votes[userId] = section
+      return pending
+    })
+  }
+
+  /**
+   * Take a partner who left the session out of an open vote, so the
+   * others aren't stuck waiting on them
+   */
+  async handleConflictLeave(userId: string, sessionId: string): Promise<void> {
+    await this.settleConflictVote(sessionId, pending => {
+      if (!pending || !pending.voterIds.includes(userId)) {
+        return undefined
+      }
+
+      pending.voterIds = pending.voterIds.filter(id => id !== userId)
+      delete pending.votes[userId]
+      return pending
+    })
+  }
+
+  /**
+   * Forget a session's chabura, conflict and history state (when it ends)
+   */
+  async clearSessionState(sessionId: string): Promise<void> {
+    await Promise.all([
+      redisClient.deleteSyncState(sessionId, 'chabura'),
+      redisClient.deleteSyncState(sessionId, 'conflict'),
+      redisClient.clearNavigationHistory(sessionId)
+    ])
+  }
+
   /**
    * Handle participant joining a Havruta session
    */
@@ -133,8 +447,8 @@ export class SyncService {
    * Detect navigation conflicts when multiple users navigate simultaneously
    */
   private async detectNavigationConflict(navigationEvent: NavigationEvent): Promise<SyncConflict | null> {
-    const { havrutaId, timestamp } = navigationEvent
-    const history = this.navigationHistory.get(havrutaId) || []
+    const { havrutaId, sessionId, timestamp } = navigationEvent
+    const history = await this.getNavigationHistory(sessionId || havrutaId)
     
     // Check for recent navigation events (within conflict resolution timeout)
     const recentEvents = history.filter(event => {
@@ -151,6 +465,7 @@ export class SyncService {
       if (lastEvent.section !== navigationEvent.section) {
         return {
           havrutaId,
+          sessionId,
           conflictingNavigations: [...recentEvents, navigationEvent],
           currentSection: lastEvent.section,
           timestamp: new Date().toISOString()
@@ -162,22 +477,54 @@ export class SyncService {
   }
 
   /**
-   * Handle navigation conflicts using last-writer-wins strategy
+   * Handle navigation conflicts with the Havruta's strategy. A chabura always
+   * defers to its leader.
    */
   private async handleNavigationConflict(conflict: SyncConflict): Promise<void> {
-    const { havrutaId, conflictingNavigations } = conflict
-    
-    // Use last-writer-wins strategy - take the most recent navigation
-    const winningNavigation = conflictingNavigations[conflictingNavigations.length - 1]
+    const { havrutaId, sessionId, conflictingNavigations } = conflict
+    const chabura = sessionId ? await this.getChaburaState(sessionId) : null
+    const havruta = await prisma.havruta.findUnique({
+      where: { id: havrutaId },
+      select: { ownerId: true, conflictStrategy: true }
+    })
+
+    // Votes are collected through session rooms, so legacy Havruta rooms fall back to last-writer-wins
+    const strategyName = chabura ? 'leader-wins' : havruta?.conflictStrategy
+    const strategy = getConflictStrategy(strategyName === 'vote' && !sessionId ? 'last-writer-wins' : strategyName)
+    const resolution = strategy.resolve(conflictingNavigations, {
+      leaderId: chabura?.leaderId || havruta?.ownerId || null
+    })
+
+    if (resolution.type === 'vote') {
+      await this.openConflictVote(sessionId!, havrutaId, conflictingNavigations)
+      return
+    }
+
+    await this.applyConflictWinner(conflict, resolution.winner)
+  }
+
+  /**
+   * Move everyone to the navigation that won a conflict
+   */
+  private async applyConflictWinner(conflict: SyncConflict, winningNavigation: NavigationEvent): Promise<void> {
+    const { havrutaId, sessionId, conflictingNavigations } = conflict
+    const rejectedNavigations = conflictingNavigations.filter(nav => nav !== winningNavigation)
+
     winningNavigation.conflictResolution = 'accept'
-    
-    // Mark other navigations as rejected
-    conflictingNavigations.slice(0, -1).forEach(nav => {
+    rejectedNavigations.forEach(nav => {
       nav.conflictResolution = 'reject'
     })
 
     // Store resolved navigation in history
-    this.addToNavigationHistory(havrutaId, winningNavigation)
+    await this.addToNavigationHistory(sessionId || havrutaId, winningNavigation)
+
+    if (sessionId) {
+      await this.setChaburaSection(sessionId, winningNavigation.section)
+      // Everyone, including whoever lost, moves to the winning section
+      await this.emitSessionNavigation(winningNavigation)
+      console.log(`Navigation conflict resolved in session ${sessionId}: ${winningNavigation.section} wins`)
+      return
+    }
 
     // Update database with winning navigation
     await prisma.havruta.update({
@@ -190,7 +537,7 @@ export class SyncService {
     // Broadcast conflict resolution
     this.websocketService.broadcastToRoom(havrutaId, 'navigation-conflict-resolved', {
       winningNavigation,
-      rejectedNavigations: conflictingNavigations.slice(0, -1),
+      rejectedNavigations,
       timestamp: new Date().toISOString()
     })
 
@@ -198,34 +545,178 @@ export class SyncService {
   }
 
   /**
-   * Add navigation event to history
+   * Hold navigation in a session until the partners in the conflict agree
    */
-  private addToNavigationHistory(havrutaId: string, navigationEvent: NavigationEvent): void {
-    if (!this.navigationHistory.has(havrutaId)) {
-      this.navigationHistory.set(havrutaId, [])
+  private async openConflictVote(sessionId: string, havrutaId: string, navigations: NavigationEvent[]): Promise<void> {
+    const latestByUser = new Map<string, NavigationEvent>()
+    navigations.forEach(nav => latestByUser.set(nav.navigatedBy.id, nav))
+
+    const pending: PendingNavigationConflict = {
+      id: `${sessionId}-${Date.now()}`,
+      sessionId,
+      havrutaId,
+      options: [...latestByUser.values()],
+      voterIds: [...latestByUser.keys()],
+      votes: {},
+      createdAt: new Date().toISOString()
     }
-    
-    const history = this.navigationHistory.get(havrutaId)!
-    history.push(navigationEvent)
-    
-    // Keep only recent history (last 50 events)
-    if (history.length > 50) {
-      history.splice(0, history.length - 50)
+    await redisClient.setSyncState(sessionId, 'conflict', pending)
+
+    this.websocketService.broadcastToRoom(sessionId, 'navigation:conflict', this.toConflictEvent(pending))
+    console.log(`Navigation conflict in session ${sessionId} put to a vote`)
+  }
+
+  /**
+   * Change an open vote, then resolve it once the remaining partners agree or
+   * share the votes so far. If every partner left, the last navigation stands.
+   * The vote is closed in the same Redis update that settles it, so only one
+   * instance applies the winner.
+   */
+  private async settleConflictVote(
+    sessionId: string,
+    change: (pending: PendingNavigationConflict | null) => PendingNavigationConflict | undefined
+  ): Promise<void> {
+    const outcome: { pending?: PendingNavigationConflict; choices?: string[] } = {}
+
+    await redisClient.updateSyncState<PendingNavigationConflict>(sessionId, 'conflict', current => {
+      const pending = change(current)
+      const choices = pending?.voterIds.map(id => pending.votes[id]) || []
+      const agreed = !!pending && (choices.length === 0 || choices.every(choice => choice && choice === choices[0]))
+
+      outcome.pending = pending
+      outcome.choices = agreed ? choices : undefined
+      return pending && (agreed ? null : pending)
+    })
+
+    const { pending, choices } = outcome
+    if (!pending) {
+      return
+    }
+    if (!choices) {
+      this.websocketService.broadcastToRoom(sessionId, 'navigation:conflict', this.toConflictEvent(pending))
+      return
+    }
+
+    const winningNavigation = pending.options.find(option => option.section === choices[0])
+      || pending.options[pending.options.length - 1]
+
+    await this.applyConflictWinner({
+      havrutaId: pending.havrutaId,
+      sessionId: pending.sessionId,
+      conflictingNavigations: pending.options,
+      currentSection: winningNavigation.section,
+      timestamp: new Date().toISOString()
+    }, winningNavigation)
+    await this.websocketService.broadcastToSession(pending.sessionId, 'navigation:sync', winningNavigation.section)
+  }
+
+  /**
+   * Shape an open conflict vote the way clients receive it
+   */
+  private toConflictEvent(pending: PendingNavigationConflict): NavigationConflictEvent {
+    const conflictingRefs: NavigationConflictEvent['conflictingRefs'] = []
+    pending.options.forEach(option => {
+      const participant = { userId: option.navigatedBy.id, userName: option.navigatedBy.name }
+      const existing = conflictingRefs.find(conflictRef => conflictRef.ref === option.section)
+      if (existing) {
+        existing.participants.push(participant)
+      } else {
+        conflictingRefs.push({ ref: option.section, participants: [participant] })
+      }
+    })
+
+    return {
+      sessionId: pending.sessionId,
+      conflictId: pending.id,
+      strategy: 'vote',
+      conflictingRefs,
+      voterIds: pending.voterIds,
+      votes: pending.votes,
+      timestamp: pending.createdAt
+    }
+  }
+
+  /**
+   * Send a session navigation in the shape session clients listen for, and
+   * remember it as the room's position for people joining on other instances
+   */
+  private async emitSessionNavigation(navigationEvent: NavigationEvent): Promise<void> {
+    await this.websocketService.recordSessionNavigation(
+      navigationEvent.sessionId!,
+      navigationEvent.navigatedBy.id,
+      navigationEvent.section
+    )
+    await this.websocketService.broadcastToSession(navigationEvent.sessionId!, 'navigation:update', {
+      sessionId: navigationEvent.sessionId,
+      userId: navigationEvent.navigatedBy.id,
+      userName: navigationEvent.navigatedBy.name,
+      newRef: navigationEvent.section,
+      timestamp: navigationEvent.timestamp
+    })
+  }
+
+  private async getPendingConflict(sessionId: string): Promise<PendingNavigationConflict | null> {
+    return await redisClient.getSyncState(sessionId, 'conflict')
+  }
+
+  /**
+   * Change a chabura's floor state in one atomic Redis update
+   */
+  private async updateChabura(
+    sessionId: string,
+    change: (chabura: ChaburaState) => ChaburaState | Promise<ChaburaState>
+  ): Promise<ChaburaState> {
+    const chabura = await redisClient.updateSyncState<ChaburaState>(sessionId, 'chabura', current => {
+      if (!current) {
+        throw new Error('This session is not in chabura mode')
+      }
+      return change(current)
+    })
+    return chabura!
+  }
+
+  private async setChaburaSection(sessionId: string, section: string): Promise<void> {
+    await redisClient.updateSyncState<ChaburaState>(sessionId, 'chabura', current =>
+      current ? { ...current, currentSection: section } : undefined
+    )
+  }
+
+  private broadcastChaburaState(chabura: ChaburaState): void {
+    this.websocketService.broadcastToRoom(chabura.sessionId, 'chabura:state', chabura)
+  }
+
+  private canDrive(chabura: ChaburaState, userId: string): boolean {
+    return chabura.leaderId === userId || chabura.driverId === userId
+  }
+
+  private async requireChabura(sessionId: string): Promise<ChaburaState> {
+    const chabura = await this.getChaburaState(sessionId)
+    if (!chabura) {
+      throw new Error('This session is not in chabura mode')
     }
+    return chabura
+  }
+
+  /**
+   * Add navigation event to history
+   */
+  private async addToNavigationHistory(havrutaId: string, navigationEvent: NavigationEvent): Promise<void> {
+    // Keep only recent history (last 50 events)
+    await redisClient.addNavigationEvent(havrutaId, navigationEvent, 50)
   }
 
   /**
    * Get navigation history for a Havruta
    */
-  getNavigationHistory(havrutaId: string): NavigationEvent[] {
-    return this.navigationHistory.get(havrutaId) || []
+  async getNavigationHistory(havrutaId: string): Promise<NavigationEvent[]> {
+    return await redisClient.getNavigationHistory(havrutaId)
   }
 
   /**
    * Clear navigation history for a Havruta (when session ends)
    */
-  clearNavigationHistory(havrutaId: string): void {
-    this.navigationHistory.delete(havrutaId)
+  async clearNavigationHistory(havrutaId: string): Promise<void> {
+    await redisClient.clearNavigationHistory(havrutaId)
   }
 
   /**
@@ -315,14 +806,15 @@ export class SyncService {
   /**
    * Clean up sync data for inactive sessions
    */
-  cleanupInactiveSessions(): void {
+  async cleanupInactiveSessions(): Promise<void> {
     const activeRooms = this.websocketService.getActiveRooms()
-    
-    // Remove navigation history for rooms that no longer exist
-    for (const havrutaId of this.navigationHistory.keys()) {
-      if (!activeRooms.has(havrutaId)) {
-        this.navigationHistory.delete(havrutaId)
-        console.log(`Cleaned up navigation history for inactive session: ${havrutaId}`)
+    const activeSessionRooms = new Set(await redisClient.getActiveRooms())
+
+    // Remove navigation history for rooms that no longer exist on any instance
+    for (const roomId of await redisClient.getNavigationRooms()) {
+      if (!activeRooms.has(roomId) && !activeSessionRooms.has(roomId)) {
+        await this.clearSessionState(roomId)
+        console.log(`Cleaned up navigation history for inactive session: ${roomId}`)
       }
     }
   }
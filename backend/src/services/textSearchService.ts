@@ -0,0 +1,149 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '../utils/database'
+import { hebrewPrefixVariants, stripHtml, tokenize } from '../utils/hebrewText'
+import { SefariaText, LibrarySearchResult, LibrarySearchOptions } from '../types/sefaria'
+
+export interface SearchableSection {
+  ref: string
+  heRef: string
+  book: string
+  categories: string[]
+  text: string[]
+  he: string[]
+}
+
+interface SearchRow extends SearchableSection {
+  rank: number
+}
+
+const BATCH_SIZE = 500
+const MAX_QUERY_WORDS = 10
+
+// Every distinct word of the segments, along with its unprefixed Hebrew forms
+const toTerms = (segments: string[]): Set<string> =>
+  new Set(segments.flatMap(segment => tokenize(segment)).flatMap(hebrewPrefixVariants))
+
+const toEntry = (section: SearchableSection) => ({
+  ...section,
+  terms: [...toTerms([...section.text, ...section.he])].join(' ')
+})
+
+export class TextSearchService {
+  async indexSection(section: SearchableSection): Promise<void> {
+    const entry = toEntry(section)
+    await prisma.sefariaSearchEntry.upsert({
+      where: { ref: section.ref },
+      create: entry,
+      update: entry
+    })
+  }
+
+  /**
+   * Index a text fetched from Sefaria. Segment ranges and spanning refs are
+   * skipped so that every entry holds a whole section.
+   */
+  async indexText(text: SefariaText): Promise<void> {
+    if (text.isSpanning || (text.sectionRef && text.sectionRef !== text.ref)) return
+    // Single-level texts come back as one string rather than a list of segments
+    if (!Array.isArray(text.text) || !Array.isArray(text.he)) return
+
+    await this.indexSection({
+      ref: text.ref,
+      heRef: text.heRef,
+      book: text.book || text.title,
+      categories: text.categories || [],
+      text: text.text,
+      he: text.he
+    })
+  }
+
+  /**
+   * Replace every entry of a book, e.g. after importing it into the local mirror
+   */
+  async replaceBook(book: string, sections: SearchableSection[]): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await tx.sefariaSearchEntry.deleteMany({ where: { book } })
+
+      for (let start = 0; start < sections.length; start += BATCH_SIZE) {
+        await tx.sefariaSearchEntry.createMany({
+          data: sections.slice(start, start + BATCH_SIZE).map(toEntry)
+        })
+      }
+    }, { timeout: 120000 })
+  }
+
+  /**
+   * Sections containing every word of the query, best matches first. Each word
+   * also matches with or without ו, ה, ב and ל prefixes.
+   */
+  async search(query: string, options: LibrarySearchOptions = {}): Promise<LibrarySearchResult[]> {
+    const words = tokenize(query).slice(0, MAX_QUERY_WORDS)
+    if (words.length === 0) {
+      throw new Error('Search query must contain letters or numbers')
+    }
+
+    const groups = words.map(hebrewPrefixVariants)
+    // Words only hold letters and digits, so they can be quoted as lexemes directly
+    const tsquery = groups.map(variants => `(${variants.map(variant => `'${variant}'`).join(' | ')})`).join(' & ')
+    const categoryFilter = options.categories?.length
+      ? Prisma.sql`AND categories && ${options.categories}::text[]`
+      : Prisma.empty
+
+    const rows = await prisma.$queryRaw<SearchRow[]>`
+      SELECT ref, "heRef", book, categories, text, he, ts_rank(search_vector, query) AS rank
+      FROM sefaria_search_entries, CAST(${tsquery} AS tsquery) AS query
+      WHERE search_vector @@ query ${categoryFilter}
+      ORDER BY rank DESC, book ASC, ref ASC
+      LIMIT ${options.limit ?? 20} OFFSET ${options.offset ?? 0}
+    `
+
+    return rows.map(row => {
+      const match = this.findBestSegment(row, groups)
+      const segments = match.language === 'he' ? row.he : row.text
+
+      return {
+        ref: `${row.ref}:${match.index + 1}`,
+        sectionRef: row.ref,
+        heSectionRef: row.heRef,
+        book: row.book,
+        categories: row.categories,
+        language: match.language,
+        content: stripHtml(segments[match.index] || ''),
+        rank: Number(row.rank)
+      }
+    })
+  }
+
+  /**
+   * Top-level categories with indexed texts, for filtering searches
+   */
+  async getCategories(): Promise<string[]> {
+    const rows = await prisma.$queryRaw<{ category: string }[]>`
+      SELECT DISTINCT categories[1] AS category
+      FROM sefaria_search_entries
+      WHERE cardinality(categories) > 0
+      ORDER BY category
+    `
+    return rows.map(row => row.category)
+  }
+
+  // The segment matching the most query words, preferring Hebrew on a tie
+  private findBestSegment(row: SearchRow, groups: string[][]): { index: number; language: 'en' | 'he' } {
+    let best: { index: number; language: 'en' | 'he'; score: number } = { index: 0, language: 'en', score: 0 }
+
+    for (const language of ['he', 'en'] as const) {
+      const segments = language === 'he' ? row.he : row.text
+      segments.forEach((segment, index) => {
+        const terms = toTerms([segment])
+        const score = groups.filter(variants => variants.some(variant => terms.has(variant))).length
+        if (score > best.score) {
+          best = { index, language, score }
+        }
+      })
+    }
+
+    return best
+  }
+}
+
+export const textSearchService = new TextSearchService()
\ No newline at end of file
@@ -1,17 +1,23 @@
-import { User } from '@prisma/client'
+import { MatchingProfile, User } from '@prisma/client'
 import { prisma } from '../utils/database'
 import { z } from 'zod'
+import { isValidTimeZone } from '../utils/timeZone'
 
 // Validation schemas
 export const updateUserProfileSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters').optional(),
-  profilePicture: z.string().url('Profile picture must be a valid URL').optional()
+  profilePicture: z.string().url('Profile picture must be a valid URL').optional(),
+  timeZone: z.string().refine(isValidTimeZone, 'Time zone must be a valid IANA time zone').optional()
 })
 
 export const getUsersQuerySchema = z.object({
   page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
   limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
-  search: z.string().optional()
+  search: z.string().optional(),
+  // Discovery filters: only users with a published matching profile that fits
+  book: z.string().optional(),
+  language: z.enum(['hebrew', 'english', 'either']).optional(),
+  level: z.enum(['beginner', 'intermediate', 'advanced']).optional()
 })
 
 export type UpdateUserProfileData = z.infer<typeof updateUserProfileSchema>
@@ -24,6 +30,10 @@ export interface UserWithStats extends User {
   }
 }
 
+export interface UserWithMatchingProfile extends User {
+  matchingProfile: Pick<MatchingProfile, 'books' | 'language' | 'level' | 'bio' | 'isPublished'> | null
+}
+
 export class UserService {
   /**
    * Get user by ID
@@ -119,11 +129,11 @@ export class UserService {
   }
 
   /**
-   * Get users with pagination and search
-   * (Admin functionality - would need additional authorization in production)
+   * Get users with pagination and search, optionally narrowed to learners
+   * whose matching profile fits a book, language or level
    */
-  async getUsers(query: GetUsersQuery): Promise<{
-    users: User[]
+  async getUsers(query: GetUsersQuery, options: { excludeUserId?: string } = {}): Promise<{
+    users: UserWithMatchingProfile[]
     pagination: {
       page: number
       limit: number
@@ -133,17 +143,32 @@ export class UserService {
   }> {
     try {
       const validatedQuery = getUsersQuerySchema.parse(query)
-      const { page, limit, search } = validatedQuery
+      const { page, limit, search, book, language, level } = validatedQuery
 
       const skip = (page - 1) * limit
 
-      // Build where clause for search
-      const where = search ? {
-        OR: [
-          { name: { contains: search, mode: 'insensitive' as const } },
-          { email: { contains: search, mode: 'insensitive' as const } }
-        ]
-      } : {}
+      // Build where clause for search and discovery filters
+      const isDiscovery = !!(book || language || level)
+      const where = {
+        ...(search && {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' as const } },
+            { email: { contains: search, mode: 'insensitive' as const } }
+          ]
+        }),
+        ...(isDiscovery && {
+          matchingProfile: {
+            is: {
+              isPublished: true,
+              ...(book && { books: { has: book } }),
+              // Learners happy with either language fit both
+              ...(language && language !== 'either' && { language: { in: [language, 'either'] } }),
+              ...(level && { level })
+            }
+          }
+        }),
+        ...(options.excludeUserId && { id: { not: options.excludeUserId } })
+      }
 
       // Get total count for pagination
       const total = await prisma.user.count({ where })
@@ -151,9 +176,14 @@ export class UserService {
       // Get users with pagination
       const users = await prisma.user.findMany({
         where,
+        include: {
+          matchingProfile: {
+            select: { books: true, language: true, level: true, bio: true, isPublished: true }
+          }
+        },
         skip,
         take: limit,
-        orderBy: { createdAt: 'desc' }
+        orderBy: isDiscovery ? { lastActiveAt: 'desc' } : { createdAt: 'desc' }
       })
 
       return {
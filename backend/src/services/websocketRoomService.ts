@@ -1,5 +1,6 @@
 import { Server, Socket } from 'socket.io'
 import { User } from '@prisma/client'
+import crypto from 'crypto'
 import { redisClient } from '../utils/redis'
 import { logger } from '../utils/logger'
 import { prisma } from '../utils/database'
@@ -13,6 +14,7 @@ export interface RoomParticipant {
   userName: string
   socketId: string
   joinedAt: Date
+  currentSection?: string // Where this participant last moved the text
 }
 
 export interface SessionRoomState {
@@ -24,13 +26,25 @@ export interface SessionRoomState {
   createdAt: Date
 }
 
+// A broadcast to a session room, numbered so reconnecting participants can catch up
+export interface SessionEvent {
+  seq: number
+  event: string
+  data: any
+}
+
 export interface JoinRoomResult {
   success: boolean
   roomState?: SessionRoomState
   participants?: RoomParticipant[]
+  reconnectToken?: string // Lets this participant resume their place after a dropped connection
+  seq?: number // Latest session event the participant is caught up to
+  missedEvents?: SessionEvent[] // Events sent while a resuming participant was away
   error?: string
 }
 
+export type ParticipantLeftHandler = (userId: string, sessionId: string, roomDeleted: boolean) => Promise<void>
+
 export interface LeaveRoomResult {
   success: boolean
   participantCount: number
@@ -43,6 +57,9 @@ export class WebSocketRoomService {
   private roomCleanupInterval: NodeJS.Timeout | null = null
   private readonly ROOM_TIMEOUT_MINUTES = 60
   private readonly CLEANUP_INTERVAL_MINUTES = 30
+  private readonly RECONNECT_GRACE_SECONDS = 30
+  private pendingLeaves: Map<string, NodeJS.Timeout> = new Map() // `${sessionId}:${userId}` -> grace timer
+  private onParticipantLeft?: ParticipantLeftHandler
 
   constructor(io: Server) {
     this.io = io
@@ -62,6 +79,14 @@ export class WebSocketRoomService {
     }
   }
 
+  /**
+   * Set what runs once a participant has really left a room, either
+   * explicitly or when their reconnect grace period runs out
+   */
+  setParticipantLeftHandler(handler: ParticipantLeftHandler): void {
+    this.onParticipantLeft = handler
+  }
+
   /**
    * Join a session room
    */
@@ -99,12 +124,15 @@ export class WebSocketRoomService {
       await socket.join(sessionId)
 
       // Add participant to Redis room
+      const reconnectToken = crypto.randomBytes(24).toString('hex')
       const participantData = {
         userId: socket.user.id,
         userName: socket.user.name,
-        socketId: socket.id
+        socketId: socket.id,
+        reconnectToken
       }
 
+      this.cancelPendingLeave(sessionId, socket.user.id)
       await redisClient.addToRoom(sessionId, socket.user.id, participantData)
 
       // Get or create room state
@@ -141,7 +169,9 @@ export class WebSocketRoomService {
       return {
         success: true,
         roomState,
-        participants
+        participants,
+        reconnectToken,
+        seq: await redisClient.getSessionSeq(sessionId)
       }
     } catch (error) {
       logger.error('Error joining room:', error)
@@ -149,6 +179,59 @@ export class WebSocketRoomService {
     }
   }
 
+  /**
+   * Put a participant whose connection dropped back in their room, and hand
+   * them the events they missed since the last one they saw. Only works with
+   * the token from their last join and before their grace period runs out.
+   */
+  async resumeRoom(
+    socket: AuthenticatedSocket,
+    sessionId: string,
+    reconnectToken: string,
+    lastSeq: number
+  ): Promise<JoinRoomResult> {
+    try {
+      if (!socket.user) {
+        return { success: false, error: 'User not authenticated' }
+      }
+
+      const participants = await redisClient.getRoomParticipants(sessionId)
+      const participant = participants[socket.user.id]
+      if (!participant || !participant.reconnectToken || participant.reconnectToken !== reconnectToken) {
+        return { success: false, error: 'Reconnect token is invalid or expired' }
+      }
+
+      this.cancelPendingLeave(sessionId, socket.user.id)
+      await socket.join(sessionId)
+      await redisClient.updateRoomParticipant(sessionId, socket.user.id, {
+        socketId: socket.id,
+        disconnectedAt: null
+      })
+
+      const roomState = await redisClient.getRoomState(sessionId)
+      if (roomState) {
+        roomState.lastActivity = new Date()
+        await redisClient.setRoomState(sessionId, roomState)
+      }
+
+      const missedEvents: SessionEvent[] = await redisClient.getSessionEventsSince(sessionId, lastSeq)
+
+      logger.info(`User ${socket.user.name} resumed session room ${sessionId} with ${missedEvents.length} missed events`)
+
+      return {
+        success: true,
+        roomState: roomState || undefined,
+        participants: await this.getRoomParticipants(sessionId),
+        reconnectToken,
+        seq: await redisClient.getSessionSeq(sessionId),
+        missedEvents
+      }
+    } catch (error) {
+      logger.error('Error resuming room:', error)
+      return { success: false, error: 'Failed to resume room' }
+    }
+  }
+
   /**
    * Leave a session room
    */
@@ -160,9 +243,22 @@ export class WebSocketRoomService {
 
       // Leave the socket room
       await socket.leave(sessionId)
+      this.cancelPendingLeave(sessionId, socket.user.id)
 
+      return await this.removeParticipant(sessionId, socket.user.id, socket.user.name)
+    } catch (error) {
+      logger.error('Error leaving room:', error)
+      return { success: false, participantCount: 0, roomDeleted: false, error: 'Failed to leave room' }
+    }
+  }
+
+  /**
+   * Take a participant out of a room in Redis and tell everyone still there
+   */
+  private async removeParticipant(sessionId: string, userId: string, userName: string): Promise<LeaveRoomResult> {
+    try {
       // Remove participant from Redis room
-      await redisClient.removeFromRoom(sessionId, socket.user.id)
+      await redisClient.removeFromRoom(sessionId, userId)
 
       // Get updated participant count
       const participantCount = await redisClient.getRoomParticipantCount(sessionId)
@@ -184,14 +280,14 @@ export class WebSocketRoomService {
       }
 
       // Notify other participants about the leave
-      socket.to(sessionId).emit('participant-left', {
-        userId: socket.user.id,
-        userName: socket.user.name,
+      this.io.to(sessionId).emit('participant-left', {
+        userId,
+        userName,
         participantCount,
         timestamp: new Date().toISOString()
       })
 
-      logger.info(`User ${socket.user.name} left session room ${sessionId}`)
+      logger.info(`User ${userName} left session room ${sessionId}`)
 
       return {
         success: true,
@@ -205,11 +301,14 @@ export class WebSocketRoomService {
   }
 
   /**
-   * Handle socket disconnection - remove from all rooms
+   * Handle socket disconnection. The participant keeps their place in each
+   * room for a grace period so they can resume; after that they're removed.
+   * Returns the sessions the socket was in.
    */
-  async handleDisconnect(socket: AuthenticatedSocket): Promise<void> {
+  async handleDisconnect(socket: AuthenticatedSocket): Promise<string[]> {
+    const sessionIds: string[] = []
     try {
-      if (!socket.user) return
+      if (!socket.user) return sessionIds
 
       logger.info(`User ${socket.user.name} disconnected: ${socket.id}`)
 
@@ -225,13 +324,55 @@ export class WebSocketRoomService {
           
           // Only remove if this was the same socket
           if (participant.socketId === socket.id) {
-            await this.leaveRoom(socket, roomId)
+            await redisClient.updateRoomParticipant(roomId, socket.user.id, {
+              disconnectedAt: new Date().toISOString()
+            })
+            this.scheduleLeave(roomId, socket.user.id, socket.user.name, socket.id)
+            sessionIds.push(roomId)
           }
         }
       }
     } catch (error) {
       logger.error('Error handling disconnect:', error)
     }
+    return sessionIds
+  }
+
+  /**
+   * Remove a disconnected participant once their grace period is over,
+   * unless they resumed (from this or another instance) in the meantime
+   */
+  private scheduleLeave(sessionId: string, userId: string, userName: string, socketId: string): void {
+    const key = `${sessionId}:${userId}`
+    this.cancelPendingLeave(sessionId, userId)
+
+    this.pendingLeaves.set(key, setTimeout(async () => {
+      this.pendingLeaves.delete(key)
+      try {
+        const participants = await redisClient.getRoomParticipants(sessionId)
+        if (participants[userId]?.socketId !== socketId) return
+
+        await this.finishLeave(sessionId, userId, userName)
+      } catch (error) {
+        logger.error('Error removing disconnected participant:', error)
+      }
+    }, this.RECONNECT_GRACE_SECONDS * 1000))
+  }
+
+  private cancelPendingLeave(sessionId: string, userId: string): void {
+    const key = `${sessionId}:${userId}`
+    const timer = this.pendingLeaves.get(key)
+    if (timer) {
+      clearTimeout(timer)
+      this.pendingLeaves.delete(key)
+    }
+  }
+
+  private async finishLeave(sessionId: string, userId: string, userName: string): Promise<void> {
+    const result = await this.removeParticipant(sessionId, userId, userName)
+    if (result.success) {
+      await this.onParticipantLeft?.(userId, sessionId, result.roomDeleted)
+    }
   }
 
   /**
@@ -245,7 +386,8 @@ export class WebSocketRoomService {
         userId: p.userId,
         userName: p.userName,
         socketId: p.socketId,
-        joinedAt: new Date(p.joinedAt)
+        joinedAt: new Date(p.joinedAt),
+        currentSection: p.currentSection
       }))
     } catch (error) {
       logger.error('Error getting room participants:', error)
@@ -304,6 +446,25 @@ export class WebSocketRoomService {
     }
   }
 
+  /**
+   * Record a navigation as the room's current section and the navigator's
+   * position, so participants joining through any instance start there
+   */
+  async recordNavigation(sessionId: string, userId: string, section: string): Promise<void> {
+    try {
+      const roomState = await redisClient.getRoomState(sessionId)
+      if (roomState) {
+        roomState.currentSection = section
+        roomState.lastActivity = new Date()
+        await redisClient.setRoomState(sessionId, roomState)
+      }
+
+      await redisClient.updateRoomParticipant(sessionId, userId, { currentSection: section })
+    } catch (error) {
+      logger.error('Error recording room navigation:', error)
+    }
+  }
+
   /**
    * Broadcast message to room
    */
@@ -311,6 +472,34 @@ export class WebSocketRoomService {
     this.io.to(sessionId).emit(event, data)
   }
 
+  /**
+   * Broadcast to a room and log the event with a sequence number, so
+   * participants who reconnect get it replayed
+   */
+  async broadcastSessionEvent(sessionId: string, event: string, data: any): Promise<void> {
+    try {
+      const seq = await redisClient.addSessionEvent(sessionId, event, data)
+      this.io.to(sessionId).emit(event, this.withSeq(data, seq))
+    } catch (error) {
+      logger.error('Error logging session event:', error)
+      this.io.to(sessionId).emit(event, data)
+    }
+  }
+
+  /**
+   * Send missed events to a resuming participant, in order
+   */
+  replaySessionEvents(socket: AuthenticatedSocket, events: SessionEvent[]): void {
+    events.forEach(({ seq, event, data }) => {
+      socket.emit(event, this.withSeq(data, seq))
+    })
+  }
+
+  // Object payloads carry their sequence number so clients know what they've seen
+  private withSeq(data: any, seq: number): any {
+    return data && typeof data === 'object' && !Array.isArray(data) ? { ...data, seq } : data
+  }
+
   /**
    * Broadcast message to specific user in room
    */
@@ -323,14 +512,14 @@ export class WebSocketRoomService {
         return false
       }
 
-      // Find the socket by ID
-      const socket = this.io.sockets.sockets.get(participant.socketId)
-      if (socket) {
-        socket.emit(event, data)
-        return true
+      // Every socket is in a room named after its ID, which the Redis adapter reaches on any instance
+      const sockets = await this.io.in(participant.socketId).fetchSockets()
+      if (sockets.length === 0) {
+        return false
       }
 
-      return false
+      this.io.to(participant.socketId).emit(event, data)
+      return true
     } catch (error) {
       logger.error('Error broadcasting to user in room:', error)
       return false
@@ -419,6 +608,7 @@ export class WebSocketRoomService {
   async cleanupInactiveRooms(): Promise<number> {
     try {
       const cutoffTime = new Date(Date.now() - this.ROOM_TIMEOUT_MINUTES * 60 * 1000)
+      const graceCutoff = new Date(Date.now() - this.RECONNECT_GRACE_SECONDS * 1000)
       const rooms = await redisClient.getActiveRooms()
       let cleanedCount = 0
 
@@ -432,6 +622,14 @@ export class WebSocketRoomService {
           continue
         }
 
+        // Grace timers don't survive a restart, so catch participants who never came back
+        const participants = await redisClient.getRoomParticipants(roomId)
+        for (const participant of Object.values(participants)) {
+          if (participant.disconnectedAt && new Date(participant.disconnectedAt) < graceCutoff) {
+            await this.finishLeave(roomId, participant.userId, participant.userName)
+          }
+        }
+
         const lastActivity = new Date(roomState.lastActivity)
         const participantCount = await redisClient.getRoomParticipantCount(roomId)
 
@@ -463,6 +661,8 @@ export class WebSocketRoomService {
         clearInterval(this.roomCleanupInterval)
         this.roomCleanupInterval = null
       }
+      this.pendingLeaves.forEach(timer => clearTimeout(timer))
+      this.pendingLeaves.clear()
 
       await redisClient.disconnect()
       logger.info('WebSocketRoomService shutdown complete')
@@ -1,8 +1,13 @@
 import { Server, Socket } from 'socket.io'
+import { createAdapter } from '@socket.io/redis-adapter'
+import { RedisClientType } from 'redis'
 import { User } from '@prisma/client'
 import { authService } from './authService'
 import { prisma } from '../utils/database'
-import { WebSocketRoomService, AuthenticatedSocket } from './websocketRoomService'
+import { WebSocketRoomService, AuthenticatedSocket, JoinRoomResult } from './websocketRoomService'
+import { chatService } from './chatService'
+import { permissionService } from './permissionService'
+import { redisClient } from '../utils/redis'
 
 export interface HavrutaRoom {
   id: string
@@ -11,24 +16,37 @@ export interface HavrutaRoom {
   lastActivity: Date
 }
 
+// Every socket joins its user's room, so events reach them on whichever instance they're connected to
+const getUserRoom = (userId: string) => `user:${userId}`
+
 export class WebSocketService {
   private io: Server
   private rooms: Map<string, HavrutaRoom> = new Map()
   private syncService?: any // Will be set after SyncService is created
   private roomService: WebSocketRoomService
+  private adapterClients: RedisClientType[] = []
 
   constructor(io: Server) {
     this.io = io
     this.roomService = new WebSocketRoomService(io)
+    this.roomService.setParticipantLeftHandler((userId, sessionId, roomDeleted) =>
+      this.handleSessionDeparture(userId, sessionId, roomDeleted)
+    )
     this.setupMiddleware()
     this.setupConnectionHandlers()
   }
 
   /**
-   * Initialize the WebSocket service and room service
+   * Initialize the WebSocket service and room service, and share rooms with
+   * other backend instances through the Redis adapter
    */
   async initialize(): Promise<void> {
     await this.roomService.initialize()
+
+    const [pubClient, subClient] = await redisClient.createPubSubClients()
+    this.adapterClients = [pubClient, subClient]
+    this.io.adapter(createAdapter(pubClient, subClient))
+    console.log('Socket.IO Redis adapter attached')
   }
 
   /**
@@ -65,6 +83,8 @@ export class WebSocketService {
 
         console.log('WebSocket authentication successful for user:', user.name)
         socket.user = user
+        // Sockets fetched from other instances only carry socket.data
+        socket.data.user = { id: user.id, name: user.name }
         await authService.updateLastActive(user.id)
         next()
       } catch (error) {
@@ -81,16 +101,35 @@ export class WebSocketService {
     this.io.on('connection', (socket: AuthenticatedSocket) => {
       console.log(`User ${socket.user?.name} (${socket.user?.id}) connected: ${socket.id}`)
 
+      if (socket.user) {
+        socket.join(getUserRoom(socket.user.id))
+      }
+
       // Handle joining a session room (replaces join-havruta)
       socket.on('join-session', async (data: { sessionId: string }) => {
         await this.handleJoinSession(socket, data.sessionId)
       })
 
+      // Handle getting back into a session room after a dropped connection
+      socket.on('resume-session', async (data: { sessionId: string; reconnectToken: string; lastSeq: number }) => {
+        await this.handleResumeSession(socket, data.sessionId, data.reconnectToken, data.lastSeq)
+      })
+
       // Handle leaving a session room (replaces leave-havruta)
       socket.on('leave-session', async (data: { sessionId: string }) => {
         await this.handleLeaveSession(socket, data.sessionId)
       })
 
+      // Handle chat messages sent in a session room
+      socket.on('send-chat-message', async (data: { sessionId: string; content: string }) => {
+        await this.handleChatMessage(socket, data.sessionId, data.content)
+      })
+
+      // Handle commentary sync: share the commentary a participant opened with the session room
+      socket.on('sync-commentary', (data: { sessionId: string; ref: string | null }) => {
+        this.handleCommentarySync(socket, data.sessionId, data.ref)
+      })
+
       // Handle joining a Havruta room (legacy support)
       socket.on('join-havruta', async (data: { havrutaId: string }) => {
         await this.handleJoinHavruta(socket, data.havrutaId)
@@ -106,6 +145,33 @@ export class WebSocketService {
         await this.handleTextNavigation(socket, data.havrutaId, data.section)
       })
 
+      // Handle text navigation inside a session room
+      socket.on('navigation:update', async (data: { sessionId: string; newRef: string }) => {
+        await this.handleSessionNavigation(socket, data.sessionId, data.newRef)
+      })
+
+      // Handle votes on a navigation conflict
+      socket.on('navigation:resolve-conflict', async (data: { sessionId: string; chosenRef: string }) => {
+        await this.handleConflictVote(socket, data.sessionId, data.chosenRef)
+      })
+
+      // Handle chabura floor control: raising hands and handing navigation to a participant
+      socket.on('chabura:raise-hand', async (data: { sessionId: string }) => {
+        await this.handleChaburaAction(socket, data.sessionId, user => this.syncService.raiseHand(data.sessionId, user))
+      })
+
+      socket.on('chabura:lower-hand', async (data: { sessionId: string }) => {
+        await this.handleChaburaAction(socket, data.sessionId, user => this.syncService.lowerHand(data.sessionId, user.id))
+      })
+
+      socket.on('chabura:grant-control', async (data: { sessionId: string; userId: string }) => {
+        await this.handleChaburaAction(socket, data.sessionId, user => this.syncService.grantControl(data.sessionId, user.id, data.userId))
+      })
+
+      socket.on('chabura:revoke-control', async (data: { sessionId: string }) => {
+        await this.handleChaburaAction(socket, data.sessionId, user => this.syncService.revokeControl(data.sessionId, user.id))
+      })
+
       // Handle progress updates
       socket.on('update-progress', async (data: { havrutaId: string; section: string }) => {
         await this.handleProgressUpdate(socket, data.havrutaId, data.section)
@@ -157,11 +223,7 @@ export class WebSocketService {
       const result = await this.roomService.joinRoom(socket, sessionId)
       
       if (result.success) {
-        socket.emit('session-joined', {
-          sessionId,
-          roomState: result.roomState,
-          participants: result.participants
-        })
+        await this.emitSessionJoined(socket, sessionId, result, false)
       } else {
         socket.emit('error', { message: result.error })
       }
@@ -171,6 +233,69 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Handle a participant coming back after their connection dropped. Within
+   * the grace period they keep their place and get the events they missed
+   * replayed; otherwise they join the session afresh.
+   */
+  private async handleResumeSession(
+    socket: AuthenticatedSocket,
+    sessionId: string,
+    reconnectToken: string,
+    lastSeq: number
+  ): Promise<void> {
+    try {
+      if (!socket.user) {
+        socket.emit('error', { message: 'User not authenticated' })
+        return
+      }
+
+      const result = await this.roomService.resumeRoom(socket, sessionId, reconnectToken, lastSeq || 0)
+      if (!result.success) {
+        console.log(`Could not resume session ${sessionId} for ${socket.user.name} (${result.error}), joining again`)
+        await this.handleJoinSession(socket, sessionId)
+        return
+      }
+
+      this.roomService.replaySessionEvents(socket, result.missedEvents || [])
+      await this.emitSessionJoined(socket, sessionId, result, true)
+    } catch (error) {
+      console.error('Error resuming session:', error)
+      socket.emit('error', { message: 'Failed to resume session' })
+    }
+  }
+
+  /**
+   * Confirm a join (or resume) and send the session state that isn't in the room itself
+   */
+  private async emitSessionJoined(
+    socket: AuthenticatedSocket,
+    sessionId: string,
+    result: JoinRoomResult,
+    resumed: boolean
+  ): Promise<void> {
+    socket.emit('session-joined', {
+      sessionId,
+      roomState: result.roomState,
+      participants: result.participants,
+      reconnectToken: result.reconnectToken,
+      seq: result.seq,
+      resumed
+    })
+
+    // Let people joining a chabura know who's leading and who has a hand up
+    const chabura = await this.syncService?.getChaburaState(sessionId)
+    if (chabura) {
+      socket.emit('chabura:state', chabura)
+    }
+
+    // Someone reconnecting mid-conflict gets the open vote back
+    const conflict = await this.syncService?.getConflictEvent(sessionId)
+    if (conflict) {
+      socket.emit('navigation:conflict', conflict)
+    }
+  }
+
   /**
    * Handle user leaving a session room (new Redis-based implementation)
    */
@@ -186,6 +311,8 @@ export class WebSocketService {
           participantCount: result.participantCount,
           roomDeleted: result.roomDeleted
         })
+
+        await this.handleSessionDeparture(socket.user.id, sessionId, result.roomDeleted)
       } else {
         socket.emit('error', { message: result.error })
       }
@@ -194,6 +321,67 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Release whatever a participant held in a session they left: their
+   * chabura hand or control, their conflict vote, or the whole session
+   * state when they were the last one in the room
+   */
+  private async handleSessionDeparture(userId: string, sessionId: string, roomDeleted: boolean): Promise<void> {
+    if (!this.syncService) return
+
+    await this.syncService.handleChaburaLeave(userId, sessionId)
+    if (roomDeleted) {
+      await this.syncService.clearSessionState(sessionId)
+    } else {
+      await this.syncService.handleConflictLeave(userId, sessionId)
+    }
+  }
+
+  /**
+   * Handle a chat message: persist it and deliver it to everyone in the session room
+   */
+  private async handleChatMessage(socket: AuthenticatedSocket, sessionId: string, content: string): Promise<void> {
+    try {
+      if (!socket.user) {
+        socket.emit('error', { message: 'User not authenticated' })
+        return
+      }
+
+      const message = await chatService.sendMessage({
+        sessionId,
+        userId: socket.user.id,
+        content
+      })
+
+      this.roomService.broadcastToRoom(sessionId, 'chat-message', message)
+    } catch (error) {
+      console.error('Error sending chat message:', error)
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to send message' })
+    }
+  }
+
+  /**
+   * Relay an opened (or closed) commentary to the other participants in the session room
+   */
+  private handleCommentarySync(socket: AuthenticatedSocket, sessionId: string, ref: string | null): void {
+    if (!socket.user) {
+      socket.emit('error', { message: 'User not authenticated' })
+      return
+    }
+
+    if (!socket.rooms.has(sessionId)) {
+      socket.emit('error', { message: 'Join the session before syncing commentary' })
+      return
+    }
+
+    socket.to(sessionId).emit('commentary-synced', {
+      sessionId,
+      ref,
+      userId: socket.user.id,
+      userName: socket.user.name
+    })
+  }
+
   /**
    * Handle user joining a Havruta room (legacy implementation)
    */
@@ -310,6 +498,12 @@ export class WebSocketService {
         return
       }
 
+      // Observers follow along but can't move the text for everyone
+      if (!await permissionService.hasPermission(havrutaId, socket.user.id, 'navigate')) {
+        socket.emit('error', { message: 'Observers cannot change the text for everyone' })
+        return
+      }
+
       // Update room state
       room.currentSection = section
       room.lastActivity = new Date()
@@ -346,6 +540,111 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Handle navigation inside a session room. Observers never drive, and in
+   * chabura mode SyncService only lets the leader or their chosen driver through.
+   */
+  private async handleSessionNavigation(socket: AuthenticatedSocket, sessionId: string, section: string): Promise<void> {
+    try {
+      if (!socket.user) {
+        socket.emit('error', { message: 'User not authenticated' })
+        return
+      }
+
+      if (!socket.rooms.has(sessionId)) {
+        socket.emit('navigation:rejected', { sessionId, message: 'Join the session before navigating' })
+        return
+      }
+
+      const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { havrutaId: true }
+      })
+      if (!session) {
+        socket.emit('navigation:rejected', { sessionId, message: 'Session not found' })
+        return
+      }
+
+      if (!await permissionService.hasPermission(session.havrutaId, socket.user.id, 'navigate')) {
+        socket.emit('navigation:rejected', { sessionId, message: 'Observers cannot change the text for everyone' })
+        return
+      }
+
+      const navigatedBy = { id: socket.user.id, name: socket.user.name }
+      if (this.syncService) {
+        await this.syncService.broadcastSessionNavigation(sessionId, session.havrutaId, section, navigatedBy)
+      } else {
+        socket.to(sessionId).emit('navigation:update', {
+          sessionId,
+          userId: navigatedBy.id,
+          userName: navigatedBy.name,
+          newRef: section,
+          timestamp: new Date().toISOString()
+        })
+      }
+    } catch (error) {
+      console.error('Error handling session navigation:', error)
+      socket.emit('navigation:rejected', {
+        sessionId,
+        message: error instanceof Error ? error.message : 'Failed to sync navigation'
+      })
+    }
+  }
+
+  /**
+   * Handle a partner's choice in a navigation conflict vote
+   */
+  private async handleConflictVote(socket: AuthenticatedSocket, sessionId: string, section: string): Promise<void> {
+    try {
+      if (!socket.user) {
+        socket.emit('error', { message: 'User not authenticated' })
+        return
+      }
+
+      if (!socket.rooms.has(sessionId) || !this.syncService) {
+        socket.emit('navigation:rejected', { sessionId, message: 'Join the session before resolving conflicts' })
+        return
+      }
+
+      await this.syncService.voteOnConflict(sessionId, socket.user.id, section)
+    } catch (error) {
+      console.error('Error handling conflict vote:', error)
+      socket.emit('navigation:rejected', {
+        sessionId,
+        message: error instanceof Error ? error.message : 'Failed to resolve conflict'
+      })
+    }
+  }
+
+  /**
+   * Run a chabura floor-control action for a participant in the session room
+   */
+  private async handleChaburaAction(
+    socket: AuthenticatedSocket,
+    sessionId: string,
+    action: (user: User) => Promise<unknown>
+  ): Promise<void> {
+    try {
+      if (!socket.user) {
+        socket.emit('error', { message: 'User not authenticated' })
+        return
+      }
+
+      if (!socket.rooms.has(sessionId) || !this.syncService) {
+        socket.emit('chabura:error', { sessionId, message: 'Join the session before using chabura controls' })
+        return
+      }
+
+      await action(socket.user)
+    } catch (error) {
+      console.error('Error handling chabura action:', error)
+      socket.emit('chabura:error', {
+        sessionId,
+        message: error instanceof Error ? error.message : 'Chabura action failed'
+      })
+    }
+  }
+
   /**
    * Handle progress updates
    */
@@ -374,8 +673,8 @@ export class WebSocketService {
         }
       })
 
-      // Broadcast progress update to room
-      socket.to(havrutaId).emit('progress-updated', {
+      // Broadcast progress update to the Havruta and its session rooms
+      await this.broadcastToHavruta(havrutaId, 'progress-updated', {
         userId: socket.user.id,
         section,
         timestamp: new Date().toISOString()
@@ -393,7 +692,7 @@ export class WebSocketService {
 
     console.log(`User ${socket.user.name} (${socket.user.id}) disconnected: ${socket.id}`)
 
-    // Handle disconnection in new room service
+    // Session rooms hold the participant's place for a grace period, then release it
     await this.roomService.handleDisconnect(socket)
 
     // Clean up video calls for all sessions the user was in
@@ -456,24 +755,43 @@ export class WebSocketService {
   }
 
   /**
-   * Broadcast message to specific user
+   * Broadcast message to everyone studying a Havruta (legacy room and any open session rooms)
    */
-  public broadcastToUser(userId: string, event: string, data: any): void {
-    // Find the user's socket across all rooms
-    for (const room of this.rooms.values()) {
-      const userSocket = room.participants.get(userId)
-      if (userSocket) {
-        userSocket.emit(event, data)
-        return
-      }
-    }
-    
-    // If user is not in any room, try to find them by iterating through all connected sockets
-    this.io.sockets.sockets.forEach((socket: AuthenticatedSocket) => {
-      if (socket.user?.id === userId) {
-        socket.emit(event, data)
-      }
+  public async broadcastToHavruta(havrutaId: string, event: string, data: any): Promise<void> {
+    this.io.to(havrutaId).emit(event, data)
+
+    const openSessions = await prisma.session.findMany({
+      where: {
+        havrutaId,
+        status: { in: ['active', 'scheduled'] }
+      },
+      select: { id: true }
     })
+
+    for (const session of openSessions) {
+      await this.roomService.broadcastSessionEvent(session.id, event, data)
+    }
+  }
+
+  /**
+   * Broadcast message to specific user, on every instance they're connected to
+   */
+  public broadcastToUser(userId: string, event: string, data: any): void {
+    this.io.to(getUserRoom(userId)).emit(event, data)
+  }
+
+  /**
+   * Broadcast to a session room, numbered so reconnecting participants get it replayed
+   */
+  public async broadcastToSession(sessionId: string, event: string, data: any): Promise<void> {
+    await this.roomService.broadcastSessionEvent(sessionId, event, data)
+  }
+
+  /**
+   * Remember where a session navigation moved the room
+   */
+  public async recordSessionNavigation(sessionId: string, userId: string, section: string): Promise<void> {
+    await this.roomService.recordNavigation(sessionId, userId, section)
   }
 
   /**
@@ -502,7 +820,7 @@ export class WebSocketService {
       const sockets = await this.io.in(videoRoomId).fetchSockets()
       const existingParticipants = sockets
         .filter(s => s.id !== socket.id)
-        .map(s => (s as AuthenticatedSocket).user?.id)
+        .map(s => s.data.user?.id)
         .filter(Boolean)
 
       // Notify existing participants about new joiner
@@ -550,20 +868,11 @@ export class WebSocketService {
     try {
       if (!socket.user) return
 
-      // Find the target socket by user ID
-      const targetUserId = data.to
-      
-      // Find a session where both users are participants
-      let targetSocket: AuthenticatedSocket | null = null
-      
-      // Get all connected sockets and find the target user
-      this.io.sockets.sockets.forEach((s: AuthenticatedSocket) => {
-        if (s.user?.id === targetUserId) {
-          targetSocket = s
-        }
-      })
+      // Find the target user's sockets, whichever instance they're connected to
+      const targetRoom = getUserRoom(data.to)
+      const targetSockets = await this.io.in(targetRoom).fetchSockets()
 
-      if (!targetSocket) {
+      if (targetSockets.length === 0) {
         socket.emit('error', { message: 'Target participant not found or not connected' })
         return
       }
@@ -575,7 +884,7 @@ export class WebSocketService {
       }
       delete forwardData.to // Remove the 'to' field as it's not needed by the recipient
 
-      targetSocket.emit(event, forwardData)
+      this.io.to(targetRoom).emit(event, forwardData)
     } catch (error) {
       console.error('Error handling WebRTC signaling:', error)
     }
@@ -646,5 +955,7 @@ export class WebSocketService {
    */
   public async shutdown(): Promise<void> {
     await this.roomService.shutdown()
+    await Promise.all(this.adapterClients.map(client => client.quit()))
+    this.adapterClients = []
   }
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AnnotationService } from '../services/annotationService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    havrutaParticipant: {
+      findUnique: vi.fn()
+    },
+    annotation: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    }
+  }
+}))
+
+import { prisma } from '../utils/database'
+
+describe('AnnotationService', () => {
+  let annotationService: AnnotationService
+  let mockWebSocketService: { broadcastToHavruta: ReturnType<typeof vi.fn> }
+
+  const mockAnnotation = {
+    id: 'annotation-1',
+    ref: 'Genesis 1:3',
+    content: 'Light before the luminaries?',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    userId: 'user-1',
+    havrutaId: 'havruta-1',
+    user: {
+      id: 'user-1',
+      name: 'Test User',
+      profilePicture: null
+    }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockWebSocketService = {
+      broadcastToHavruta: vi.fn().mockResolvedValue(undefined)
+    }
+
+    annotationService = new AnnotationService()
+    annotationService.setWebSocketService(mockWebSocketService)
+
+    vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ id: 'participant-1' } as any)
+  })
+
+  describe('createAnnotation', () => {
+    it('should create an annotation and broadcast it to the Havruta', async () => {
+      vi.mocked(prisma.annotation.create).mockResolvedValue(mockAnnotation as any)
+
+      const result = await annotationService.createAnnotation({
+        havrutaId: 'havruta-1',
+        userId: 'user-1',
+        ref: 'Genesis 1:3',
+        content: '  Light before the luminaries?  '
+      })
+
+      expect(result).toEqual(mockAnnotation)
+      expect(prisma.annotation.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          havrutaId: 'havruta-1',
+          userId: 'user-1',
+          ref: 'Genesis 1:3',
+          content: 'Light before the luminaries?'
+        }
+      }))
+      expect(mockWebSocketService.broadcastToHavruta).toHaveBeenCalledWith(
+        'havruta-1',
+        'annotation-created',
+        mockAnnotation
+      )
+    })
+
+    it('should reject users who are not participants', async () => {
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue(null)
+
+      await expect(annotationService.createAnnotation({
+        havrutaId: 'havruta-1',
+        userId: 'outsider',
+        ref: 'Genesis 1:3',
+        content: 'Hello'
+      })).rejects.toThrow('User is not a participant in this Havruta')
+
+      expect(prisma.annotation.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject empty content', async () => {
+      await expect(annotationService.createAnnotation({
+        havrutaId: 'havruta-1',
+        userId: 'user-1',
+        ref: 'Genesis 1:3',
+        content: '   '
+      })).rejects.toThrow('Validation error')
+    })
+  })
+
+  describe('getAnnotations', () => {
+    it('should include annotations on lines beneath the requested ref', async () => {
+      vi.mocked(prisma.annotation.findMany).mockResolvedValue([mockAnnotation] as any)
+
+      const result = await annotationService.getAnnotations('havruta-1', 'user-1', { ref: 'Genesis 1' })
+
+      expect(result).toHaveLength(1)
+      expect(prisma.annotation.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          havrutaId: 'havruta-1',
+          OR: [
+            { ref: 'Genesis 1' },
+            { ref: { startsWith: 'Genesis 1:' } }
+          ]
+        }
+      }))
+    })
+  })
+
+  describe('updateAnnotation', () => {
+    it('should only allow the author to edit', async () => {
+      vi.mocked(prisma.annotation.findUnique).mockResolvedValue(mockAnnotation as any)
+
+      await expect(annotationService.updateAnnotation('havruta-1', 'annotation-1', 'user-2', { content: 'Edited' }))
+        .rejects.toThrow('Only the author can edit this annotation')
+
+      expect(prisma.annotation.update).not.toHaveBeenCalled()
+    })
+
+    it('should update and broadcast the annotation', async () => {
+      const updated = { ...mockAnnotation, content: 'Edited' }
+      vi.mocked(prisma.annotation.findUnique).mockResolvedValue(mockAnnotation as any)
+      vi.mocked(prisma.annotation.update).mockResolvedValue(updated as any)
+
+      const result = await annotationService.updateAnnotation('havruta-1', 'annotation-1', 'user-1', { content: 'Edited' })
+
+      expect(result.content).toBe('Edited')
+      expect(mockWebSocketService.broadcastToHavruta).toHaveBeenCalledWith(
+        'havruta-1',
+        'annotation-updated',
+        updated
+      )
+    })
+
+    it('should not edit an annotation from another Havruta', async () => {
+      vi.mocked(prisma.annotation.findUnique).mockResolvedValue(mockAnnotation as any)
+
+      await expect(annotationService.updateAnnotation('havruta-2', 'annotation-1', 'user-1', { content: 'Edited' }))
+        .rejects.toThrow('Annotation not found')
+
+      expect(prisma.annotation.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteAnnotation', () => {
+    it('should allow the Havruta owner to delete a partner annotation', async () => {
+      vi.mocked(prisma.annotation.findUnique).mockResolvedValue({
+        ...mockAnnotation,
+        havruta: { ownerId: 'owner-1' }
+      } as any)
+
+      await annotationService.deleteAnnotation('havruta-1', 'annotation-1', 'owner-1')
+
+      expect(prisma.annotation.delete).toHaveBeenCalledWith({ where: { id: 'annotation-1' } })
+      expect(mockWebSocketService.broadcastToHavruta).toHaveBeenCalledWith(
+        'havruta-1',
+        'annotation-deleted',
+        { id: 'annotation-1', havrutaId: 'havruta-1', ref: 'Genesis 1:3' }
+      )
+    })
+
+    it('should throw when the annotation does not exist', async () => {
+      vi.mocked(prisma.annotation.findUnique).mockResolvedValue(null)
+
+      await expect(annotationService.deleteAnnotation('havruta-1', 'missing', 'user-1'))
+        .rejects.toThrow('Annotation not found')
+    })
+
+    it('should not delete an annotation from another Havruta', async () => {
+      vi.mocked(prisma.annotation.findUnique).mockResolvedValue({
+        ...mockAnnotation,
+        havruta: { ownerId: 'owner-1' }
+      } as any)
+
+      await expect(annotationService.deleteAnnotation('havruta-2', 'annotation-1', 'user-1'))
+        .rejects.toThrow('Annotation not found')
+
+      expect(prisma.annotation.delete).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { CalendarService } from '../services/calendarService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    session: {
+      findUnique: vi.fn(),
+      findMany: vi.fn()
+    }
+  }
+}))
+
+import { prisma } from '../utils/database'
+
+describe('CalendarService', () => {
+  let calendarService: CalendarService
+
+  const havruta = { id: 'havruta-1', name: 'Morning Gemara', bookTitle: 'Berakhot' }
+
+  const weeklyPattern = {
+    id: 'pattern-1',
+    frequency: 'weekly',
+    interval: 1,
+    endDate: new Date('2024-03-31T00:00:00Z'),
+    daysOfWeek: [3, 1],
+    createdAt: new Date()
+  }
+
+  const makeSession = (overrides: Record<string, any> = {}) => ({
+    id: 'session-1',
+    type: 'scheduled',
+    status: 'scheduled',
+    startTime: new Date('2024-02-05T18:00:00Z'),
+    endTime: null,
+    startingSection: 'Berakhot 2a',
+    isRecurring: false,
+    havrutaId: 'havruta-1',
+    havruta,
+    recurrencePatternId: null,
+    recurrencePattern: null,
+    ...overrides
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    calendarService = new CalendarService()
+  })
+
+  describe('toRRule', () => {
+    it('should render weekly patterns with their days and end date', () => {
+      expect(calendarService.toRRule(weeklyPattern))
+        .toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;UNTIL=20240331T000000Z')
+    })
+
+    it('should render bi-weekly patterns as every other week', () => {
+      expect(calendarService.toRRule({ ...weeklyPattern, frequency: 'bi-weekly', endDate: null, daysOfWeek: [0] }))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU')
+    })
+
+    it('should stop open-ended patterns at the last generated session', () => {
+      const pattern = { ...weeklyPattern, frequency: 'monthly', endDate: null, daysOfWeek: [] }
+      expect(calendarService.toRRule(pattern, new Date('2024-12-05T18:00:00Z')))
+        .toBe('FREQ=MONTHLY;INTERVAL=1;UNTIL=20241205T180000Z')
+    })
+  })
+
+  describe('buildCalendar', () => {
+    it('should render a single session as one event', () => {
+      const calendar = calendarService.buildCalendar([makeSession()] as any)
+
+      expect(calendar).toContain('BEGIN:VCALENDAR\r\n')
+      expect(calendar).toContain('UID:session-session-1@havruta.app')
+      expect(calendar).toContain('DTSTART:20240205T180000Z')
+      expect(calendar).toContain('DTEND:20240205T190000Z')
+      expect(calendar).toContain('SUMMARY:Havruta: Morning Gemara')
+      expect(calendar).not.toContain('RRULE')
+    })
+
+    it('should collapse a recurring series into one event with cancelled dates excluded', () => {
+      const sessions = [
+        makeSession({ id: 'session-1', recurrencePatternId: 'pattern-1', recurrencePattern: weeklyPattern }),
+        makeSession({
+          id: 'session-2',
+          status: 'cancelled',
+          startTime: new Date('2024-02-07T18:00:00Z'),
+          recurrencePatternId: 'pattern-1',
+          recurrencePattern: weeklyPattern
+        }),
+        makeSession({
+          id: 'session-3',
+          startTime: new Date('2024-02-12T18:00:00Z'),
+          recurrencePatternId: 'pattern-1',
+          recurrencePattern: weeklyPattern
+        })
+      ]
+
+      const calendar = calendarService.buildCalendar(sessions as any)
+
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(1)
+      expect(calendar).toContain('UID:pattern-pattern-1@havruta.app')
+      expect(calendar).toContain('RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;UNTIL=20240331T000000Z')
+      expect(calendar).toContain('EXDATE:20240207T180000Z')
+    })
+
+    it('should override moved occurrences and exclude skipped ones at their planned time', () => {
+      const sessions = [
+        makeSession({ id: 'session-1', recurrencePatternId: 'pattern-1', recurrencePattern: weeklyPattern }),
+        makeSession({
+          id: 'session-2',
+          startTime: new Date('2024-02-08T18:00:00Z'),
+          recurrencePatternId: 'pattern-1',
+          recurrencePattern: weeklyPattern,
+          exception: { originalStartTime: new Date('2024-02-07T18:00:00Z'), originalStartingSection: '', isSkipped: false }
+        }),
+        makeSession({
+          id: 'session-3',
+          status: 'cancelled',
+          startTime: new Date('2024-02-12T18:00:00Z'),
+          recurrencePatternId: 'pattern-1',
+          recurrencePattern: weeklyPattern,
+          exception: { originalStartTime: new Date('2024-02-12T18:00:00Z'), originalStartingSection: '', isSkipped: true }
+        })
+      ]
+
+      const calendar = calendarService.buildCalendar(sessions as any)
+
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(2)
+      expect(calendar).toContain('EXDATE:20240212T180000Z')
+      expect(calendar).toContain('RECURRENCE-ID:20240207T180000Z\r\nSUMMARY')
+      expect(calendar).toContain('DTSTART:20240208T180000Z')
+    })
+
+    it('should keep recurring series in their time zone', () => {
+      const pattern = { ...weeklyPattern, timeZone: 'America/New_York' }
+      const calendar = calendarService.buildCalendar([
+        makeSession({ recurrencePatternId: 'pattern-1', recurrencePattern: pattern })
+      ] as any)
+
+      expect(calendar).toContain('DTSTART;TZID=America/New_York:20240205T130000')
+      expect(calendar).toContain(
+        'BEGIN:VTIMEZONE\r\nTZID:America/New_York\r\n' +
+        'BEGIN:STANDARD\r\nDTSTART:20240204T130000\r\nTZOFFSETFROM:-0500\r\nTZOFFSETTO:-0500\r\nEND:STANDARD\r\n' +
+        'BEGIN:DAYLIGHT\r\nDTSTART:20240310T020000\r\nTZOFFSETFROM:-0500\r\nTZOFFSETTO:-0400\r\nEND:DAYLIGHT\r\n' +
+        'END:VTIMEZONE\r\nBEGIN:VEVENT'
+      )
+    })
+
+    it('should only describe time zones that are used', () => {
+      const calendar = calendarService.buildCalendar([
+        makeSession({ recurrencePatternId: 'pattern-1', recurrencePattern: weeklyPattern })
+      ] as any)
+
+      expect(calendar).not.toContain('VTIMEZONE')
+    })
+
+    it('should escape text and fold long lines', () => {
+      const calendar = calendarService.buildCalendar([
+        makeSession({ havruta: { ...havruta, name: `Shabbat, Tuesday; and ${'a'.repeat(80)}` } })
+      ] as any)
+
+      expect(calendar).toContain('SUMMARY:Havruta: Shabbat\\, Tuesday\\; and')
+      for (const line of calendar.split('\r\n')) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75)
+      }
+    })
+  })
+
+  describe('parseRecurrence', () => {
+    it('should map a weekly event from an ICS file', () => {
+      const parsed = calendarService.parseRecurrence([
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART:20240205T180000Z',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240331T000000Z;WKST=SU',
+        'END:VEVENT',
+        'END:VCALENDAR'
+      ].join('\r\n'))
+
+      expect(parsed.startTime).toEqual(new Date('2024-02-05T18:00:00Z'))
+      expect(parsed.recurrencePattern).toEqual({
+        frequency: 'weekly',
+        interval: 1,
+        endDate: new Date('2024-03-31T00:00:00Z'),
+        daysOfWeek: [1, 3],
+        timeZone: 'UTC'
+      })
+      expect(parsed.unsupported).toEqual([])
+    })
+
+    it('should read a pasted RRULE with COUNT', () => {
+      const parsed = calendarService.parseRecurrence('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=10')
+
+      expect(parsed.startTime).toBeNull()
+      expect(parsed.recurrencePattern).toMatchObject({ frequency: 'bi-weekly', interval: 1, daysOfWeek: [2] })
+      expect(parsed.count).toBe(10)
+    })
+
+    it('should treat weekday-only daily rules as weekly', () => {
+      const parsed = calendarService.parseRecurrence('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR')
+
+      expect(parsed.recurrencePattern).toMatchObject({ frequency: 'weekly', daysOfWeek: [1, 2, 3, 4, 5] })
+    })
+
+    it('should read times in the event\'s time zone', () => {
+      const parsed = calendarService.parseRecurrence([
+        'DTSTART;TZID=America/New_York:20240107T210000',
+        'RRULE:FREQ=WEEKLY'
+      ].join('\n'), 'Asia/Jerusalem')
+
+      // Sunday 9pm in New York is Monday 2am UTC
+      expect(parsed.startTime).toEqual(new Date('2024-01-08T02:00:00Z'))
+      expect(parsed.recurrencePattern).toMatchObject({ daysOfWeek: [0], timeZone: 'America/New_York' })
+    })
+
+    it('should report rules that cannot be represented', () => {
+      const parsed = calendarService.parseRecurrence([
+        'DTSTART;TZID=Mars/Olympus_Mons:20240201T200000',
+        'RRULE:FREQ=MONTHLY;BYDAY=MO,TU;BYSETPOS=-1',
+        'EXDATE:20240301T200000,20240401T200000'
+      ].join('\n'))
+
+      expect(parsed.recurrencePattern.frequency).toBe('monthly')
+      expect(parsed.unsupported).toEqual([
+        'TZID=Mars/Olympus_Mons (unknown time zone, read as UTC)',
+        'EXDATE (2 dates)',
+        'BYDAY=MO,TU',
+        'BYSETPOS=-1'
+      ])
+    })
+
+    it('should reject frequencies finer than a day', () => {
+      expect(() => calendarService.parseRecurrence('FREQ=HOURLY'))
+        .toThrow('Unsupported recurrence frequency: HOURLY')
+    })
+  })
+
+  describe('getCalendarFeed', () => {
+    it('should build the feed from the token owner\'s sessions', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as any)
+      vi.mocked(prisma.session.findMany).mockResolvedValue([makeSession()] as any)
+
+      const calendar = await calendarService.getCalendarFeed('token-1')
+
+      expect(prisma.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { participants: { some: { userId: 'user-1' } } }
+      }))
+      expect(calendar).toContain('X-WR-CALNAME:Havruta Sessions')
+    })
+
+    it('should reject unknown tokens', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null)
+
+      await expect(calendarService.getCalendarFeed('bad-token')).rejects.toThrow('Calendar not found')
+    })
+  })
+
+  describe('getCalendarToken', () => {
+    it('should create a token the first time', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ calendarToken: null } as any)
+
+      const token = await calendarService.getCalendarToken('user-1')
+
+      expect(token).toMatch(/^[a-f0-9]{64}$/)
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { calendarToken: token }
+      })
+    })
+  })
+})
\ No newline at end of file
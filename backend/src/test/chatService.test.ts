@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ChatService } from '../services/chatService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    session: {
+      findUnique: vi.fn()
+    },
+    havrutaParticipant: {
+      findUnique: vi.fn()
+    },
+    chatMessage: {
+      create: vi.fn(),
+      findMany: vi.fn()
+    }
+  }
+}))
+
+import { prisma } from '../utils/database'
+
+describe('ChatService', () => {
+  let chatService: ChatService
+
+  const mockSession = {
+    id: 'session-1',
+    havrutaId: 'havruta-1',
+    havruta: {
+      id: 'havruta-1',
+      bookTitle: 'Genesis'
+    }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    chatService = new ChatService()
+
+    vi.mocked(prisma.session.findUnique).mockResolvedValue(mockSession as any)
+    vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ id: 'participant-1' } as any)
+  })
+
+  describe('extractRefs', () => {
+    it('should find verse refs in any book', () => {
+      expect(chatService.extractRefs('Compare Exodus 3:14 with 1 Samuel 2:6', 'Genesis'))
+        .toEqual(['Exodus 3:14', '1 Samuel 2:6'])
+    })
+
+    it('should find Talmud daf refs', () => {
+      expect(chatService.extractRefs('See Berakhot 2a for the opening mishnah'))
+        .toEqual(['Berakhot 2a'])
+    })
+
+    it('should only accept bare chapter refs for the Havruta book', () => {
+      expect(chatService.extractRefs('Back to Genesis 3, we are in Room 5', 'Genesis'))
+        .toEqual(['Genesis 3'])
+    })
+
+    it('should drop leading words before the Havruta book', () => {
+      expect(chatService.extractRefs('Then Genesis 1:3 answers it', 'Genesis'))
+        .toEqual(['Genesis 1:3'])
+    })
+
+    it('should return an empty list when there are no refs', () => {
+      expect(chatService.extractRefs('shall we take a short break?', 'Genesis')).toEqual([])
+    })
+  })
+
+  describe('sendMessage', () => {
+    it('should store the message with the refs it mentions', async () => {
+      const mockMessage = { id: 'message-1', content: 'Look at Genesis 1:3', refs: ['Genesis 1:3'] }
+      vi.mocked(prisma.chatMessage.create).mockResolvedValue(mockMessage as any)
+
+      const result = await chatService.sendMessage({
+        sessionId: 'session-1',
+        userId: 'user-1',
+        content: ' Look at Genesis 1:3 '
+      })
+
+      expect(result).toEqual(mockMessage)
+      expect(prisma.chatMessage.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          sessionId: 'session-1',
+          userId: 'user-1',
+          content: 'Look at Genesis 1:3',
+          refs: ['Genesis 1:3']
+        }
+      }))
+    })
+
+    it('should reject users outside the Havruta', async () => {
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue(null)
+
+      await expect(chatService.sendMessage({
+        sessionId: 'session-1',
+        userId: 'outsider',
+        content: 'Hello'
+      })).rejects.toThrow('User does not have access to this session')
+
+      expect(prisma.chatMessage.create).not.toHaveBeenCalled()
+    })
+
+    it('should throw when the session does not exist', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue(null)
+
+      await expect(chatService.sendMessage({
+        sessionId: 'missing',
+        userId: 'user-1',
+        content: 'Hello'
+      })).rejects.toThrow('Session not found')
+    })
+  })
+
+  describe('getSessionMessages', () => {
+    it('should return the newest page in reading order', async () => {
+      vi.mocked(prisma.chatMessage.findMany).mockResolvedValue([
+        { id: 'message-2' },
+        { id: 'message-1' }
+      ] as any)
+
+      const result = await chatService.getSessionMessages('session-1', 'user-1', { limit: 2 })
+
+      expect(result.map(m => m.id)).toEqual(['message-1', 'message-2'])
+      expect(prisma.chatMessage.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { sessionId: 'session-1' },
+        orderBy: { createdAt: 'desc' },
+        take: 2
+      }))
+    })
+  })
+})
\ No newline at end of file
@@ -171,9 +171,9 @@ describe('HavrutaService', () => {
     it('should throw error if too many participants', async () => {
       const creator = testUsers[0]
       
-      // Create 8 additional test users (10 total with existing 2 + creator = 11 total)
+      // Create 13 additional test users (15 total with existing 2 + creator = 16 total)
       const additionalUsers = []
-      for (let i = 0; i < 8; i++) {
+      for (let i = 0; i < 13; i++) {
         const user = await prisma.user.create({
           data: {
             email: `test-havruta-extra${i}@example.com`,
@@ -185,7 +185,7 @@ describe('HavrutaService', () => {
         additionalUsers.push(user)
       }
       
-      // Create array of 10 participant IDs (would be 11 total with creator)
+      // Create array of 15 participant IDs (would be 16 total with creator)
       const participantIds = [
         testUsers[1].id,
         testUsers[2].id,
@@ -200,7 +200,7 @@ describe('HavrutaService', () => {
         participantIds
       }
 
-      await expect(havrutaService.createHavruta(havrutaData)).rejects.toThrow('Maximum 10 participants allowed')
+      await expect(havrutaService.createHavruta(havrutaData)).rejects.toThrow('Maximum 15 participants allowed')
       
       // Clean up additional users
       for (const user of additionalUsers) {
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { getHebrewDate, getRestWindows, findRestWindow, getSunset } from '../utils/hebrewCalendar'
+
+describe('hebrewCalendar', () => {
+  const newYork = { timeZone: 'America/New_York', latitude: 40.7128, longitude: -74.006 }
+  const jerusalem = { timeZone: 'Asia/Jerusalem', latitude: 31.7683, longitude: 35.2137 }
+
+  const minutesBetween = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) / 60000
+  const localDay = (date: Date, timeZone: string) => date.toLocaleDateString('en-CA', { timeZone })
+
+  describe('getHebrewDate', () => {
+    it('should give the Hebrew date of the local day', () => {
+      // Late Tuesday evening in New York is already Wednesday in UTC
+      expect(getHebrewDate(new Date('2025-09-24T02:00:00Z'), 'America/New_York'))
+        .toEqual({ year: 5786, month: 'Tishri', day: 1 })
+    })
+  })
+
+  describe('getSunset', () => {
+    it('should be within a few minutes of published times', () => {
+      // New York, October 17, 2025: sunset 6:14pm EDT
+      const sunset = getSunset({ year: 2025, month: 10, day: 17 }, newYork.latitude, newYork.longitude)
+      expect(minutesBetween(sunset!, new Date('2025-10-17T22:14:00Z'))).toBeLessThan(3)
+    })
+  })
+
+  describe('getRestWindows', () => {
+    it('should run Shabbat from candle lighting to nightfall', () => {
+      const [shabbat] = getRestWindows(new Date('2025-10-17T12:00:00Z'), new Date('2025-10-18T12:00:00Z'), newYork)
+
+      expect(shabbat.name).toBe('Shabbat')
+      expect(minutesBetween(shabbat.start, new Date('2025-10-17T21:56:00Z'))).toBeLessThan(3)
+      expect(minutesBetween(shabbat.end, new Date('2025-10-18T22:55:00Z'))).toBeLessThan(3)
+    })
+
+    it('should keep two days of Yom Tov outside Israel and one inside', () => {
+      const from = new Date('2025-10-06T00:00:00Z')
+      const to = new Date('2025-10-09T00:00:00Z')
+
+      const [diaspora] = getRestWindows(from, to, newYork)
+      const [israel] = getRestWindows(from, to, jerusalem)
+
+      expect(diaspora).toMatchObject({ name: 'Sukkot', type: 'yom_tov' })
+      expect(localDay(diaspora.end, newYork.timeZone)).toBe('2025-10-08')
+      expect(localDay(israel.end, jerusalem.timeZone)).toBe('2025-10-07')
+    })
+
+    it('should merge Shabbat with an adjoining Yom Tov', () => {
+      // Pesach 2025 began Saturday night, right after Shabbat
+      const windows = getRestWindows(new Date('2025-04-12T00:00:00Z'), new Date('2025-04-13T12:00:00Z'), newYork)
+
+      expect(windows).toHaveLength(1)
+      expect(windows[0]).toMatchObject({ name: 'Shabbat, Pesach', type: 'yom_tov' })
+      expect(localDay(windows[0].end, newYork.timeZone)).toBe('2025-04-14')
+    })
+
+    it('should only include fast days on request, moved off Shabbat', () => {
+      // 13 Adar II 5784 was Shabbat, so Ta'anit Esther moved back to Thursday
+      const from = new Date('2024-03-20T00:00:00Z')
+      const to = new Date('2024-03-22T00:00:00Z')
+
+      expect(getRestWindows(from, to, newYork)).toEqual([])
+      expect(getRestWindows(from, to, newYork, { includeFastDays: true })).toEqual([
+        expect.objectContaining({ name: 'Ta\'anit Esther', type: 'fast', start: new Date('2024-03-21T04:00:00Z') })
+      ])
+    })
+
+    it('should widen windows when the location is unknown', () => {
+      const shabbat = findRestWindow(
+        new Date('2025-10-17T12:30:00Z'),
+        new Date('2025-10-17T13:30:00Z'),
+        { timeZone: 'Europe/London' }
+      )
+
+      // From noon Friday to midnight Saturday, London time
+      expect(shabbat).toMatchObject({
+        start: new Date('2025-10-17T11:00:00Z'),
+        end: new Date('2025-10-18T23:00:00Z')
+      })
+    })
+  })
+})
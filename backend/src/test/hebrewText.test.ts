@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeText, tokenize, hebrewPrefixVariants } from '../utils/hebrewText'
+
+describe('hebrewText', () => {
+  describe('normalizeText', () => {
+    it("should strip niqqud and ta'amim", () => {
+      expect(normalizeText('בְּרֵאשִׁ֖ית בָּרָ֣א אֱלֹהִ֑ים')).toBe('בראשית ברא אלהים')
+    })
+
+    it('should drop markup and lowercase English', () => {
+      expect(normalizeText('<b>In the  Beginning</b>')).toBe('in the beginning')
+    })
+  })
+
+  describe('tokenize', () => {
+    it('should split words joined by maqaf and sof pasuq', () => {
+      expect(tokenize('כָּל־הָאָרֶץ׃וַיֹּאמֶר')).toEqual(['כל', 'הארץ', 'ויאמר'])
+    })
+
+    it('should keep abbreviations together', () => {
+      expect(tokenize('אמר ר״ע')).toEqual(['אמר', 'רע'])
+      expect(tokenize('אמר ר"ע')).toEqual(['אמר', 'רע'])
+    })
+  })
+
+  describe('hebrewPrefixVariants', () => {
+    it('should drop ו, ה, ב and ל prefixes one at a time', () => {
+      expect(hebrewPrefixVariants('והארץ')).toEqual(['והארץ', 'הארץ', 'ארץ'])
+      expect(hebrewPrefixVariants('ובהר')).toEqual(['ובהר', 'בהר', 'הר'])
+    })
+
+    it('should keep at least two letters', () => {
+      expect(hebrewPrefixVariants('לא')).toEqual(['לא'])
+    })
+
+    it('should leave other words alone', () => {
+      expect(hebrewPrefixVariants('אלהים')).toEqual(['אלהים'])
+      expect(hebrewPrefixVariants('light')).toEqual(['light'])
+    })
+  })
+})
\ No newline at end of file
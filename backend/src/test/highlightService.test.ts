@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { HighlightService } from '../services/highlightService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    havrutaParticipant: {
+      findUnique: vi.fn()
+    },
+    highlight: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      delete: vi.fn()
+    }
+  }
+}))
+
+import { prisma } from '../utils/database'
+
+describe('HighlightService', () => {
+  let highlightService: HighlightService
+  let mockWebSocketService: { broadcastToHavruta: ReturnType<typeof vi.fn> }
+
+  const highlightData = {
+    havrutaId: 'havruta-1',
+    userId: 'user-1',
+    ref: 'Genesis 1:1',
+    language: 'en' as const,
+    startIndex: 0,
+    endIndex: 14,
+    text: 'In the beginning',
+    color: '#ffeb3b'
+  }
+
+  const mockHighlight = {
+    id: 'highlight-1',
+    ...highlightData,
+    createdAt: new Date(),
+    user: {
+      id: 'user-1',
+      name: 'Test User'
+    }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockWebSocketService = {
+      broadcastToHavruta: vi.fn().mockResolvedValue(undefined)
+    }
+
+    highlightService = new HighlightService()
+    highlightService.setWebSocketService(mockWebSocketService)
+
+    vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ id: 'participant-1' } as any)
+  })
+
+  describe('createHighlight', () => {
+    it('should create a highlight and broadcast it to the Havruta', async () => {
+      vi.mocked(prisma.highlight.create).mockResolvedValue(mockHighlight as any)
+
+      const result = await highlightService.createHighlight(highlightData)
+
+      expect(result).toEqual(mockHighlight)
+      expect(mockWebSocketService.broadcastToHavruta).toHaveBeenCalledWith(
+        'havruta-1',
+        'highlight-created',
+        mockHighlight
+      )
+    })
+
+    it('should reject an invalid color', async () => {
+      await expect(highlightService.createHighlight({ ...highlightData, color: 'yellow' }))
+        .rejects.toThrow('Color must be a hex value')
+
+      expect(prisma.highlight.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject an empty range', async () => {
+      await expect(highlightService.createHighlight({ ...highlightData, startIndex: 5, endIndex: 5 }))
+        .rejects.toThrow('End index must be after start index')
+    })
+
+    it('should reject users who are not participants', async () => {
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue(null)
+
+      await expect(highlightService.createHighlight(highlightData))
+        .rejects.toThrow('User is not a participant in this Havruta')
+    })
+  })
+
+  describe('deleteHighlight', () => {
+    it('should not allow other participants to remove a highlight', async () => {
+      vi.mocked(prisma.highlight.findUnique).mockResolvedValue({
+        ...mockHighlight,
+        havruta: { ownerId: 'owner-1' }
+      } as any)
+
+      await expect(highlightService.deleteHighlight('havruta-1', 'highlight-1', 'user-2'))
+        .rejects.toThrow('Only the author or the Havruta owner can remove this highlight')
+
+      expect(prisma.highlight.delete).not.toHaveBeenCalled()
+    })
+
+    it('should remove the highlight and broadcast the deletion', async () => {
+      vi.mocked(prisma.highlight.findUnique).mockResolvedValue({
+        ...mockHighlight,
+        havruta: { ownerId: 'owner-1' }
+      } as any)
+
+      await highlightService.deleteHighlight('havruta-1', 'highlight-1', 'user-1')
+
+      expect(prisma.highlight.delete).toHaveBeenCalledWith({ where: { id: 'highlight-1' } })
+      expect(mockWebSocketService.broadcastToHavruta).toHaveBeenCalledWith(
+        'havruta-1',
+        'highlight-deleted',
+        { id: 'highlight-1', havrutaId: 'havruta-1', ref: 'Genesis 1:1' }
+      )
+    })
+
+    it('should not remove a highlight from another Havruta', async () => {
+      vi.mocked(prisma.highlight.findUnique).mockResolvedValue({
+        ...mockHighlight,
+        havruta: { ownerId: 'owner-1' }
+      } as any)
+
+      await expect(highlightService.deleteHighlight('havruta-2', 'highlight-1', 'user-1'))
+        .rejects.toThrow('Highlight not found')
+
+      expect(prisma.highlight.delete).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
@@ -15,6 +15,15 @@ vi.mock('../utils/database', () => ({
       updateMany: vi.fn(),
       delete: vi.fn()
     },
+    inviteLink: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn()
+    },
+    inviteLinkUse: {
+      findUnique: vi.fn()
+    },
     havruta: {
       findUnique: vi.fn()
     },
@@ -111,6 +120,21 @@ describe('InvitationService', () => {
       ).rejects.toThrow('Only participants can invite others')
     })
 
+    it('should not let observers invite others', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({
+        ...mockHavruta,
+        participants: [{ userId: 'user-2', role: 'observer', user: { email: 'jane@example.com' } }]
+      } as any)
+
+      await expect(
+        invitationService.inviteParticipants({
+          havrutaId: 'havruta-1',
+          emails: ['test@example.com'],
+          inviterUserId: 'user-2'
+        })
+      ).rejects.toThrow('Observers cannot invite others')
+    })
+
     it('should handle existing users by adding them directly', async () => {
       const existingUser = {
         id: 'user-2',
@@ -495,4 +519,166 @@ describe('InvitationService', () => {
       })
     })
   })
+
+  describe('createInviteLink', () => {
+    it('should create a link with max uses and expiry for the owner', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1' } as any)
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ role: 'owner' } as any)
+      vi.mocked(prisma.inviteLink.create).mockResolvedValue({ id: 'link-1', uses: [] } as any)
+
+      await invitationService.createInviteLink('havruta-1', 'user-1', { maxUses: 5, expiresInDays: 3 })
+
+      const { data } = vi.mocked(prisma.inviteLink.create).mock.calls[0][0]
+      expect(data).toEqual(expect.objectContaining({
+        maxUses: 5,
+        createdById: 'user-1',
+        havrutaId: 'havruta-1',
+        token: expect.stringMatching(/^[a-f0-9]{64}$/)
+      }))
+      expect((data.expiresAt as Date).getTime()).toBeGreaterThan(Date.now() + 2 * 24 * 60 * 60 * 1000)
+    })
+
+    it('should let co-hosts create links', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1' } as any)
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ role: 'co-host' } as any)
+      vi.mocked(prisma.inviteLink.create).mockResolvedValue({ id: 'link-1', uses: [] } as any)
+
+      await invitationService.createInviteLink('havruta-1', 'user-2')
+
+      expect(prisma.inviteLink.create).toHaveBeenCalled()
+    })
+
+    it('should not let regular participants create links', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1' } as any)
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ role: 'participant' } as any)
+
+      await expect(invitationService.createInviteLink('havruta-1', 'user-2'))
+        .rejects.toThrow('Only the owner or a co-host can create invite links')
+    })
+  })
+
+  describe('acceptInviteLink', () => {
+    const mockLink = {
+      id: 'link-1',
+      token: 'link-token',
+      maxUses: 2,
+      useCount: 0,
+      expiresAt: null,
+      revokedAt: null,
+      havrutaId: 'havruta-1',
+      havruta: { id: 'havruta-1', isActive: true, _count: { participants: 2 } }
+    }
+    let tx: any
+
+    beforeEach(() => {
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.inviteLinkUse.findUnique).mockResolvedValue(null)
+      tx = {
+        havrutaParticipant: { create: vi.fn() },
+        inviteLinkUse: { create: vi.fn(), update: vi.fn() },
+        inviteLink: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) }
+      }
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => callback(tx))
+    })
+
+    it('should add the user and count the use', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue(mockLink as any)
+
+      const havrutaId = await invitationService.acceptInviteLink({ token: 'link-token', userId: 'user-2' })
+
+      expect(havrutaId).toBe('havruta-1')
+      expect(tx.havrutaParticipant.create).toHaveBeenCalledWith({
+        data: { userId: 'user-2', havrutaId: 'havruta-1' }
+      })
+      expect(tx.inviteLinkUse.create).toHaveBeenCalledWith({
+        data: { linkId: 'link-1', userId: 'user-2' }
+      })
+      expect(tx.inviteLink.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link-1', OR: [{ maxUses: null }, { useCount: { lt: 2 } }] },
+        data: { useCount: { increment: 1 } }
+      })
+    })
+
+    it('should reject a join that loses the race for the last use', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue({ ...mockLink, useCount: 1 } as any)
+      tx.inviteLink.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(invitationService.acceptInviteLink({ token: 'link-token', userId: 'user-2' }))
+        .rejects.toThrow('Invitation link has reached its maximum uses')
+      expect(tx.inviteLinkUse.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject revoked links', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue({ ...mockLink, revokedAt: new Date() } as any)
+
+      await expect(invitationService.acceptInviteLink({ token: 'link-token', userId: 'user-2' }))
+        .rejects.toThrow('Invitation is no longer valid')
+    })
+
+    it('should reject expired links', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue({
+        ...mockLink,
+        expiresAt: new Date(Date.now() - 1000)
+      } as any)
+
+      await expect(invitationService.acceptInviteLink({ token: 'link-token', userId: 'user-2' }))
+        .rejects.toThrow('Invitation has expired')
+    })
+
+    it('should reject links that have been used up', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue({ ...mockLink, useCount: 2 } as any)
+
+      await expect(invitationService.acceptInviteLink({ token: 'link-token', userId: 'user-2' }))
+        .rejects.toThrow('Invitation link has reached its maximum uses')
+    })
+
+    it('should let existing participants through without using up the link', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue({ ...mockLink, useCount: 2 } as any)
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ id: 'participant-1' } as any)
+
+      const havrutaId = await invitationService.acceptInviteLink({ token: 'link-token', userId: 'user-2' })
+
+      expect(havrutaId).toBe('havruta-1')
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should let someone rejoin through a used-up link without counting a second use', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue({ ...mockLink, useCount: 2 } as any)
+      vi.mocked(prisma.inviteLinkUse.findUnique).mockResolvedValue({ id: 'use-1' } as any)
+
+      await invitationService.acceptInviteLink({ token: 'link-token', userId: 'user-2' })
+
+      expect(tx.havrutaParticipant.create).toHaveBeenCalled()
+      expect(tx.inviteLinkUse.update).toHaveBeenCalled()
+      expect(tx.inviteLink.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('revokeInviteLink', () => {
+    it('should mark the link revoked', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue({
+        id: 'link-1',
+        havrutaId: 'havruta-1',
+        revokedAt: null
+      } as any)
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ role: 'owner' } as any)
+
+      await invitationService.revokeInviteLink('havruta-1', 'link-1', 'user-1')
+
+      expect(prisma.inviteLink.update).toHaveBeenCalledWith({
+        where: { id: 'link-1' },
+        data: { revokedAt: expect.any(Date) }
+      })
+    })
+
+    it('should not find links from another Havruta', async () => {
+      vi.mocked(prisma.inviteLink.findUnique).mockResolvedValue({
+        id: 'link-1',
+        havrutaId: 'havruta-2'
+      } as any)
+
+      await expect(invitationService.revokeInviteLink('havruta-1', 'link-1', 'user-1'))
+        .rejects.toThrow('Invite link not found')
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { MatchingService, MatchCandidate } from '../services/matchingService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    matchingProfile: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn()
+    },
+    matchRequest: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+vi.mock('../services/havrutaService', () => ({
+  havrutaService: {
+    createHavruta: vi.fn(),
+    joinHavruta: vi.fn()
+  }
+}))
+
+import { prisma } from '../utils/database'
+import { havrutaService } from '../services/havrutaService'
+
+describe('MatchingService', () => {
+  let matchingService: MatchingService
+
+  const candidate = (overrides: Partial<MatchCandidate> = {}): MatchCandidate => ({
+    books: ['Berakhot'],
+    language: 'either',
+    level: 'beginner',
+    availability: [],
+    timeZone: 'UTC',
+    ...overrides
+  })
+
+  const makeProfile = (userId: string, overrides: Record<string, any> = {}) => ({
+    id: `profile-${userId}`,
+    userId,
+    books: ['Berakhot', 'Genesis'],
+    language: 'english',
+    level: 'beginner',
+    availability: [],
+    bio: '',
+    isPublished: true,
+    user: { id: userId, name: userId, profilePicture: null, timeZone: 'UTC' },
+    ...overrides
+  })
+
+  let tx: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    matchingService = new MatchingService()
+
+    tx = {
+      matchRequest: {
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        update: vi.fn()
+      }
+    }
+    vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => callback(tx))
+  })
+
+  describe('upsertProfile', () => {
+    it('should save a profile with duplicate books removed', async () => {
+      vi.mocked(prisma.matchingProfile.upsert).mockResolvedValue({} as any)
+
+      await matchingService.upsertProfile('user-1', {
+        books: ['Berakhot', 'Berakhot'],
+        availability: [{ day: 0, start: '20:00', end: '21:30' }]
+      })
+
+      expect(prisma.matchingProfile.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'user-1' },
+        update: expect.objectContaining({ books: ['Berakhot'], language: 'either', level: 'beginner' })
+      }))
+    })
+
+    it('should reject windows that end before they start', async () => {
+      await expect(matchingService.upsertProfile('user-1', {
+        books: ['Berakhot'],
+        availability: [{ day: 0, start: '21:00', end: '20:00' }]
+      })).rejects.toThrow('Time windows must end after they start')
+    })
+  })
+
+  describe('scoreMatch', () => {
+    it('should require a shared book', () => {
+      expect(matchingService.scoreMatch(candidate(), candidate({ books: ['Genesis'] }))).toBeNull()
+    })
+
+    it('should keep apart learners who want different languages', () => {
+      expect(matchingService.scoreMatch(
+        candidate({ language: 'hebrew' }),
+        candidate({ language: 'english' })
+      )).toBeNull()
+      expect(matchingService.scoreMatch(
+        candidate({ language: 'hebrew' }),
+        candidate({ language: 'either' })
+      )).not.toBeNull()
+    })
+
+    it('should count free time both share across time zones', () => {
+      // Sunday 8-10am in Tokyo is Saturday 11pm to Sunday 1am in UTC, wrapping past the end of the week
+      const match = matchingService.scoreMatch(
+        candidate({ timeZone: 'Asia/Tokyo', availability: [{ day: 0, start: '08:00', end: '10:00' }] }),
+        candidate({ timeZone: 'UTC', availability: [{ day: 0, start: '00:00', end: '03:00' }, { day: 6, start: '23:30', end: '23:59' }] })
+      )
+
+      expect(match?.overlapMinutes).toBe(60 + 29)
+    })
+
+    it('should rank closer levels higher', () => {
+      const same = matchingService.scoreMatch(candidate(), candidate())!
+      const apart = matchingService.scoreMatch(candidate(), candidate({ level: 'advanced' }))!
+
+      expect(same.score).toBeGreaterThan(apart.score)
+    })
+  })
+
+  describe('getSuggestions', () => {
+    it('should leave out people the user already has requests with', async () => {
+      vi.mocked(prisma.matchingProfile.findUnique).mockResolvedValue(makeProfile('user-1') as any)
+      vi.mocked(prisma.matchRequest.findMany).mockResolvedValue([
+        { requesterId: 'user-1', recipientId: 'user-2' }
+      ] as any)
+      vi.mocked(prisma.matchingProfile.findMany).mockResolvedValue([
+        makeProfile('user-3', { books: ['Genesis'], language: 'hebrew' }),
+        makeProfile('user-4', { books: ['Berakhot', 'Genesis'] })
+      ] as any)
+
+      const suggestions = await matchingService.getSuggestions('user-1')
+
+      expect(prisma.matchingProfile.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          isPublished: true,
+          userId: { notIn: ['user-1', 'user-2'] },
+          books: { hasSome: ['Berakhot', 'Genesis'] }
+        }
+      }))
+      expect(suggestions.map(suggestion => suggestion.user.id)).toEqual(['user-4'])
+      expect(suggestions[0].sharedBooks).toEqual(['Berakhot', 'Genesis'])
+    })
+
+    it('should ask for a profile first', async () => {
+      vi.mocked(prisma.matchingProfile.findUnique).mockResolvedValue(null)
+
+      await expect(matchingService.getSuggestions('user-1')).rejects.toThrow('Create a matching profile first')
+    })
+  })
+
+  describe('sendRequest', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.matchingProfile.findUnique).mockImplementation(async ({ where }: any) =>
+        makeProfile(where.userId) as any)
+    })
+
+    it('should create a pending request', async () => {
+      vi.mocked(prisma.matchRequest.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.matchRequest.create).mockResolvedValue({ id: 'request-1', status: 'pending' } as any)
+
+      const result = await matchingService.sendRequest('user-1', { recipientId: 'user-2', bookTitle: 'Berakhot' })
+
+      expect(prisma.matchRequest.create).toHaveBeenCalledWith({
+        data: { requesterId: 'user-1', recipientId: 'user-2', bookTitle: 'Berakhot' }
+      })
+      expect(result.havrutaId).toBeNull()
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should create the Havruta when the other side already asked', async () => {
+      const reverse = { id: 'request-2', requesterId: 'user-2', recipientId: 'user-1', bookTitle: 'Berakhot', status: 'pending' }
+      vi.mocked(prisma.matchRequest.findUnique)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(reverse as any)
+      vi.mocked(havrutaService.createHavruta).mockResolvedValue({ id: 'havruta-1' } as any)
+      tx.matchRequest.update.mockResolvedValue({ ...reverse, status: 'accepted', havrutaId: 'havruta-1' })
+
+      const result = await matchingService.sendRequest('user-1', { recipientId: 'user-2', bookTitle: 'Berakhot' })
+
+      expect(tx.matchRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-2', status: 'pending' },
+        data: { status: 'accepted', respondedAt: expect.any(Date) }
+      })
+      expect(havrutaService.createHavruta).toHaveBeenCalledWith(expect.objectContaining({
+        bookId: 'Berakhot',
+        bookTitle: 'Berakhot',
+        ownerId: 'user-2'
+      }), tx)
+      expect(havrutaService.joinHavruta).toHaveBeenCalledWith({ userId: 'user-1', havrutaId: 'havruta-1' }, tx)
+      expect(result.havrutaId).toBe('havruta-1')
+    })
+
+    it('should only match on books both want', async () => {
+      await expect(matchingService.sendRequest('user-1', { recipientId: 'user-2', bookTitle: 'Shabbat' }))
+        .rejects.toThrow('Both profiles must include the book')
+    })
+  })
+
+  describe('respondToRequest', () => {
+    it('should only let the recipient respond', async () => {
+      vi.mocked(prisma.matchRequest.findUnique).mockResolvedValue({
+        id: 'request-1',
+        requesterId: 'user-1',
+        recipientId: 'user-2',
+        status: 'pending'
+      } as any)
+
+      await expect(matchingService.respondToRequest('request-1', 'user-1', true))
+        .rejects.toThrow('Only the recipient can respond to a match request')
+    })
+
+    it('should decline without creating a Havruta', async () => {
+      vi.mocked(prisma.matchRequest.findUnique).mockResolvedValue({
+        id: 'request-1',
+        requesterId: 'user-1',
+        recipientId: 'user-2',
+        status: 'pending'
+      } as any)
+      vi.mocked(prisma.matchRequest.update).mockResolvedValue({} as any)
+
+      await matchingService.respondToRequest('request-1', 'user-2', false)
+
+      expect(prisma.matchRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-1' },
+        data: { status: 'declined', respondedAt: expect.any(Date) }
+      })
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should fail the whole acceptance when joining the new Havruta fails', async () => {
+      vi.mocked(prisma.matchRequest.findUnique).mockResolvedValue({
+        id: 'request-1',
+        requesterId: 'user-1',
+        recipientId: 'user-2',
+        bookTitle: 'Berakhot',
+        status: 'pending'
+      } as any)
+      vi.mocked(havrutaService.createHavruta).mockResolvedValue({ id: 'havruta-1' } as any)
+      vi.mocked(havrutaService.joinHavruta).mockRejectedValue(new Error('User not found'))
+
+      await expect(matchingService.respondToRequest('request-1', 'user-2', true))
+        .rejects.toThrow('User not found')
+      expect(tx.matchRequest.update).not.toHaveBeenCalled()
+    })
+
+    it('should not create a second Havruta when an accept is submitted twice', async () => {
+      vi.mocked(prisma.matchRequest.findUnique).mockResolvedValue({
+        id: 'request-1',
+        requesterId: 'user-1',
+        recipientId: 'user-2',
+        bookTitle: 'Berakhot',
+        status: 'pending'
+      } as any)
+      tx.matchRequest.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(matchingService.respondToRequest('request-1', 'user-2', true))
+        .rejects.toThrow('Match request has already been answered')
+      expect(havrutaService.createHavruta).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { getConflictStrategy, CONFLICT_STRATEGIES } from '../services/navigationConflictStrategies'
+import { NavigationEvent } from '../services/syncService'
+
+const navigation = (userId: string, section: string): NavigationEvent => ({
+  havrutaId: 'havruta-1',
+  sessionId: 'session-1',
+  section,
+  navigatedBy: { id: userId, name: userId },
+  timestamp: new Date().toISOString()
+})
+
+describe('navigationConflictStrategies', () => {
+  const owner = navigation('owner-1', 'Genesis 1:2')
+  const partner = navigation('user-2', 'Genesis 1:5')
+
+  it('should let the last navigation win', () => {
+    expect(CONFLICT_STRATEGIES['last-writer-wins'].resolve([owner, partner], { leaderId: 'owner-1' }))
+      .toEqual({ type: 'resolved', winner: partner })
+  })
+
+  it('should let the leader win even when they navigated first', () => {
+    expect(CONFLICT_STRATEGIES['leader-wins'].resolve([owner, partner], { leaderId: 'owner-1' }))
+      .toEqual({ type: 'resolved', winner: owner })
+  })
+
+  it('should fall back to the last navigation when the leader is not in the conflict', () => {
+    expect(CONFLICT_STRATEGIES['leader-wins'].resolve([owner, partner], { leaderId: 'user-3' }))
+      .toEqual({ type: 'resolved', winner: partner })
+  })
+
+  it('should put disagreements between partners to a vote', () => {
+    expect(CONFLICT_STRATEGIES.vote.resolve([owner, partner], { leaderId: 'owner-1' }))
+      .toEqual({ type: 'vote' })
+  })
+
+  it('should not hold a vote when one person pages quickly', () => {
+    const next = navigation('owner-1', 'Genesis 1:3')
+
+    expect(CONFLICT_STRATEGIES.vote.resolve([owner, next], { leaderId: 'owner-1' }))
+      .toEqual({ type: 'resolved', winner: next })
+  })
+
+  it('should treat unknown strategies as last-writer-wins', () => {
+    expect(getConflictStrategy('coin-flip')).toBe(CONFLICT_STRATEGIES['last-writer-wins'])
+    expect(getConflictStrategy(null)).toBe(CONFLICT_STRATEGIES['last-writer-wins'])
+  })
+})
\ No newline at end of file
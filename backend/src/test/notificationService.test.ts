@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NotificationService } from '../services/notificationService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    session: {
+      findUnique: vi.fn()
+    },
+    notification: {
+      create: vi.fn(),
+      update: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      deleteMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    isAvailable: vi.fn(),
+    sendNotificationEmail: vi.fn()
+  }
+}))
+
+vi.mock('node-cron', () => ({
+  default: {
+    schedule: vi.fn(() => ({
+      start: vi.fn(),
+      stop: vi.fn(),
+      destroy: vi.fn()
+    }))
+  }
+}))
+
+import { prisma } from '../utils/database'
+import { emailService } from '../services/emailService'
+import cron from 'node-cron'
+
+describe('NotificationService', () => {
+  let notificationService: NotificationService
+  let mockWebSocketService: { broadcastToUser: ReturnType<typeof vi.fn> }
+
+  const user = { id: 'user-1', email: 'user@example.com', name: 'Test User' }
+
+  const makeNotification = (overrides: Record<string, any> = {}) => ({
+    id: 'notification-1',
+    type: 'session_reminder',
+    message: 'Your Havruta session "Genesis" starts in 15 minutes',
+    metadata: null,
+    scheduledFor: new Date(Date.now() + 60 * 60 * 1000),
+    sentAt: null,
+    readAt: null,
+    createdAt: new Date(),
+    userId: 'user-1',
+    sessionId: 'session-1',
+    ...overrides
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockWebSocketService = {
+      broadcastToUser: vi.fn()
+    }
+
+    notificationService = new NotificationService()
+    notificationService.setWebSocketService(mockWebSocketService)
+
+    vi.mocked(emailService.isAvailable).mockReturnValue(true)
+    vi.mocked(prisma.notification.create).mockImplementation(async ({ data }: any) => makeNotification(data) as any)
+    vi.mocked(prisma.notification.update).mockImplementation(async ({ where, data }: any) => ({
+      ...makeNotification({ id: where.id }),
+      ...data,
+      user
+    }) as any)
+  })
+
+  describe('scheduleSessionNotifications', () => {
+    it('should store a reminder and a start notification for each participant', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue({
+        id: 'session-1',
+        startTime: new Date(Date.now() + 2 * 60 * 60 * 1000),
+        havruta: { name: 'Genesis' },
+        participants: [{ user }, { user: { ...user, id: 'user-2' } }]
+      } as any)
+
+      await notificationService.scheduleSessionNotifications('session-1')
+
+      expect(prisma.notification.create).toHaveBeenCalledTimes(4)
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'session_reminder',
+          userId: 'user-2',
+          sessionId: 'session-1'
+        })
+      })
+      expect(cron.schedule).toHaveBeenCalledTimes(4)
+    })
+  })
+
+  describe('restorePendingNotifications', () => {
+    it('should reschedule future notifications and deliver recently missed ones', async () => {
+      vi.mocked(prisma.notification.findMany).mockResolvedValue([
+        makeNotification({ id: 'missed', scheduledFor: new Date(Date.now() - 5 * 60 * 1000) }),
+        makeNotification({ id: 'upcoming' })
+      ] as any)
+
+      await notificationService.restorePendingNotifications()
+
+      expect(cron.schedule).toHaveBeenCalledTimes(1)
+      expect(mockWebSocketService.broadcastToUser).toHaveBeenCalledWith(
+        'user-1',
+        'notification',
+        expect.objectContaining({ id: 'missed' })
+      )
+      expect(emailService.sendNotificationEmail).toHaveBeenCalledWith('user@example.com', expect.objectContaining({
+        message: 'Your Havruta session "Genesis" starts in 15 minutes'
+      }))
+    })
+
+    it('should not send reminders that are long overdue', async () => {
+      vi.mocked(prisma.notification.findMany).mockResolvedValue([
+        makeNotification({ id: 'stale', scheduledFor: new Date(Date.now() - 24 * 60 * 60 * 1000) })
+      ] as any)
+
+      await notificationService.restorePendingNotifications()
+
+      expect(prisma.notification.update).toHaveBeenCalledWith({
+        where: { id: 'stale' },
+        data: { sentAt: expect.any(Date) }
+      })
+      expect(mockWebSocketService.broadcastToUser).not.toHaveBeenCalled()
+      expect(emailService.sendNotificationEmail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cleanupExpiredJobs', () => {
+    it('should keep jobs for reminders that are still pending', async () => {
+      const reminder = makeNotification({ id: 'later', scheduledFor: new Date(Date.now() + 2 * 60 * 60 * 1000) })
+      vi.mocked(prisma.notification.findMany).mockResolvedValue([reminder] as any)
+      await notificationService.restorePendingNotifications()
+      const task = vi.mocked(cron.schedule).mock.results[0].value
+
+      vi.mocked(prisma.notification.findMany).mockResolvedValue([
+        { id: 'later', sentAt: null, scheduledFor: reminder.scheduledFor }
+      ] as any)
+      await notificationService.cleanupExpiredJobs()
+
+      expect(task.destroy).not.toHaveBeenCalled()
+      expect((notificationService as any).scheduledJobs.has('later')).toBe(true)
+    })
+
+    it('should drop jobs whose notification was already sent', async () => {
+      vi.mocked(prisma.notification.findMany).mockResolvedValue([makeNotification({ id: 'sent' })] as any)
+      await notificationService.restorePendingNotifications()
+      const task = vi.mocked(cron.schedule).mock.results[0].value
+
+      vi.mocked(prisma.notification.findMany).mockResolvedValue([
+        { id: 'sent', sentAt: new Date(), scheduledFor: new Date() }
+      ] as any)
+      await notificationService.cleanupExpiredJobs()
+
+      expect(task.destroy).toHaveBeenCalled()
+      expect((notificationService as any).scheduledJobs.has('sent')).toBe(false)
+    })
+  })
+
+  describe('cancelSessionNotifications', () => {
+    it('should remove pending notifications for the session', async () => {
+      vi.mocked(prisma.notification.findMany).mockResolvedValue([{ id: 'notification-1' }] as any)
+
+      await notificationService.cancelSessionNotifications('session-1')
+
+      expect(prisma.notification.deleteMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', sentAt: null }
+      })
+    })
+  })
+
+  describe('markNotificationAsRead', () => {
+    it('should mark the user\'s notification as read', async () => {
+      vi.mocked(prisma.notification.findUnique).mockResolvedValue(makeNotification() as any)
+
+      await notificationService.markNotificationAsRead('notification-1', 'user-1')
+
+      expect(prisma.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification-1' },
+        data: { readAt: expect.any(Date) }
+      })
+    })
+
+    it('should not allow other users to mark it as read', async () => {
+      vi.mocked(prisma.notification.findUnique).mockResolvedValue(makeNotification() as any)
+
+      await expect(notificationService.markNotificationAsRead('notification-1', 'user-2'))
+        .rejects.toThrow('Access denied')
+
+      expect(prisma.notification.update).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PermissionService, roleHasPermission } from '../services/permissionService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    havruta: {
+      update: vi.fn()
+    },
+    havrutaParticipant: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}))
+
+import { prisma } from '../utils/database'
+
+describe('PermissionService', () => {
+  let permissionService: PermissionService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    permissionService = new PermissionService()
+  })
+
+  describe('roleHasPermission', () => {
+    it('should let co-hosts end sessions and manage invite links', () => {
+      expect(roleHasPermission('co-host', 'endSession')).toBe(true)
+      expect(roleHasPermission('co-host', 'manageInviteLinks')).toBe(true)
+    })
+
+    it('should let co-hosts schedule, edit the study plan and approve join requests', () => {
+      expect(roleHasPermission('co-host', 'schedule')).toBe(true)
+      expect(roleHasPermission('co-host', 'manageStudyPlan')).toBe(true)
+      expect(roleHasPermission('co-host', 'approveJoinRequests')).toBe(true)
+      expect(roleHasPermission('participant', 'schedule')).toBe(false)
+      expect(roleHasPermission('participant', 'approveJoinRequests')).toBe(false)
+    })
+
+    it('should keep role changes and deletion with the owner', () => {
+      expect(roleHasPermission('owner', 'manageRoles')).toBe(true)
+      expect(roleHasPermission('co-host', 'manageRoles')).toBe(false)
+      expect(roleHasPermission('co-host', 'deleteHavruta')).toBe(false)
+    })
+
+    it('should not let observers navigate or invite', () => {
+      expect(roleHasPermission('observer', 'navigate')).toBe(false)
+      expect(roleHasPermission('observer', 'invite')).toBe(false)
+      expect(roleHasPermission('participant', 'navigate')).toBe(true)
+    })
+
+    it('should deny everything to non-participants', () => {
+      expect(roleHasPermission(null, 'navigate')).toBe(false)
+    })
+  })
+
+  describe('hasPermission', () => {
+    it('should look up the user\'s role in the Havruta', async () => {
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue({ role: 'co-host' } as any)
+
+      expect(await permissionService.hasPermission('havruta-1', 'user-2', 'endSession')).toBe(true)
+      expect(prisma.havrutaParticipant.findUnique).toHaveBeenCalledWith({
+        where: { userId_havrutaId: { userId: 'user-2', havrutaId: 'havruta-1' } },
+        select: { role: true }
+      })
+    })
+
+    it('should return false for non-participants', async () => {
+      vi.mocked(prisma.havrutaParticipant.findUnique).mockResolvedValue(null)
+
+      expect(await permissionService.hasPermission('havruta-1', 'user-2', 'navigate')).toBe(false)
+    })
+  })
+
+  describe('getSuccessor', () => {
+    it('should prefer a co-host over earlier participants', async () => {
+      vi.mocked(prisma.havrutaParticipant.findMany).mockResolvedValue([
+        { userId: 'user-2', role: 'observer' },
+        { userId: 'user-3', role: 'participant' },
+        { userId: 'user-4', role: 'co-host' }
+      ] as any)
+
+      expect(await permissionService.getSuccessor('havruta-1', 'user-1')).toBe('user-4')
+      expect(prisma.havrutaParticipant.findMany).toHaveBeenCalledWith({
+        where: { havrutaId: 'havruta-1', userId: { not: 'user-1' } },
+        orderBy: { joinedAt: 'asc' }
+      })
+    })
+
+    it('should fall back to the earliest participant, then observers', async () => {
+      vi.mocked(prisma.havrutaParticipant.findMany).mockResolvedValue([
+        { userId: 'user-2', role: 'observer' },
+        { userId: 'user-3', role: 'participant' },
+        { userId: 'user-4', role: 'participant' }
+      ] as any)
+
+      expect(await permissionService.getSuccessor('havruta-1', 'user-1')).toBe('user-3')
+    })
+
+    it('should only consider the given candidates', async () => {
+      vi.mocked(prisma.havrutaParticipant.findMany).mockResolvedValue([])
+
+      expect(await permissionService.getSuccessor('havruta-1', 'user-1', ['user-1', 'user-2'])).toBeNull()
+      expect(prisma.havrutaParticipant.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { havrutaId: 'havruta-1', userId: { in: ['user-2'] } }
+      }))
+    })
+  })
+
+  describe('transferOwnership', () => {
+    it('should move ownership and keep the previous owner as a co-host', async () => {
+      await permissionService.transferOwnership('havruta-1', 'user-1', 'user-2')
+
+      expect(prisma.havruta.update).toHaveBeenCalledWith({
+        where: { id: 'havruta-1' },
+        data: { ownerId: 'user-2' }
+      })
+      expect(prisma.havrutaParticipant.updateMany).toHaveBeenCalledWith({
+        where: { havrutaId: 'havruta-1', userId: 'user-1' },
+        data: { role: 'co-host' }
+      })
+      expect(prisma.havrutaParticipant.update).toHaveBeenCalledWith({
+        where: { userId_havrutaId: { userId: 'user-2', havrutaId: 'havruta-1' } },
+        data: { role: 'owner' }
+      })
+    })
+  })
+})
\ No newline at end of file
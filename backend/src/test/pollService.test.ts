@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PollService } from '../services/pollService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    havruta: {
+      findUnique: vi.fn()
+    },
+    user: {
+      findUnique: vi.fn()
+    },
+    schedulingPoll: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn()
+    },
+    pollResponse: {
+      upsert: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+vi.mock('../services/schedulingService', () => ({
+  schedulingService: {
+    createRecurrencePattern: vi.fn(),
+    generateRecurringSessions: vi.fn(),
+    scheduleReminders: vi.fn()
+  }
+}))
+
+vi.mock('../services/permissionService', () => ({
+  permissionService: {
+    hasPermission: vi.fn()
+  }
+}))
+
+import { prisma } from '../utils/database'
+import { schedulingService } from '../services/schedulingService'
+import { permissionService } from '../services/permissionService'
+
+describe('PollService', () => {
+  let pollService: PollService
+
+  const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+
+  const makeSlot = (id: string, startTime: Date, availabilities: string[] = []) => ({
+    id,
+    startTime,
+    pollId: 'poll-1',
+    responses: availabilities.map((availability, index) => ({
+      id: `${id}-response-${index}`,
+      availability,
+      userId: `user-${index + 1}`,
+      user: { id: `user-${index + 1}`, name: `User ${index + 1}` }
+    }))
+  })
+
+  const makePoll = (overrides: Record<string, any> = {}) => ({
+    id: 'poll-1',
+    title: '',
+    status: 'open',
+    timeZone: 'America/New_York',
+    havrutaId: 'havruta-1',
+    createdById: 'user-1',
+    havruta: {
+      id: 'havruta-1',
+      name: 'Morning Gemara',
+      ownerId: 'user-1',
+      participants: [
+        { user: { id: 'user-1', name: 'User 1' } },
+        { user: { id: 'user-2', name: 'User 2' } }
+      ]
+    },
+    slots: [],
+    ...overrides
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    pollService = new PollService()
+    vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => callback(prisma))
+    vi.mocked(permissionService.hasPermission).mockResolvedValue(true)
+    vi.mocked(prisma.schedulingPoll.updateMany).mockResolvedValue({ count: 1 })
+  })
+
+  describe('createPoll', () => {
+    it('should create a poll in the owner\'s time zone', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1' } as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ timeZone: 'Asia/Jerusalem' } as any)
+      vi.mocked(prisma.schedulingPoll.create).mockResolvedValue(makePoll() as any)
+
+      const slot = inDays(2)
+      await pollService.createPoll({
+        havrutaId: 'havruta-1',
+        userId: 'user-1',
+        slots: [slot, new Date(slot)]
+      })
+
+      expect(prisma.schedulingPoll.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          title: '',
+          timeZone: 'Asia/Jerusalem',
+          havrutaId: 'havruta-1',
+          createdById: 'user-1',
+          slots: { create: [{ startTime: slot }] }
+        }
+      }))
+    })
+
+    it('should only let the owner or a co-host create polls', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1' } as any)
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(false)
+
+      await expect(pollService.createPoll({ havrutaId: 'havruta-1', userId: 'user-2', slots: [inDays(1)] }))
+        .rejects.toThrow('Only the owner or a co-host can create polls')
+      expect(permissionService.hasPermission).toHaveBeenCalledWith('havruta-1', 'user-2', 'schedule')
+    })
+
+    it('should reject slots in the past', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1' } as any)
+
+      await expect(pollService.createPoll({ havrutaId: 'havruta-1', userId: 'user-1', slots: [inDays(-1)] }))
+        .rejects.toThrow('Time slots must be in the future')
+    })
+  })
+
+  describe('respondToPoll', () => {
+    it('should save each slot\'s availability', async () => {
+      vi.mocked(prisma.schedulingPoll.findUnique).mockResolvedValue(makePoll({
+        slots: [makeSlot('slot-1', inDays(1)), makeSlot('slot-2', inDays(2))]
+      }) as any)
+
+      await pollService.respondToPoll('poll-1', 'user-2', [
+        { slotId: 'slot-1', availability: 'yes' },
+        { slotId: 'slot-2', availability: 'no' }
+      ])
+
+      expect(prisma.pollResponse.upsert).toHaveBeenCalledTimes(2)
+      expect(prisma.pollResponse.upsert).toHaveBeenCalledWith({
+        where: { slotId_userId: { slotId: 'slot-1', userId: 'user-2' } },
+        create: { slotId: 'slot-1', userId: 'user-2', availability: 'yes' },
+        update: { availability: 'yes' }
+      })
+    })
+
+    it('should reject people outside the Havruta', async () => {
+      vi.mocked(prisma.schedulingPoll.findUnique).mockResolvedValue(makePoll() as any)
+
+      await expect(pollService.respondToPoll('poll-1', 'user-3', [{ slotId: 'slot-1', availability: 'yes' }]))
+        .rejects.toThrow('User is not a participant in this Havruta')
+    })
+
+    it('should reject responses to closed polls', async () => {
+      vi.mocked(prisma.schedulingPoll.findUnique).mockResolvedValue(makePoll({
+        status: 'closed',
+        slots: [makeSlot('slot-1', inDays(1))]
+      }) as any)
+
+      await expect(pollService.respondToPoll('poll-1', 'user-2', [{ slotId: 'slot-1', availability: 'yes' }]))
+        .rejects.toThrow('Poll is closed')
+    })
+  })
+
+  describe('getWinningSlot', () => {
+    it('should prefer the most "yes" answers, then "maybe", then the earliest slot', () => {
+      const slots = [
+        makeSlot('early', inDays(1), ['yes', 'no']),
+        makeSlot('maybe', inDays(2), ['yes', 'maybe']),
+        makeSlot('late', inDays(3), ['yes', 'maybe'])
+      ]
+
+      expect(pollService.getWinningSlot(slots)?.id).toBe('maybe')
+    })
+
+    it('should ignore slots that have passed', () => {
+      const slots = [
+        makeSlot('past', inDays(-1), ['yes', 'yes']),
+        makeSlot('future', inDays(1), ['no'])
+      ]
+
+      expect(pollService.getWinningSlot(slots)?.id).toBe('future')
+    })
+  })
+
+  describe('convertPoll', () => {
+    it('should schedule the winning slot once and close the poll', async () => {
+      const winner = makeSlot('slot-2', inDays(2), ['yes', 'yes'])
+      vi.mocked(prisma.schedulingPoll.findUnique).mockResolvedValue(makePoll({
+        slots: [makeSlot('slot-1', inDays(1), ['yes', 'no']), winner]
+      }) as any)
+      vi.mocked(schedulingService.createRecurrencePattern).mockResolvedValue({ id: 'pattern-1' } as any)
+      vi.mocked(schedulingService.generateRecurringSessions).mockResolvedValue([{ id: 'session-1' }] as any)
+      vi.mocked(prisma.schedulingPoll.update).mockResolvedValue(makePoll({ status: 'closed' }) as any)
+
+      const result = await pollService.convertPoll('poll-1', 'user-1')
+
+      expect(prisma.schedulingPoll.updateMany).toHaveBeenCalledWith({
+        where: { id: 'poll-1', status: 'open' },
+        data: { status: 'closed', closedAt: expect.any(Date), chosenSlotId: 'slot-2' }
+      })
+      expect(schedulingService.createRecurrencePattern).toHaveBeenCalledWith({
+        interval: 1,
+        frequency: 'once',
+        daysOfWeek: [],
+        timeZone: 'America/New_York'
+      }, prisma)
+      expect(schedulingService.generateRecurringSessions).toHaveBeenCalledWith({
+        havrutaId: 'havruta-1',
+        startTime: winner.startTime,
+        recurrencePatternId: 'pattern-1'
+      }, 1, prisma)
+      expect(prisma.schedulingPoll.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { recurrencePatternId: 'pattern-1' }
+      }))
+      expect(schedulingService.scheduleReminders).toHaveBeenCalledWith([{ id: 'session-1' }])
+      expect(result.recurrencePatternId).toBe('pattern-1')
+    })
+
+    it('should repeat weekly on the chosen slot\'s weekday in the poll\'s zone', async () => {
+      // Sunday 9pm in New York is Monday in UTC
+      const slot = makeSlot('slot-1', new Date('2099-01-05T02:00:00Z'))
+      vi.mocked(prisma.schedulingPoll.findUnique).mockResolvedValue(makePoll({ slots: [slot] }) as any)
+      vi.mocked(schedulingService.createRecurrencePattern).mockResolvedValue({ id: 'pattern-1' } as any)
+      vi.mocked(schedulingService.generateRecurringSessions).mockResolvedValue([])
+      vi.mocked(prisma.schedulingPoll.update).mockResolvedValue(makePoll({ status: 'closed' }) as any)
+
+      await pollService.convertPoll('poll-1', 'user-1', {
+        slotId: 'slot-1',
+        recurrencePattern: { frequency: 'weekly' }
+      })
+
+      expect(schedulingService.createRecurrencePattern).toHaveBeenCalledWith(expect.objectContaining({
+        frequency: 'weekly',
+        daysOfWeek: [0],
+        timeZone: 'America/New_York'
+      }), prisma)
+      expect(schedulingService.generateRecurringSessions).toHaveBeenCalledWith(expect.anything(), undefined, prisma)
+    })
+
+    it('should not schedule a poll twice when two conversions race', async () => {
+      vi.mocked(prisma.schedulingPoll.findUnique).mockResolvedValue(makePoll({
+        slots: [makeSlot('slot-1', inDays(1))]
+      }) as any)
+      vi.mocked(prisma.schedulingPoll.updateMany).mockResolvedValue({ count: 0 })
+
+      await expect(pollService.convertPoll('poll-1', 'user-1')).rejects.toThrow('Poll is closed')
+      expect(schedulingService.createRecurrencePattern).not.toHaveBeenCalled()
+      expect(schedulingService.scheduleReminders).not.toHaveBeenCalled()
+    })
+
+    it('should only let the owner or a co-host schedule from a poll', async () => {
+      vi.mocked(prisma.schedulingPoll.findUnique).mockResolvedValue(makePoll({
+        slots: [makeSlot('slot-1', inDays(1))]
+      }) as any)
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(false)
+
+      await expect(pollService.convertPoll('poll-1', 'user-2'))
+        .rejects.toThrow('Only the owner or a co-host can schedule from a poll')
+      expect(permissionService.hasPermission).toHaveBeenCalledWith('havruta-1', 'user-2', 'schedule')
+      expect(schedulingService.createRecurrencePattern).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ProgressService } from '../services/progressService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    havruta: {
+      findUnique: vi.fn()
+    },
+    session: {
+      findUnique: vi.fn()
+    },
+    progress: {
+      findUnique: vi.fn(),
+      upsert: vi.fn()
+    }
+  }
+}))
+
+vi.mock('../services/sefariaService', () => ({
+  sefariaService: {
+    getTextStructure: vi.fn()
+  }
+}))
+
+import { prisma } from '../utils/database'
+import { sefariaService } from '../services/sefariaService'
+
+describe('ProgressService', () => {
+  let progressService: ProgressService
+
+  // 4 chapters averaging 10 verses each
+  const bookStructure = {
+    title: 'Jonah',
+    sectionNames: ['Chapter', 'Verse'],
+    addressTypes: ['Perek', 'Pasuk'],
+    schema: { addressTypes: ['Perek', 'Pasuk'], lengths: [4, 40] }
+  } as any
+
+  const talmudStructure = {
+    title: 'Berakhot',
+    sectionNames: ['Daf', 'Line'],
+    addressTypes: ['Talmud', 'Integer'],
+    schema: { addressTypes: ['Talmud', 'Integer'], lengths: [8, 60] }
+  } as any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    progressService = new ProgressService()
+    vi.mocked(sefariaService.getTextStructure).mockResolvedValue(bookStructure)
+  })
+
+  describe('calculateCoverage', () => {
+    it('should count whole chapters and chapter ranges as complete', () => {
+      expect(progressService.calculateCoverage(['Jonah 1', 'Jonah 3-4'], 'Jonah', bookStructure))
+        .toEqual([1, 0, 1, 1])
+    })
+
+    it('should estimate partial chapters from the verses read', () => {
+      expect(progressService.calculateCoverage(['Jonah 2:1', 'Jonah 2:2-5', 'Jonah 2:5'], 'Jonah', bookStructure))
+        .toEqual([0, 0.5, 0, 0])
+    })
+
+    it('should ignore refs from other books', () => {
+      expect(progressService.calculateCoverage(['Genesis 1', 'Jonah 9'], 'Jonah', bookStructure))
+        .toEqual([0, 0, 0, 0])
+    })
+
+    it('should measure Talmud tractates by amud from 2a', () => {
+      expect(progressService.getSectionRefs('Berakhot', talmudStructure))
+        .toEqual(['Berakhot 2a', 'Berakhot 2b', 'Berakhot 3a', 'Berakhot 3b', 'Berakhot 4a', 'Berakhot 4b'])
+      expect(progressService.calculateCoverage(['Berakhot 2a', 'Berakhot 2b'], 'Berakhot', talmudStructure))
+        .toEqual([1, 1, 0, 0, 0, 0])
+    })
+  })
+
+  describe('getProgressSummary', () => {
+    it('should summarize coverage for each participant and the Havruta', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({
+        id: 'havruta-1',
+        bookTitle: 'Jonah',
+        participants: [
+          { userId: 'user-1', user: { id: 'user-1', name: 'First' } },
+          { userId: 'user-2', user: { id: 'user-2', name: 'Second' } }
+        ],
+        progress: [
+          { userId: 'user-1', sectionsCompleted: ['Jonah 1', 'Jonah 2'], lastSection: 'Jonah 2', totalTimeStudied: 45 },
+          { userId: 'user-2', sectionsCompleted: ['Jonah 1'], lastSection: 'Jonah 1', totalTimeStudied: 20 }
+        ]
+      } as any)
+
+      const summary = await progressService.getProgressSummary('havruta-1', 'user-2')
+
+      expect(summary.percentComplete).toBe(50)
+      expect(summary.sectionName).toBe('Chapter')
+      expect(summary.sections.map(s => s.ref)).toEqual(['Jonah 1', 'Jonah 2', 'Jonah 3', 'Jonah 4'])
+      expect(summary.participants.map(p => p.percentComplete)).toEqual([50, 25])
+    })
+
+    it('should reject users outside the Havruta', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({
+        id: 'havruta-1',
+        bookTitle: 'Jonah',
+        participants: [{ userId: 'user-1', user: { id: 'user-1', name: 'First' } }],
+        progress: []
+      } as any)
+
+      await expect(progressService.getProgressSummary('havruta-1', 'outsider'))
+        .rejects.toThrow('User is not a participant in this Havruta')
+    })
+  })
+
+  describe('recordSessionCoverage', () => {
+    it('should credit each participant with the chapters the session covered', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue({
+        id: 'session-1',
+        havrutaId: 'havruta-1',
+        startingSection: 'Jonah 1:1',
+        endingSection: 'Jonah 2:4',
+        havruta: { bookTitle: 'Jonah' },
+        participants: [{ userId: 'user-1' }]
+      } as any)
+      vi.mocked(prisma.progress.findUnique).mockResolvedValue({ sectionsCompleted: ['Jonah 1'] } as any)
+
+      await progressService.recordSessionCoverage('session-1')
+
+      expect(prisma.progress.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: {
+          sectionsCompleted: { set: ['Jonah 1', 'Jonah 2:1-4'] },
+          lastSection: 'Jonah 2:4'
+        }
+      }))
+    })
+  })
+})
\ No newline at end of file
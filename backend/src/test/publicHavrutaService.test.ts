@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PublicHavrutaService } from '../services/publicHavrutaService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn()
+    },
+    session: {
+      findMany: vi.fn()
+    },
+    havruta: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn()
+    },
+    joinRequest: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+vi.mock('../services/havrutaService', () => ({
+  havrutaService: {
+    joinHavruta: vi.fn()
+  },
+  MAX_PARTICIPANTS: 15
+}))
+
+vi.mock('../services/permissionService', () => ({
+  permissionService: {
+    hasPermission: vi.fn()
+  },
+  HAVRUTA_PERMISSIONS: {
+    approveJoinRequests: ['owner', 'co-host']
+  }
+}))
+
+import { prisma } from '../utils/database'
+import { havrutaService } from '../services/havrutaService'
+import { permissionService } from '../services/permissionService'
+
+describe('PublicHavrutaService', () => {
+  let publicHavrutaService: PublicHavrutaService
+
+  const makeCatalogHavruta = (overrides: Record<string, any> = {}) => ({
+    id: 'havruta-1',
+    name: 'Morning Berakhot',
+    bookId: 'Berakhot',
+    bookTitle: 'Berakhot',
+    description: 'Slow and steady',
+    lastPlace: 'Berakhot 2a',
+    visibility: 'public',
+    isActive: true,
+    owner: { id: 'owner-1', name: 'Owner', profilePicture: null },
+    participants: [],
+    joinRequests: [],
+    // Monday and Wednesday mornings in UTC
+    sessions: [
+      { startTime: new Date('2030-01-07T08:00:00Z') },
+      { startTime: new Date('2030-01-09T08:00:00Z') }
+    ],
+    _count: { participants: 2 },
+    ...overrides
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    publicHavrutaService = new PublicHavrutaService()
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ timeZone: 'UTC' } as any)
+  })
+
+  describe('getPublicHavrutot', () => {
+    it('should only list active public Havrutot for the requested book', async () => {
+      vi.mocked(prisma.havruta.count).mockResolvedValue(1)
+      vi.mocked(prisma.havruta.findMany).mockResolvedValue([makeCatalogHavruta()] as any)
+
+      const result = await publicHavrutaService.getPublicHavrutot('user-1', { book: 'Berakhot' })
+
+      expect(prisma.havruta.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          visibility: 'public',
+          isActive: true,
+          bookTitle: { equals: 'Berakhot', mode: 'insensitive' }
+        }
+      }))
+      expect(result.havrutot[0]).toEqual(expect.objectContaining({
+        participantCount: 2,
+        nextSessionAt: new Date('2030-01-07T08:00:00Z'),
+        sessionDays: [1, 3],
+        isParticipant: false,
+        joinRequestStatus: null
+      }))
+      expect(result.pagination).toEqual({ page: 1, limit: 20, total: 1, totalPages: 1 })
+    })
+
+    it('should match meeting days in the viewer\'s time zone', async () => {
+      // Monday 7am in UTC is still Sunday night in Los Angeles
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ timeZone: 'America/Los_Angeles' } as any)
+      vi.mocked(prisma.session.findMany).mockResolvedValue([
+        { havrutaId: 'havruta-1', startTime: new Date('2030-01-07T07:00:00Z') },
+        { havrutaId: 'havruta-2', startTime: new Date('2030-01-07T20:00:00Z') }
+      ] as any)
+      vi.mocked(prisma.havruta.count).mockResolvedValue(0)
+      vi.mocked(prisma.havruta.findMany).mockResolvedValue([])
+
+      await publicHavrutaService.getPublicHavrutot('user-1', { day: '0' })
+
+      expect(prisma.havruta.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: { in: ['havruta-1'] } })
+      }))
+    })
+
+    it('should reject an invalid day', async () => {
+      await expect(publicHavrutaService.getPublicHavrutot('user-1', { day: '7' }))
+        .rejects.toThrow('Validation error')
+    })
+  })
+
+  describe('getHavrutaPreview', () => {
+    it('should hide private Havrutot from non-participants', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue(makeCatalogHavruta({ visibility: 'private' }) as any)
+
+      await expect(publicHavrutaService.getHavrutaPreview('havruta-1', 'user-1'))
+        .rejects.toThrow('Havruta not found')
+    })
+
+    it('should show link-only Havrutot to anyone with the link', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue(makeCatalogHavruta({ visibility: 'link-only' }) as any)
+
+      const preview = await publicHavrutaService.getHavrutaPreview('havruta-1', 'user-1')
+
+      expect(preview.visibility).toBe('link-only')
+    })
+  })
+
+  describe('requestToJoin', () => {
+    const havruta = {
+      id: 'havruta-1',
+      visibility: 'public',
+      isActive: true,
+      participants: [],
+      _count: { participants: 2 }
+    }
+
+    it('should create a pending request', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue(havruta as any)
+      vi.mocked(prisma.joinRequest.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.joinRequest.create).mockResolvedValue({ id: 'request-1' } as any)
+
+      await publicHavrutaService.requestToJoin('user-1', 'havruta-1', { message: ' Hi! ' })
+
+      expect(prisma.joinRequest.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', havrutaId: 'havruta-1', message: 'Hi!' }
+      })
+    })
+
+    it('should not accept requests for private Havrutot', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ...havruta, visibility: 'private' } as any)
+
+      await expect(publicHavrutaService.requestToJoin('user-1', 'havruta-1'))
+        .rejects.toThrow('Havruta not found')
+    })
+
+    it('should not send a second request', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue(havruta as any)
+      vi.mocked(prisma.joinRequest.findUnique).mockResolvedValue({ id: 'request-1', status: 'pending' } as any)
+
+      await expect(publicHavrutaService.requestToJoin('user-1', 'havruta-1'))
+        .rejects.toThrow('Join request already sent')
+    })
+
+    it('should refuse full Havrutot', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ...havruta, _count: { participants: 15 } } as any)
+
+      await expect(publicHavrutaService.requestToJoin('user-1', 'havruta-1'))
+        .rejects.toThrow('Havruta is full (maximum 15 participants)')
+    })
+
+    it('should take requests for a chabura larger than a pair', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ...havruta, _count: { participants: 10 } } as any)
+      vi.mocked(prisma.joinRequest.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.joinRequest.create).mockResolvedValue({ id: 'request-1', status: 'pending' } as any)
+
+      await expect(publicHavrutaService.requestToJoin('user-1', 'havruta-1')).resolves.toBeDefined()
+    })
+  })
+
+  describe('getPendingJoinRequests', () => {
+    it('should include Havrutot where the user is a co-host', async () => {
+      vi.mocked(prisma.joinRequest.findMany).mockResolvedValue([])
+
+      await publicHavrutaService.getPendingJoinRequests('user-2')
+
+      expect(prisma.joinRequest.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          status: 'pending',
+          havruta: {
+            participants: { some: { userId: 'user-2', role: { in: ['owner', 'co-host'] } } }
+          }
+        }
+      }))
+    })
+  })
+
+  describe('respondToJoinRequest', () => {
+    const request = {
+      id: 'request-1',
+      userId: 'user-1',
+      havrutaId: 'havruta-1',
+      status: 'pending'
+    }
+
+    let tx: any
+
+    beforeEach(() => {
+      tx = {
+        joinRequest: {
+          updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+          findUniqueOrThrow: vi.fn()
+        }
+      }
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => callback(tx))
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(true)
+    })
+
+    it('should add the requester when the owner approves', async () => {
+      vi.mocked(prisma.joinRequest.findUnique).mockResolvedValue(request as any)
+      tx.joinRequest.findUniqueOrThrow.mockResolvedValue({ ...request, status: 'approved' })
+
+      const result = await publicHavrutaService.respondToJoinRequest('havruta-1', 'request-1', 'owner-1', true)
+
+      expect(tx.joinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: 'pending' },
+        data: { status: 'approved', respondedAt: expect.any(Date) }
+      })
+      expect(havrutaService.joinHavruta).toHaveBeenCalledWith({ userId: 'user-1', havrutaId: 'havruta-1' }, tx)
+      expect(result.status).toBe('approved')
+    })
+
+    it('should decline without joining', async () => {
+      vi.mocked(prisma.joinRequest.findUnique).mockResolvedValue(request as any)
+
+      await publicHavrutaService.respondToJoinRequest('havruta-1', 'request-1', 'owner-1', false)
+
+      expect(tx.joinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: 'pending' },
+        data: { status: 'declined', respondedAt: expect.any(Date) }
+      })
+      expect(havrutaService.joinHavruta).not.toHaveBeenCalled()
+    })
+
+    it('should only let the owner or a co-host respond', async () => {
+      vi.mocked(prisma.joinRequest.findUnique).mockResolvedValue(request as any)
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(false)
+
+      await expect(publicHavrutaService.respondToJoinRequest('havruta-1', 'request-1', 'user-2', true))
+        .rejects.toThrow('Only the owner or a co-host can respond to join requests')
+      expect(permissionService.hasPermission).toHaveBeenCalledWith('havruta-1', 'user-2', 'approveJoinRequests')
+    })
+
+    it('should not join twice when two approvals arrive together', async () => {
+      vi.mocked(prisma.joinRequest.findUnique).mockResolvedValue(request as any)
+      tx.joinRequest.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(publicHavrutaService.respondToJoinRequest('havruta-1', 'request-1', 'owner-1', true))
+        .rejects.toThrow('Join request has already been answered')
+      expect(havrutaService.joinHavruta).not.toHaveBeenCalled()
+    })
+
+    it('should leave the request pending if joining fails', async () => {
+      vi.mocked(prisma.joinRequest.findUnique).mockResolvedValue(request as any)
+      vi.mocked(havrutaService.joinHavruta).mockRejectedValue(new Error('Havruta is full (maximum 15 participants)'))
+
+      await expect(publicHavrutaService.respondToJoinRequest('havruta-1', 'request-1', 'owner-1', true))
+        .rejects.toThrow('Havruta is full')
+      expect(tx.joinRequest.findUniqueOrThrow).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
@@ -25,6 +25,48 @@ vi.mock('../utils/database', () => ({
   }
 }))
 
+// In-memory stand-in for the Redis-backed sync state, round-tripped through JSON like the real client
+const redisStore = vi.hoisted(() => new Map<string, string>())
+
+vi.mock('../utils/redis', () => ({
+  redisClient: {
+    addNavigationEvent: async (roomId: string, event: any, maxEvents: number = 50) => {
+      const history = JSON.parse(redisStore.get(`room:${roomId}:navigation`) || '[]')
+      history.push(event)
+      redisStore.set(`room:${roomId}:navigation`, JSON.stringify(history.slice(-maxEvents)))
+    },
+    getNavigationHistory: async (roomId: string) => JSON.parse(redisStore.get(`room:${roomId}:navigation`) || '[]'),
+    clearNavigationHistory: async (roomId: string) => {
+      redisStore.delete(`room:${roomId}:navigation`)
+    },
+    getNavigationRooms: async () => [...redisStore.keys()]
+      .filter(key => key.endsWith(':navigation'))
+      .map(key => key.slice('room:'.length, -':navigation'.length)),
+    getActiveRooms: async () => [],
+    setSyncState: async (roomId: string, name: string, state: any) => {
+      redisStore.set(`room:${roomId}:${name}`, JSON.stringify(state))
+    },
+    getSyncState: async (roomId: string, name: string) => JSON.parse(redisStore.get(`room:${roomId}:${name}`) || 'null'),
+    // Retries when the state changed while `update` ran, like a failed WATCH
+    updateSyncState: async (roomId: string, name: string, update: (state: any) => any) => {
+      const key = `room:${roomId}:${name}`
+      for (;;) {
+        const watched = redisStore.get(key)
+        const state = JSON.parse(watched || 'null')
+        const next = await update(state)
+        if (redisStore.get(key) !== watched) continue
+        if (next === undefined) return state
+        if (next === null) redisStore.delete(key)
+        else redisStore.set(key, JSON.stringify(next))
+        return next
+      }
+    },
+    deleteSyncState: async (roomId: string, name: string) => {
+      redisStore.delete(`room:${roomId}:${name}`)
+    }
+  }
+}))
+
 import { authService } from '../services/authService'
 import { prisma } from '../utils/database'
 
@@ -71,6 +113,8 @@ describe('Real-time Synchronization Integration', () => {
   }
 
   beforeEach(() => {
+    redisStore.clear()
+
     // Create HTTP server and Socket.IO instance
     httpServer = createServer()
     io = new SocketIOServer(httpServer)
@@ -131,7 +175,7 @@ describe('Real-time Synchronization Integration', () => {
       })
 
       // Verify navigation history was stored
-      const history = syncService.getNavigationHistory(havrutaId)
+      const history = await syncService.getNavigationHistory(havrutaId)
       expect(history).toHaveLength(1)
       expect(history[0]).toMatchObject({
         havrutaId,
@@ -217,25 +261,25 @@ describe('Real-time Synchronization Integration', () => {
       await Promise.all([navigation1, navigation2])
 
       // Should have navigation history
-      const history = syncService.getNavigationHistory(havrutaId)
+      const history = await syncService.getNavigationHistory(havrutaId)
       expect(history.length).toBeGreaterThan(0)
 
       // Database should be updated (last writer wins)
       expect(prisma.havruta.update).toHaveBeenCalled()
     })
 
-    it('should clean up inactive sessions', () => {
+    it('should clean up inactive sessions', async () => {
       // Add some navigation history
-      syncService.broadcastNavigation('havruta-1', 'Genesis 1:2', mockUser1)
+      await syncService.broadcastNavigation('havruta-1', 'Genesis 1:2', mockUser1)
       
       // Mock empty active rooms
       websocketService.getActiveRooms = vi.fn().mockReturnValue(new Map())
       
       // Clean up
-      syncService.cleanupInactiveSessions()
+      await syncService.cleanupInactiveSessions()
       
       // History should be cleaned
-      const history = syncService.getNavigationHistory('havruta-1')
+      const history = await syncService.getNavigationHistory('havruta-1')
       expect(history).toHaveLength(0)
     })
   })
@@ -281,7 +325,7 @@ describe('Real-time Synchronization Integration', () => {
       await Promise.all(navigationPromises)
 
       // Should have navigation history
-      const history = syncService.getNavigationHistory(havrutaId)
+      const history = await syncService.getNavigationHistory(havrutaId)
       expect(history.length).toBeGreaterThan(0)
       expect(history.length).toBeLessThanOrEqual(10)
     })
@@ -294,7 +338,7 @@ describe('Real-time Synchronization Integration', () => {
         await syncService.broadcastNavigation(havrutaId, `Genesis ${i}:1`, mockUser1)
       }
 
-      const history = syncService.getNavigationHistory(havrutaId)
+      const history = await syncService.getNavigationHistory(havrutaId)
       expect(history.length).toBeLessThanOrEqual(50)
     })
   })
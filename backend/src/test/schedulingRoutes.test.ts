@@ -4,10 +4,14 @@ import express from 'express'
 import schedulingRoutes from '../routes/scheduling'
 import { schedulingService } from '../services/schedulingService'
 import { notificationService } from '../services/notificationService'
+import { calendarService } from '../services/calendarService'
+import { pollService } from '../services/pollService'
 
 // Mock services
 vi.mock('../services/schedulingService')
 vi.mock('../services/notificationService')
+vi.mock('../services/calendarService')
+vi.mock('../services/pollService')
 vi.mock('../middleware/auth', () => ({
   authenticateToken: (req: any, res: any, next: any) => {
     req.user = { id: 'user-123' }
@@ -217,6 +221,61 @@ describe('Scheduling Routes', () => {
     })
   })
 
+  describe('PUT /api/scheduling/sessions/:sessionId/occurrence', () => {
+    it('should move a single occurrence', async () => {
+      const mockSession = { id: 'session-1', startTime: '2030-02-07T18:00:00.000Z' }
+      vi.mocked(schedulingService.updateOccurrence).mockResolvedValue(mockSession as any)
+
+      const response = await request(app)
+        .put('/api/scheduling/sessions/session-1/occurrence')
+        .send({ startTime: '2030-02-07T18:00:00Z' })
+
+      expect(response.status).toBe(200)
+      expect(schedulingService.updateOccurrence).toHaveBeenCalledWith('session-1', 'user-123', {
+        startTime: new Date('2030-02-07T18:00:00Z'),
+        startingSection: undefined,
+        isSkipped: undefined
+      })
+      expect(response.body.session).toEqual(mockSession)
+    })
+
+    it('should require a change', async () => {
+      const response = await request(app)
+        .put('/api/scheduling/sessions/session-1/occurrence')
+        .send({})
+
+      expect(response.status).toBe(400)
+      expect(schedulingService.updateOccurrence).not.toHaveBeenCalled()
+    })
+
+    it('should reject sessions outside a series', async () => {
+      vi.mocked(schedulingService.updateOccurrence).mockRejectedValue(
+        new Error('Session is not part of a recurring series')
+      )
+
+      const response = await request(app)
+        .put('/api/scheduling/sessions/session-1/occurrence')
+        .send({ isSkipped: true })
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('GET /api/scheduling/patterns/:patternId/series', () => {
+    it('should return the series with its exceptions', async () => {
+      vi.mocked(schedulingService.getSeries).mockResolvedValue({
+        pattern: { id: 'pattern-1' },
+        sessions: [{ id: 'session-1', exception: { isSkipped: true } }]
+      } as any)
+
+      const response = await request(app).get('/api/scheduling/patterns/pattern-1/series')
+
+      expect(response.status).toBe(200)
+      expect(schedulingService.getSeries).toHaveBeenCalledWith('pattern-1', 'user-123')
+      expect(response.body.sessions[0].exception.isSkipped).toBe(true)
+    })
+  })
+
   describe('GET /api/scheduling/patterns/:patternId', () => {
     it('should fetch recurrence pattern', async () => {
       const mockPattern = {
@@ -299,7 +358,7 @@ describe('Scheduling Routes', () => {
         }
       ]
 
-      vi.mocked(notificationService.getUserNotifications).mockResolvedValue(mockNotifications)
+      vi.mocked(notificationService.getUserNotifications).mockResolvedValue(mockNotifications as any)
 
       const response = await request(app)
         .get('/api/scheduling/notifications/user-123')
@@ -326,7 +385,210 @@ describe('Scheduling Routes', () => {
 
       expect(response.status).toBe(200)
       expect(response.body.message).toBe('Notification marked as read')
-      expect(notificationService.markNotificationAsRead).toHaveBeenCalledWith('notif-1')
+      expect(notificationService.markNotificationAsRead).toHaveBeenCalledWith('notif-1', 'user-123')
+    })
+
+    it('should not mark another user\'s notification as read', async () => {
+      vi.mocked(notificationService.markNotificationAsRead).mockRejectedValue(new Error('Access denied'))
+
+      const response = await request(app)
+        .put('/api/scheduling/notifications/notif-2/read')
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('POST /api/scheduling/import', () => {
+    it('should import sessions and report unsupported rules', async () => {
+      vi.mocked(schedulingService.importRecurringSessions).mockResolvedValue({
+        sessions: [{ id: 'session-1' }, { id: 'session-2' }] as any,
+        recurrencePatternId: 'pattern-1',
+        unsupported: ['EXDATE (1 date)']
+      })
+
+      const response = await request(app)
+        .post('/api/scheduling/import')
+        .send({
+          havrutaId: 'clp1234567890123456789012',
+          calendar: 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+          startTime: '2024-02-05T18:00:00Z'
+        })
+
+      expect(response.status).toBe(201)
+      expect(response.body.sessions).toHaveLength(2)
+      expect(response.body.unsupported).toEqual(['EXDATE (1 date)'])
+      expect(schedulingService.importRecurringSessions).toHaveBeenCalledWith(
+        'clp1234567890123456789012',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        'user-123',
+        { startTime: new Date('2024-02-05T18:00:00Z'), participantIds: [] }
+      )
+    })
+
+    it('should return 400 for calendars that cannot be read', async () => {
+      vi.mocked(schedulingService.importRecurringSessions).mockRejectedValue(
+        new Error('Unsupported recurrence frequency: HOURLY')
+      )
+
+      const response = await request(app)
+        .post('/api/scheduling/import')
+        .send({
+          havrutaId: 'clp1234567890123456789012',
+          calendar: 'FREQ=HOURLY'
+        })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should only let the owner or a co-host import sessions', async () => {
+      vi.mocked(schedulingService.importRecurringSessions).mockRejectedValue(
+        new Error('Only the owner or a co-host can import sessions')
+      )
+
+      const response = await request(app)
+        .post('/api/scheduling/import')
+        .send({
+          havrutaId: 'clp1234567890123456789012',
+          calendar: 'FREQ=DAILY'
+        })
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('GET /api/scheduling/holidays', () => {
+    it('should return the windows for a location', async () => {
+      const window = {
+        name: 'Shabbat',
+        type: 'shabbat',
+        start: new Date('2025-10-10T21:59:00Z'),
+        end: new Date('2025-10-11T23:17:00Z')
+      }
+      vi.mocked(schedulingService.getHolidayWindows).mockReturnValue([window] as any)
+
+      const response = await request(app)
+        .get('/api/scheduling/holidays')
+        .query({
+          from: '2025-10-06T00:00:00.000Z',
+          to: '2025-10-13T00:00:00.000Z',
+          timeZone: 'America/New_York',
+          latitude: '40.71',
+          longitude: '-74.01',
+          includeFastDays: 'true'
+        })
+
+      expect(response.status).toBe(200)
+      expect(response.body.windows[0].name).toBe('Shabbat')
+      expect(schedulingService.getHolidayWindows).toHaveBeenCalledWith(
+        new Date('2025-10-06T00:00:00.000Z'),
+        new Date('2025-10-13T00:00:00.000Z'),
+        { timeZone: 'America/New_York', latitude: 40.71, longitude: -74.01 },
+        { includeFastDays: true }
+      )
+    })
+
+    it('should reject unknown time zones', async () => {
+      const response = await request(app)
+        .get('/api/scheduling/holidays')
+        .query({ from: '2025-10-06T00:00:00.000Z', to: '2025-10-13T00:00:00.000Z', timeZone: 'Mars/Olympus_Mons' })
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/scheduling/polls', () => {
+    it('should create a poll for the authenticated owner', async () => {
+      vi.mocked(pollService.createPoll).mockResolvedValue({ id: 'poll-1', slots: [] } as any)
+
+      const response = await request(app)
+        .post('/api/scheduling/polls')
+        .send({
+          havrutaId: 'havruta-1',
+          slots: ['2099-01-05T02:00:00.000Z', '2099-01-06T02:00:00.000Z']
+        })
+
+      expect(response.status).toBe(201)
+      expect(response.body.poll.id).toBe('poll-1')
+      expect(pollService.createPoll).toHaveBeenCalledWith(expect.objectContaining({
+        havrutaId: 'havruta-1',
+        userId: 'user-123',
+        slots: ['2099-01-05T02:00:00.000Z', '2099-01-06T02:00:00.000Z']
+      }))
+    })
+
+    it('should return 403 for other participants', async () => {
+      vi.mocked(pollService.createPoll).mockRejectedValue(new Error('Only the owner or a co-host can create polls'))
+
+      const response = await request(app)
+        .post('/api/scheduling/polls')
+        .send({ havrutaId: 'havruta-1', slots: ['2099-01-05T02:00:00.000Z'] })
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('PUT /api/scheduling/polls/:pollId/responses', () => {
+    it('should return 400 once the poll is closed', async () => {
+      vi.mocked(pollService.respondToPoll).mockRejectedValue(new Error('Poll is closed'))
+
+      const response = await request(app)
+        .put('/api/scheduling/polls/poll-1/responses')
+        .send({ responses: [{ slotId: 'slot-1', availability: 'yes' }] })
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/scheduling/polls/:pollId/convert', () => {
+    it('should schedule a recurring series from the poll', async () => {
+      vi.mocked(pollService.convertPoll).mockResolvedValue({
+        poll: { id: 'poll-1', status: 'closed' },
+        sessions: [{ id: 'session-1' }],
+        recurrencePatternId: 'pattern-1'
+      } as any)
+
+      const response = await request(app)
+        .post('/api/scheduling/polls/poll-1/convert')
+        .send({ slotId: 'slot-1', recurrencePattern: { frequency: 'weekly', endDate: '2099-06-01T00:00:00.000Z' } })
+
+      expect(response.status).toBe(201)
+      expect(response.body.recurrencePatternId).toBe('pattern-1')
+      expect(pollService.convertPoll).toHaveBeenCalledWith('poll-1', 'user-123', {
+        slotId: 'slot-1',
+        recurrencePattern: { frequency: 'weekly', interval: 1, endDate: new Date('2099-06-01T00:00:00.000Z') }
+      })
+    })
+
+    it('should reject unknown frequencies', async () => {
+      const response = await request(app)
+        .post('/api/scheduling/polls/poll-1/convert')
+        .send({ recurrencePattern: { frequency: 'hourly' } })
+
+      expect(response.status).toBe(400)
+      expect(pollService.convertPoll).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/scheduling/calendar/:token.ics', () => {
+    it('should serve the calendar feed without authentication', async () => {
+      vi.mocked(calendarService.getCalendarFeed).mockResolvedValue('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n')
+
+      const response = await request(app)
+        .get('/api/scheduling/calendar/abc123.ics')
+
+      expect(response.status).toBe(200)
+      expect(response.headers['content-type']).toContain('text/calendar')
+      expect(response.text).toContain('BEGIN:VCALENDAR')
+      expect(calendarService.getCalendarFeed).toHaveBeenCalledWith('abc123')
+    })
+
+    it('should return 404 for an unknown token', async () => {
+      vi.mocked(calendarService.getCalendarFeed).mockRejectedValue(new Error('Calendar not found'))
+
+      const response = await request(app)
+        .get('/api/scheduling/calendar/unknown.ics')
+
+      expect(response.status).toBe(404)
     })
   })
 })
\ No newline at end of file
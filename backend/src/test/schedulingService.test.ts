@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import schedulingServiceInstance, { SchedulingService } from '../services/schedulingService'
 import { prisma } from '../utils/database'
+import { notificationService } from '../services/notificationService'
 import { RecurrenceFrequency } from '../models/RecurrencePattern'
 
 // Mock prisma
@@ -12,6 +13,21 @@ vi.mock('../utils/database', () => ({
       findUnique: vi.fn(),
       delete: vi.fn()
     },
+    havruta: {
+      findUnique: vi.fn()
+    },
+    havrutaParticipant: {
+      findMany: vi.fn()
+    },
+    sessionParticipant: {
+      create: vi.fn()
+    },
+    recurrenceException: {
+      create: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn()
+    },
     session: {
       create: vi.fn(),
       findMany: vi.fn(),
@@ -35,12 +51,22 @@ vi.mock('../services/notificationService', () => ({
   }
 }))
 
+vi.mock('../services/permissionService', () => ({
+  permissionService: {
+    hasPermission: vi.fn()
+  }
+}))
+
+import { permissionService } from '../services/permissionService'
+import { studyPlanService } from '../services/studyPlanService'
+
 describe('SchedulingService', () => {
   let schedulingService: SchedulingService
   
   beforeEach(() => {
     schedulingService = schedulingServiceInstance
     vi.clearAllMocks()
+    vi.mocked(permissionService.hasPermission).mockResolvedValue(true)
   })
 
   afterEach(() => {
@@ -71,7 +97,12 @@ describe('SchedulingService', () => {
           frequency: 'weekly',
           interval: 1,
           endDate: undefined,
-          daysOfWeek: [1, 3, 5]
+          daysOfWeek: [1, 3, 5],
+          timeZone: 'UTC',
+          holidayPolicy: 'none',
+          avoidFastDays: false,
+          latitude: undefined,
+          longitude: undefined
         }
       })
       expect(result).toEqual(mockPattern)
@@ -399,4 +430,327 @@ describe('SchedulingService', () => {
       ).rejects.toThrow('Session not found')
     })
   })
+
+  describe('occurrence exceptions', () => {
+    const plannedTime = new Date('2030-02-05T18:00:00Z')
+
+    const makeOccurrence = (overrides: Record<string, any> = {}) => ({
+      id: 'session-1',
+      havrutaId: 'havruta-1',
+      status: 'scheduled',
+      startTime: plannedTime,
+      startingSection: 'Berakhot 2a',
+      isRecurring: true,
+      recurrencePatternId: 'pattern-1',
+      exception: null,
+      participants: [{ userId: 'user-1' }],
+      ...overrides
+    })
+
+    it('should move one occurrence and remember when it was planned', async () => {
+      const newTime = new Date('2030-02-06T18:00:00Z')
+      vi.mocked(prisma.session.findUnique).mockResolvedValue(makeOccurrence() as any)
+      vi.mocked(prisma.session.update).mockResolvedValue({ id: 'session-1', startTime: newTime } as any)
+
+      await schedulingService.updateOccurrence('session-1', 'user-1', { startTime: newTime })
+
+      expect(prisma.session.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { startTime: newTime, startingSection: 'Berakhot 2a', status: 'scheduled' }
+      })
+      expect(prisma.recurrenceException.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({
+          recurrencePatternId: 'pattern-1',
+          originalStartTime: plannedTime,
+          originalStartingSection: 'Berakhot 2a',
+          isSkipped: false
+        })
+      }))
+      expect(notificationService.rescheduleSessionNotifications).toHaveBeenCalledWith('session-1')
+    })
+
+    it('should skip an occurrence and drop its reminders', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue(makeOccurrence() as any)
+
+      await schedulingService.updateOccurrence('session-1', 'user-1', { isSkipped: true })
+
+      expect(prisma.session.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'cancelled' })
+      }))
+      expect(notificationService.cancelSessionNotifications).toHaveBeenCalledWith('session-1')
+    })
+
+    it('should drop the exception once an occurrence matches its plan again', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue(makeOccurrence({
+        startingSection: 'Berakhot 3a',
+        exception: { originalStartTime: plannedTime, originalStartingSection: 'Berakhot 2a', isSkipped: false }
+      }) as any)
+
+      await schedulingService.updateOccurrence('session-1', 'user-1', { startingSection: 'Berakhot 2a' })
+
+      expect(prisma.recurrenceException.delete).toHaveBeenCalledWith({ where: { sessionId: 'session-1' } })
+      expect(prisma.recurrenceException.upsert).not.toHaveBeenCalled()
+      expect(notificationService.rescheduleSessionNotifications).not.toHaveBeenCalled()
+    })
+
+    it('should restore a skipped occurrence to its planned time', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue(makeOccurrence({
+        status: 'cancelled',
+        startTime: new Date('2030-02-06T18:00:00Z'),
+        exception: { originalStartTime: plannedTime, originalStartingSection: 'Berakhot 2a', isSkipped: true }
+      }) as any)
+
+      await schedulingService.restoreOccurrence('session-1', 'user-1')
+
+      expect(prisma.session.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { startTime: plannedTime, startingSection: 'Berakhot 2a', status: 'scheduled' }
+      })
+      expect(notificationService.rescheduleSessionNotifications).toHaveBeenCalledWith('session-1')
+    })
+
+    it('should only let participants change an occurrence', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue(makeOccurrence() as any)
+
+      await expect(schedulingService.updateOccurrence('session-1', 'user-2', { isSkipped: true }))
+        .rejects.toThrow('Access denied')
+      expect(prisma.session.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject sessions that are not part of a series', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue(makeOccurrence({ recurrencePatternId: null }) as any)
+
+      await expect(schedulingService.updateOccurrence('session-1', 'user-1', { isSkipped: true }))
+        .rejects.toThrow('Session is not part of a recurring series')
+    })
+  })
+
+  describe('time zones', () => {
+    it('should keep weekly sessions at the same local time across DST', async () => {
+      vi.mocked(prisma.recurrencePattern.findUnique).mockResolvedValue({
+        id: 'pattern-tz',
+        frequency: 'weekly',
+        interval: 1,
+        endDate: null,
+        daysOfWeek: [0], // Sunday
+        timeZone: 'America/New_York',
+        createdAt: new Date()
+      } as any)
+      vi.mocked(prisma.session.create).mockImplementation(async ({ data }: any) => ({ id: 'session', ...data }))
+
+      // Sunday 9pm in New York, the week before DST ends (EDT, UTC-4)
+      const sessions = await schedulingService.generateRecurringSessions({
+        havrutaId: 'havruta-1',
+        startTime: new Date('2024-10-28T01:00:00Z'),
+        recurrencePatternId: 'pattern-tz',
+        participantIds: ['user-1']
+      }, 2)
+
+      expect(sessions.map(s => s.startTime.toISOString())).toEqual([
+        '2024-10-28T01:00:00.000Z',
+        '2024-11-04T02:00:00.000Z' // Still 9pm Sunday, now EST (UTC-5)
+      ])
+    })
+
+    it('should pick weekdays in the pattern\'s time zone, not the server\'s', async () => {
+      vi.mocked(prisma.recurrencePattern.findUnique).mockResolvedValue({
+        id: 'pattern-tz',
+        frequency: 'bi-weekly',
+        interval: 1,
+        endDate: null,
+        daysOfWeek: [1, 4], // Monday and Thursday in Jerusalem
+        timeZone: 'Asia/Jerusalem',
+        createdAt: new Date()
+      } as any)
+      vi.mocked(prisma.session.create).mockImplementation(async ({ data }: any) => ({ id: 'session', ...data }))
+
+      // Monday 1am in Jerusalem is still Sunday in UTC
+      const sessions = await schedulingService.generateRecurringSessions({
+        havrutaId: 'havruta-1',
+        startTime: new Date('2024-01-07T23:00:00Z'),
+        recurrencePatternId: 'pattern-tz',
+        participantIds: ['user-1']
+      }, 3)
+
+      expect(sessions.map(s => s.startTime.toISOString())).toEqual([
+        '2024-01-07T23:00:00.000Z', // Mon Jan 8
+        '2024-01-10T23:00:00.000Z', // Thu Jan 11
+        '2024-01-21T23:00:00.000Z' // Mon Jan 22, skipping the off week
+      ])
+    })
+  })
+
+  describe('holiday policies', () => {
+    const mockHolidayPattern = (overrides: Record<string, any>) => {
+      vi.mocked(prisma.recurrencePattern.findUnique).mockResolvedValue({
+        id: 'pattern-holiday',
+        frequency: 'weekly',
+        interval: 1,
+        endDate: null,
+        timeZone: 'America/New_York',
+        latitude: 40.71,
+        longitude: -74.01,
+        avoidFastDays: false,
+        createdAt: new Date(),
+        ...overrides
+      } as any)
+      vi.mocked(prisma.session.create).mockImplementation(async ({ data }: any) => ({ id: 'session', ...data }))
+    }
+
+    it('should skip occurrences on Shabbat and keep them as exceptions', async () => {
+      mockHolidayPattern({ daysOfWeek: [6], holidayPolicy: 'skip' })
+
+      // Saturday 10am in New York
+      const sessions = await schedulingService.generateRecurringSessions({
+        havrutaId: 'havruta-1',
+        startTime: new Date('2025-10-11T14:00:00Z'),
+        recurrencePatternId: 'pattern-holiday',
+        participantIds: ['user-1']
+      }, 2)
+
+      expect(sessions.map(s => s.status)).toEqual(['cancelled', 'cancelled'])
+      expect(prisma.recurrenceException.create).toHaveBeenCalledWith({
+        data: {
+          sessionId: 'session',
+          recurrencePatternId: 'pattern-holiday',
+          originalStartTime: new Date('2025-10-11T14:00:00Z'),
+          isSkipped: true,
+          reason: 'Shabbat'
+        }
+      })
+      expect(notificationService.scheduleSessionNotifications).not.toHaveBeenCalled()
+    })
+
+    it('should move occurrences past Yom Tov to the next free evening', async () => {
+      mockHolidayPattern({ daysOfWeek: [2], holidayPolicy: 'shift' })
+
+      // Tuesday 8pm in New York: first day of Sukkot, then Shemini Atzeret a week later
+      const sessions = await schedulingService.generateRecurringSessions({
+        havrutaId: 'havruta-1',
+        startTime: new Date('2025-10-08T00:00:00Z'),
+        recurrencePatternId: 'pattern-holiday',
+        participantIds: ['user-1']
+      }, 3)
+
+      // The second day of Yom Tov ends at nightfall, so Wednesday 8pm is free
+      expect(sessions.map(s => s.startTime.toISOString())).toEqual([
+        '2025-10-09T00:00:00.000Z',
+        '2025-10-16T00:00:00.000Z',
+        '2025-10-22T00:00:00.000Z'
+      ])
+      expect(prisma.recurrenceException.create).toHaveBeenCalledTimes(2)
+      expect(prisma.recurrenceException.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          originalStartTime: new Date('2025-10-15T00:00:00Z'),
+          isSkipped: false,
+          reason: 'Shemini Atzeret, Simchat Torah'
+        })
+      })
+    })
+
+    it('should leave sessions alone when the pattern has no policy', async () => {
+      mockHolidayPattern({ daysOfWeek: [6], holidayPolicy: 'none' })
+
+      const sessions = await schedulingService.generateRecurringSessions({
+        havrutaId: 'havruta-1',
+        startTime: new Date('2025-10-11T14:00:00Z'),
+        recurrencePatternId: 'pattern-holiday',
+        participantIds: ['user-1']
+      }, 1)
+
+      expect(sessions[0].status).toBeUndefined()
+      expect(prisma.recurrenceException.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getHolidayWindows', () => {
+    it('should reject ranges longer than a year', () => {
+      expect(() => schedulingService.getHolidayWindows(
+        new Date('2025-01-01T00:00:00Z'),
+        new Date('2026-06-01T00:00:00Z'),
+        { timeZone: 'UTC' }
+      )).toThrow('Date range must be positive and at most a year')
+    })
+  })
+
+  describe('generateStudyPlanSessions', () => {
+    it('should only let the owner or a co-host schedule the study plan', async () => {
+      const planSpy = vi.spyOn(studyPlanService, 'getStudyPlan').mockResolvedValue({ id: 'plan-1', period: 'day' } as any)
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1', bookTitle: 'Berakhot' } as any)
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(false)
+
+      await expect(
+        schedulingService.generateStudyPlanSessions('havruta-1', new Date(), 'user-2')
+      ).rejects.toThrow('Only the owner or a co-host can schedule the study plan')
+      expect(permissionService.hasPermission).toHaveBeenCalledWith('havruta-1', 'user-2', 'schedule')
+      expect(prisma.recurrencePattern.create).not.toHaveBeenCalled()
+
+      planSpy.mockRestore()
+    })
+  })
+
+  describe('importRecurringSessions', () => {
+    it('should move a past calendar start to the next occurrence', () => {
+      const preview = schedulingService.previewCalendarImport(
+        'DTSTART:20200106T180000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO'
+      )
+
+      expect(preview.startTime!.getTime()).toBeGreaterThan(Date.now())
+      expect(preview.startTime!.getUTCDay()).toBe(1)
+      expect(preview.startTime!.getUTCHours()).toBe(18)
+    })
+
+    it('should count occurrences before today against COUNT', () => {
+      const start = new Date(Math.floor(Date.now() / 1000) * 1000 - 8 * 7 * 24 * 60 * 60 * 1000 + 60 * 60 * 1000)
+      const dtstart = start.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+      const preview = schedulingService.previewCalendarImport(`DTSTART:${dtstart}\nRRULE:FREQ=WEEKLY;COUNT=10`)
+
+      expect(preview.count).toBe(2)
+      expect(preview.startTime!.getTime()).toBeGreaterThan(Date.now())
+      expect(preview.startTime!.getTime() - Date.now()).toBeLessThan(3 * 60 * 60 * 1000)
+    })
+
+    it('should reject a COUNT series that has already ended', () => {
+      expect(() => schedulingService.previewCalendarImport(
+        'DTSTART:20200106T180000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=3'
+      )).toThrow('Invalid calendar: the series has already ended')
+    })
+
+    it('should create the pattern and sessions from the imported rule', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1' } as any)
+      vi.mocked(prisma.recurrencePattern.create).mockResolvedValue({ id: 'pattern-1' } as any)
+      const generateSpy = vi.spyOn(schedulingService, 'generateRecurringSessions').mockResolvedValue([])
+
+      const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000)
+      const result = await schedulingService.importRecurringSessions(
+        'havruta-1',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=6;BYSETPOS=1',
+        'user-1',
+        { startTime, timeZone: 'Asia/Jerusalem' }
+      )
+
+      expect(prisma.recurrencePattern.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ frequency: 'bi-weekly', daysOfWeek: [2, 4], timeZone: 'Asia/Jerusalem' })
+      })
+      expect(generateSpy).toHaveBeenCalledWith(expect.objectContaining({
+        havrutaId: 'havruta-1',
+        startTime,
+        recurrencePatternId: 'pattern-1'
+      }), 6)
+      expect(result.unsupported).toEqual(['BYSETPOS=1'])
+
+      generateSpy.mockRestore()
+    })
+
+    it('should only let the owner or a co-host import sessions', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'user-1' } as any)
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(false)
+
+      await expect(
+        schedulingService.importRecurringSessions('havruta-1', 'FREQ=DAILY', 'user-2')
+      ).rejects.toThrow('Only the owner or a co-host can import sessions')
+      expect(permissionService.hasPermission).toHaveBeenCalledWith('havruta-1', 'user-2', 'schedule')
+    })
+  })
 })
\ No newline at end of file
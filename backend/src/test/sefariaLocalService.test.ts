@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SefariaLocalService } from '../services/sefariaLocalService'
+import { prisma } from '../utils/database'
+
+vi.mock('../utils/database', () => ({
+  prisma: {
+    sefariaBook: {
+      findFirst: vi.fn(),
+      findMany: vi.fn()
+    },
+    sefariaSection: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn()
+    },
+    sefariaLink: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    $transaction: vi.fn()
+  }
+}))
+
+const genesisBook = {
+  title: 'Genesis',
+  heTitle: 'בראשית',
+  categories: ['Tanakh', 'Torah'],
+  order: 1,
+  index: { title: 'Genesis', categories: ['Tanakh', 'Torah'] },
+  structure: {
+    title: 'Genesis',
+    depth: 2,
+    sectionNames: ['Chapter', 'Verse'],
+    addressTypes: ['Perek', 'Pasuk']
+  }
+}
+
+const genesisTwo = {
+  ref: 'Genesis 2',
+  heRef: 'בראשית ב׳',
+  position: 1,
+  sections: [2],
+  text: ['The heaven and the earth were finished', 'And on the seventh day', 'And God blessed the seventh day'],
+  he: ['ויכלו השמים', 'ויכל אלהים', 'ויברך אלהים'],
+  versionTitle: 'The Contemporary Torah',
+  heVersionTitle: 'Miqra according to the Masorah',
+  bookTitle: 'Genesis'
+}
+
+describe('SefariaLocalService', () => {
+  let service: SefariaLocalService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new SefariaLocalService()
+  })
+
+  describe('buildSections', () => {
+    it('should address Talmud pages as a/b folios with Hebrew refs', () => {
+      const sections = service.buildSections(
+        'Berakhot',
+        'ברכות',
+        2,
+        ['Talmud', 'Integer'],
+        [[], [], ['Mishnah on 2a'], ['Gemara on 2b']],
+        [[], [], ['משנה'], ['גמרא']]
+      )
+
+      expect(sections.map(section => section.ref)).toEqual(['Berakhot 2a', 'Berakhot 2b'])
+      expect(sections.map(section => section.heRef)).toEqual(['ברכות ב׳ א', 'ברכות ב׳ ב'])
+      expect(sections[0].sections).toEqual([3])
+    })
+
+    it('should skip sections without text in either language', () => {
+      const sections = service.buildSections(
+        'Genesis',
+        'בראשית',
+        2,
+        ['Perek', 'Pasuk'],
+        [['In the beginning'], [], ['Now the serpent']],
+        [['בראשית'], ['']]
+      )
+
+      expect(sections.map(section => section.ref)).toEqual(['Genesis 1', 'Genesis 3'])
+      expect(sections[1].he).toEqual([])
+    })
+
+    it('should write 15 and 16 as ט״ו and ט״ז', () => {
+      const english = Array.from({ length: 16 }, (_, i) => [`Chapter ${i + 1}`])
+      const sections = service.buildSections('Genesis', 'בראשית', 2, ['Perek', 'Pasuk'], english, [])
+
+      expect(sections[14].heRef).toBe('בראשית ט״ו')
+      expect(sections[15].heRef).toBe('בראשית ט״ז')
+    })
+  })
+
+  describe('importBook', () => {
+    it('should reject texts with a complex structure', async () => {
+      await expect(service.importBook({
+        schema: { title: 'Pesach Haggadah', heTitle: 'הגדה של פסח', schema: { nodeType: 'SchemaNode' } },
+        english: { text: {}, versionTitle: 'merged' }
+      })).rejects.toThrow('complex structure')
+
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should reject books with no text', async () => {
+      await expect(service.importBook({
+        schema: { title: 'Genesis', heTitle: 'בראשית', schema: { nodeType: 'JaggedArrayNode', depth: 2 } },
+        english: { text: [[], []], versionTitle: 'merged' }
+      })).rejects.toThrow('Genesis has no text to import')
+    })
+  })
+
+  describe('getText', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.sefariaBook.findFirst).mockResolvedValue(genesisBook as any)
+      vi.mocked(prisma.sefariaSection.findUnique).mockResolvedValue(genesisTwo as any)
+      vi.mocked(prisma.sefariaSection.findFirst)
+        .mockResolvedValueOnce({ ref: 'Genesis 3' } as any)
+        .mockResolvedValueOnce({ ref: 'Genesis 1' } as any)
+    })
+
+    it('should return a whole section with its neighbours', async () => {
+      const result = await service.getText('Genesis 2')
+
+      expect(prisma.sefariaSection.findUnique).toHaveBeenCalledWith({ where: { ref: 'Genesis 2' } })
+      expect(result.ref).toBe('Genesis 2')
+      expect(result.heRef).toBe('בראשית ב׳')
+      expect(result.text).toHaveLength(3)
+      expect(result.next).toBe('Genesis 3')
+      expect(result.prev).toBe('Genesis 1')
+      expect(result.versions.map(version => version.language)).toEqual(['en', 'he'])
+    })
+
+    it('should narrow a segment range within the section', async () => {
+      const result = await service.getText('Genesis 2:2-3')
+
+      expect(result.ref).toBe('Genesis 2:2-3')
+      expect(result.text).toEqual(['And on the seventh day', 'And God blessed the seventh day'])
+      expect(result.he).toEqual(['ויכל אלהים', 'ויברך אלהים'])
+      expect(result.sections).toEqual([2, 2])
+      expect(result.toSections).toEqual([2, 3])
+    })
+
+    it('should reject ranges spanning several sections', async () => {
+      await expect(service.getText('Genesis 2:3-3:1')).rejects.toThrow("Refs spanning several sections aren't supported")
+    })
+
+    it('should throw when the book was not imported', async () => {
+      vi.mocked(prisma.sefariaBook.findFirst).mockResolvedValue(null)
+
+      await expect(service.getText('Exodus 1')).rejects.toThrow('Text not found: Exodus')
+    })
+  })
+
+  describe('getIndex', () => {
+    it('should group books into the category tree', async () => {
+      vi.mocked(prisma.sefariaBook.findMany).mockResolvedValue([
+        genesisBook,
+        { ...genesisBook, title: 'Exodus', index: { title: 'Exodus' } },
+        { ...genesisBook, title: 'Berakhot', categories: ['Talmud', 'Bavli'], index: { title: 'Berakhot' } }
+      ] as any)
+
+      const index: any[] = await service.getIndex()
+
+      expect(index.map(node => node.category)).toEqual(['Tanakh', 'Talmud'])
+      expect(index[0].contents[0].category).toBe('Torah')
+      expect(index[0].contents[0].contents.map((book: any) => book.title)).toEqual(['Genesis', 'Exodus'])
+    })
+  })
+
+  describe('links', () => {
+    it('should store each link from both sides', async () => {
+      const count = await service.importLinks([{
+        refs: ['Genesis 1:1', 'Rashi on Genesis 1:1:1'],
+        titles: ['Genesis', 'Rashi on Genesis'],
+        categories: ['Tanakh', 'Commentary'],
+        type: 'commentary'
+      }])
+
+      expect(count).toBe(2)
+      expect(prisma.sefariaLink.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ anchorRef: 'Genesis 1:1', anchorSection: 'Genesis 1', anchorTitle: 'Genesis', sourceRef: 'Rashi on Genesis 1:1:1', category: 'Commentary' }),
+          expect.objectContaining({ anchorRef: 'Rashi on Genesis 1:1:1', anchorSection: 'Rashi on Genesis 1:1', sourceRef: 'Genesis 1:1', category: 'Tanakh' })
+        ]
+      })
+    })
+
+    it('should skip anchors outside the imported titles', async () => {
+      const count = await service.importLinks([{
+        refs: ['Genesis 1:1', 'Rashi on Genesis 1:1:1'],
+        titles: ['Genesis', 'Rashi on Genesis'],
+        categories: ['Tanakh', 'Commentary'],
+        type: 'commentary'
+      }], new Set(['Genesis']))
+
+      expect(count).toBe(1)
+    })
+
+    it('should only clear links anchored in the given books', async () => {
+      await service.clearLinks(new Set(['Berakhot']))
+
+      expect(prisma.sefariaLink.deleteMany).toHaveBeenCalledWith({ where: { anchorTitle: { in: ['Berakhot'] } } })
+    })
+
+    it('should clear every link without a book list', async () => {
+      await service.clearLinks()
+
+      expect(prisma.sefariaLink.deleteMany).toHaveBeenCalledWith({ where: {} })
+    })
+
+    it('should map stored links to Sefaria link objects', async () => {
+      vi.mocked(prisma.sefariaLink.findMany).mockResolvedValue([{
+        id: 'link-1',
+        anchorRef: 'Genesis 1:1',
+        anchorSection: 'Genesis 1',
+        anchorTitle: 'Genesis',
+        sourceRef: 'Rashi on Genesis 1:1:1',
+        sourceTitle: 'Rashi on Genesis',
+        category: 'Commentary',
+        type: 'commentary'
+      }] as any)
+
+      const links = await service.getLinks('Genesis 1')
+
+      expect(links[0]).toMatchObject({
+        _id: 'link-1',
+        refs: ['Genesis 1:1', 'Rashi on Genesis 1:1:1'],
+        anchorVerse: 1,
+        category: 'Commentary',
+        index_title: 'Rashi on Genesis'
+      })
+    })
+  })
+})
\ No newline at end of file
@@ -8,9 +8,47 @@ vi.mock('axios', () => ({
   }
 }))
 
+// In-memory stand-in for the shared Redis cache
+const redisStore = vi.hoisted(() => new Map<string, string>())
+const redisReady = vi.hoisted(() => ({ value: true }))
+
+vi.mock('../utils/redis', () => ({
+  redisClient: {
+    isReady: () => redisReady.value,
+    getCacheEntry: async (key: string) => JSON.parse(redisStore.get(key) || 'null'),
+    setCacheEntry: async (key: string, value: any) => {
+      redisStore.set(key, JSON.stringify(value))
+    },
+    getCacheKeys: async (prefix: string) => [...redisStore.keys()].filter(key => key.startsWith(prefix)),
+    deleteCacheEntries: async (prefix: string) => {
+      const keys = [...redisStore.keys()].filter(key => key.startsWith(prefix))
+      keys.forEach(key => redisStore.delete(key))
+      return keys.length
+    }
+  }
+}))
+
+vi.mock('../services/sefariaLocalService', () => ({
+  sefariaLocalService: {
+    getIndex: vi.fn(),
+    getText: vi.fn(),
+    getTextStructure: vi.fn(),
+    searchTexts: vi.fn(),
+    getLinks: vi.fn()
+  }
+}))
+
+vi.mock('../services/textSearchService', () => ({
+  textSearchService: {
+    indexText: vi.fn().mockResolvedValue(undefined)
+  }
+}))
+
 // Mock environment variables
 const originalEnv = process.env
 beforeEach(() => {
+  redisStore.clear()
+  redisReady.value = true
   process.env = {
     ...originalEnv,
     SEFARIA_API_URL: 'https://test.sefaria.org/api',
@@ -184,6 +222,15 @@ describe('SefariaService', () => {
       expect(result2).toEqual(mockTextData)
     })
 
+    it('should index fetched texts for library search', async () => {
+      const { textSearchService } = await import('../services/textSearchService')
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: mockTextData })
+
+      await sefariaService.getText('Genesis 1:1')
+
+      expect(textSearchService.indexText).toHaveBeenCalledWith(expect.objectContaining({ ref: 'Genesis 1:1' }))
+    })
+
     it('should handle URL encoding correctly', async () => {
       mockAxiosInstance.get.mockResolvedValueOnce({ data: mockTextData })
 
@@ -311,10 +358,10 @@ describe('SefariaService', () => {
       mockAxiosInstance.get.mockResolvedValue({ data: [] })
       
       await sefariaService.getIndex()
-      expect(sefariaService.getCacheStats().size).toBe(1)
+      expect((await sefariaService.getCacheStats()).size).toBe(1)
       
-      sefariaService.clearCache()
-      expect(sefariaService.getCacheStats().size).toBe(0)
+      await sefariaService.clearCache()
+      expect((await sefariaService.getCacheStats()).size).toBe(0)
     })
 
     it('should return cache statistics', async () => {
@@ -323,28 +370,123 @@ describe('SefariaService', () => {
       await sefariaService.getIndex()
       await sefariaService.getText('Genesis 1:1')
       
-      const stats = sefariaService.getCacheStats()
+      const stats = await sefariaService.getCacheStats()
       expect(stats.size).toBe(2)
       expect(stats.keys).toContain('index')
       expect(stats.keys).toContain('text:Genesis 1:1')
     })
 
-    it('should expire cache entries after TTL', async () => {
+    it('should serve expired entries while refreshing them in the background', async () => {
       // Set very short TTL for testing
       process.env.SEFARIA_CACHE_TTL = '1'
       const shortTtlService = new SefariaService()
       
-      mockAxiosInstance.get.mockResolvedValue({ data: [] })
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: ['old'] })
+        .mockResolvedValueOnce({ data: ['new'] })
       
       await shortTtlService.getIndex()
-      expect(shortTtlService.getCacheStats().size).toBe(1)
+      expect((await shortTtlService.getCacheStats()).size).toBe(1)
       
       // Wait for cache to expire
       await new Promise(resolve => setTimeout(resolve, 10))
       
-      // This should make a new request since cache expired
-      await shortTtlService.getIndex()
+      // The stale copy comes back right away and a refresh is started
+      expect(await shortTtlService.getIndex()).toEqual(['old'])
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2)
+
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(await shortTtlService.getIndex()).toEqual(['new'])
+    })
+
+    it('should share cached data between service instances', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: [] })
+
+      await sefariaService.getIndex()
+      await new SefariaService().getIndex()
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1)
+    })
+
+    it('should prefetch the next and previous sections of a text', async () => {
+      mockAxiosInstance.get.mockImplementation(async (url: string) => ({
+        data: { ref: decodeURIComponent(url.slice('/texts/'.length)), next: 'Genesis 3', prev: 'Genesis 1' }
+      }))
+
+      await sefariaService.getText('Genesis 2')
+      await new Promise(resolve => setTimeout(resolve, 0))
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/texts/Genesis%203')
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/texts/Genesis%201')
+
+      // Turning the page is served from the cache
+      mockAxiosInstance.get.mockClear()
+      const next = await sefariaService.getText('Genesis 3')
+      expect(next.ref).toBe('Genesis 3')
+      expect(mockAxiosInstance.get).not.toHaveBeenCalledWith('/texts/Genesis%203')
+    })
+
+    it('should fall back to an in-process cache while Redis is down', async () => {
+      redisReady.value = false
+      mockAxiosInstance.get.mockImplementation(async (url: string) => ({
+        data: { ref: decodeURIComponent(url.slice('/texts/'.length)), next: 'Genesis 3', prev: 'Genesis 1' }
+      }))
+
+      await sefariaService.getText('Genesis 2')
+      await new Promise(resolve => setTimeout(resolve, 0))
+
+      mockAxiosInstance.get.mockClear()
+      await sefariaService.getText('Genesis 2')
+      await sefariaService.getText('Genesis 3')
+
+      expect(mockAxiosInstance.get).not.toHaveBeenCalledWith('/texts/Genesis%202')
+      expect(mockAxiosInstance.get).not.toHaveBeenCalledWith('/texts/Genesis%203')
+      expect(redisStore.size).toBe(0)
+      expect((await sefariaService.getCacheStats()).size).toBe(3)
+    })
+  })
+
+  describe('local source', () => {
+    let localService: any
+
+    beforeEach(async () => {
+      process.env.SEFARIA_SOURCE = 'local'
+      sefariaService = new SefariaService()
+      localService = (await import('../services/sefariaLocalService')).sefariaLocalService
+    })
+
+    it('should serve texts from the local mirror without calling the API', async () => {
+      const localText = { ref: 'Genesis 1', text: ['In the beginning'] }
+      localService.getText.mockResolvedValue(localText)
+
+      const result = await sefariaService.getText('Genesis 1')
+
+      expect(result).toEqual(localText)
+      expect(localService.getText).toHaveBeenCalledWith('Genesis 1')
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled()
+    })
+
+    it('should delegate index, structure, search and links lookups', async () => {
+      localService.getIndex.mockResolvedValue([])
+      localService.getTextStructure.mockResolvedValue({ title: 'Genesis' })
+      localService.searchTexts.mockResolvedValue([])
+      localService.getLinks.mockResolvedValue([])
+
+      await sefariaService.getIndex()
+      await sefariaService.getTextStructure('Genesis')
+      await sefariaService.searchTexts('light', 5)
+      await sefariaService.getLinks('Genesis 1')
+
+      expect(localService.getIndex).toHaveBeenCalled()
+      expect(localService.getTextStructure).toHaveBeenCalledWith('Genesis')
+      expect(localService.searchTexts).toHaveBeenCalledWith('light', 5)
+      expect(localService.getLinks).toHaveBeenCalledWith('Genesis 1')
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled()
+    })
+
+    it('should still validate refs before looking them up', async () => {
+      await expect(sefariaService.getText('')).rejects.toThrow()
+      expect(localService.getText).not.toHaveBeenCalled()
     })
   })
 
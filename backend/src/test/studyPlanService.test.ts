@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { StudyPlanService } from '../services/studyPlanService'
+
+// Mock dependencies
+vi.mock('../utils/database', () => ({
+  prisma: {
+    havruta: {
+      findUnique: vi.fn()
+    },
+    havrutaParticipant: {
+      findUnique: vi.fn()
+    },
+    studyPlan: {
+      upsert: vi.fn(),
+      findUnique: vi.fn(),
+      delete: vi.fn()
+    }
+  }
+}))
+
+vi.mock('../services/sefariaService', () => ({
+  sefariaService: {
+    getTextStructure: vi.fn()
+  }
+}))
+
+vi.mock('../services/permissionService', () => ({
+  permissionService: {
+    hasPermission: vi.fn()
+  }
+}))
+
+import { prisma } from '../utils/database'
+import { sefariaService } from '../services/sefariaService'
+import { permissionService } from '../services/permissionService'
+
+describe('StudyPlanService', () => {
+  let studyPlanService: StudyPlanService
+
+  const talmudStructure = {
+    title: 'Berakhot',
+    addressTypes: ['Talmud', 'Integer'],
+    schema: { addressTypes: ['Talmud', 'Integer'], lengths: [128, 1200] }
+  } as any
+
+  const bibleStructure = {
+    title: 'Genesis',
+    addressTypes: ['Perek', 'Pasuk'],
+    schema: { addressTypes: ['Perek', 'Pasuk'], lengths: [50, 1533] }
+  } as any
+
+  const dafYomiPlan = {
+    id: 'plan-1',
+    havrutaId: 'havruta-1',
+    startRef: 'Berakhot 2a',
+    endRef: 'Berakhot 64a',
+    amount: 1,
+    unit: 'daf',
+    period: 'day',
+    startDate: new Date('2025-01-01T00:00:00Z'),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    studyPlanService = new StudyPlanService()
+    vi.mocked(permissionService.hasPermission).mockResolvedValue(true)
+  })
+
+  describe('getSectionIndex', () => {
+    it('should count Talmud refs by amud', () => {
+      expect(studyPlanService.getSectionIndex('Berakhot 2a', 'Berakhot', talmudStructure)).toBe(2)
+      expect(studyPlanService.getSectionIndex('Berakhot 3b:5', 'Berakhot', talmudStructure)).toBe(5)
+    })
+
+    it('should count other texts by chapter', () => {
+      expect(studyPlanService.getSectionIndex('Genesis 12:1', 'Genesis', bibleStructure)).toBe(11)
+      expect(studyPlanService.getSectionRef(11, 'Genesis', bibleStructure)).toBe('Genesis 12')
+    })
+
+    it('should reject refs outside the book', () => {
+      expect(() => studyPlanService.getSectionIndex('Genesis 51', 'Genesis', bibleStructure))
+        .toThrow('Genesis 51 is outside of Genesis')
+      expect(() => studyPlanService.getSectionIndex('Exodus 1', 'Genesis', bibleStructure))
+        .toThrow('Exodus 1 is not in Genesis')
+    })
+  })
+
+  describe('getExpectedPosition', () => {
+    it('should advance one daf per day', () => {
+      const position = studyPlanService.getExpectedPosition(
+        dafYomiPlan,
+        'Berakhot',
+        talmudStructure,
+        new Date('2025-01-03T19:00:00Z')
+      )
+
+      expect(position.ref).toBe('Berakhot 4a')
+      expect(position.endRef).toBe('Berakhot 4b')
+    })
+
+    it('should stop at the end of the plan', () => {
+      const position = studyPlanService.getExpectedPosition(
+        dafYomiPlan,
+        'Berakhot',
+        talmudStructure,
+        new Date('2026-01-01T00:00:00Z')
+      )
+
+      expect(position.ref).toBe('Berakhot 64a')
+    })
+
+    it('should advance by chapters per week', () => {
+      const plan = { ...dafYomiPlan, startRef: 'Genesis 1', endRef: 'Genesis 50', unit: 'chapter', period: 'week', amount: 2 }
+
+      const position = studyPlanService.getExpectedPosition(plan, 'Genesis', bibleStructure, new Date('2025-01-15T12:00:00Z'))
+
+      expect(position.ref).toBe('Genesis 5')
+      expect(position.endRef).toBe('Genesis 6')
+    })
+  })
+
+  describe('calculateStatus', () => {
+    const date = new Date('2025-01-05T12:00:00Z') // Day 5: Berakhot 6
+
+    it('should be on track within the day\'s portion', () => {
+      const result = studyPlanService.calculateStatus(dafYomiPlan, 'Berakhot', talmudStructure, 'Berakhot 6b:3', date)
+
+      expect(result.status).toBe('on-track')
+      expect(result.sectionsAhead).toBe(0)
+    })
+
+    it('should report how far behind the Havruta is', () => {
+      const result = studyPlanService.calculateStatus(dafYomiPlan, 'Berakhot', talmudStructure, 'Berakhot 3a', date)
+
+      expect(result.status).toBe('behind')
+      expect(result.sectionsAhead).toBe(-6)
+      expect(result.periodsAhead).toBe(-3)
+      expect(result.expectedRef).toBe('Berakhot 6a')
+    })
+
+    it('should report how far ahead the Havruta is', () => {
+      const result = studyPlanService.calculateStatus(dafYomiPlan, 'Berakhot', talmudStructure, 'Berakhot 8a', date)
+
+      expect(result.status).toBe('ahead')
+      expect(result.periodsAhead).toBe(1)
+    })
+
+    it('should mark the plan completed at its last section', () => {
+      const result = studyPlanService.calculateStatus(dafYomiPlan, 'Berakhot', talmudStructure, 'Berakhot 64a', date)
+
+      expect(result.status).toBe('completed')
+    })
+  })
+
+  describe('upsertStudyPlan', () => {
+    it('should only allow the owner or a co-host to set a plan', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'owner-1', bookTitle: 'Berakhot' } as any)
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(false)
+
+      await expect(studyPlanService.upsertStudyPlan({
+        havrutaId: 'havruta-1',
+        userId: 'user-2',
+        startRef: 'Berakhot 2a',
+        endRef: 'Berakhot 64a',
+        unit: 'daf',
+        startDate: '2025-01-01'
+      })).rejects.toThrow('Only the owner or a co-host can change the study plan')
+      expect(permissionService.hasPermission).toHaveBeenCalledWith('havruta-1', 'user-2', 'manageStudyPlan')
+
+      expect(prisma.studyPlan.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should reject a chapter cadence for a Talmud text', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ id: 'havruta-1', ownerId: 'owner-1', bookTitle: 'Berakhot' } as any)
+      vi.mocked(sefariaService.getTextStructure).mockResolvedValue(talmudStructure)
+
+      await expect(studyPlanService.upsertStudyPlan({
+        havrutaId: 'havruta-1',
+        userId: 'owner-1',
+        startRef: 'Berakhot 2a',
+        endRef: 'Berakhot 64a',
+        unit: 'chapter',
+        startDate: '2025-01-01'
+      })).rejects.toThrow('A chapter cadence is not supported for Berakhot')
+    })
+  })
+})
\ No newline at end of file
@@ -11,11 +11,66 @@ vi.mock('../utils/database', () => ({
     },
     progress: {
       upsert: vi.fn()
+    },
+    session: {
+      findUnique: vi.fn()
+    },
+    user: {
+      findUnique: vi.fn()
+    }
+  }
+}))
+
+vi.mock('../services/permissionService', () => ({
+  permissionService: {
+    hasPermission: vi.fn()
+  }
+}))
+
+// In-memory stand-in for the Redis-backed sync state, round-tripped through JSON like the real client
+const redisStore = vi.hoisted(() => new Map<string, string>())
+
+vi.mock('../utils/redis', () => ({
+  redisClient: {
+    addNavigationEvent: async (roomId: string, event: any, maxEvents: number = 50) => {
+      const history = JSON.parse(redisStore.get(`room:${roomId}:navigation`) || '[]')
+      history.push(event)
+      redisStore.set(`room:${roomId}:navigation`, JSON.stringify(history.slice(-maxEvents)))
+    },
+    getNavigationHistory: async (roomId: string) => JSON.parse(redisStore.get(`room:${roomId}:navigation`) || '[]'),
+    clearNavigationHistory: async (roomId: string) => {
+      redisStore.delete(`room:${roomId}:navigation`)
+    },
+    getNavigationRooms: async () => [...redisStore.keys()]
+      .filter(key => key.endsWith(':navigation'))
+      .map(key => key.slice('room:'.length, -':navigation'.length)),
+    getActiveRooms: async () => [],
+    setSyncState: async (roomId: string, name: string, state: any) => {
+      redisStore.set(`room:${roomId}:${name}`, JSON.stringify(state))
+    },
+    getSyncState: async (roomId: string, name: string) => JSON.parse(redisStore.get(`room:${roomId}:${name}`) || 'null'),
+    // Retries when the state changed while `update` ran, like a failed WATCH
+    updateSyncState: async (roomId: string, name: string, update: (state: any) => any) => {
+      const key = `room:${roomId}:${name}`
+      for (;;) {
+        const watched = redisStore.get(key)
+        const state = JSON.parse(watched || 'null')
+        const next = await update(state)
+        if (redisStore.get(key) !== watched) continue
+        if (next === undefined) return state
+        if (next === null) redisStore.delete(key)
+        else redisStore.set(key, JSON.stringify(next))
+        return next
+      }
+    },
+    deleteSyncState: async (roomId: string, name: string) => {
+      redisStore.delete(`room:${roomId}:${name}`)
     }
   }
 }))
 
 import { prisma } from '../utils/database'
+import { permissionService } from '../services/permissionService'
 
 describe('SyncService', () => {
   let syncService: SyncService
@@ -41,9 +96,13 @@ describe('SyncService', () => {
   }
 
   beforeEach(() => {
+    redisStore.clear()
+
     // Mock WebSocket service
     mockWebSocketService = {
       broadcastToRoom: vi.fn(),
+      broadcastToSession: vi.fn().mockResolvedValue(undefined),
+      recordSessionNavigation: vi.fn().mockResolvedValue(undefined),
       getRoomInfo: vi.fn().mockReturnValue({
         id: 'havruta-1',
         participants: new Map([['user-1', {}], ['user-2', {}]]),
@@ -113,7 +172,7 @@ describe('SyncService', () => {
       
       await syncService.broadcastNavigation(havrutaId, section, mockUser)
       
-      const history = syncService.getNavigationHistory(havrutaId)
+      const history = await syncService.getNavigationHistory(havrutaId)
       expect(history).toHaveLength(1)
       expect(history[0]).toMatchObject({
         havrutaId,
@@ -221,27 +280,45 @@ describe('SyncService', () => {
   })
 
   describe('History Management', () => {
-    it('should clear navigation history', () => {
+    it('should clear navigation history', async () => {
       const havrutaId = 'havruta-1'
       
       // Add some history
-      syncService.broadcastNavigation(havrutaId, 'Genesis 1:2', mockUser)
+      await syncService.broadcastNavigation(havrutaId, 'Genesis 1:2', mockUser)
       
       // Clear history
-      syncService.clearNavigationHistory(havrutaId)
+      await syncService.clearNavigationHistory(havrutaId)
       
-      const history = syncService.getNavigationHistory(havrutaId)
+      const history = await syncService.getNavigationHistory(havrutaId)
       expect(history).toHaveLength(0)
     })
 
-    it('should clean up inactive sessions', () => {
+    it('should clean up inactive sessions', async () => {
       // Mock empty active rooms
       mockWebSocketService.getActiveRooms = vi.fn().mockReturnValue(new Map())
       
       // Should not throw error
-      expect(() => {
-        syncService.cleanupInactiveSessions()
-      }).not.toThrow()
+      await expect(syncService.cleanupInactiveSessions()).resolves.toBeUndefined()
+    })
+
+    it('should share history and session state between instances', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ownerId: 'user-1', conflictStrategy: 'vote' } as any)
+      vi.mocked(prisma.session.findUnique).mockResolvedValue({
+        id: 'session-1',
+        havrutaId: 'havruta-1',
+        mode: 'havruta',
+        leaderId: null,
+        leader: null,
+        havruta: { ownerId: 'user-1', owner: { name: 'Test User' } }
+      } as any)
+      const otherInstance = new SyncService(mockWebSocketService as WebSocketService)
+
+      // Partners connected to different instances navigate at the same time
+      await syncService.broadcastSessionNavigation('session-1', 'havruta-1', 'Genesis 1:2', mockUser)
+      await otherInstance.broadcastSessionNavigation('session-1', 'havruta-1', 'Genesis 1:5', { id: 'user-2', name: 'User 2' })
+
+      expect(await syncService.getConflictEvent('session-1')).toEqual(expect.objectContaining({ voterIds: ['user-1', 'user-2'] }))
+      expect(mockWebSocketService.recordSessionNavigation).toHaveBeenCalledWith('session-1', 'user-1', 'Genesis 1:2')
     })
   })
 
@@ -271,4 +348,223 @@ describe('SyncService', () => {
       )
     })
   })
+
+  describe('Chabura Mode', () => {
+    const sessionId = 'session-1'
+    const leader = { id: 'user-1', name: 'Leader' }
+    const student = { id: 'user-2', name: 'Student' }
+
+    beforeEach(() => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue({
+        id: sessionId,
+        havrutaId: 'havruta-1',
+        mode: 'chabura',
+        leaderId: leader.id,
+        startingSection: 'Genesis 1:1',
+        leader: { name: leader.name },
+        havruta: { ownerId: leader.id, owner: { name: leader.name } }
+      } as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ name: student.name } as any)
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(true)
+    })
+
+    it('should let the leader navigate for everyone', async () => {
+      await syncService.broadcastSessionNavigation(sessionId, 'havruta-1', 'Genesis 1:2', leader)
+
+      expect(mockWebSocketService.broadcastToSession).toHaveBeenCalledWith(
+        sessionId,
+        'navigation:update',
+        expect.objectContaining({ sessionId, userId: leader.id, newRef: 'Genesis 1:2' })
+      )
+    })
+
+    it('should reject navigation from participants without control', async () => {
+      await expect(syncService.broadcastSessionNavigation(sessionId, 'havruta-1', 'Genesis 1:2', student))
+        .rejects.toThrow('Only the leader can move the text for everyone')
+      expect(mockWebSocketService.broadcastToRoom).not.toHaveBeenCalled()
+      expect(mockWebSocketService.broadcastToSession).not.toHaveBeenCalled()
+    })
+
+    it('should let the leader win conflicts with the participant driving', async () => {
+      await syncService.grantControl(sessionId, leader.id, student.id)
+
+      await syncService.broadcastSessionNavigation(sessionId, 'havruta-1', 'Genesis 1:2', leader)
+      await syncService.broadcastSessionNavigation(sessionId, 'havruta-1', 'Genesis 1:5', student)
+
+      expect(mockWebSocketService.broadcastToSession).toHaveBeenLastCalledWith(
+        sessionId,
+        'navigation:update',
+        expect.objectContaining({ userId: leader.id, newRef: 'Genesis 1:2' })
+      )
+      expect((await syncService.getChaburaState(sessionId))?.currentSection).toBe('Genesis 1:2')
+    })
+
+    it('should hand control to a participant with a raised hand and take it back', async () => {
+      await syncService.raiseHand(sessionId, student)
+      expect((await syncService.getChaburaState(sessionId))?.raisedHands).toEqual([
+        expect.objectContaining({ userId: student.id, userName: student.name })
+      ])
+
+      const granted = await syncService.grantControl(sessionId, leader.id, student.id)
+      expect(granted.driverId).toBe(student.id)
+      expect(granted.driverName).toBe(student.name)
+      expect(granted.raisedHands).toEqual([])
+
+      await expect(syncService.broadcastSessionNavigation(sessionId, 'havruta-1', 'Genesis 1:3', student))
+        .resolves.toBeUndefined()
+
+      const revoked = await syncService.revokeControl(sessionId, leader.id)
+      expect(revoked.driverId).toBeNull()
+      expect(mockWebSocketService.broadcastToRoom).toHaveBeenCalledWith(sessionId, 'chabura:state', revoked)
+    })
+
+    it('should keep every hand raised at the same time', async () => {
+      await syncService.getChaburaState(sessionId)
+
+      await Promise.all([
+        syncService.raiseHand(sessionId, student),
+        syncService.raiseHand(sessionId, { id: 'user-3', name: 'Third' })
+      ])
+
+      expect((await syncService.getChaburaState(sessionId))?.raisedHands.map(hand => hand.userId))
+        .toEqual([student.id, 'user-3'])
+    })
+
+    it('should only let the leader grant control', async () => {
+      await expect(syncService.grantControl(sessionId, student.id, 'user-3'))
+        .rejects.toThrow('Only the leader can hand over control')
+    })
+
+    it('should not give control to observers', async () => {
+      vi.mocked(permissionService.hasPermission).mockResolvedValue(false)
+
+      await expect(syncService.grantControl(sessionId, leader.id, student.id))
+        .rejects.toThrow('Observers cannot be given control')
+    })
+
+    it('should release control when the driver leaves', async () => {
+      await syncService.grantControl(sessionId, leader.id, student.id)
+
+      await syncService.handleChaburaLeave(student.id, sessionId)
+
+      expect((await syncService.getChaburaState(sessionId))?.driverId).toBeNull()
+    })
+
+    it('should not treat regular sessions as a chabura', async () => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue({
+        id: sessionId,
+        havrutaId: 'havruta-1',
+        mode: 'havruta',
+        leaderId: null,
+        leader: null,
+        havruta: { ownerId: leader.id, owner: { name: leader.name } }
+      } as any)
+
+      expect(await syncService.getChaburaState(sessionId)).toBeNull()
+      await expect(syncService.raiseHand(sessionId, student))
+        .rejects.toThrow('This session is not in chabura mode')
+    })
+  })
+
+  describe('Conflict Strategies', () => {
+    const sessionId = 'session-1'
+    const owner = { id: 'user-1', name: 'Owner' }
+    const partner = { id: 'user-2', name: 'Partner' }
+
+    beforeEach(() => {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue({
+        id: sessionId,
+        havrutaId: 'havruta-1',
+        mode: 'havruta',
+        leaderId: null,
+        leader: null,
+        havruta: { ownerId: owner.id, owner: { name: owner.name } }
+      } as any)
+    })
+
+    const navigateBoth = async () => {
+      await syncService.broadcastSessionNavigation(sessionId, 'havruta-1', 'Genesis 1:2', owner)
+      await syncService.broadcastSessionNavigation(sessionId, 'havruta-1', 'Genesis 1:5', partner)
+    }
+
+    it('should let the owner win with leader-wins', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ownerId: owner.id, conflictStrategy: 'leader-wins' } as any)
+
+      await navigateBoth()
+
+      expect(mockWebSocketService.broadcastToSession).toHaveBeenLastCalledWith(
+        sessionId,
+        'navigation:update',
+        expect.objectContaining({ userId: owner.id, newRef: 'Genesis 1:2' })
+      )
+    })
+
+    it('should hold a vote and lock navigation until both partners agree', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ownerId: owner.id, conflictStrategy: 'vote' } as any)
+
+      await navigateBoth()
+
+      expect(mockWebSocketService.broadcastToRoom).toHaveBeenLastCalledWith(
+        sessionId,
+        'navigation:conflict',
+        expect.objectContaining({
+          strategy: 'vote',
+          voterIds: [owner.id, partner.id],
+          conflictingRefs: [
+            { ref: 'Genesis 1:2', participants: [{ userId: owner.id, userName: owner.name }] },
+            { ref: 'Genesis 1:5', participants: [{ userId: partner.id, userName: partner.name }] }
+          ]
+        })
+      )
+      await expect(syncService.broadcastSessionNavigation(sessionId, 'havruta-1', 'Genesis 2:1', owner))
+        .rejects.toThrow('Navigation is locked until everyone agrees where to go')
+
+      await syncService.voteOnConflict(sessionId, owner.id, 'Genesis 1:5')
+      expect((await syncService.getConflictEvent(sessionId))?.votes).toEqual({ [owner.id]: 'Genesis 1:5' })
+
+      await syncService.voteOnConflict(sessionId, partner.id, 'Genesis 1:5')
+
+      expect(await syncService.getConflictEvent(sessionId)).toBeNull()
+      expect(mockWebSocketService.broadcastToSession).toHaveBeenCalledWith(
+        sessionId,
+        'navigation:update',
+        expect.objectContaining({ userId: partner.id, newRef: 'Genesis 1:5' })
+      )
+      expect(mockWebSocketService.broadcastToSession).toHaveBeenLastCalledWith(sessionId, 'navigation:sync', 'Genesis 1:5')
+    })
+
+    it('should only accept votes from partners in the conflict', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ownerId: owner.id, conflictStrategy: 'vote' } as any)
+      await navigateBoth()
+
+      await expect(syncService.voteOnConflict(sessionId, 'user-3', 'Genesis 1:2'))
+        .rejects.toThrow('Only the partners in this conflict can vote')
+      await expect(syncService.voteOnConflict(sessionId, owner.id, 'Exodus 1:1'))
+        .rejects.toThrow('Choose one of the sections in the conflict')
+    })
+
+    it('should count votes cast at the same time', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ownerId: owner.id, conflictStrategy: 'vote' } as any)
+      await navigateBoth()
+
+      await Promise.all([
+        syncService.voteOnConflict(sessionId, owner.id, 'Genesis 1:5'),
+        syncService.voteOnConflict(sessionId, partner.id, 'Genesis 1:5')
+      ])
+
+      expect(await syncService.getConflictEvent(sessionId)).toBeNull()
+      expect(mockWebSocketService.broadcastToSession).toHaveBeenLastCalledWith(sessionId, 'navigation:sync', 'Genesis 1:5')
+    })
+
+    it('should settle the vote when a partner leaves the session', async () => {
+      vi.mocked(prisma.havruta.findUnique).mockResolvedValue({ ownerId: owner.id, conflictStrategy: 'vote' } as any)
+      await navigateBoth()
+      await syncService.voteOnConflict(sessionId, owner.id, 'Genesis 1:2')
+
+      await syncService.handleConflictLeave(partner.id, sessionId)
+
+      expect(await syncService.getConflictEvent(sessionId)).toBeNull()
+      expect(mockWebSocketService.broadcastToSession).toHaveBeenLastCalledWith(sessionId, 'navigation:sync', 'Genesis 1:2')
+    })
+  })
 })
\ No newline at end of file
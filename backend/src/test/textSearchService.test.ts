@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { TextSearchService } from '../services/textSearchService'
+import { prisma } from '../utils/database'
+
+vi.mock('../utils/database', () => ({
+  prisma: {
+    sefariaSearchEntry: {
+      upsert: vi.fn()
+    },
+    $queryRaw: vi.fn()
+  }
+}))
+
+const genesisOne = {
+  ref: 'Genesis 1',
+  heRef: 'בראשית א׳',
+  book: 'Genesis',
+  categories: ['Tanakh', 'Torah'],
+  text: ['In the beginning God created the heaven and the earth.', 'Now the earth was unformed and void'],
+  he: ['בְּרֵאשִׁית בָּרָא אֱלֹהִים אֵת הַשָּׁמַיִם וְאֵת הָאָרֶץ׃', 'וְהָאָרֶץ הָיְתָה תֹהוּ וָבֹהוּ']
+}
+
+describe('TextSearchService', () => {
+  let service: TextSearchService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new TextSearchService()
+  })
+
+  describe('indexSection', () => {
+    it('should store normalized terms with unprefixed Hebrew forms', async () => {
+      await service.indexSection(genesisOne)
+
+      const { create } = vi.mocked(prisma.sefariaSearchEntry.upsert).mock.calls[0][0] as any
+      const terms = create.terms.split(' ')
+
+      expect(terms).toEqual(expect.arrayContaining(['בראשית', 'והארץ', 'הארץ', 'ארץ', 'earth']))
+      expect(terms).not.toContain('הָאָרֶץ')
+      expect(new Set(terms).size).toBe(terms.length)
+    })
+  })
+
+  describe('indexText', () => {
+    const fetched = {
+      ...genesisOne,
+      title: 'Genesis',
+      heTitle: 'בראשית',
+      versions: [],
+      textDepth: 2,
+      sectionNames: ['Chapter', 'Verse'],
+      addressTypes: ['Integer', 'Integer'],
+      sectionRef: 'Genesis 1'
+    }
+
+    it('should index whole sections', async () => {
+      await service.indexText(fetched)
+
+      expect(prisma.sefariaSearchEntry.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { ref: 'Genesis 1' }
+      }))
+    })
+
+    it('should skip segment ranges and spanning refs', async () => {
+      await service.indexText({ ...fetched, ref: 'Genesis 1:1-2' })
+      await service.indexText({ ...fetched, isSpanning: true })
+
+      expect(prisma.sefariaSearchEntry.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('search', () => {
+    it('should match each word with or without its prefixes', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([])
+
+      await service.search('וְהָאָרֶץ תֹהוּ')
+
+      const values = vi.mocked(prisma.$queryRaw).mock.calls[0].slice(1)
+      expect(values).toContain("('והארץ' | 'הארץ' | 'ארץ') & ('תהו')")
+    })
+
+    it('should filter by category when asked', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([])
+
+      await service.search('earth', { categories: ['Talmud'] })
+
+      const filter = vi.mocked(prisma.$queryRaw).mock.calls[0][2] as any
+      expect(filter.sql).toContain('categories &&')
+      expect(filter.values).toEqual([['Talmud']])
+    })
+
+    it('should report the best matching segment', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ ...genesisOne, rank: 0.6 }])
+
+      const [result] = await service.search('תהו ובהו')
+
+      expect(result).toEqual({
+        ref: 'Genesis 1:2',
+        sectionRef: 'Genesis 1',
+        heSectionRef: 'בראשית א׳',
+        book: 'Genesis',
+        categories: ['Tanakh', 'Torah'],
+        language: 'he',
+        content: 'וְהָאָרֶץ הָיְתָה תֹהוּ וָבֹהוּ',
+        rank: 0.6
+      })
+    })
+
+    it('should find English matches', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([{ ...genesisOne, rank: 0.1 }])
+
+      const [result] = await service.search('Unformed')
+
+      expect(result.ref).toBe('Genesis 1:2')
+      expect(result.language).toBe('en')
+    })
+
+    it('should reject queries without words', async () => {
+      await expect(service.search('׃ - !')).rejects.toThrow('Search query must contain letters or numbers')
+      expect(prisma.$queryRaw).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
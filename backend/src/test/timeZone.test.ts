@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { addZonedTime, getZonedParts, zonedTimeToUtc } from '../utils/timeZone'
+
+describe('timeZone', () => {
+  describe('zonedTimeToUtc', () => {
+    it('should read wall-clock times on either side of a DST change', () => {
+      const base = { year: 2024, month: 3, minute: 0, second: 0 }
+
+      expect(zonedTimeToUtc({ ...base, day: 9, hour: 20 }, 'America/New_York').toISOString()).toBe('2024-03-10T01:00:00.000Z')
+      expect(zonedTimeToUtc({ ...base, day: 10, hour: 20 }, 'America/New_York').toISOString()).toBe('2024-03-11T00:00:00.000Z')
+    })
+
+    it('should move times skipped by a DST jump forward', () => {
+      const skipped = { year: 2024, month: 3, day: 10, hour: 2, minute: 30, second: 0 }
+
+      // 02:30 doesn't exist in New York that night; clocks jump from 02:00 EST to 03:00 EDT
+      const result = zonedTimeToUtc(skipped, 'America/New_York')
+      expect(result.toISOString()).toBe('2024-03-10T07:30:00.000Z')
+      expect(getZonedParts(result, 'America/New_York')).toMatchObject({ hour: 3, minute: 30 })
+
+      // Berlin jumps from 02:00 CET to 03:00 CEST
+      const berlin = zonedTimeToUtc({ ...skipped, day: 31 }, 'Europe/Berlin')
+      expect(berlin.toISOString()).toBe('2024-03-31T01:30:00.000Z')
+    })
+
+    it('should pick the first of two times repeated when clocks go back', () => {
+      const repeated = { year: 2024, month: 11, day: 3, hour: 1, minute: 30, second: 0 }
+
+      expect(zonedTimeToUtc(repeated, 'America/New_York').toISOString()).toBe('2024-11-03T05:30:00.000Z')
+    })
+  })
+
+  describe('addZonedTime', () => {
+    it('should keep the local time across DST', () => {
+      const sunday = new Date('2024-03-03T23:00:00Z') // 6pm EST
+
+      expect(addZonedTime(sunday, { days: 7 }, 'America/New_York').toISOString()).toBe('2024-03-10T22:00:00.000Z')
+    })
+  })
+})
\ No newline at end of file
@@ -12,13 +12,17 @@ vi.mock('../utils/redis', () => ({
     disconnect: vi.fn(),
     addToRoom: vi.fn(),
     removeFromRoom: vi.fn(),
+    updateRoomParticipant: vi.fn(),
     getRoomParticipants: vi.fn(),
     getRoomParticipantCount: vi.fn(),
     setRoomState: vi.fn(),
     getRoomState: vi.fn(),
     deleteRoom: vi.fn(),
     getActiveRooms: vi.fn(),
-    cleanupEmptyRooms: vi.fn()
+    cleanupEmptyRooms: vi.fn(),
+    addSessionEvent: vi.fn(),
+    getSessionEventsSince: vi.fn(),
+    getSessionSeq: vi.fn()
   }
 }))
 
@@ -153,11 +157,15 @@ describe('WebSocketRoomService', () => {
         }
       })
 
+      vi.mocked(redisClient.getSessionSeq).mockResolvedValue(4)
+
       const result = await roomService.joinRoom(mockSocket, sessionId)
 
       expect(result.success).toBe(true)
       expect(result.roomState).toBeDefined()
       expect(result.participants).toBeDefined()
+      expect(result.seq).toBe(4)
+      expect(result.reconnectToken).toEqual(expect.any(String))
       expect(mockSocket.join).toHaveBeenCalledWith(sessionId)
       expect(redisClient.addToRoom).toHaveBeenCalledWith(
         sessionId,
@@ -165,7 +173,8 @@ describe('WebSocketRoomService', () => {
         expect.objectContaining({
           userId: 'user-123',
           userName: 'Test User',
-          socketId: 'socket-123'
+          socketId: 'socket-123',
+          reconnectToken: result.reconnectToken
         })
       )
     })
@@ -274,16 +283,25 @@ describe('WebSocketRoomService', () => {
   })
 
   describe('handleDisconnect', () => {
-    it('should remove user from all rooms on disconnect', async () => {
-      const roomIds = ['session-1', 'session-2']
-      const participants = {
-        'user-123': {
-          userId: 'user-123',
-          userName: 'Test User',
-          socketId: 'socket-123',
-          joinedAt: new Date().toISOString()
-        }
+    const participants = {
+      'user-123': {
+        userId: 'user-123',
+        userName: 'Test User',
+        socketId: 'socket-123',
+        joinedAt: new Date().toISOString()
       }
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should remove user from all rooms once the grace period is over', async () => {
+      const roomIds = ['session-1', 'session-2']
 
       vi.mocked(redisClient.getActiveRooms).mockResolvedValue(roomIds)
       vi.mocked(redisClient.getRoomParticipants).mockResolvedValue(participants)
@@ -291,13 +309,38 @@ describe('WebSocketRoomService', () => {
       vi.mocked(redisClient.getRoomParticipantCount).mockResolvedValue(0)
       vi.mocked(redisClient.deleteRoom).mockResolvedValue(undefined)
 
-      await roomService.handleDisconnect(mockSocket)
+      const sessionIds = await roomService.handleDisconnect(mockSocket)
 
+      expect(sessionIds).toEqual(roomIds)
       expect(redisClient.getActiveRooms).toHaveBeenCalledOnce()
       expect(redisClient.getRoomParticipants).toHaveBeenCalledTimes(2)
+      expect(redisClient.updateRoomParticipant).toHaveBeenCalledWith('session-1', 'user-123', {
+        disconnectedAt: expect.any(String)
+      })
+      expect(redisClient.removeFromRoom).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(30 * 1000)
+
       expect(redisClient.removeFromRoom).toHaveBeenCalledTimes(2)
     })
 
+    it('should keep the participant when they resume within the grace period', async () => {
+      vi.mocked(redisClient.getActiveRooms).mockResolvedValue(['session-1'])
+      vi.mocked(redisClient.getRoomParticipants).mockResolvedValue({
+        'user-123': { ...participants['user-123'], reconnectToken: 'token-1' }
+      })
+      vi.mocked(redisClient.getRoomState).mockResolvedValue(null)
+      vi.mocked(redisClient.getSessionEventsSince).mockResolvedValue([])
+      vi.mocked(redisClient.getSessionSeq).mockResolvedValue(0)
+
+      await roomService.handleDisconnect(mockSocket)
+      const result = await roomService.resumeRoom({ ...mockSocket, id: 'socket-456' } as any, 'session-1', 'token-1', 0)
+      await vi.advanceTimersByTimeAsync(30 * 1000)
+
+      expect(result.success).toBe(true)
+      expect(redisClient.removeFromRoom).not.toHaveBeenCalled()
+    })
+
     it('should handle disconnect gracefully when user not in any rooms', async () => {
       vi.mocked(redisClient.getActiveRooms).mockResolvedValue([])
 
@@ -308,6 +351,68 @@ describe('WebSocketRoomService', () => {
     })
   })
 
+  describe('resumeRoom', () => {
+    const sessionId = 'session-123'
+
+    beforeEach(() => {
+      vi.mocked(redisClient.getRoomParticipants).mockResolvedValue({
+        'user-123': {
+          userId: 'user-123',
+          userName: 'Test User',
+          socketId: 'socket-old',
+          reconnectToken: 'token-123',
+          disconnectedAt: new Date().toISOString(),
+          joinedAt: new Date().toISOString()
+        }
+      })
+      vi.mocked(redisClient.getRoomState).mockResolvedValue({
+        sessionId,
+        havrutaId: 'havruta-123',
+        currentSection: 'Genesis 1:3',
+        participantCount: 2,
+        lastActivity: new Date(),
+        createdAt: new Date()
+      })
+      vi.mocked(redisClient.getSessionSeq).mockResolvedValue(7)
+    })
+
+    it('should rejoin the room and return the events missed since the last sequence number', async () => {
+      const missedEvents = [
+        { seq: 6, event: 'navigation:update', data: { newRef: 'Genesis 1:2' } },
+        { seq: 7, event: 'navigation:update', data: { newRef: 'Genesis 1:3' } }
+      ]
+      vi.mocked(redisClient.getSessionEventsSince).mockResolvedValue(missedEvents)
+
+      const result = await roomService.resumeRoom(mockSocket, sessionId, 'token-123', 5)
+
+      expect(result.success).toBe(true)
+      expect(result.missedEvents).toEqual(missedEvents)
+      expect(result.seq).toBe(7)
+      expect(mockSocket.join).toHaveBeenCalledWith(sessionId)
+      expect(redisClient.getSessionEventsSince).toHaveBeenCalledWith(sessionId, 5)
+      expect(redisClient.updateRoomParticipant).toHaveBeenCalledWith(sessionId, 'user-123', {
+        socketId: 'socket-123',
+        disconnectedAt: null
+      })
+    })
+
+    it('should refuse a token that does not match', async () => {
+      const result = await roomService.resumeRoom(mockSocket, sessionId, 'someone-elses-token', 5)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Reconnect token is invalid or expired')
+      expect(mockSocket.join).not.toHaveBeenCalled()
+    })
+
+    it('should refuse once the participant has been removed', async () => {
+      vi.mocked(redisClient.getRoomParticipants).mockResolvedValue({})
+
+      const result = await roomService.resumeRoom(mockSocket, sessionId, 'token-123', 5)
+
+      expect(result.success).toBe(false)
+    })
+  })
+
   describe('getRoomParticipants', () => {
     it('should return formatted participants list', async () => {
       const sessionId = 'session-123'
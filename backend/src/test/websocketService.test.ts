@@ -76,6 +76,12 @@ describe('WebSocketService', () => {
       
       expect(io.to).toHaveBeenCalledWith(havrutaId)
     })
+
+    it('should broadcast to a user through their user room', () => {
+      websocketService.broadcastToUser('user-1', 'test-event', { test: 'data' })
+
+      expect(io.to).toHaveBeenCalledWith('user:user-1')
+    })
   })
 
   describe('Room Cleanup', () => {
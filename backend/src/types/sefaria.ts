@@ -94,6 +94,7 @@ export interface SefariaSchema {
   sectionNames: string[]
   titles: SefariaTitle[]
   key?: string
+  lengths?: number[] // Number of sections at each level (e.g., chapters, then verses)
   children?: SefariaSchema[]
 }
 
@@ -112,6 +113,24 @@ export interface SefariaSearchResult {
   type: string
 }
 
+// A match from the library-wide search index, at its best-matching segment
+export interface LibrarySearchResult {
+  ref: string // Segment, e.g. "Genesis 1:2"
+  sectionRef: string
+  heSectionRef: string
+  book: string
+  categories: string[]
+  language: 'en' | 'he'
+  content: string
+  rank: number
+}
+
+export interface LibrarySearchOptions {
+  categories?: string[] // Matches texts in any of these categories, at any level
+  limit?: number
+  offset?: number
+}
+
 export interface SefariaLink {
   _id: string
   refs: string[]
@@ -122,6 +141,11 @@ export interface SefariaLink {
   type: string
   auto: boolean
   generated_by?: string
+  ref?: string
+  heRef?: string
+  anchorHeRef?: string
+  category?: string
+  index_title?: string
 }
 
 export interface SefariaApiError {
@@ -0,0 +1,282 @@
+/**
+ * Hebrew calendar helpers for keeping sessions off Shabbat, Yom Tov and fast days.
+ * Hebrew dates come from Intl's hebrew calendar; zmanim use the NOAA sunset formula.
+ */
+
+import { getZonedDayNumber, zonedTimeToUtc } from './timeZone'
+
+export type JewishDayType = 'shabbat' | 'yom_tov' | 'fast'
+
+export interface HebrewDate {
+  year: number
+  month: string // Intl month name, e.g. "Tishri", "Adar II"
+  day: number
+}
+
+export interface JewishDay {
+  name: string
+  type: JewishDayType
+}
+
+export interface CalendarLocation {
+  timeZone: string
+  latitude?: number | null
+  longitude?: number | null
+}
+
+export interface RestWindow {
+  name: string
+  type: JewishDayType
+  start: Date
+  end: Date
+}
+
+// Candles are lit 18 minutes before sunset; the day ends at nightfall, taken as 42 minutes after sunset
+const CANDLE_LIGHTING_MINUTES = 18
+const NIGHTFALL_MINUTES = 42
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Yom Tov days by Hebrew month and day; the second entry is the extra day kept outside Israel
+const YOM_TOV: Record<string, Array<{ day: number; name: string; diasporaOnly?: boolean }>> = {
+  Tishri: [
+    { day: 1, name: 'Rosh Hashana' },
+    { day: 2, name: 'Rosh Hashana' },
+    { day: 10, name: 'Yom Kippur' },
+    { day: 15, name: 'Sukkot' },
+    { day: 16, name: 'Sukkot', diasporaOnly: true },
+    { day: 22, name: 'Shemini Atzeret' },
+    { day: 23, name: 'Simchat Torah', diasporaOnly: true }
+  ],
+  Nisan: [
+    { day: 15, name: 'Pesach' },
+    { day: 16, name: 'Pesach', diasporaOnly: true },
+    { day: 21, name: 'Pesach' },
+    { day: 22, name: 'Pesach', diasporaOnly: true }
+  ],
+  Sivan: [
+    { day: 6, name: 'Shavuot' },
+    { day: 7, name: 'Shavuot', diasporaOnly: true }
+  ]
+}
+
+const hebrewFormatter = new Intl.DateTimeFormat('en-u-ca-hebrew', {
+  timeZone: 'UTC',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+})
+
+interface CivilDay {
+  year: number
+  month: number // 1-12
+  day: number
+  weekday: number // 0=Sunday ... 6=Saturday
+}
+
+function civilDayFromNumber(dayNumber: number): CivilDay {
+  const date = new Date(dayNumber * DAY_MS)
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay()
+  }
+}
+
+/**
+ * Hebrew date of a civil day (the daytime part; the Hebrew date advances at nightfall)
+ */
+export function getHebrewDate(date: Date, timeZone: string): HebrewDate {
+  return getHebrewDateForDay(civilDayFromNumber(getZonedDayNumber(date, timeZone)))
+}
+
+function getHebrewDateForDay(civil: CivilDay): HebrewDate {
+  const values: Record<string, string> = {}
+  for (const part of hebrewFormatter.formatToParts(new Date(Date.UTC(civil.year, civil.month - 1, civil.day, 12)))) {
+    values[part.type] = part.value
+  }
+
+  return {
+    year: parseInt(values.year, 10),
+    month: values.month,
+    day: parseInt(values.day, 10)
+  }
+}
+
+/**
+ * Israel keeps one day of Yom Tov; everyone else keeps two
+ */
+export function isInIsrael(location: CalendarLocation): boolean {
+  return location.timeZone === 'Asia/Jerusalem'
+}
+
+/**
+ * Shabbat, Yom Tov and fast days that fall on a civil day
+ */
+export function getJewishDays(civil: CivilDay, inIsrael: boolean): JewishDay[] {
+  const days: JewishDay[] = []
+  const { month, day } = getHebrewDateForDay(civil)
+
+  if (civil.weekday === 6) {
+    days.push({ name: 'Shabbat', type: 'shabbat' })
+  }
+
+  for (const yomTov of YOM_TOV[month] || []) {
+    if (yomTov.day === day && !(yomTov.diasporaOnly && inIsrael)) {
+      days.push({ name: yomTov.name, type: 'yom_tov' })
+    }
+  }
+
+  const fast = getFastDay(month, day, civil.weekday)
+  if (fast) {
+    days.push({ name: fast, type: 'fast' })
+  }
+
+  return days
+}
+
+// Minor fasts that fall on Shabbat move to Sunday, except Ta'anit Esther, which moves back to Thursday
+function getFastDay(month: string, day: number, weekday: number): string | null {
+  if (month === 'Tishri' && ((day === 3 && weekday !== 6) || (day === 4 && weekday === 0))) {
+    return 'Tzom Gedaliah'
+  }
+  if (month === 'Tevet' && day === 10) {
+    return 'Asara B\'Tevet'
+  }
+  if ((month === 'Adar' || month === 'Adar II') && ((day === 13 && weekday !== 6) || (day === 11 && weekday === 4))) {
+    return 'Ta\'anit Esther'
+  }
+  if (month === 'Tamuz' && ((day === 17 && weekday !== 6) || (day === 18 && weekday === 0))) {
+    return 'Shiva Asar B\'Tammuz'
+  }
+  if (month === 'Av' && ((day === 9 && weekday !== 6) || (day === 10 && weekday === 0))) {
+    return 'Tisha B\'Av'
+  }
+  return null
+}
+
+/**
+ * Sunset on a civil day at a location (NOAA approximation, accurate to a minute or two).
+ * Returns null where the sun doesn't set that day.
+ */
+export function getSunset(civil: Pick<CivilDay, 'year' | 'month' | 'day'>, latitude: number, longitude: number): Date | null {
+  const midnight = Date.UTC(civil.year, civil.month - 1, civil.day)
+  const dayOfYear = Math.floor((midnight - Date.UTC(civil.year, 0, 1)) / DAY_MS)
+  const gamma = (2 * Math.PI / 365) * dayOfYear
+  const rad = Math.PI / 180
+
+  const equationOfTime = 229.18 * (0.000075 + 0.001868 * Math.cos(gamma) - 0.032077 * Math.sin(gamma) -
+    0.014615 * Math.cos(2 * gamma) - 0.040849 * Math.sin(2 * gamma))
+  const declination = 0.006918 - 0.399912 * Math.cos(gamma) + 0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) + 0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) + 0.00148 * Math.sin(3 * gamma)
+
+  const cosHourAngle = Math.cos(90.833 * rad) / (Math.cos(latitude * rad) * Math.cos(declination)) -
+    Math.tan(latitude * rad) * Math.tan(declination)
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return null
+  }
+
+  const hourAngle = Math.acos(cosHourAngle) / rad
+  const minutes = 720 - 4 * (longitude - hourAngle) - equationOfTime
+  return new Date(midnight + Math.round(minutes * 60 * 1000))
+}
+
+// Without coordinates, windows are widened to be safe: they open at noon on the eve and close at midnight
+function getEveningStart(civil: CivilDay, location: CalendarLocation): Date {
+  const sunset = hasCoordinates(location) ? getSunset(civil, location.latitude!, location.longitude!) : null
+  if (sunset) {
+    return new Date(sunset.getTime() - CANDLE_LIGHTING_MINUTES * 60 * 1000)
+  }
+  return zonedTimeToUtc({ ...civil, hour: 12, minute: 0, second: 0 }, location.timeZone)
+}
+
+function getNightfall(civil: CivilDay, location: CalendarLocation): Date {
+  const sunset = hasCoordinates(location) ? getSunset(civil, location.latitude!, location.longitude!) : null
+  if (sunset) {
+    return new Date(sunset.getTime() + NIGHTFALL_MINUTES * 60 * 1000)
+  }
+  return zonedTimeToUtc({ ...civil, day: civil.day + 1, hour: 0, minute: 0, second: 0 }, location.timeZone)
+}
+
+function hasCoordinates(location: CalendarLocation): boolean {
+  return typeof location.latitude === 'number' && typeof location.longitude === 'number'
+}
+
+/**
+ * Shabbat and Yom Tov windows (candle lighting to nightfall) overlapping a range.
+ * Back-to-back days, like Shabbat followed by Yom Tov, merge into one window.
+ * Fast days are included on request, from the start of the day (or the eve for Tisha B'Av) to nightfall.
+ */
+export function getRestWindows(
+  from: Date,
+  to: Date,
+  location: CalendarLocation,
+  options: { includeFastDays?: boolean } = {}
+): RestWindow[] {
+  const windows: RestWindow[] = []
+  const inIsrael = isInIsrael(location)
+  let current: (RestWindow & { names: string[] }) | null = null
+
+  const closeCurrent = () => {
+    if (current) {
+      windows.push({ name: current.names.join(', '), type: current.type, start: current.start, end: current.end })
+      current = null
+    }
+  }
+
+  const lastDay = getZonedDayNumber(to, location.timeZone) + 1
+  for (let dayNumber = getZonedDayNumber(from, location.timeZone) - 1; dayNumber <= lastDay; dayNumber++) {
+    const civil = civilDayFromNumber(dayNumber)
+    const days = getJewishDays(civil, inIsrael)
+    const restDays = days.filter(day => day.type !== 'fast')
+
+    if (restDays.length > 0) {
+      const type: JewishDayType = restDays.some(day => day.type === 'yom_tov') ? 'yom_tov' : 'shabbat'
+      if (current) {
+        current.end = getNightfall(civil, location)
+        current.type = current.type === 'yom_tov' ? 'yom_tov' : type
+        current.names.push(...restDays.map(day => day.name).filter(name => !current!.names.includes(name)))
+      } else {
+        current = {
+          name: '',
+          names: restDays.map(day => day.name),
+          type,
+          start: getEveningStart(civilDayFromNumber(dayNumber - 1), location),
+          end: getNightfall(civil, location)
+        }
+      }
+      continue
+    }
+
+    closeCurrent()
+
+    const fast = days.find(day => day.type === 'fast')
+    if (fast && options.includeFastDays) {
+      windows.push({
+        name: fast.name,
+        type: 'fast',
+        start: fast.name === 'Tisha B\'Av'
+          ? getEveningStart(civilDayFromNumber(dayNumber - 1), location)
+          : zonedTimeToUtc({ ...civil, hour: 0, minute: 0, second: 0 }, location.timeZone),
+        end: getNightfall(civil, location)
+      })
+    }
+  }
+  closeCurrent()
+
+  return windows.filter(window => window.end > from && window.start < to)
+}
+
+/**
+ * The window a time span overlaps, if any
+ */
+export function findRestWindow(
+  start: Date,
+  end: Date,
+  location: CalendarLocation,
+  options: { includeFastDays?: boolean } = {}
+): RestWindow | null {
+  return getRestWindows(start, end, location, options)[0] || null
+}
\ No newline at end of file
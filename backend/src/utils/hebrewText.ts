@@ -0,0 +1,49 @@
+/**
+ * Text normalization for library search. Hebrew is compared without niqqud or
+ * ta'amim, and words are also indexed without their one-letter prefixes.
+ */
+
+// Cantillation marks, vowel points, dagesh, meteg, rafe, shin/sin dots and qamats qatan
+const HEBREW_MARKS = /[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g
+// Maqaf, paseq, sof pasuq and nun hafukha separate words
+const HEBREW_SEPARATORS = /[\u05BE\u05C0\u05C3\u05C6]/g
+// Geresh and gershayim (and the quotes typed in their place) are part of abbreviations like ר"ת
+const ABBREVIATION_MARKS = /[\u05F3\u05F4'"\u2019]/g
+const WORD_SPLIT = /[^\p{L}\p{N}]+/u
+
+const HEBREW_PREFIXES = ['ו', 'ה', 'ב', 'ל']
+const MAX_PREFIXES = 3 // e.g. ובה in ובהר
+const MIN_STEM_LENGTH = 2
+
+export const stripHtml = (value: string): string => value.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()
+
+export const normalizeText = (value: string): string =>
+  stripHtml(value)
+    .normalize('NFD')
+    .replace(HEBREW_MARKS, '')
+    .replace(HEBREW_SEPARATORS, ' ')
+    .replace(ABBREVIATION_MARKS, '')
+    .normalize('NFC')
+    .toLowerCase()
+
+export const tokenize = (value: string): string[] => normalizeText(value).split(WORD_SPLIT).filter(Boolean)
+
+/**
+ * A word followed by the forms left after dropping ו, ה, ב or ל prefixes,
+ * e.g. "והארץ" → ["והארץ", "הארץ", "ארץ"]. Words that aren't Hebrew come back as is.
+ */
+export const hebrewPrefixVariants = (word: string): string[] => {
+  const variants = [word]
+  let stem = word
+
+  while (
+    variants.length <= MAX_PREFIXES &&
+    HEBREW_PREFIXES.includes(stem[0]) &&
+    stem.length - 1 >= MIN_STEM_LENGTH
+  ) {
+    stem = stem.slice(1)
+    variants.push(stem)
+  }
+
+  return variants
+}
\ No newline at end of file
@@ -1,6 +1,11 @@
-import { createClient, RedisClientType } from 'redis'
+import { createClient, RedisClientType, WatchError } from 'redis'
 import { logger } from './logger'
 
+// Keys fetched per SCAN call and removed per UNLINK
+const SCAN_BATCH_SIZE = 500
+// Attempts at a sync state update before giving up on a contended key
+const SYNC_STATE_RETRIES = 10
+
 export class RedisClient {
   private client: RedisClientType
   private isConnected: boolean = false
@@ -72,6 +77,21 @@ export class RedisClient {
     return this.client
   }
 
+  /**
+   * Open a publish/subscribe client pair for the Socket.IO Redis adapter,
+   * so room broadcasts reach sockets connected to other backend instances
+   */
+  async createPubSubClients(): Promise<[RedisClientType, RedisClientType]> {
+    const pubClient = this.client.duplicate()
+    const subClient = this.client.duplicate()
+
+    pubClient.on('error', (error) => logger.error('Redis pub client error:', error))
+    subClient.on('error', (error) => logger.error('Redis sub client error:', error))
+
+    await Promise.all([pubClient.connect(), subClient.connect()])
+    return [pubClient, subClient]
+  }
+
   isReady(): boolean {
     return this.isConnected
   }
@@ -101,6 +121,24 @@ export class RedisClient {
     await this.client.hDel(key, userId)
   }
 
+  async updateRoomParticipant(roomId: string, userId: string, changes: any): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const key = `room:${roomId}:participants`
+    const data = await this.client.hGet(key, userId)
+    if (!data) {
+      return
+    }
+
+    try {
+      await this.client.hSet(key, userId, JSON.stringify({ ...JSON.parse(data), ...changes }))
+    } catch (error) {
+      logger.error(`Failed to parse participant data for user ${userId}:`, error)
+    }
+  }
+
   async getRoomParticipants(roomId: string): Promise<Record<string, any>> {
     if (!this.isConnected) {
       throw new Error('Redis client not connected')
@@ -170,10 +208,14 @@ export class RedisClient {
 
     const participantsKey = `room:${roomId}:participants`
     const stateKey = `room:${roomId}:state`
+    const eventsKey = `room:${roomId}:events`
+    const seqKey = `room:${roomId}:seq`
 
     await Promise.all([
       this.client.del(participantsKey),
-      this.client.del(stateKey)
+      this.client.del(stateKey),
+      this.client.del(eventsKey),
+      this.client.del(seqKey)
     ])
   }
 
@@ -207,6 +249,260 @@ export class RedisClient {
 
     return cleanedCount
   }
+
+  // Navigation sync methods
+  async addNavigationEvent(roomId: string, event: any, maxEvents: number = 50): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const key = `room:${roomId}:navigation`
+    await this.client.rPush(key, JSON.stringify(event))
+    await this.client.lTrim(key, -maxEvents, -1)
+    await this.client.expire(key, 24 * 60 * 60)
+  }
+
+  async getNavigationHistory(roomId: string): Promise<any[]> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const events = await this.client.lRange(`room:${roomId}:navigation`, 0, -1)
+    return events.flatMap(event => {
+      try {
+        return [JSON.parse(event)]
+      } catch (error) {
+        logger.error(`Failed to parse navigation event for room ${roomId}:`, error)
+        return []
+      }
+    })
+  }
+
+  async clearNavigationHistory(roomId: string): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    await this.client.del(`room:${roomId}:navigation`)
+  }
+
+  async getNavigationRooms(): Promise<string[]> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const keys = await this.scanKeys('room:*:navigation')
+    return keys.map(key => {
+      const match = key.match(/^room:(.+):navigation$/)
+      return match ? match[1] : null
+    }).filter(Boolean) as string[]
+  }
+
+  // Session event log, replayed to participants who reconnect
+  async addSessionEvent(roomId: string, event: string, data: any, maxEvents: number = 100): Promise<number> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const seqKey = `room:${roomId}:seq`
+    const eventsKey = `room:${roomId}:events`
+    const seq = await this.client.incr(seqKey)
+
+    await this.client.rPush(eventsKey, JSON.stringify({ seq, event, data }))
+    await this.client.lTrim(eventsKey, -maxEvents, -1)
+    await Promise.all([
+      this.client.expire(seqKey, 24 * 60 * 60),
+      this.client.expire(eventsKey, 24 * 60 * 60)
+    ])
+
+    return seq
+  }
+
+  async getSessionEventsSince(roomId: string, seq: number): Promise<any[]> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const events = await this.client.lRange(`room:${roomId}:events`, 0, -1)
+    return events.flatMap(event => {
+      try {
+        const parsed = JSON.parse(event)
+        return parsed.seq > seq ? [parsed] : []
+      } catch (error) {
+        logger.error(`Failed to parse session event for room ${roomId}:`, error)
+        return []
+      }
+    })
+  }
+
+  async getSessionSeq(roomId: string): Promise<number> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const seq = await this.client.get(`room:${roomId}:seq`)
+    return seq ? parseInt(seq, 10) : 0
+  }
+
+  // Session sync state (chabura floor control, open conflict votes)
+  async setSyncState(roomId: string, name: string, state: any): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    await this.client.set(`room:${roomId}:${name}`, JSON.stringify(state), { EX: 24 * 60 * 60 })
+  }
+
+  async getSyncState(roomId: string, name: string): Promise<any | null> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const state = await this.client.get(`room:${roomId}:${name}`)
+    if (!state) {
+      return null
+    }
+
+    try {
+      return JSON.parse(state)
+    } catch (error) {
+      logger.error(`Failed to parse ${name} state for room ${roomId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Read, change and write sync state as one step. The key is watched while
+   * `update` runs and the write retried if another instance changed it first.
+   * Returning null from `update` deletes the state, undefined leaves it as is.
+   */
+  async updateSyncState<T>(
+    roomId: string,
+    name: string,
+    update: (state: T | null) => T | null | undefined | Promise<T | null | undefined>
+  ): Promise<T | null> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const key = `room:${roomId}:${name}`
+
+    for (let attempt = 0; attempt < SYNC_STATE_RETRIES; attempt++) {
+      const result = await this.client.executeIsolated(async (isolatedClient) => {
+        await isolatedClient.watch(key)
+
+        try {
+          const current = await isolatedClient.get(key)
+          const state: T | null = current ? JSON.parse(current) : null
+          const next = await update(state)
+
+          if (next === undefined) {
+            await isolatedClient.unwatch()
+            return { state }
+          }
+
+          const transaction = isolatedClient.multi()
+          if (next === null) {
+            transaction.del(key)
+          } else {
+            transaction.set(key, JSON.stringify(next), { EX: 24 * 60 * 60 })
+          }
+          await transaction.exec()
+          return { state: next }
+        } catch (error) {
+          if (error instanceof WatchError) {
+            return null
+          }
+          await isolatedClient.unwatch()
+          throw error
+        }
+      })
+
+      if (result) {
+        return result.state
+      }
+    }
+
+    throw new Error(`Too many concurrent updates to ${name} state for room ${roomId}`)
+  }
+
+  async deleteSyncState(roomId: string, name: string): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    await this.client.del(`room:${roomId}:${name}`)
+  }
+
+  // Shared response cache (e.g. Sefaria texts), kept across restarts and instances
+  async getCacheEntry(key: string): Promise<any | null> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const entry = await this.client.get(`cache:${key}`)
+    if (!entry) {
+      return null
+    }
+
+    try {
+      return JSON.parse(entry)
+    } catch (error) {
+      logger.error(`Failed to parse cache entry ${key}:`, error)
+      return null
+    }
+  }
+
+  async setCacheEntry(key: string, value: any, ttlSeconds: number): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    await this.client.set(`cache:${key}`, JSON.stringify(value), { EX: ttlSeconds })
+  }
+
+  async getCacheKeys(prefix: string): Promise<string[]> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    const keys = await this.scanKeys(`cache:${prefix}*`)
+    return keys.map(key => key.slice('cache:'.length))
+  }
+
+  async deleteCacheEntries(prefix: string): Promise<number> {
+    if (!this.isConnected) {
+      throw new Error('Redis client not connected')
+    }
+
+    let deleted = 0
+    let batch: string[] = []
+
+    for await (const key of this.client.scanIterator({ MATCH: `cache:${prefix}*`, COUNT: SCAN_BATCH_SIZE })) {
+      batch.push(key)
+      if (batch.length >= SCAN_BATCH_SIZE) {
+        deleted += await this.client.unlink(batch)
+        batch = []
+      }
+    }
+
+    if (batch.length > 0) {
+      deleted += await this.client.unlink(batch)
+    }
+
+    return deleted
+  }
+
+  /**
+   * Collect the keys matching a pattern with SCAN, which unlike KEYS does not block the server
+   */
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = []
+    for await (const key of this.client.scanIterator({ MATCH: pattern, COUNT: SCAN_BATCH_SIZE })) {
+      keys.push(key)
+    }
+    return keys
+  }
 }
 
 // Create singleton instance
@@ -0,0 +1,129 @@
+/**
+ * Time zone helpers built on Intl, so recurring sessions keep their wall-clock
+ * time in the organizer's zone across DST changes.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+export interface ZonedDateParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+  weekday: number // 0=Sunday ... 6=Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Check that a string is an IANA time zone the runtime knows about
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const values: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    values[part.type] = part.value
+  }
+
+  return {
+    year: parseInt(values.year, 10),
+    month: parseInt(values.month, 10),
+    day: parseInt(values.day, 10),
+    hour: parseInt(values.hour, 10),
+    minute: parseInt(values.minute, 10),
+    second: parseInt(values.second, 10),
+    weekday: WEEKDAYS.indexOf(values.weekday)
+  }
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant.
+ * Out-of-range fields roll over (e.g., day 32), like Date.UTC.
+ * Times skipped by a DST jump move forward by the jump, as calendar apps do
+ * (02:30 on the day clocks go from 02:00 to 03:00 becomes 03:30).
+ */
+export function zonedTimeToUtc(
+  parts: Omit<ZonedDateParts, 'weekday'>,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+
+  // The zone's offset depends on the instant, so refine the guess once
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone)
+  const offset = getTimeZoneOffset(new Date(guess), timeZone)
+  const utc = wallClock - offset
+  if (getTimeZoneOffset(new Date(utc), timeZone) === offset) {
+    return new Date(utc)
+  }
+
+  // Neither offset fits a time inside a DST gap; the later instant lands after the jump
+  return new Date(Math.max(guess, utc))
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Move a date by whole days and months while keeping its wall-clock time in the zone
+ */
+export function addZonedTime(
+  date: Date,
+  amount: { days?: number; months?: number },
+  timeZone: string
+): Date {
+  const parts = getZonedParts(date, timeZone)
+
+  return zonedTimeToUtc({
+    ...parts,
+    month: parts.month + (amount.months || 0),
+    day: parts.day + (amount.days || 0)
+  }, timeZone)
+}
+
+/**
+ * Days since the Unix epoch of the date's calendar day in the zone
+ */
+export function getZonedDayNumber(date: Date, timeZone: string): number {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return Math.floor(Date.UTC(year, month - 1, day) / (24 * 60 * 60 * 1000))
+}
\ No newline at end of file
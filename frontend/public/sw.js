@@ -0,0 +1,62 @@
+// Keeps the app shell available offline. Texts, notes and queued progress
+// live in IndexedDB (see src/services/offlineService.ts), so API and socket
+// traffic is left alone here.
+
+const CACHE_NAME = 'havruta-shell-v1'
+const SHELL_URLS = ['/', '/index.html']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+  if (url.pathname.startsWith('/api') || url.pathname.startsWith('/socket.io')) return
+
+  // Pages: try the network so deploys show up, fall back to the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone()
+          caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy))
+          return response
+        })
+        .catch(() => caches.match('/index.html'))
+    )
+    return
+  }
+
+  // Scripts, styles and images: serve from cache and refresh in the background
+  event.respondWith(
+    caches.open(CACHE_NAME).then((cache) =>
+      cache.match(request).then((cached) => {
+        const network = fetch(request)
+          .then((response) => {
+            if (response.ok) {
+              cache.put(request, response.clone())
+            }
+            return response
+          })
+          .catch(() => cached || Response.error())
+
+        return cached || network
+      })
+    )
+  )
+})
\ No newline at end of file
@@ -7,7 +7,7 @@ import { CollaborativeNavigationProvider } from './contexts/CollaborativeNavigat
 import { Layout, ProtectedRoute } from './components'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import ErrorNotifications from './components/ErrorNotifications'
-import { LoginPage, DashboardPage, ProfilePage, OAuthCallbackPage, AuthSuccessPage, TextViewerPage } from './pages'
+import { LoginPage, DashboardPage, ProfilePage, OAuthCallbackPage, AuthSuccessPage, TextViewerPage, InvitePage } from './pages'
 import { setupGlobalErrorHandling } from './utils/errorHandler'
 import { useEffect } from 'react'
 
@@ -54,6 +54,7 @@ function App() {
                   <Route path="/login" element={<LoginPage />} />
                   <Route path="/auth/callback" element={<OAuthCallbackPage />} />
                   <Route path="/auth/success" element={<AuthSuccessPage />} />
+                  <Route path="/invite/:token" element={<InvitePage />} />
 
                   {/* Protected routes */}
                   <Route
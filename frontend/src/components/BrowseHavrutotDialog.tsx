@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+  MenuItem,
+  Chip,
+  Card,
+  CardContent,
+  Pagination,
+} from '@mui/material'
+import { Search, Group, Link as LinkIcon } from '@mui/icons-material'
+import { havrutaService } from '../services/havrutaService'
+import { PublicHavruta } from '../types'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserTimeZone, formatInTimeZone } from '../utils/timeZone'
+
+interface BrowseHavrutotDialogProps {
+  open: boolean
+  onClose: () => void
+  linkedHavrutaId?: string | null // Havruta opened from a shared link, shown above the catalog
+  onRequested: (message: string) => void
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const PAGE_SIZE = 10
+const MAX_PARTICIPANTS = 15 // Same limit as the backend's havrutaService
+
+const BrowseHavrutotDialog: React.FC<BrowseHavrutotDialogProps> = ({
+  open,
+  onClose,
+  linkedHavrutaId,
+  onRequested,
+}) => {
+  const { state: authState } = useAuth()
+  const timeZone = getUserTimeZone(authState.user)
+  const [search, setSearch] = useState('')
+  const [book, setBook] = useState('')
+  const [day, setDay] = useState<number | ''>('')
+  const [page, setPage] = useState(1)
+  const [havrutot, setHavrutot] = useState<PublicHavruta[]>([])
+  const [totalPages, setTotalPages] = useState(0)
+  const [linkedHavruta, setLinkedHavruta] = useState<PublicHavruta | null>(null)
+  const [composingId, setComposingId] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadCatalog = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await havrutaService.getPublicHavrutot({
+        page,
+        limit: PAGE_SIZE,
+        search: search.trim() || undefined,
+        book: book.trim() || undefined,
+        day: day === '' ? undefined : day,
+      })
+      setHavrutot(result.havrutot)
+      setTotalPages(result.pagination.totalPages)
+    } catch (error) {
+      console.error('Error loading public Havrutot:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load Havrutot')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page, search, book, day])
+
+  useEffect(() => {
+    if (open) {
+      loadCatalog()
+    }
+  }, [open, loadCatalog])
+
+  useEffect(() => {
+    if (!open || !linkedHavrutaId) {
+      setLinkedHavruta(null)
+      return
+    }
+
+    havrutaService.getHavrutaPreview(linkedHavrutaId)
+      .then(setLinkedHavruta)
+      .catch((error) => {
+        console.error('Error loading shared Havruta:', error)
+        setError('This Havruta link is no longer available')
+      })
+  }, [open, linkedHavrutaId])
+
+  const updateHavruta = (id: string, changes: Partial<PublicHavruta>) => {
+    setHavrutot(prev => prev.map(havruta => havruta.id === id ? { ...havruta, ...changes } : havruta))
+    setLinkedHavruta(prev => prev && prev.id === id ? { ...prev, ...changes } : prev)
+  }
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id)
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Join request failed:', error)
+      setError(error instanceof Error ? error.message : 'Something went wrong')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRequest = (havruta: PublicHavruta) => {
+    runAction(havruta.id, async () => {
+      await havrutaService.requestToJoin(havruta.id, message.trim())
+      updateHavruta(havruta.id, { joinRequestStatus: 'pending' })
+      setComposingId(null)
+      setMessage('')
+      onRequested(`Asked to join ${havruta.name}. ${havruta.owner.name} will get back to you.`)
+    })
+  }
+
+  const handleWithdraw = (havruta: PublicHavruta) => {
+    runAction(havruta.id, async () => {
+      await havrutaService.cancelJoinRequest(havruta.id)
+      updateHavruta(havruta.id, { joinRequestStatus: null })
+    })
+  }
+
+  const handleClose = () => {
+    setComposingId(null)
+    setMessage('')
+    setError(null)
+    onClose()
+  }
+
+  const renderAction = (havruta: PublicHavruta) => {
+    if (havruta.isParticipant) {
+      return <Chip label="You're a member" size="small" color="success" />
+    }
+    if (havruta.joinRequestStatus === 'pending') {
+      return (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Chip label="Requested" size="small" color="primary" variant="outlined" />
+          <Button size="small" onClick={() => handleWithdraw(havruta)} disabled={!!busyId}>
+            Withdraw
+          </Button>
+        </Box>
+      )
+    }
+    if (havruta.joinRequestStatus === 'declined') {
+      return <Chip label="Not accepted" size="small" variant="outlined" />
+    }
+    if (havruta.participantCount >= MAX_PARTICIPANTS) {
+      return <Chip label="Full" size="small" variant="outlined" />
+    }
+    if (composingId !== havruta.id) {
+      return (
+        <Button size="small" variant="contained" onClick={() => { setComposingId(havruta.id); setMessage('') }}>
+          Ask to Join
+        </Button>
+      )
+    }
+    return null
+  }
+
+  const renderHavruta = (havruta: PublicHavruta, highlighted: boolean = false) => (
+    <Card
+      key={havruta.id}
+      variant="outlined"
+      sx={{ mb: 1.5, ...(highlighted && { borderColor: 'primary.main', borderWidth: 2 }) }}
+    >
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
+          <Box>
+            <Typography variant="h6">{havruta.name}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {havruta.bookTitle} · led by {havruta.owner.name}
+            </Typography>
+          </Box>
+          {busyId === havruta.id ? <CircularProgress size={20} /> : renderAction(havruta)}
+        </Box>
+
+        {havruta.description && (
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            {havruta.description}
+          </Typography>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+          <Chip
+            icon={<Group />}
+            label={`${havruta.participantCount}/${MAX_PARTICIPANTS}`}
+            size="small"
+            variant="outlined"
+          />
+          {havruta.sessionDays.map(weekday => (
+            <Chip key={weekday} label={DAYS[weekday]} size="small" variant="outlined" />
+          ))}
+          <Typography variant="caption" color="text.secondary">
+            {havruta.nextSessionAt
+              ? `Next session ${formatInTimeZone(havruta.nextSessionAt, timeZone)}`
+              : 'No sessions scheduled yet'}
+          </Typography>
+        </Box>
+
+        {composingId === havruta.id && (
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 2 }}>
+            <TextField
+              size="small"
+              label="Note to the owner (optional)"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              fullWidth
+              inputProps={{ maxLength: 500 }}
+            />
+            <Button onClick={() => setComposingId(null)} disabled={!!busyId}>
+              Cancel
+            </Button>
+            <Button variant="contained" onClick={() => handleRequest(havruta)} disabled={!!busyId}>
+              Send
+            </Button>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  )
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Browse Havrutot
+        <Typography variant="subtitle2" color="text.secondary">
+          Find an open group and ask to join. The owner approves each request.
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {linkedHavruta && (
+          <Box sx={{ mb: 3 }}>
+            <Typography variant="subtitle2" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <LinkIcon fontSize="small" />
+              Shared with you
+            </Typography>
+            {renderHavruta(linkedHavruta, true)}
+          </Box>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          <TextField
+            size="small"
+            label="Search"
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setPage(1) }}
+            InputProps={{ startAdornment: <Search fontSize="small" sx={{ mr: 1 }} /> }}
+            sx={{ flex: 2, minWidth: 180 }}
+          />
+          <TextField
+            size="small"
+            label="Book"
+            value={book}
+            onChange={(e) => { setBook(e.target.value); setPage(1) }}
+            placeholder="e.g., Berakhot"
+            sx={{ flex: 1, minWidth: 140 }}
+          />
+          <TextField
+            select
+            size="small"
+            label="Meets on"
+            value={day}
+            onChange={(e) => { setDay(e.target.value === '' ? '' : Number(e.target.value)); setPage(1) }}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value="">Any day</MenuItem>
+            {DAYS.map((dayName, index) => (
+              <MenuItem key={dayName} value={index}>
+                {dayName}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : havrutot.length === 0 ? (
+          <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+            No public Havrutot match your filters
+          </Typography>
+        ) : (
+          havrutot.map(havruta => renderHavruta(havruta))
+        )}
+
+        {totalPages > 1 && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+            <Pagination count={totalPages} page={page} onChange={(_, value) => setPage(value)} />
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default BrowseHavrutotDialog
\ No newline at end of file
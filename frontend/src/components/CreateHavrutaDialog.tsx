@@ -18,7 +18,7 @@ import {
 } from '@mui/material'
 import { MenuBook, Group } from '@mui/icons-material'
 import { sefariaService } from '../services/sefariaService'
-import { SefariaIndex } from '../types'
+import { HavrutaVisibility, SefariaIndex } from '../types'
 
 interface CreateHavrutaDialogProps {
   open: boolean
@@ -29,9 +29,17 @@ interface CreateHavrutaDialogProps {
     bookId: string
     bookTitle: string
     lastPlace?: string
+    visibility?: HavrutaVisibility
+    description?: string
   }) => Promise<void>
 }
 
+const VISIBILITY_OPTIONS: Array<{ value: HavrutaVisibility; label: string; helper: string }> = [
+  { value: 'private', label: 'Private', helper: 'Only people you invite can join' },
+  { value: 'link-only', label: 'Anyone with the link', helper: 'People with the link can ask to join' },
+  { value: 'public', label: 'Public', helper: 'Listed in the catalog; anyone can ask to join' },
+]
+
 // Helper function to generate common starting sections for different text types
 const generateStartingSections = (book: SefariaIndex): string[] => {
   const title = book.title
@@ -83,6 +91,8 @@ export const CreateHavrutaDialog: React.FC<CreateHavrutaDialogProps> = ({
     bookTitle: '',
     lastPlace: '',
   })
+  const [visibility, setVisibility] = useState<HavrutaVisibility>('private')
+  const [description, setDescription] = useState('')
   const [selectedBook, setSelectedBook] = useState<SefariaIndex | null>(null)
   const [indexData, setIndexData] = useState<SefariaCategory[]>([])
   const [categoryPath, setCategoryPath] = useState<CategoryLevel[]>([])
@@ -235,6 +245,8 @@ export const CreateHavrutaDialog: React.FC<CreateHavrutaDialogProps> = ({
           bookId: formData.bookId,
           bookTitle: formData.bookTitle,
           lastPlace: formData.lastPlace,
+          visibility,
+          description: description.trim(),
         })
       } else {
         // Fallback to direct service call
@@ -244,6 +256,8 @@ export const CreateHavrutaDialog: React.FC<CreateHavrutaDialogProps> = ({
           bookId: formData.bookId,
           bookTitle: formData.bookTitle,
           lastPlace: formData.lastPlace,
+          visibility,
+          description: description.trim(),
         })
       }
 
@@ -254,6 +268,8 @@ export const CreateHavrutaDialog: React.FC<CreateHavrutaDialogProps> = ({
         bookTitle: '',
         currentSection: '',
       })
+      setVisibility('private')
+      setDescription('')
       setSelectedBook(null)
       
       onSuccess()
@@ -274,6 +290,8 @@ export const CreateHavrutaDialog: React.FC<CreateHavrutaDialogProps> = ({
         bookTitle: '',
         currentSection: '',
       })
+      setVisibility('private')
+      setDescription('')
       setSelectedBook(null)
       setCategoryPath([])
       setCurrentLevel([])
@@ -481,6 +499,38 @@ export const CreateHavrutaDialog: React.FC<CreateHavrutaDialogProps> = ({
             </FormControl>
           )}
 
+          <FormControl fullWidth disabled={isSubmitting}>
+            <InputLabel>Who can join</InputLabel>
+            <Select
+              value={visibility}
+              label="Who can join"
+              onChange={(e) => setVisibility(e.target.value as HavrutaVisibility)}
+            >
+              {VISIBILITY_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+            <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+              {VISIBILITY_OPTIONS.find(option => option.value === visibility)?.helper}
+            </Typography>
+          </FormControl>
+
+          {visibility !== 'private' && (
+            <TextField
+              label="Description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., A daf a week, relaxed pace, English"
+              multiline
+              rows={2}
+              fullWidth
+              disabled={isSubmitting}
+              inputProps={{ maxLength: 500 }}
+            />
+          )}
+
           <Box sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
             <Typography variant="body2" color="text.secondary">
               <strong>Note:</strong> After creating your Havruta, you can invite study partners 
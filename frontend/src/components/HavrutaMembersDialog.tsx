@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Avatar,
+  Chip,
+  TextField,
+  MenuItem,
+  CircularProgress,
+  Divider,
+} from '@mui/material'
+import { havrutaService } from '../services/havrutaService'
+import { Havruta, HavrutaRole, ConflictStrategy } from '../types'
+import { useAuth } from '../contexts/AuthContext'
+import { ROLE_LABELS, getHavrutaRole, canHost } from '../utils/havrutaRoles'
+
+interface HavrutaMembersDialogProps {
+  open: boolean
+  onClose: () => void
+  havruta: Havruta | null
+  onChanged: (message: string) => void
+}
+
+const ASSIGNABLE_ROLES: Array<{ value: Exclude<HavrutaRole, 'owner'>; helper: string }> = [
+  { value: 'co-host', helper: 'Can start and end sessions, share and manage invite links' },
+  { value: 'participant', helper: 'Studies along, navigates the text and can invite by email' },
+  { value: 'observer', helper: 'Watches the text and video without driving navigation' },
+]
+
+const CONFLICT_STRATEGIES: Array<{ value: ConflictStrategy; label: string; helper: string }> = [
+  { value: 'last-writer-wins', label: 'Latest move wins', helper: 'Whoever moved last takes everyone along' },
+  { value: 'leader-wins', label: 'Owner decides', helper: "The owner's move wins (the leader's, in a chabura)" },
+  { value: 'vote', label: 'Agree together', helper: 'Nobody moves until everyone involved picks the same section' },
+]
+
+const HavrutaMembersDialog: React.FC<HavrutaMembersDialogProps> = ({
+  open,
+  onClose,
+  havruta,
+  onChanged,
+}) => {
+  const { state: authState } = useAuth()
+  const [roles, setRoles] = useState<Record<string, HavrutaRole>>({})
+  const [ownerId, setOwnerId] = useState<string | null>(null)
+  const [conflictStrategy, setConflictStrategy] = useState<ConflictStrategy>('last-writer-wins')
+  const [confirmingTransferTo, setConfirmingTransferTo] = useState<string | null>(null)
+  const [busyUserId, setBusyUserId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open && havruta) {
+      setRoles(Object.fromEntries(havruta.participants.map(p => [
+        p.user.id,
+        getHavrutaRole(havruta, p.user.id) || 'participant',
+      ])))
+      setOwnerId(havruta.ownerId)
+      setConflictStrategy(havruta.conflictStrategy || 'last-writer-wins')
+      setConfirmingTransferTo(null)
+      setError(null)
+    }
+  }, [open, havruta])
+
+  if (!havruta) return null
+
+  const isOwner = ownerId === authState.user?.id
+  const canChangeStrategy = canHost(authState.user ? roles[authState.user.id] || null : null)
+
+  const handleStrategyChange = async (strategy: ConflictStrategy) => {
+    setBusyUserId('strategy')
+    setError(null)
+    try {
+      await havrutaService.updateHavruta(havruta.id, { conflictStrategy: strategy })
+      setConflictStrategy(strategy)
+      onChanged(`Navigation conflicts in ${havruta.name}: ${CONFLICT_STRATEGIES.find(option => option.value === strategy)?.label.toLowerCase()}`)
+    } catch (error) {
+      console.error('Error updating conflict strategy:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update conflict strategy')
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  const handleRoleChange = async (userId: string, name: string, role: Exclude<HavrutaRole, 'owner'>) => {
+    setBusyUserId(userId)
+    setError(null)
+    try {
+      await havrutaService.updateParticipantRole(havruta.id, userId, role)
+      setRoles(prev => ({ ...prev, [userId]: role }))
+      onChanged(`${name} is now ${role === 'observer' ? 'an observer' : `a ${ROLE_LABELS[role].toLowerCase()}`}`)
+    } catch (error) {
+      console.error('Error updating participant role:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update role')
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  const handleTransfer = async (userId: string, name: string) => {
+    setBusyUserId(userId)
+    setError(null)
+    try {
+      await havrutaService.transferOwnership(havruta.id, userId)
+      setRoles(prev => ({
+        ...prev,
+        ...(ownerId ? { [ownerId]: 'co-host' } : {}),
+        [userId]: 'owner',
+      }))
+      setOwnerId(userId)
+      setConfirmingTransferTo(null)
+      onChanged(`${name} now owns ${havruta.name}. You're a co-host.`)
+    } catch (error) {
+      console.error('Error transferring ownership:', error)
+      setError(error instanceof Error ? error.message : 'Failed to transfer ownership')
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  const renderRoleControl = (userId: string, name: string) => {
+    const role = roles[userId] || 'participant'
+
+    if (!isOwner || role === 'owner') {
+      return (
+        <Chip
+          label={ROLE_LABELS[role]}
+          size="small"
+          color={role === 'owner' ? 'primary' : 'default'}
+          variant={role === 'owner' ? 'filled' : 'outlined'}
+        />
+      )
+    }
+    if (busyUserId === userId) {
+      return <CircularProgress size={20} />
+    }
+    if (confirmingTransferTo === userId) {
+      return (
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button size="small" onClick={() => setConfirmingTransferTo(null)} disabled={!!busyUserId}>
+            Cancel
+          </Button>
+          <Button size="small" variant="contained" color="warning" onClick={() => handleTransfer(userId, name)} disabled={!!busyUserId}>
+            Confirm
+          </Button>
+        </Box>
+      )
+    }
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <TextField
+          select
+          size="small"
+          value={role}
+          onChange={(e) => handleRoleChange(userId, name, e.target.value as Exclude<HavrutaRole, 'owner'>)}
+          disabled={!!busyUserId}
+          sx={{ minWidth: 140 }}
+        >
+          {ASSIGNABLE_ROLES.map(option => (
+            <MenuItem key={option.value} value={option.value}>
+              {ROLE_LABELS[option.value]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button size="small" onClick={() => setConfirmingTransferTo(userId)} disabled={!!busyUserId}>
+          Make Owner
+        </Button>
+      </Box>
+    )
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !busyUserId && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Members
+        <Typography variant="subtitle2" color="text.secondary">
+          {isOwner ? `Choose what each member of ${havruta.name} can do` : `Who studies in ${havruta.name}`}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {confirmingTransferTo && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            You'll become a co-host and lose the ability to change roles or delete this Havruta.
+          </Alert>
+        )}
+
+        {havruta.participants.map(({ user }) => (
+          <Box
+            key={user.id}
+            sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, py: 1 }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, minWidth: 0 }}>
+              <Avatar src={user.profilePicture} sx={{ width: 32, height: 32 }}>
+                {user.name.charAt(0)}
+              </Avatar>
+              <Box sx={{ minWidth: 0 }}>
+                <Typography noWrap>
+                  {user.name}{user.id === authState.user?.id ? ' (you)' : ''}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" noWrap>
+                  {user.email}
+                </Typography>
+              </Box>
+            </Box>
+            {renderRoleControl(user.id, user.name)}
+          </Box>
+        ))}
+
+        {isOwner && (
+          <Box sx={{ mt: 2 }}>
+            {ASSIGNABLE_ROLES.map(option => (
+              <Typography key={option.value} variant="caption" color="text.secondary" component="div">
+                <strong>{ROLE_LABELS[option.value]}:</strong> {option.helper}
+              </Typography>
+            ))}
+          </Box>
+        )}
+
+        <Divider sx={{ my: 3 }} />
+        <Typography variant="subtitle2" gutterBottom>
+          When two people move the text at once
+        </Typography>
+        <TextField
+          select
+          size="small"
+          fullWidth
+          value={conflictStrategy}
+          onChange={(e) => handleStrategyChange(e.target.value as ConflictStrategy)}
+          disabled={!canChangeStrategy || !!busyUserId}
+          helperText={CONFLICT_STRATEGIES.find(option => option.value === conflictStrategy)?.helper}
+        >
+          {CONFLICT_STRATEGIES.map(option => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={!!busyUserId}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default HavrutaMembersDialog
\ No newline at end of file
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  InputAdornment,
+  IconButton,
+  Divider,
+} from '@mui/material'
+import { ContentCopy } from '@mui/icons-material'
+import { havrutaService } from '../services/havrutaService'
+import { Havruta, HavrutaVisibility } from '../types'
+import InviteLinksPanel from './InviteLinksPanel'
+
+interface HavrutaSharingDialogProps {
+  open: boolean
+  onClose: () => void
+  havruta: Havruta | null
+  onSuccess: (message: string) => void
+}
+
+const VISIBILITY_OPTIONS: Array<{ value: HavrutaVisibility; label: string; helper: string }> = [
+  { value: 'private', label: 'Private', helper: 'Only people you invite by email can join' },
+  { value: 'link-only', label: 'Anyone with the link', helper: 'Not listed, but people with the link can ask to join' },
+  { value: 'public', label: 'Public', helper: 'Listed in the catalog so anyone can ask to join' },
+]
+
+const getJoinLink = (havrutaId: string) =>
+  `${window.location.origin}/dashboard?join=${encodeURIComponent(havrutaId)}`
+
+const HavrutaSharingDialog: React.FC<HavrutaSharingDialogProps> = ({
+  open,
+  onClose,
+  havruta,
+  onSuccess,
+}) => {
+  const [visibility, setVisibility] = useState<HavrutaVisibility>('private')
+  const [description, setDescription] = useState('')
+  const [copied, setCopied] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open && havruta) {
+      setVisibility(havruta.visibility || 'private')
+      setDescription(havruta.description || '')
+      setCopied(false)
+      setError(null)
+    }
+  }, [open, havruta])
+
+  const handleCopy = async () => {
+    if (!havruta) return
+    try {
+      await navigator.clipboard.writeText(getJoinLink(havruta.id))
+      setCopied(true)
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+      setError('Could not copy the link. Select it and copy it manually.')
+    }
+  }
+
+  const handleSave = async () => {
+    if (!havruta) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await havrutaService.updateHavruta(havruta.id, { visibility, description: description.trim() })
+      onSuccess(`${havruta.name} is now ${VISIBILITY_OPTIONS.find(option => option.value === visibility)?.label.toLowerCase()}`)
+      onClose()
+    } catch (error) {
+      console.error('Error updating Havruta visibility:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update sharing settings')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !isLoading && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Sharing
+        {havruta && (
+          <Typography variant="subtitle2" color="text.secondary">
+            Choose who can find and ask to join {havruta.name}
+          </Typography>
+        )}
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <RadioGroup
+          value={visibility}
+          onChange={(e) => setVisibility(e.target.value as HavrutaVisibility)}
+        >
+          {VISIBILITY_OPTIONS.map(option => (
+            <FormControlLabel
+              key={option.value}
+              value={option.value}
+              control={<Radio />}
+              label={
+                <Box>
+                  <Typography>{option.label}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {option.helper}
+                  </Typography>
+                </Box>
+              }
+              sx={{ mb: 1 }}
+            />
+          ))}
+        </RadioGroup>
+
+        {visibility !== 'private' && havruta && (
+          <>
+            <TextField
+              label="Description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., A daf a week, relaxed pace, English"
+              multiline
+              rows={2}
+              fullWidth
+              sx={{ mt: 1, mb: 2 }}
+              inputProps={{ maxLength: 500 }}
+            />
+            <TextField
+              label="Join link"
+              value={getJoinLink(havruta.id)}
+              fullWidth
+              helperText={copied ? 'Copied!' : 'Requests from this link still need your approval'}
+              InputProps={{
+                readOnly: true,
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <IconButton aria-label="Copy link" onClick={handleCopy} edge="end">
+                      <ContentCopy />
+                    </IconButton>
+                  </InputAdornment>
+                ),
+              }}
+            />
+          </>
+        )}
+
+        {havruta && (
+          <>
+            <Divider sx={{ my: 3 }} />
+            <InviteLinksPanel havrutaId={havruta.id} />
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={isLoading}
+          startIcon={isLoading ? <CircularProgress size={20} /> : null}
+        >
+          {isLoading ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default HavrutaSharingDialog
\ No newline at end of file
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  Alert,
+  Chip,
+  IconButton,
+  Tooltip,
+  Collapse,
+  CircularProgress,
+} from '@mui/material'
+import { AddLink, ContentCopy, LinkOff, ExpandMore, ExpandLess } from '@mui/icons-material'
+import { havrutaService } from '../services/havrutaService'
+import { InviteLink } from '../types'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserTimeZone, formatInTimeZone } from '../utils/timeZone'
+
+interface InviteLinksPanelProps {
+  havrutaId: string
+}
+
+const EXPIRY_OPTIONS: Array<{ value: number | ''; label: string }> = [
+  { value: '', label: 'Never expires' },
+  { value: 1, label: '1 day' },
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+]
+
+const getInviteUrl = (token: string) => `${window.location.origin}/invite/${token}`
+
+const getLinkState = (link: InviteLink): string | null => {
+  if (link.revokedAt) return 'Revoked'
+  if (link.expiresAt && new Date(link.expiresAt) < new Date()) return 'Expired'
+  if (link.maxUses !== null && link.useCount >= link.maxUses) return 'Used up'
+  return null
+}
+
+const InviteLinksPanel: React.FC<InviteLinksPanelProps> = ({ havrutaId }) => {
+  const { state: authState } = useAuth()
+  const timeZone = getUserTimeZone(authState.user)
+  const [links, setLinks] = useState<InviteLink[]>([])
+  const [maxUses, setMaxUses] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState<number | ''>(7)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const result = await havrutaService.getInviteLinks(havrutaId)
+      setLinks(result.links)
+    } catch (error) {
+      console.error('Failed to load invite links:', error)
+    }
+  }, [havrutaId])
+
+  useEffect(() => {
+    loadLinks()
+  }, [loadLinks])
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    setError(null)
+    try {
+      const link = await havrutaService.createInviteLink(havrutaId, {
+        maxUses: maxUses ? Number(maxUses) : null,
+        expiresInDays: expiresInDays === '' ? null : expiresInDays,
+      })
+      setLinks(prev => [link, ...prev])
+      setMaxUses('')
+    } catch (error) {
+      console.error('Failed to create invite link:', error)
+      setError(error instanceof Error ? error.message : 'Failed to create invite link')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleCopy = async (link: InviteLink) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(link.token))
+      setCopiedId(link.id)
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+      setError('Could not copy the link')
+    }
+  }
+
+  const handleRevoke = async (link: InviteLink) => {
+    setError(null)
+    try {
+      await havrutaService.revokeInviteLink(havrutaId, link.id)
+      setLinks(prev => prev.map(existing =>
+        existing.id === link.id ? { ...existing, revokedAt: new Date().toISOString() } : existing
+      ))
+    } catch (error) {
+      console.error('Failed to revoke invite link:', error)
+      setError(error instanceof Error ? error.message : 'Failed to revoke invite link')
+    }
+  }
+
+  return (
+    <Box>
+      <Typography variant="subtitle1" gutterBottom>
+        Invite Links
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Anyone who opens an invite link can join right away, no email needed.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+        <TextField
+          size="small"
+          type="number"
+          label="Max uses"
+          placeholder="Unlimited"
+          value={maxUses}
+          onChange={(e) => setMaxUses(e.target.value)}
+          inputProps={{ min: 1, max: 1000 }}
+          sx={{ width: 120 }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Expires"
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value === '' ? '' : Number(e.target.value))}
+          sx={{ minWidth: 150 }}
+        >
+          {EXPIRY_OPTIONS.map(option => (
+            <MenuItem key={option.label} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button
+          variant="outlined"
+          startIcon={isCreating ? <CircularProgress size={16} /> : <AddLink />}
+          onClick={handleCreate}
+          disabled={isCreating}
+        >
+          Create Link
+        </Button>
+      </Box>
+
+      {links.map(link => {
+        const inactiveReason = getLinkState(link)
+
+        return (
+          <Box key={link.id} sx={{ borderTop: 1, borderColor: 'divider', py: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography
+                variant="body2"
+                sx={{ fontFamily: 'monospace', color: inactiveReason ? 'text.disabled' : 'text.primary' }}
+              >
+                …{link.token.slice(-8)}
+              </Typography>
+              <Chip
+                size="small"
+                variant="outlined"
+                label={`${link.useCount}${link.maxUses !== null ? `/${link.maxUses}` : ''} joined`}
+                icon={expandedId === link.id ? <ExpandLess /> : <ExpandMore />}
+                onClick={() => setExpandedId(expandedId === link.id ? null : link.id)}
+              />
+              {inactiveReason ? (
+                <Chip size="small" label={inactiveReason} />
+              ) : (
+                <Typography variant="caption" color="text.secondary">
+                  {link.expiresAt ? `Expires ${formatInTimeZone(link.expiresAt, timeZone)}` : 'No expiry'}
+                </Typography>
+              )}
+              <Box sx={{ flexGrow: 1 }} />
+              {!inactiveReason && (
+                <>
+                  <Tooltip title={copiedId === link.id ? 'Copied!' : 'Copy link'}>
+                    <IconButton size="small" aria-label="Copy link" onClick={() => handleCopy(link)}>
+                      <ContentCopy fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Revoke">
+                    <IconButton size="small" aria-label="Revoke link" onClick={() => handleRevoke(link)}>
+                      <LinkOff fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </>
+              )}
+            </Box>
+            <Collapse in={expandedId === link.id}>
+              <Box sx={{ pl: 2, pt: 1 }}>
+                {link.uses.length === 0 ? (
+                  <Typography variant="caption" color="text.secondary">
+                    Nobody has joined through this link yet
+                  </Typography>
+                ) : (
+                  link.uses.map(use => (
+                    <Typography key={use.id} variant="body2">
+                      {use.user.name} · {formatInTimeZone(use.joinedAt, timeZone)}
+                    </Typography>
+                  ))
+                )}
+              </Box>
+            </Collapse>
+          </Box>
+        )
+      })}
+    </Box>
+  )
+}
+
+export default InviteLinksPanel
\ No newline at end of file
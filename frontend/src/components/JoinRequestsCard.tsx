@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  Alert,
+  Avatar,
+  CircularProgress,
+} from '@mui/material'
+import { PersonAdd } from '@mui/icons-material'
+import { havrutaService } from '../services/havrutaService'
+import { JoinRequest } from '../types'
+
+interface JoinRequestsCardProps {
+  onResponded: (message: string) => void
+}
+
+const JoinRequestsCard: React.FC<JoinRequestsCardProps> = ({ onResponded }) => {
+  const [requests, setRequests] = useState<JoinRequest[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const result = await havrutaService.getJoinRequests()
+      setRequests(result.requests)
+    } catch (error) {
+      console.error('Failed to load join requests:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRequests()
+  }, [loadRequests])
+
+  const handleRespond = async (request: JoinRequest, approve: boolean) => {
+    setBusyId(request.id)
+    setError(null)
+    try {
+      await havrutaService.respondToJoinRequest(request.havrutaId, request.id, approve)
+      setRequests(prev => prev.filter(existing => existing.id !== request.id))
+      onResponded(approve
+        ? `${request.user.name} joined ${request.havruta.name}`
+        : `Declined ${request.user.name}'s request`)
+    } catch (error) {
+      console.error('Failed to respond to join request:', error)
+      setError(error instanceof Error ? error.message : 'Something went wrong')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (requests.length === 0) {
+    return null
+  }
+
+  return (
+    <Box sx={{ mb: 4 }}>
+      <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <PersonAdd color="primary" />
+        Join Requests ({requests.length})
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Card elevation={2}>
+        <CardContent>
+          {requests.map(request => (
+            <Box
+              key={request.id}
+              sx={{ display: 'flex', alignItems: 'center', gap: 1.5, py: 1, flexWrap: 'wrap' }}
+            >
+              <Avatar src={request.user.profilePicture || undefined}>
+                {request.user.name.charAt(0)}
+              </Avatar>
+              <Box sx={{ flexGrow: 1, minWidth: 200 }}>
+                <Typography>
+                  <strong>{request.user.name}</strong> wants to join {request.havruta.name}
+                </Typography>
+                {request.message && (
+                  <Typography variant="body2" color="text.secondary">
+                    "{request.message}"
+                  </Typography>
+                )}
+              </Box>
+              {busyId === request.id && <CircularProgress size={16} />}
+              <Button size="small" onClick={() => handleRespond(request, false)} disabled={!!busyId}>
+                Decline
+              </Button>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={() => handleRespond(request, true)}
+                disabled={!!busyId}
+              >
+                Approve
+              </Button>
+            </Box>
+          ))}
+        </CardContent>
+      </Card>
+    </Box>
+  )
+}
+
+export default JoinRequestsCard
\ No newline at end of file
@@ -15,6 +15,7 @@ import {
 import { AccountCircle, Dashboard, Person, Schedule } from '@mui/icons-material'
 import { useAuth } from '../../contexts/AuthContext'
 import { useNavigate, useLocation } from 'react-router-dom'
+import NotificationBell from './NotificationBell'
 
 const Header: React.FC = () => {
   const { state: authState, logout } = useAuth()
@@ -100,6 +101,7 @@ const Header: React.FC = () => {
             <Typography variant="body2" sx={{ mr: 2 }}>
               Welcome, {authState.user?.name}
             </Typography>
+            {authState.user && <NotificationBell userId={authState.user.id} />}
             <IconButton
               size="large"
               aria-label="account of current user"
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Badge,
+  Box,
+  IconButton,
+  Menu,
+  MenuItem,
+  Typography,
+} from '@mui/material'
+import { Notifications } from '@mui/icons-material'
+import { useNavigate } from 'react-router-dom'
+import { schedulingService } from '../../services/schedulingService'
+import { socketService } from '../../services/socketService'
+import { UserNotification } from '../../types'
+
+interface NotificationBellProps {
+  userId: string
+}
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ userId }) => {
+  const navigate = useNavigate()
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+
+    schedulingService.getNotifications(userId)
+      .then(result => {
+        if (!cancelled) setNotifications(result.notifications)
+      })
+      .catch(error => {
+        console.error('Failed to load notifications:', error)
+      })
+
+    const handleNotification = (notification: UserNotification) => {
+      setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)])
+    }
+
+    socketService.on('notification', handleNotification)
+
+    return () => {
+      cancelled = true
+      socketService.off('notification', handleNotification)
+    }
+  }, [userId])
+
+  const unreadCount = notifications.filter(n => !n.readAt).length
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget)
+  }
+
+  const handleClose = () => {
+    setAnchorEl(null)
+  }
+
+  const handleSelect = async (notification: UserNotification) => {
+    handleClose()
+
+    if (!notification.readAt) {
+      setNotifications(prev => prev.map(n =>
+        n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n
+      ))
+      try {
+        await schedulingService.markNotificationAsRead(notification.id)
+      } catch (error) {
+        console.error('Failed to mark notification as read:', error)
+      }
+    }
+
+    if (notification.metadata?.joinUrl) {
+      navigate(notification.metadata.joinUrl)
+    }
+  }
+
+  return (
+    <>
+      <IconButton
+        size="large"
+        aria-label={`${unreadCount} unread notifications`}
+        aria-controls="menu-notifications"
+        aria-haspopup="true"
+        onClick={handleOpen}
+        color="inherit"
+      >
+        <Badge badgeContent={unreadCount} color="error">
+          <Notifications />
+        </Badge>
+      </IconButton>
+      <Menu
+        id="menu-notifications"
+        anchorEl={anchorEl}
+        anchorOrigin={{
+          vertical: 'bottom',
+          horizontal: 'right',
+        }}
+        transformOrigin={{
+          vertical: 'top',
+          horizontal: 'right',
+        }}
+        open={Boolean(anchorEl)}
+        onClose={handleClose}
+        PaperProps={{ sx: { width: 360, maxHeight: 420 } }}
+      >
+        {notifications.length === 0 ? (
+          <MenuItem disabled>
+            <Typography variant="body2">No notifications yet</Typography>
+          </MenuItem>
+        ) : (
+          notifications.map(notification => (
+            <MenuItem
+              key={notification.id}
+              onClick={() => handleSelect(notification)}
+              sx={{ whiteSpace: 'normal', alignItems: 'flex-start' }}
+            >
+              <Box>
+                <Typography
+                  variant="body2"
+                  sx={{ fontWeight: notification.readAt ? 'normal' : 'bold' }}
+                >
+                  {notification.message}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {new Date(notification.sentAt || notification.scheduledFor).toLocaleString()}
+                </Typography>
+              </Box>
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+    </>
+  )
+}
+
+export default NotificationBell
\ No newline at end of file
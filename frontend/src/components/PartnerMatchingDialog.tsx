@@ -0,0 +1,459 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+  IconButton,
+  MenuItem,
+  Chip,
+  Autocomplete,
+  FormControlLabel,
+  Switch,
+  Tabs,
+  Tab,
+  Card,
+  CardContent,
+  Avatar,
+} from '@mui/material'
+import { Add, Delete } from '@mui/icons-material'
+import { matchingService } from '../services/matchingService'
+import {
+  AvailabilityWindow,
+  MatchingLanguage,
+  MatchingLevel,
+  MatchRequest,
+  MatchSuggestion,
+} from '../types'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserTimeZone } from '../utils/timeZone'
+
+interface PartnerMatchingDialogProps {
+  open: boolean
+  onClose: () => void
+  onMatched: (message: string) => void
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const MAX_WINDOWS = 21
+
+const LANGUAGE_OPTIONS: Array<{ value: MatchingLanguage; label: string }> = [
+  { value: 'either', label: 'Hebrew or English' },
+  { value: 'hebrew', label: 'Hebrew' },
+  { value: 'english', label: 'English' },
+]
+
+const LEVEL_OPTIONS: Array<{ value: MatchingLevel; label: string }> = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+]
+
+const formatOverlap = (minutes: number) => {
+  if (minutes === 0) return 'No shared free time yet'
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return `${hours > 0 ? `${hours}h ` : ''}${rest > 0 ? `${rest}m ` : ''}free together each week`
+}
+
+const PartnerMatchingDialog: React.FC<PartnerMatchingDialogProps> = ({
+  open,
+  onClose,
+  onMatched,
+}) => {
+  const { state: authState } = useAuth()
+  const timeZone = getUserTimeZone(authState.user)
+  const [tab, setTab] = useState(0)
+  const [books, setBooks] = useState<string[]>([])
+  const [language, setLanguage] = useState<MatchingLanguage>('either')
+  const [level, setLevel] = useState<MatchingLevel>('beginner')
+  const [availability, setAvailability] = useState<AvailabilityWindow[]>([])
+  const [bio, setBio] = useState('')
+  const [isPublished, setIsPublished] = useState(true)
+  const [hasProfile, setHasProfile] = useState(false)
+  const [suggestions, setSuggestions] = useState<MatchSuggestion[]>([])
+  const [incoming, setIncoming] = useState<MatchRequest[]>([])
+  const [outgoing, setOutgoing] = useState<MatchRequest[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMatches = useCallback(async () => {
+    const [suggestionResult, requestResult] = await Promise.all([
+      matchingService.getSuggestions(),
+      matchingService.getRequests(),
+    ])
+    setSuggestions(suggestionResult.suggestions)
+    setIncoming(requestResult.incoming)
+    setOutgoing(requestResult.outgoing)
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+
+    const load = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const { profile } = await matchingService.getProfile()
+        if (profile) {
+          setBooks(profile.books)
+          setLanguage(profile.language)
+          setLevel(profile.level)
+          setAvailability(profile.availability)
+          setBio(profile.bio)
+          setIsPublished(profile.isPublished)
+          setHasProfile(true)
+          setTab(1)
+          await loadMatches()
+        } else {
+          setHasProfile(false)
+          setTab(0)
+        }
+      } catch (error) {
+        console.error('Error loading matching profile:', error)
+        setError(error instanceof Error ? error.message : 'Failed to load partner matching')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    load()
+  }, [open, loadMatches])
+
+  const handleClose = () => {
+    if (!isLoading) {
+      setError(null)
+      onClose()
+    }
+  }
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setAvailability(prev => prev.map((window, i) => i === index ? { ...window, ...changes } : window))
+  }
+
+  const handleSaveProfile = async () => {
+    if (books.length === 0) {
+      setError('Add at least one book you want to learn')
+      return
+    }
+    if (availability.some(window => window.start >= window.end)) {
+      setError('Each time window must end after it starts')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await matchingService.saveProfile({ books, language, level, availability, bio: bio.trim(), isPublished })
+      setHasProfile(true)
+      await loadMatches()
+      setTab(1)
+    } catch (error) {
+      console.error('Error saving matching profile:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save matching profile')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id)
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Match action failed:', error)
+      setError(error instanceof Error ? error.message : 'Something went wrong')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRequest = (suggestion: MatchSuggestion, bookTitle: string) => {
+    runAction(`${suggestion.user.id}:${bookTitle}`, async () => {
+      const result = await matchingService.sendRequest(suggestion.user.id, bookTitle)
+      if (result.havrutaId) {
+        onMatched(`You and ${suggestion.user.name} are now learning ${bookTitle} together`)
+      }
+      await loadMatches()
+    })
+  }
+
+  const handleRespond = (request: MatchRequest, accept: boolean) => {
+    runAction(request.id, async () => {
+      await matchingService.respondToRequest(request.id, accept)
+      if (accept) {
+        onMatched(`You and ${request.requester?.name || 'your new partner'} are now learning ${request.bookTitle} together`)
+      }
+      await loadMatches()
+    })
+  }
+
+  const renderProfile = () => (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+      <Autocomplete
+        multiple
+        freeSolo
+        options={[] as string[]}
+        value={books}
+        onChange={(_, value) => setBooks(value.map(book => book.trim()).filter(Boolean).slice(0, 20))}
+        renderTags={(value, getTagProps) =>
+          value.map((book, index) => (
+            <Chip label={book} size="small" {...getTagProps({ index })} key={book} />
+          ))
+        }
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label="Books you want to learn"
+            placeholder="e.g., Berakhot, then press Enter"
+            helperText="Use the book titles as they appear in the library"
+          />
+        )}
+      />
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <TextField
+          select
+          label="Language"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as MatchingLanguage)}
+          fullWidth
+        >
+          {LANGUAGE_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Level"
+          value={level}
+          onChange={(e) => setLevel(e.target.value as MatchingLevel)}
+          fullWidth
+        >
+          {LEVEL_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          When you're free each week (in {timeZone})
+        </Typography>
+        {availability.map((window, index) => (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <TextField
+              select
+              size="small"
+              value={window.day}
+              onChange={(e) => updateWindow(index, { day: Number(e.target.value) })}
+              sx={{ minWidth: 140 }}
+            >
+              {DAYS.map((day, dayIndex) => (
+                <MenuItem key={day} value={dayIndex}>
+                  {day}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              type="time"
+              size="small"
+              value={window.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+            />
+            <Typography variant="body2">to</Typography>
+            <TextField
+              type="time"
+              size="small"
+              value={window.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+            />
+            <IconButton
+              aria-label="Remove time window"
+              onClick={() => setAvailability(prev => prev.filter((_, i) => i !== index))}
+            >
+              <Delete />
+            </IconButton>
+          </Box>
+        ))}
+        <Button
+          size="small"
+          startIcon={<Add />}
+          onClick={() => setAvailability(prev => [...prev, { day: 0, start: '20:00', end: '21:00' }])}
+          disabled={availability.length >= MAX_WINDOWS}
+        >
+          Add Time Window
+        </Button>
+      </Box>
+
+      <TextField
+        label="About you (optional)"
+        value={bio}
+        onChange={(e) => setBio(e.target.value)}
+        multiline
+        rows={2}
+        fullWidth
+        inputProps={{ maxLength: 500 }}
+      />
+
+      <FormControlLabel
+        control={<Switch checked={isPublished} onChange={(e) => setIsPublished(e.target.checked)} />}
+        label="Let others find me as a partner"
+      />
+    </Box>
+  )
+
+  const renderSuggestions = () => {
+    if (suggestions.length === 0) {
+      return (
+        <Typography color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+          No matches yet. Try adding more books or time windows to your profile.
+        </Typography>
+      )
+    }
+
+    return suggestions.map(suggestion => (
+      <Card key={suggestion.user.id} variant="outlined" sx={{ mb: 1.5 }}>
+        <CardContent>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 1 }}>
+            <Avatar src={suggestion.user.profilePicture || undefined}>
+              {suggestion.user.name.charAt(0)}
+            </Avatar>
+            <Box>
+              <Typography variant="subtitle1">{suggestion.user.name}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {suggestion.profile.level} · {formatOverlap(suggestion.overlapMinutes)}
+              </Typography>
+            </Box>
+          </Box>
+          {suggestion.profile.bio && (
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              {suggestion.profile.bio}
+            </Typography>
+          )}
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {suggestion.sharedBooks.map(book => {
+              const actionId = `${suggestion.user.id}:${book}`
+              return (
+                <Button
+                  key={book}
+                  size="small"
+                  variant="outlined"
+                  onClick={() => handleRequest(suggestion, book)}
+                  disabled={!!busyId}
+                  startIcon={busyId === actionId ? <CircularProgress size={14} /> : null}
+                >
+                  Learn {book}
+                </Button>
+              )
+            })}
+          </Box>
+        </CardContent>
+      </Card>
+    ))
+  }
+
+  const renderRequests = () => {
+    if (incoming.length === 0 && outgoing.length === 0) {
+      return (
+        <Typography color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+          No pending requests
+        </Typography>
+      )
+    }
+
+    return (
+      <Box>
+        {incoming.map(request => (
+          <Box key={request.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 1 }}>
+            <Typography sx={{ flexGrow: 1 }}>
+              <strong>{request.requester?.name}</strong> wants to learn {request.bookTitle} with you
+            </Typography>
+            {busyId === request.id && <CircularProgress size={16} />}
+            <Button size="small" onClick={() => handleRespond(request, false)} disabled={!!busyId}>
+              Decline
+            </Button>
+            <Button size="small" variant="contained" onClick={() => handleRespond(request, true)} disabled={!!busyId}>
+              Accept
+            </Button>
+          </Box>
+        ))}
+        {outgoing.map(request => (
+          <Box key={request.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 1 }}>
+            <Typography sx={{ flexGrow: 1 }} color="text.secondary">
+              Waiting for {request.recipient?.name} to answer about {request.bookTitle}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+    )
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Find a Partner
+        <Typography variant="subtitle2" color="text.secondary">
+          Meet learners who want the same books, at your level and in your language
+        </Typography>
+      </DialogTitle>
+
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ px: 3 }}>
+        <Tab label="My Profile" />
+        <Tab label="Suggestions" disabled={!hasProfile} />
+        <Tab label={`Requests${incoming.length > 0 ? ` (${incoming.length})` : ''}`} disabled={!hasProfile} />
+      </Tabs>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading && tab !== 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            {tab === 0 && renderProfile()}
+            {tab === 1 && renderSuggestions()}
+            {tab === 2 && renderRequests()}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isLoading}>
+          Close
+        </Button>
+        {tab === 0 && (
+          <Button
+            onClick={handleSaveProfile}
+            variant="contained"
+            disabled={isLoading || books.length === 0}
+            startIcon={isLoading ? <CircularProgress size={20} /> : null}
+          >
+            {isLoading ? 'Saving...' : hasProfile ? 'Save Profile' : 'Save & Find Matches'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default PartnerMatchingDialog
\ No newline at end of file
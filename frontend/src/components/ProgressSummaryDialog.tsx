@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  LinearProgress,
+  Tooltip,
+  Alert,
+  CircularProgress,
+  Divider,
+} from '@mui/material'
+import { alpha, useTheme } from '@mui/material/styles'
+import { havrutaService } from '../services/havrutaService'
+import { Havruta, ProgressSummary } from '../types'
+
+interface ProgressSummaryDialogProps {
+  open: boolean
+  onClose: () => void
+  havruta: Havruta | null
+}
+
+const CELL_SIZE = 14
+
+const ProgressSummaryDialog: React.FC<ProgressSummaryDialogProps> = ({
+  open,
+  onClose,
+  havruta,
+}) => {
+  const theme = useTheme()
+  const [summary, setSummary] = useState<ProgressSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open || !havruta) return
+
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    havrutaService.getProgressSummary(havruta.id)
+      .then(result => {
+        if (!cancelled) setSummary(result)
+      })
+      .catch(error => {
+        console.error('Failed to load progress summary:', error)
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to load progress')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, havruta])
+
+  // One cell per chapter (or amud), shaded by how much of it has been covered
+  const renderHeatmap = (coverage: number[]) => (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '3px' }}>
+      {summary!.sections.map((section, index) => (
+        <Tooltip
+          key={section.ref}
+          title={`${section.ref}: ${Math.round(coverage[index] * 100)}%`}
+          arrow
+        >
+          <Box
+            sx={{
+              width: CELL_SIZE,
+              height: CELL_SIZE,
+              borderRadius: 0.5,
+              bgcolor: coverage[index] > 0
+                ? alpha(theme.palette.success.main, 0.25 + coverage[index] * 0.75)
+                : theme.palette.action.hover,
+            }}
+          />
+        </Tooltip>
+      ))}
+    </Box>
+  )
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Progress
+        {havruta && (
+          <Typography variant="subtitle2" color="text.secondary">
+            for {havruta.name} - {havruta.bookTitle}
+          </Typography>
+        )}
+      </DialogTitle>
+
+      <DialogContent>
+        {isLoading && (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!isLoading && summary && (
+          <>
+            <Typography variant="h6" gutterBottom>
+              {summary.percentComplete}% of {summary.bookTitle} complete
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={summary.percentComplete}
+              sx={{ height: 8, borderRadius: 4, mb: 2 }}
+            />
+            {renderHeatmap(summary.sections.map(section => section.coverage))}
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              {summary.totalSections} {summary.sectionName.toLowerCase()} sections · darker cells are more complete
+            </Typography>
+
+            <Divider sx={{ my: 2 }} />
+
+            {summary.participants.map(participant => (
+              <Box key={participant.user.id} sx={{ mb: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 0.5 }}>
+                  <Typography variant="subtitle2">
+                    {participant.user.name}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {participant.percentComplete}%
+                    {participant.lastSection && ` · last at ${participant.lastSection}`}
+                    {participant.totalTimeStudied > 0 && ` · ${participant.totalTimeStudied} min`}
+                  </Typography>
+                </Box>
+                {renderHeatmap(participant.sections)}
+              </Box>
+            ))}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default ProgressSummaryDialog
\ No newline at end of file
@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material'
+import { schedulingService, SeriesOccurrence } from '../services/schedulingService'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  getUserTimeZone,
+  formatInTimeZone,
+  toDateTimeInputValue,
+  fromDateTimeInputValue,
+} from '../utils/timeZone'
+
+interface RecurringSeriesDialogProps {
+  open: boolean
+  onClose: () => void
+  patternId: string | null
+  havrutaName: string
+  onChanged: () => void
+}
+
+const RecurringSeriesDialog: React.FC<RecurringSeriesDialogProps> = ({
+  open,
+  onClose,
+  patternId,
+  havrutaName,
+  onChanged,
+}) => {
+  const { state: authState } = useAuth()
+  const timeZone = getUserTimeZone(authState.user)
+  const [occurrences, setOccurrences] = useState<SeriesOccurrence[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editStartTime, setEditStartTime] = useState('')
+  const [editSection, setEditSection] = useState('')
+
+  const loadSeries = useCallback(async () => {
+    if (!patternId) return
+
+    setIsLoading(true)
+    try {
+      const result = await schedulingService.getSeries(patternId)
+      setOccurrences(result.sessions)
+      setError(null)
+    } catch (error) {
+      console.error('Failed to load series:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load series')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [patternId])
+
+  useEffect(() => {
+    if (open) {
+      setEditingId(null)
+      loadSeries()
+    }
+  }, [open, loadSeries])
+
+  // Apply a change to one occurrence, then reload so the list reflects the server
+  const runChange = async (sessionId: string, change: () => Promise<unknown>) => {
+    setSavingId(sessionId)
+    setError(null)
+    try {
+      await change()
+      setEditingId(null)
+      await loadSeries()
+      onChanged()
+    } catch (error) {
+      console.error('Failed to update occurrence:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update occurrence')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleEdit = (occurrence: SeriesOccurrence) => {
+    setEditingId(occurrence.id)
+    setEditStartTime(toDateTimeInputValue(new Date(occurrence.startTime), timeZone))
+    setEditSection(occurrence.startingSection)
+  }
+
+  const handleSave = (occurrence: SeriesOccurrence) => {
+    const startTime = fromDateTimeInputValue(editStartTime, timeZone).toISOString()
+    runChange(occurrence.id, () => schedulingService.updateOccurrence(occurrence.id, {
+      ...(startTime !== new Date(occurrence.startTime).toISOString() && { startTime }),
+      ...(editSection !== occurrence.startingSection && { startingSection: editSection }),
+    }))
+  }
+
+  const isChangeable = (occurrence: SeriesOccurrence) =>
+    (occurrence.status === 'scheduled' || occurrence.status === 'cancelled') &&
+    new Date(occurrence.startTime) > new Date()
+
+  const renderExceptionChips = (occurrence: SeriesOccurrence) => {
+    const { exception } = occurrence
+    if (!exception) return null
+
+    const isMoved = new Date(exception.originalStartTime).getTime() !== new Date(occurrence.startTime).getTime()
+    const isRepointed = exception.originalStartingSection !== occurrence.startingSection
+
+    return (
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+        {exception.isSkipped && (
+          <Chip label={exception.reason ? `Skipped for ${exception.reason}` : 'Skipped'} size="small" color="warning" />
+        )}
+        {isMoved && (
+          <Chip
+            label={`Moved from ${formatInTimeZone(exception.originalStartTime, timeZone)}${exception.reason ? ` for ${exception.reason}` : ''}`}
+            size="small"
+            color="info"
+            variant="outlined"
+          />
+        )}
+        {isRepointed && (
+          <Chip
+            label={`Planned start: ${exception.originalStartingSection || 'where you left off'}`}
+            size="small"
+            variant="outlined"
+          />
+        )}
+      </Box>
+    )
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Recurring Sessions
+        <Typography variant="subtitle2" color="text.secondary">
+          {havrutaName} · times in {timeZone}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading && occurrences.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <List dense>
+            {occurrences.map(occurrence => (
+              <ListItem
+                key={occurrence.id}
+                divider
+                sx={{ flexDirection: 'column', alignItems: 'stretch' }}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <ListItemText
+                    primary={formatInTimeZone(occurrence.startTime, timeZone)}
+                    secondary={occurrence.startingSection ? `Starts at ${occurrence.startingSection}` : undefined}
+                    sx={{
+                      textDecoration: occurrence.status === 'cancelled' ? 'line-through' : 'none',
+                      color: occurrence.status === 'cancelled' ? 'text.disabled' : 'text.primary',
+                    }}
+                  />
+                  {savingId === occurrence.id && <CircularProgress size={16} />}
+                  {isChangeable(occurrence) && editingId !== occurrence.id && (
+                    <>
+                      {occurrence.status === 'scheduled' && (
+                        <Button size="small" onClick={() => handleEdit(occurrence)} disabled={!!savingId}>
+                          Change
+                        </Button>
+                      )}
+                      <Button
+                        size="small"
+                        disabled={!!savingId}
+                        onClick={() => runChange(occurrence.id, () => schedulingService.updateOccurrence(occurrence.id, {
+                          isSkipped: occurrence.status !== 'cancelled',
+                        }))}
+                      >
+                        {occurrence.status === 'cancelled' ? 'Unskip' : 'Skip'}
+                      </Button>
+                      {occurrence.exception && (
+                        <Button
+                          size="small"
+                          disabled={!!savingId}
+                          onClick={() => runChange(occurrence.id, () => schedulingService.restoreOccurrence(occurrence.id))}
+                        >
+                          Undo Changes
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </Box>
+
+                {renderExceptionChips(occurrence)}
+
+                {editingId === occurrence.id && (
+                  <Box sx={{ display: 'flex', gap: 1, mt: 1, alignItems: 'center' }}>
+                    <TextField
+                      label="Start Time"
+                      type="datetime-local"
+                      size="small"
+                      value={editStartTime}
+                      onChange={(e) => setEditStartTime(e.target.value)}
+                      InputLabelProps={{ shrink: true }}
+                      inputProps={{ min: toDateTimeInputValue(new Date(), timeZone) }}
+                    />
+                    <TextField
+                      label="Start at"
+                      size="small"
+                      value={editSection}
+                      onChange={(e) => setEditSection(e.target.value)}
+                      placeholder="e.g., Berakhot 5a"
+                    />
+                    <Button
+                      size="small"
+                      variant="contained"
+                      onClick={() => handleSave(occurrence)}
+                      disabled={!editStartTime || !!savingId}
+                    >
+                      Save
+                    </Button>
+                    <Button size="small" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                  </Box>
+                )}
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default RecurringSeriesDialog
\ No newline at end of file
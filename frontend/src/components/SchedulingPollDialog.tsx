@@ -0,0 +1,171 @@
+import React, { useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+  IconButton,
+} from '@mui/material'
+import { Add, Delete } from '@mui/icons-material'
+import { schedulingService } from '../services/schedulingService'
+import { Havruta } from '../types'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserTimeZone, toDateTimeInputValue, fromDateTimeInputValue } from '../utils/timeZone'
+
+interface SchedulingPollDialogProps {
+  open: boolean
+  onClose: () => void
+  havruta: Havruta | null
+  onSuccess: (message: string) => void
+}
+
+const MAX_SLOTS = 20
+
+const SchedulingPollDialog: React.FC<SchedulingPollDialogProps> = ({
+  open,
+  onClose,
+  havruta,
+  onSuccess,
+}) => {
+  const { state: authState } = useAuth()
+  const timeZone = getUserTimeZone(authState.user)
+  const [title, setTitle] = useState('')
+  const [slots, setSlots] = useState<string[]>([''])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const resetForm = () => {
+    setTitle('')
+    setSlots([''])
+    setError(null)
+  }
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose()
+      resetForm()
+    }
+  }
+
+  const updateSlot = (index: number, value: string) => {
+    setSlots(prev => prev.map((slot, i) => i === index ? value : slot))
+  }
+
+  const handleCreate = async () => {
+    if (!havruta) return
+
+    const startTimes = slots.filter(Boolean).map(slot => fromDateTimeInputValue(slot, timeZone))
+    if (startTimes.length === 0) {
+      setError('Add at least one time')
+      return
+    }
+    if (startTimes.some(startTime => startTime <= new Date())) {
+      setError('All times must be in the future')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await schedulingService.createPoll({
+        havrutaId: havruta.id,
+        title: title.trim(),
+        timeZone,
+        slots: startTimes.map(startTime => startTime.toISOString()),
+      })
+      onSuccess(`Poll sent to ${havruta.name}`)
+      onClose()
+      resetForm()
+    } catch (error) {
+      console.error('Error creating poll:', error)
+      setError(error instanceof Error ? error.message : 'Failed to create poll')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Find a Time
+        {havruta && (
+          <Typography variant="subtitle2" color="text.secondary">
+            Propose times for {havruta.name} and let everyone mark when they're free
+          </Typography>
+        )}
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TextField
+          label="Title (optional)"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="e.g., New weekly time for the winter"
+          fullWidth
+          sx={{ mt: 1, mb: 2 }}
+          inputProps={{ maxLength: 200 }}
+        />
+
+        <Typography variant="subtitle2" gutterBottom>
+          Times (in {timeZone})
+        </Typography>
+        {slots.map((slot, index) => (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <TextField
+              type="datetime-local"
+              size="small"
+              value={slot}
+              onChange={(e) => updateSlot(index, e.target.value)}
+              fullWidth
+              inputProps={{ min: toDateTimeInputValue(new Date(), timeZone) }}
+            />
+            <IconButton
+              aria-label="Remove time"
+              onClick={() => setSlots(prev => prev.filter((_, i) => i !== index))}
+              disabled={slots.length === 1}
+            >
+              <Delete />
+            </IconButton>
+          </Box>
+        ))}
+        <Button
+          size="small"
+          startIcon={<Add />}
+          onClick={() => setSlots(prev => [...prev, ''])}
+          disabled={slots.length >= MAX_SLOTS}
+        >
+          Add Time
+        </Button>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleCreate}
+          variant="contained"
+          disabled={isLoading || !slots.some(Boolean)}
+          startIcon={isLoading ? <CircularProgress size={20} /> : null}
+        >
+          {isLoading ? 'Sending...' : 'Send Poll'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default SchedulingPollDialog
\ No newline at end of file
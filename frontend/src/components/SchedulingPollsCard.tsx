@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  Chip,
+  Alert,
+  IconButton,
+  TextField,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
+  Divider,
+} from '@mui/material'
+import { HowToVote, Delete } from '@mui/icons-material'
+import {
+  schedulingService,
+  SchedulingPoll,
+  PollSlot,
+  PollAvailability,
+  RecurrencePattern,
+} from '../services/schedulingService'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserTimeZone, formatInTimeZone } from '../utils/timeZone'
+import { canHost } from '../utils/havrutaRoles'
+
+interface SchedulingPollsCardProps {
+  refreshKey: number // Bump to reload after a poll is created elsewhere
+  onScheduled: (message: string) => void
+}
+
+const FREQUENCY_OPTIONS: Array<{ value: RecurrencePattern['frequency']; label: string }> = [
+  { value: 'once', label: 'Just once' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'bi-weekly', label: 'Every 2 weeks' },
+  { value: 'daily', label: 'Every day' },
+  { value: 'monthly', label: 'Every month' },
+]
+
+const countResponses = (slot: PollSlot, availability: PollAvailability) =>
+  slot.responses.filter(response => response.availability === availability).length
+
+// Same ranking the server uses: most "yes", then most "maybe", then earliest
+const getBestSlotId = (slots: PollSlot[]): string | null => {
+  const now = new Date()
+  const [best] = slots
+    .filter(slot => new Date(slot.startTime) > now)
+    .sort((a, b) =>
+      countResponses(b, 'yes') - countResponses(a, 'yes') ||
+      countResponses(b, 'maybe') - countResponses(a, 'maybe') ||
+      new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    )
+  return best ? best.id : null
+}
+
+const SchedulingPollsCard: React.FC<SchedulingPollsCardProps> = ({ refreshKey, onScheduled }) => {
+  const { state: authState } = useAuth()
+  const userId = authState.user?.id
+  const timeZone = getUserTimeZone(authState.user)
+  const [polls, setPolls] = useState<SchedulingPoll[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [frequencies, setFrequencies] = useState<Record<string, RecurrencePattern['frequency']>>({})
+
+  const loadPolls = useCallback(async () => {
+    try {
+      const result = await schedulingService.getPolls()
+      setPolls(result.polls)
+    } catch (error) {
+      console.error('Failed to load polls:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPolls()
+  }, [loadPolls, refreshKey])
+
+  const replacePoll = (poll: SchedulingPoll) => {
+    setPolls(prev => prev.map(existing => existing.id === poll.id ? poll : existing))
+  }
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id)
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Poll action failed:', error)
+      setError(error instanceof Error ? error.message : 'Something went wrong')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRespond = (poll: SchedulingPoll, slot: PollSlot, availability: PollAvailability | null) => {
+    if (!availability) return
+    runAction(slot.id, async () => {
+      const result = await schedulingService.respondToPoll(poll.id, [{ slotId: slot.id, availability }])
+      replacePoll(result.poll)
+    })
+  }
+
+  const handleSchedule = (poll: SchedulingPoll, slot: PollSlot) => {
+    const frequency = frequencies[poll.id] || 'once'
+    runAction(slot.id, async () => {
+      const result = await schedulingService.convertPoll(poll.id, {
+        slotId: slot.id,
+        recurrencePattern: { frequency },
+      })
+      setPolls(prev => prev.filter(existing => existing.id !== poll.id))
+      onScheduled(frequency === 'once'
+        ? `Scheduled ${poll.havruta.name} for ${formatInTimeZone(slot.startTime, timeZone)}`
+        : `Scheduled ${result.sessions.length} sessions for ${poll.havruta.name}`)
+    })
+  }
+
+  const handleDelete = (poll: SchedulingPoll) => {
+    runAction(poll.id, async () => {
+      await schedulingService.deletePoll(poll.id)
+      setPolls(prev => prev.filter(existing => existing.id !== poll.id))
+    })
+  }
+
+  if (polls.length === 0) {
+    return null
+  }
+
+  return (
+    <Box sx={{ mb: 4 }}>
+      <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <HowToVote color="primary" />
+        Finding a Time ({polls.length})
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {polls.map(poll => {
+        const role = poll.havruta.ownerId === userId
+          ? 'owner'
+          : poll.havruta.participants.find(participant => participant.user.id === userId)?.role || null
+        const canSchedule = canHost(role)
+        const bestSlotId = getBestSlotId(poll.slots)
+        const responded = new Set(poll.slots.flatMap(slot => slot.responses.map(response => response.user.id)))
+
+        return (
+          <Card key={poll.id} elevation={2} sx={{ mb: 2 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
+                <Box>
+                  <Typography variant="h6">
+                    {poll.havruta.name}{poll.title && ` · ${poll.title}`}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {responded.size} of {poll.havruta.participants.length} have answered · times in {timeZone}
+                  </Typography>
+                </Box>
+                {canSchedule && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <TextField
+                      select
+                      size="small"
+                      label="Repeat"
+                      value={frequencies[poll.id] || 'once'}
+                      onChange={(e) => setFrequencies(prev => ({
+                        ...prev,
+                        [poll.id]: e.target.value as RecurrencePattern['frequency']
+                      }))}
+                      sx={{ minWidth: 140 }}
+                    >
+                      {FREQUENCY_OPTIONS.map(option => (
+                        <MenuItem key={option.value} value={option.value}>
+                          {option.label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <IconButton
+                      aria-label="Delete poll"
+                      onClick={() => handleDelete(poll)}
+                      disabled={!!busyId}
+                    >
+                      <Delete />
+                    </IconButton>
+                  </Box>
+                )}
+              </Box>
+
+              <Divider sx={{ my: 1.5 }} />
+
+              {poll.slots.map(slot => {
+                const myAnswer = slot.responses.find(response => response.user.id === userId)?.availability || null
+                const isPast = new Date(slot.startTime) <= new Date()
+
+                return (
+                  <Box
+                    key={slot.id}
+                    sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', py: 0.75 }}
+                  >
+                    <Typography
+                      sx={{ minWidth: 200, color: isPast ? 'text.disabled' : 'text.primary' }}
+                    >
+                      {formatInTimeZone(slot.startTime, timeZone)}
+                    </Typography>
+                    <Chip label={`${countResponses(slot, 'yes')} yes`} size="small" color="success" variant="outlined" />
+                    <Chip label={`${countResponses(slot, 'maybe')} maybe`} size="small" variant="outlined" />
+                    {slot.id === bestSlotId && <Chip label="Best so far" size="small" color="primary" />}
+                    <Box sx={{ flexGrow: 1 }} />
+                    {busyId === slot.id && <CircularProgress size={16} />}
+                    <ToggleButtonGroup
+                      exclusive
+                      size="small"
+                      value={myAnswer}
+                      onChange={(_, value) => handleRespond(poll, slot, value)}
+                      disabled={isPast || !!busyId}
+                    >
+                      <ToggleButton value="yes">Yes</ToggleButton>
+                      <ToggleButton value="maybe">Maybe</ToggleButton>
+                      <ToggleButton value="no">No</ToggleButton>
+                    </ToggleButtonGroup>
+                    {canSchedule && (
+                      <Button
+                        size="small"
+                        variant={slot.id === bestSlotId ? 'contained' : 'outlined'}
+                        onClick={() => handleSchedule(poll, slot)}
+                        disabled={isPast || !!busyId}
+                      >
+                        Schedule
+                      </Button>
+                    )}
+                  </Box>
+                )
+              })}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </Box>
+  )
+}
+
+export default SchedulingPollsCard
\ No newline at end of file
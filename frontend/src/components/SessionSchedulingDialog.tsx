@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import {
   Dialog,
   DialogTitle,
@@ -22,8 +22,23 @@ import {
 } from '@mui/material'
 // Using native HTML datetime-local input for simplicity
 // TODO: Consider adding @mui/x-date-pickers for better UX
-import { schedulingService, RecurrencePattern } from '../services/schedulingService'
-import { Havruta } from '../types'
+import {
+  schedulingService,
+  RecurrencePattern,
+  CalendarImportPreview,
+  HolidayPolicy,
+  HolidayWindow,
+} from '../services/schedulingService'
+import { havrutaService } from '../services/havrutaService'
+import { Havruta, StudyPlan } from '../types'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  getUserTimeZone,
+  formatInTimeZone,
+  toDateTimeInputValue,
+  fromDateTimeInputValue,
+} from '../utils/timeZone'
+import { formatHebrewDate } from '../utils/hebrewCalendar'
 
 interface SessionSchedulingDialogProps {
   open: boolean
@@ -48,6 +63,8 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
   havruta,
   onSuccess,
 }) => {
+  const { state: authState } = useAuth()
+  const timeZone = getUserTimeZone(authState.user)
   const [startTime, setStartTime] = useState<Date>(new Date())
   const [isRecurring, setIsRecurring] = useState(false)
   const [frequency, setFrequency] = useState<RecurrencePattern['frequency']>('weekly')
@@ -56,6 +73,63 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
   const [selectedDays, setSelectedDays] = useState<number[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [studyPlan, setStudyPlan] = useState<StudyPlan | null>(null)
+  const [followStudyPlan, setFollowStudyPlan] = useState(false)
+  const [calendarText, setCalendarText] = useState('')
+  const [importPreview, setImportPreview] = useState<CalendarImportPreview | null>(null)
+  const [isReadingCalendar, setIsReadingCalendar] = useState(false)
+  const [holidayPolicy, setHolidayPolicy] = useState<HolidayPolicy>('none')
+  const [avoidFastDays, setAvoidFastDays] = useState(false)
+  const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null)
+  const [isLocating, setIsLocating] = useState(false)
+  const [startTimeConflict, setStartTimeConflict] = useState<HolidayWindow | null>(null)
+
+  // Load the Havruta's study plan so sessions can follow it
+  useEffect(() => {
+    if (!open || !havruta) {
+      setStudyPlan(null)
+      return
+    }
+
+    let cancelled = false
+    havrutaService.getStudyPlan(havruta.id)
+      .then(result => {
+        if (!cancelled) setStudyPlan(result.plan)
+      })
+      .catch(error => {
+        console.error('Failed to load study plan:', error)
+        if (!cancelled) setStudyPlan(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, havruta])
+
+  // Warn when the chosen time falls on Shabbat or Yom Tov
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    schedulingService.getHolidayWindows({
+      from: startTime.toISOString(),
+      to: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+      timeZone,
+      ...(location && location),
+      includeFastDays: avoidFastDays,
+    })
+      .then(result => {
+        if (!cancelled) setStartTimeConflict(result.windows[0] || null)
+      })
+      .catch(error => {
+        console.error('Failed to check holidays:', error)
+        if (!cancelled) setStartTimeConflict(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, startTime, timeZone, location, avoidFastDays])
 
   const handleClose = () => {
     if (!isLoading) {
@@ -71,6 +145,12 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
     setInterval(1)
     setEndDate(null)
     setSelectedDays([])
+    setFollowStudyPlan(false)
+    setCalendarText('')
+    setImportPreview(null)
+    setHolidayPolicy('none')
+    setAvoidFastDays(false)
+    setStartTimeConflict(null)
     setError(null)
   }
 
@@ -82,12 +162,66 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
     )
   }
 
+  // Exact candle lighting and nightfall times need coordinates
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      setError('Your browser does not share its location')
+      return
+    }
+
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setLocation({
+          latitude: Math.round(position.coords.latitude * 100) / 100,
+          longitude: Math.round(position.coords.longitude * 100) / 100,
+        })
+        setIsLocating(false)
+      },
+      () => {
+        setError('Could not get your location')
+        setIsLocating(false)
+      }
+    )
+  }
+
+  const handleCalendarFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setCalendarText(await file.text())
+    setImportPreview(null)
+  }
+
+  // Ask the server how the pasted rule maps onto our recurrence options
+  const handleReadCalendar = async () => {
+    if (!calendarText.trim()) return
+
+    setIsReadingCalendar(true)
+    setError(null)
+
+    try {
+      const preview = await schedulingService.previewCalendarImport(calendarText, timeZone)
+      setImportPreview(preview)
+      if (preview.startTime) {
+        setStartTime(new Date(preview.startTime))
+      }
+    } catch (error) {
+      console.error('Error reading calendar:', error)
+      setImportPreview(null)
+      setError(error instanceof Error ? error.message : 'Failed to read calendar')
+    } finally {
+      setIsReadingCalendar(false)
+    }
+  }
+
   const validateForm = (): string | null => {
     if (!havruta) return 'No Havruta selected'
     if (!startTime) return 'Start time is required'
     if (startTime < new Date()) return 'Start time must be in the future'
     
-    if (isRecurring) {
+    if (isRecurring && !followStudyPlan && !importPreview) {
       if ((frequency === 'weekly' || frequency === 'bi-weekly') && selectedDays.length === 0) {
         return 'Please select at least one day of the week for weekly/bi-weekly sessions'
       }
@@ -115,6 +249,33 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
     setError(null)
 
     try {
+      if (followStudyPlan) {
+        const result = await schedulingService.scheduleStudyPlanSessions({
+          havrutaId: havruta.id,
+          startTime: startTime.toISOString(),
+          participantIds: havruta.participants.map(p => p.user.id)
+        })
+        onSuccess(`Successfully scheduled ${result.sessions.length} sessions following the study plan`)
+        handleClose()
+        return
+      }
+
+      if (importPreview) {
+        const result = await schedulingService.importCalendar({
+          havrutaId: havruta.id,
+          calendar: calendarText,
+          startTime: startTime.toISOString(),
+          participantIds: havruta.participants.map(p => p.user.id),
+          timeZone
+        })
+        const ignored = result.unsupported.length > 0
+          ? ` (ignored: ${result.unsupported.join(', ')})`
+          : ''
+        onSuccess(`Successfully imported ${result.sessions.length} sessions${ignored}`)
+        handleClose()
+        return
+      }
+
       const sessionData = {
         havrutaId: havruta.id,
         startTime: startTime.toISOString(),
@@ -125,7 +286,11 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
             frequency,
             interval,
             ...(endDate && { endDate: endDate.toISOString() }),
-            daysOfWeek: (frequency === 'weekly' || frequency === 'bi-weekly') ? selectedDays : []
+            daysOfWeek: (frequency === 'weekly' || frequency === 'bi-weekly') ? selectedDays : [],
+            timeZone,
+            holidayPolicy,
+            avoidFastDays: holidayPolicy !== 'none' && avoidFastDays,
+            ...(location && location)
           }
         })
       }
@@ -133,7 +298,9 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
       const result = await schedulingService.scheduleSession(sessionData)
       
       if (result.sessions) {
-        onSuccess(`Successfully scheduled ${result.sessions.length} recurring sessions`)
+        const skipped = result.sessions.filter(session => session.status === 'cancelled').length
+        onSuccess(`Successfully scheduled ${result.sessions.length - skipped} recurring sessions` +
+          (skipped > 0 ? ` (${skipped} skipped for Shabbat, Yom Tov or fasts)` : ''))
       } else {
         onSuccess('Session scheduled successfully')
       }
@@ -147,8 +314,9 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
     }
   }
 
-  const getFrequencyDescription = () => {
-    switch (frequency) {
+  const getFrequencyDescription = (pattern: Pick<RecurrencePattern, 'frequency' | 'interval'> = { frequency, interval }) => {
+    const { interval } = pattern
+    switch (pattern.frequency) {
       case 'daily':
         return interval === 1 ? 'Every day' : `Every ${interval} days`
       case 'weekly':
@@ -194,33 +362,125 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
               <TextField
                 label="Start Time"
                 type="datetime-local"
-                value={startTime.toISOString().slice(0, 16)}
-                onChange={(e) => setStartTime(new Date(e.target.value))}
+                value={toDateTimeInputValue(startTime, timeZone)}
+                onChange={(e) => e.target.value && setStartTime(fromDateTimeInputValue(e.target.value, timeZone))}
                 fullWidth
                 required
+                helperText={`Times are in ${timeZone} · ${formatHebrewDate(startTime, timeZone)}`}
                 InputLabelProps={{
                   shrink: true,
                 }}
                 inputProps={{
-                  min: new Date().toISOString().slice(0, 16)
+                  min: toDateTimeInputValue(new Date(), timeZone)
                 }}
               />
+              {startTimeConflict && (
+                <Alert severity="warning" sx={{ mt: 1 }}>
+                  This time falls during {startTimeConflict.name} ({formatInTimeZone(startTimeConflict.start, timeZone)} to {formatInTimeZone(startTimeConflict.end, timeZone)})
+                </Alert>
+              )}
             </Grid>
 
+            {/* Study Plan */}
+            {studyPlan && !importPreview && (
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={followStudyPlan}
+                      onChange={(e) => setFollowStudyPlan(e.target.checked)}
+                    />
+                  }
+                  label={`Follow the study plan (${studyPlan.amount} ${studyPlan.unit}${studyPlan.amount === 1 ? '' : 's'} per ${studyPlan.period}, ${studyPlan.startRef} to ${studyPlan.endRef})`}
+                />
+                {followStudyPlan && (
+                  <Typography variant="body2" color="text.secondary" sx={{ ml: 4 }}>
+                    One session is scheduled each {studyPlan.period} at this time until the plan ends, starting at that {studyPlan.period}'s portion.
+                  </Typography>
+                )}
+              </Grid>
+            )}
+
+            {/* Calendar Import */}
+            {!followStudyPlan && (
+              <Grid item xs={12}>
+                <Typography variant="subtitle2" gutterBottom>
+                  Import from a calendar (optional)
+                </Typography>
+                <TextField
+                  value={calendarText}
+                  onChange={(e) => {
+                    setCalendarText(e.target.value)
+                    setImportPreview(null)
+                  }}
+                  placeholder="Paste an RRULE (e.g., FREQ=WEEKLY;BYDAY=MO,WE) or an ICS event"
+                  multiline
+                  minRows={2}
+                  maxRows={6}
+                  fullWidth
+                  size="small"
+                />
+                <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                  <Button component="label" size="small" variant="outlined">
+                    Upload .ics
+                    <input type="file" accept=".ics,text/calendar" hidden onChange={handleCalendarFile} />
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    onClick={handleReadCalendar}
+                    disabled={!calendarText.trim() || isReadingCalendar}
+                    startIcon={isReadingCalendar ? <CircularProgress size={16} /> : null}
+                  >
+                    Read Rule
+                  </Button>
+                  {importPreview && (
+                    <Button
+                      size="small"
+                      onClick={() => {
+                        setCalendarText('')
+                        setImportPreview(null)
+                      }}
+                    >
+                      Clear Import
+                    </Button>
+                  )}
+                </Box>
+                {importPreview && (
+                  <Alert severity="info" sx={{ mt: 2 }}>
+                    {getFrequencyDescription(importPreview.recurrencePattern)}
+                    {importPreview.recurrencePattern.daysOfWeek.length > 0 &&
+                      ` on ${importPreview.recurrencePattern.daysOfWeek.map(day => DAYS_OF_WEEK[day].label).join(', ')}`}
+                    {importPreview.recurrencePattern.endDate &&
+                      ` until ${new Date(importPreview.recurrencePattern.endDate).toLocaleDateString()}`}
+                    {importPreview.count && ` for ${importPreview.count} sessions`}
+                    , starting at the time above.
+                  </Alert>
+                )}
+                {importPreview && importPreview.unsupported.length > 0 && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    These parts of the calendar can't be represented and will be ignored: {importPreview.unsupported.join(', ')}
+                  </Alert>
+                )}
+              </Grid>
+            )}
+
             {/* Recurring Options */}
-            <Grid item xs={12}>
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    checked={isRecurring}
-                    onChange={(e) => setIsRecurring(e.target.checked)}
-                  />
-                }
-                label="Make this a recurring session"
-              />
-            </Grid>
+            {!followStudyPlan && !importPreview && (
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={isRecurring}
+                      onChange={(e) => setIsRecurring(e.target.checked)}
+                    />
+                  }
+                  label="Make this a recurring session"
+                />
+              </Grid>
+            )}
 
-            {isRecurring && (
+            {isRecurring && !followStudyPlan && !importPreview && (
               <>
                 {/* Frequency */}
                 <Grid item xs={12} sm={6}>
@@ -272,19 +532,62 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
                   </Grid>
                 )}
 
+                {/* Shabbat and Yom Tov */}
+                <Grid item xs={12}>
+                  <FormControl component="fieldset">
+                    <FormLabel component="legend">When a session falls on Shabbat or Yom Tov</FormLabel>
+                    <RadioGroup
+                      row
+                      value={holidayPolicy}
+                      onChange={(e) => setHolidayPolicy(e.target.value as HolidayPolicy)}
+                    >
+                      <FormControlLabel value="none" control={<Radio />} label="Schedule anyway" />
+                      <FormControlLabel value="skip" control={<Radio />} label="Skip it" />
+                      <FormControlLabel value="shift" control={<Radio />} label="Move it to the next free day" />
+                    </RadioGroup>
+                  </FormControl>
+                  {holidayPolicy !== 'none' && (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                      <FormControlLabel
+                        control={
+                          <Checkbox
+                            checked={avoidFastDays}
+                            onChange={(e) => setAvoidFastDays(e.target.checked)}
+                          />
+                        }
+                        label="Also avoid fast days"
+                      />
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        onClick={handleUseLocation}
+                        disabled={isLocating}
+                        startIcon={isLocating ? <CircularProgress size={16} /> : null}
+                      >
+                        Use My Location
+                      </Button>
+                      <Typography variant="body2" color="text.secondary">
+                        {location
+                          ? `Candle lighting and nightfall for ${location.latitude}, ${location.longitude}`
+                          : 'Without a location, sessions from noon on the eve are avoided'}
+                      </Typography>
+                    </Box>
+                  )}
+                </Grid>
+
                 {/* End Date */}
                 <Grid item xs={12}>
                   <TextField
                     label="End Date (optional)"
                     type="datetime-local"
-                    value={endDate ? endDate.toISOString().slice(0, 16) : ''}
-                    onChange={(e) => setEndDate(e.target.value ? new Date(e.target.value) : null)}
+                    value={endDate ? toDateTimeInputValue(endDate, timeZone) : ''}
+                    onChange={(e) => setEndDate(e.target.value ? fromDateTimeInputValue(e.target.value, timeZone) : null)}
                     fullWidth
                     InputLabelProps={{
                       shrink: true,
                     }}
                     inputProps={{
-                      min: startTime.toISOString().slice(0, 16)
+                      min: toDateTimeInputValue(startTime, timeZone)
                     }}
                   />
                 </Grid>
@@ -301,7 +604,9 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
                   {havruta.participants.map((participant) => (
                     <Chip
                       key={participant.user.id}
-                      label={participant.user.name}
+                      label={participant.user.timeZone && participant.user.timeZone !== timeZone
+                        ? `${participant.user.name} · ${formatInTimeZone(startTime, participant.user.timeZone)}`
+                        : participant.user.name}
                       size="small"
                       variant="outlined"
                     />
@@ -322,7 +627,7 @@ const SessionSchedulingDialog: React.FC<SessionSchedulingDialogProps> = ({
             disabled={isLoading}
             startIcon={isLoading ? <CircularProgress size={20} /> : null}
           >
-            {isLoading ? 'Scheduling...' : 'Schedule Session'}
+            {isLoading ? 'Scheduling...' : importPreview ? 'Import Sessions' : 'Schedule Session'}
           </Button>
         </DialogActions>
       </Dialog>
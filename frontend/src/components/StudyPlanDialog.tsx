@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Grid,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material'
+import { havrutaService } from '../services/havrutaService'
+import { Havruta, StudyPlan, StudyPlanStatus } from '../types'
+
+interface StudyPlanDialogProps {
+  open: boolean
+  onClose: () => void
+  havruta: Havruta | null
+  plan: StudyPlan | null
+  onSuccess: (message: string, plan: StudyPlan | null, status: StudyPlanStatus | null) => void
+}
+
+const UNIT_OPTIONS: Array<{ value: StudyPlan['unit']; label: string }> = [
+  { value: 'chapter', label: 'Chapter' },
+  { value: 'daf', label: 'Daf' },
+  { value: 'amud', label: 'Amud' },
+]
+
+const PERIOD_OPTIONS: Array<{ value: StudyPlan['period']; label: string }> = [
+  { value: 'day', label: 'Per day' },
+  { value: 'week', label: 'Per week' },
+]
+
+const toDateInput = (date: Date): string => date.toISOString().slice(0, 10)
+
+const StudyPlanDialog: React.FC<StudyPlanDialogProps> = ({
+  open,
+  onClose,
+  havruta,
+  plan,
+  onSuccess,
+}) => {
+  const [startRef, setStartRef] = useState('')
+  const [endRef, setEndRef] = useState('')
+  const [amount, setAmount] = useState(1)
+  const [unit, setUnit] = useState<StudyPlan['unit']>('chapter')
+  const [period, setPeriod] = useState<StudyPlan['period']>('day')
+  const [startDate, setStartDate] = useState(toDateInput(new Date()))
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fill the form from the existing plan each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setStartRef(plan?.startRef || (havruta ? `${havruta.bookTitle} ` : ''))
+    setEndRef(plan?.endRef || (havruta ? `${havruta.bookTitle} ` : ''))
+    setAmount(plan?.amount || 1)
+    setUnit(plan?.unit || 'chapter')
+    setPeriod(plan?.period || 'day')
+    setStartDate(toDateInput(plan ? new Date(plan.startDate) : new Date()))
+    setError(null)
+  }, [open, plan, havruta])
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose()
+    }
+  }
+
+  const handleSave = async () => {
+    if (!havruta) return
+    if (!startRef.trim() || !endRef.trim()) {
+      setError('Start and end references are required')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const result = await havrutaService.saveStudyPlan(havruta.id, {
+        startRef: startRef.trim(),
+        endRef: endRef.trim(),
+        amount,
+        unit,
+        period,
+        startDate: new Date(startDate).toISOString(),
+      })
+      onSuccess('Study plan saved', result.plan, result.status)
+      onClose()
+    } catch (error) {
+      console.error('Error saving study plan:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save study plan')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!havruta) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await havrutaService.deleteStudyPlan(havruta.id)
+      onSuccess('Study plan removed', null, null)
+      onClose()
+    } catch (error) {
+      console.error('Error removing study plan:', error)
+      setError(error instanceof Error ? error.message : 'Failed to remove study plan')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Study Plan
+        {havruta && (
+          <Typography variant="subtitle2" color="text.secondary">
+            for {havruta.name} - {havruta.bookTitle}
+          </Typography>
+        )}
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              label="Start"
+              value={startRef}
+              onChange={(e) => setStartRef(e.target.value)}
+              placeholder="e.g., Berakhot 2a"
+              fullWidth
+              required
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              label="End"
+              value={endRef}
+              onChange={(e) => setEndRef(e.target.value)}
+              placeholder="e.g., Berakhot 64a"
+              fullWidth
+              required
+            />
+          </Grid>
+          <Grid item xs={4}>
+            <TextField
+              label="Amount"
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(Math.max(1, parseInt(e.target.value) || 1))}
+              inputProps={{ min: 1, max: 50 }}
+              fullWidth
+            />
+          </Grid>
+          <Grid item xs={4}>
+            <TextField
+              select
+              label="Unit"
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as StudyPlan['unit'])}
+              fullWidth
+            >
+              {UNIT_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={4}>
+            <TextField
+              select
+              label="Cadence"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as StudyPlan['period'])}
+              fullWidth
+            >
+              {PERIOD_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              label="Start Date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              fullWidth
+              InputLabelProps={{
+                shrink: true,
+              }}
+              helperText="Use Daf or Amud for Talmud tractates and Chapter for other books"
+            />
+          </Grid>
+        </Grid>
+      </DialogContent>
+
+      <DialogActions>
+        {plan && (
+          <Button color="error" onClick={handleRemove} disabled={isLoading} sx={{ mr: 'auto' }}>
+            Remove Plan
+          </Button>
+        )}
+        <Button onClick={handleClose} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={isLoading}
+          startIcon={isLoading ? <CircularProgress size={20} /> : null}
+        >
+          {isLoading ? 'Saving...' : 'Save Plan'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default StudyPlanDialog
\ No newline at end of file
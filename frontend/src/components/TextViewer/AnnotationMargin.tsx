@@ -0,0 +1,219 @@
+import React, { useState } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Avatar,
+  Tooltip,
+  Divider
+} from '@mui/material'
+import {
+  Edit,
+  Delete,
+  Close
+} from '@mui/icons-material'
+import { Annotation } from '../../types'
+
+interface AnnotationMarginProps {
+  annotations: Annotation[]
+  selectedLineRef: string | null
+  currentUserId?: string
+  isOwner?: boolean
+  onAdd: (ref: string, content: string) => Promise<void>
+  onUpdate: (annotationId: string, content: string) => Promise<void>
+  onDelete: (annotationId: string) => Promise<void>
+  onClose: () => void
+}
+
+const AnnotationMargin: React.FC<AnnotationMarginProps> = ({
+  annotations,
+  selectedLineRef,
+  currentUserId,
+  isOwner = false,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onClose
+}) => {
+  const [draft, setDraft] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingContent, setEditingContent] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  // Show notes for the selected line, or every note in the section when no line is selected
+  const visibleAnnotations = selectedLineRef
+    ? annotations.filter(a => a.ref === selectedLineRef)
+    : annotations
+
+  const handleAdd = async () => {
+    if (!selectedLineRef || !draft.trim()) return
+
+    setSaving(true)
+    try {
+      await onAdd(selectedLineRef, draft.trim())
+      setDraft('')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editingContent.trim()) return
+
+    setSaving(true)
+    try {
+      await onUpdate(editingId, editingContent.trim())
+      setEditingId(null)
+      setEditingContent('')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        width: 300,
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        borderLeft: 1,
+        borderColor: 'divider',
+        overflow: 'hidden'
+      }}
+    >
+      <Box sx={{ p: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Box>
+          <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
+            Shared Notes
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {selectedLineRef || 'Select a line to add a note'}
+          </Typography>
+        </Box>
+        <IconButton size="small" onClick={onClose}>
+          <Close fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Divider />
+
+      <Box sx={{ flex: 1, overflow: 'auto', p: 2 }}>
+        {visibleAnnotations.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No notes yet
+          </Typography>
+        )}
+
+        {visibleAnnotations.map(annotation => {
+          const isAuthor = annotation.userId === currentUserId
+          const isEditing = editingId === annotation.id
+
+          return (
+            <Box key={annotation.id} sx={{ mb: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Avatar
+                  src={annotation.user.profilePicture || undefined}
+                  sx={{ width: 20, height: 20, fontSize: '0.7rem' }}
+                >
+                  {annotation.user.name.charAt(0).toUpperCase()}
+                </Avatar>
+                <Typography variant="caption" sx={{ fontWeight: 'bold', flex: 1 }}>
+                  {annotation.user.name}
+                </Typography>
+                {!selectedLineRef && (
+                  <Typography variant="caption" color="text.secondary">
+                    {annotation.ref.split(':').pop()}
+                  </Typography>
+                )}
+                {isAuthor && !isEditing && (
+                  <Tooltip title="Edit">
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        setEditingId(annotation.id)
+                        setEditingContent(annotation.content)
+                      }}
+                    >
+                      <Edit sx={{ fontSize: '0.9rem' }} />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {(isAuthor || isOwner) && !isEditing && (
+                  <Tooltip title="Delete">
+                    <IconButton size="small" onClick={() => onDelete(annotation.id)}>
+                      <Delete sx={{ fontSize: '0.9rem' }} />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </Box>
+
+              {isEditing ? (
+                <Box>
+                  <TextField
+                    fullWidth
+                    multiline
+                    size="small"
+                    minRows={2}
+                    value={editingContent}
+                    onChange={(e) => setEditingContent(e.target.value)}
+                  />
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+                    <Button size="small" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      disabled={saving || !editingContent.trim()}
+                      onClick={handleSaveEdit}
+                    >
+                      Save
+                    </Button>
+                  </Box>
+                </Box>
+              ) : (
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {annotation.content}
+                </Typography>
+              )}
+            </Box>
+          )
+        })}
+      </Box>
+
+      {selectedLineRef && (
+        <>
+          <Divider />
+          <Box sx={{ p: 2 }}>
+            <TextField
+              fullWidth
+              multiline
+              size="small"
+              minRows={2}
+              placeholder="Add a note for your Havruta..."
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+              <Button
+                size="small"
+                variant="contained"
+                disabled={saving || !draft.trim()}
+                onClick={handleAdd}
+              >
+                Add Note
+              </Button>
+            </Box>
+          </Box>
+        </>
+      )}
+    </Paper>
+  )
+}
+
+export default AnnotationMargin
\ No newline at end of file
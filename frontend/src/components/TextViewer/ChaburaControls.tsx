@@ -0,0 +1,119 @@
+import React from 'react'
+import {
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Typography,
+} from '@mui/material'
+import {
+  PanTool,
+  RecordVoiceOver,
+  MyLocation,
+} from '@mui/icons-material'
+import { ChaburaState } from '../../types'
+
+interface ChaburaControlsProps {
+  chabura: ChaburaState
+  currentUserId?: string
+  isFollowing: boolean
+  isReadOnly?: boolean // Observers follow along but can't ask for control
+  onRaiseHand: () => void
+  onLowerHand: () => void
+  onGrantControl: (userId: string) => void
+  onRevokeControl: () => void
+  onFollowLeader: () => void
+}
+
+const ChaburaControls: React.FC<ChaburaControlsProps> = ({
+  chabura,
+  currentUserId,
+  isFollowing,
+  isReadOnly = false,
+  onRaiseHand,
+  onLowerHand,
+  onGrantControl,
+  onRevokeControl,
+  onFollowLeader,
+}) => {
+  const isLeader = chabura.leaderId === currentUserId
+  const isDriver = chabura.driverId === currentUserId
+  const hasRaisedHand = chabura.raisedHands.some(hand => hand.userId === currentUserId)
+  const driverName = chabura.driverId ? chabura.driverName || 'a participant' : chabura.leaderName
+
+  const renderStatus = () => {
+    if (isLeader) {
+      return chabura.driverId
+        ? `You're leading. ${driverName} is moving the text.`
+        : "You're leading. Everyone follows your place in the text."
+    }
+    if (isDriver) {
+      return `${chabura.leaderName} gave you control. Everyone follows you.`
+    }
+    return isFollowing
+      ? `Following ${driverName}`
+      : `You're reading on your own. ${driverName} is leading the group.`
+  }
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{ px: 2, py: 1, mx: 2, mb: 1, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}
+    >
+      <RecordVoiceOver fontSize="small" color="primary" />
+      <Typography variant="body2" sx={{ flex: 1, minWidth: 200 }}>
+        {renderStatus()}
+      </Typography>
+
+      {!isLeader && !isDriver && !isFollowing && (
+        <Button size="small" startIcon={<MyLocation />} onClick={onFollowLeader}>
+          Follow {chabura.leaderName}
+        </Button>
+      )}
+
+      {!isLeader && !isDriver && !isReadOnly && (
+        <Button
+          size="small"
+          variant={hasRaisedHand ? 'contained' : 'outlined'}
+          startIcon={<PanTool />}
+          onClick={hasRaisedHand ? onLowerHand : onRaiseHand}
+        >
+          {hasRaisedHand ? 'Lower Hand' : 'Raise Hand'}
+        </Button>
+      )}
+
+      {isDriver && (
+        <Button size="small" onClick={onRevokeControl}>
+          Give Back Control
+        </Button>
+      )}
+
+      {isLeader && chabura.driverId && (
+        <Button size="small" onClick={onRevokeControl}>
+          Take Back Control
+        </Button>
+      )}
+
+      {isLeader && chabura.raisedHands.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', width: '100%' }}>
+          <Typography variant="caption" color="text.secondary" sx={{ alignSelf: 'center' }}>
+            Raised hands:
+          </Typography>
+          {chabura.raisedHands.map(hand => (
+            <Chip
+              key={hand.userId}
+              icon={<PanTool />}
+              label={`Give control to ${hand.userName}`}
+              size="small"
+              color="primary"
+              variant="outlined"
+              onClick={() => onGrantControl(hand.userId)}
+            />
+          ))}
+        </Box>
+      )}
+    </Paper>
+  )
+}
+
+export default ChaburaControls
\ No newline at end of file
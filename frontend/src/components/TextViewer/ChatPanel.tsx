@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useRef } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  IconButton,
+  Link,
+  Divider
+} from '@mui/material'
+import {
+  Send,
+  Close
+} from '@mui/icons-material'
+import { ChatMessage } from '../../types'
+
+interface ChatPanelProps {
+  messages: ChatMessage[]
+  currentUserId?: string
+  disabled?: boolean
+  onSend: (content: string) => void
+  onRefClick: (ref: string) => void
+  onClose: () => void
+}
+
+// Split message content so the refs found by the server render as links
+const renderContent = (message: ChatMessage, onRefClick: (ref: string) => void): React.ReactNode[] => {
+  if (!message.refs.length) return [message.content]
+
+  const escaped = message.refs.map(ref => ref.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'g')
+
+  return message.content.split(pattern).map((part, index) => {
+    if (!message.refs.includes(part)) return part
+
+    return (
+      <Link
+        key={index}
+        component="button"
+        variant="body2"
+        onClick={() => onRefClick(part)}
+        sx={{ verticalAlign: 'baseline' }}
+      >
+        {part}
+      </Link>
+    )
+  })
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  messages,
+  currentUserId,
+  disabled = false,
+  onSend,
+  onRefClick,
+  onClose
+}) => {
+  const [draft, setDraft] = useState('')
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  // Keep the newest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ behavior: 'smooth' })
+  }, [messages.length])
+
+  const handleSend = () => {
+    if (!draft.trim()) return
+    onSend(draft.trim())
+    setDraft('')
+  }
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        width: 300,
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        borderLeft: 1,
+        borderColor: 'divider',
+        overflow: 'hidden'
+      }}
+    >
+      <Box sx={{ p: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
+          Session Chat
+        </Typography>
+        <IconButton size="small" onClick={onClose}>
+          <Close fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Divider />
+
+      <Box sx={{ flex: 1, overflow: 'auto', p: 2 }}>
+        {messages.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No messages yet. Mention a ref like "Genesis 1:3" to share a link.
+          </Typography>
+        )}
+
+        {messages.map(message => {
+          const isOwn = message.userId === currentUserId
+
+          return (
+            <Box
+              key={message.id}
+              sx={{
+                mb: 1.5,
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: isOwn ? 'flex-end' : 'flex-start'
+              }}
+            >
+              <Typography variant="caption" color="text.secondary">
+                {isOwn ? 'You' : message.user.name} · {new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </Typography>
+              <Box
+                sx={{
+                  px: 1.5,
+                  py: 0.75,
+                  borderRadius: 2,
+                  maxWidth: '90%',
+                  bgcolor: isOwn ? 'primary.light' : 'grey.100',
+                  color: isOwn ? 'primary.contrastText' : 'text.primary'
+                }}
+              >
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {renderContent(message, onRefClick)}
+                </Typography>
+              </Box>
+            </Box>
+          )
+        })}
+        <div ref={bottomRef} />
+      </Box>
+
+      <Divider />
+
+      <Box sx={{ p: 1.5, display: 'flex', alignItems: 'flex-end', gap: 1 }}>
+        <TextField
+          fullWidth
+          multiline
+          size="small"
+          maxRows={4}
+          placeholder={disabled ? 'Reconnecting...' : 'Message your Havruta...'}
+          value={draft}
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault()
+              handleSend()
+            }
+          }}
+        />
+        <IconButton
+          color="primary"
+          disabled={disabled || !draft.trim()}
+          onClick={handleSend}
+        >
+          <Send />
+        </IconButton>
+      </Box>
+    </Paper>
+  )
+}
+
+export default ChatPanel
\ No newline at end of file
@@ -0,0 +1,288 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  IconButton,
+  Divider,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  List,
+  ListItemButton,
+  ListItemText,
+  CircularProgress,
+  Alert,
+  FormControlLabel,
+  Switch,
+  Tooltip
+} from '@mui/material'
+import {
+  Close,
+  ArrowBack,
+  ExpandMore
+} from '@mui/icons-material'
+import { SefariaLink, SefariaText } from '../../types'
+import { sefariaService } from '../../services/sefariaService'
+
+interface CommentarySidebarProps {
+  verseRef: string | null
+  openRef: string | null
+  onOpen: (ref: string | null) => void
+  syncEnabled?: boolean
+  onSyncChange?: (enabled: boolean) => void
+  onClose: () => void
+}
+
+// Categories shown first; anything else follows alphabetically
+const CATEGORY_ORDER = ['Commentary', 'Targum', 'Talmud', 'Midrash', 'Halakhah']
+
+const getCommentatorName = (link: SefariaLink): string => {
+  return link.collectiveTitle?.en || link.index_title || link.ref.replace(/\s[\d:ab-]+$/, '')
+}
+
+// Sefaria returns a string for single segments and (possibly nested) arrays otherwise
+const toLines = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value]
+  if (Array.isArray(value)) return value.flatMap(toLines)
+  return []
+}
+
+const stripHtml = (html: string): string => html.replace(/<[^>]+>/g, '')
+
+const CommentarySidebar: React.FC<CommentarySidebarProps> = ({
+  verseRef,
+  openRef,
+  onOpen,
+  syncEnabled = false,
+  onSyncChange,
+  onClose
+}) => {
+  const [links, setLinks] = useState<SefariaLink[]>([])
+  const [linksLoading, setLinksLoading] = useState(false)
+  const [linksError, setLinksError] = useState<string | null>(null)
+  const [openText, setOpenText] = useState<SefariaText | null>(null)
+  const [textLoading, setTextLoading] = useState(false)
+
+  // Load links for the focused verse
+  useEffect(() => {
+    if (!verseRef) {
+      setLinks([])
+      return
+    }
+
+    let cancelled = false
+    setLinksLoading(true)
+    setLinksError(null)
+
+    sefariaService.getLinks(verseRef)
+      .then(result => {
+        if (!cancelled) setLinks(result)
+      })
+      .catch(error => {
+        console.error('Failed to load commentary links:', error)
+        if (!cancelled) setLinksError('Failed to load commentaries')
+      })
+      .finally(() => {
+        if (!cancelled) setLinksLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [verseRef])
+
+  // Load the text of the open commentary
+  useEffect(() => {
+    if (!openRef) {
+      setOpenText(null)
+      return
+    }
+
+    let cancelled = false
+    setTextLoading(true)
+
+    sefariaService.getText(openRef)
+      .then(text => {
+        if (!cancelled) setOpenText(text)
+      })
+      .catch(error => {
+        console.error('Failed to load commentary text:', error)
+        if (!cancelled) setOpenText(null)
+      })
+      .finally(() => {
+        if (!cancelled) setTextLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [openRef])
+
+  const groupedLinks = useMemo(() => {
+    const groups = new Map<string, SefariaLink[]>()
+    links.forEach(link => {
+      const category = link.category || 'Other'
+      if (!groups.has(category)) {
+        groups.set(category, [])
+      }
+      groups.get(category)!.push(link)
+    })
+
+    return Array.from(groups.entries()).sort(([a], [b]) => {
+      const indexA = CATEGORY_ORDER.indexOf(a)
+      const indexB = CATEGORY_ORDER.indexOf(b)
+      if (indexA !== -1 || indexB !== -1) {
+        return (indexA === -1 ? CATEGORY_ORDER.length : indexA) - (indexB === -1 ? CATEGORY_ORDER.length : indexB)
+      }
+      return a.localeCompare(b)
+    })
+  }, [links])
+
+  const renderOpenCommentary = () => {
+    if (textLoading) {
+      return (
+        <Box display="flex" justifyContent="center" p={3}>
+          <CircularProgress size={24} />
+        </Box>
+      )
+    }
+
+    if (!openText) {
+      return (
+        <Alert severity="warning" sx={{ m: 2 }}>
+          Commentary text is not available
+        </Alert>
+      )
+    }
+
+    const hebrewLines = toLines(openText.he)
+    const englishLines = toLines(openText.text)
+
+    return (
+      <Box sx={{ p: 2 }}>
+        {hebrewLines.map((line, index) => (
+          <Typography
+            key={`he-${index}`}
+            variant="body2"
+            sx={{ direction: 'rtl', textAlign: 'right', fontFamily: 'serif', mb: 1 }}
+          >
+            {stripHtml(line)}
+          </Typography>
+        ))}
+        {hebrewLines.length > 0 && englishLines.length > 0 && <Divider sx={{ my: 1 }} />}
+        {englishLines.map((line, index) => (
+          <Typography key={`en-${index}`} variant="body2" sx={{ mb: 1 }}>
+            {stripHtml(line)}
+          </Typography>
+        ))}
+      </Box>
+    )
+  }
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        width: 320,
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        borderLeft: 1,
+        borderColor: 'divider',
+        overflow: 'hidden'
+      }}
+    >
+      <Box sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+        {openRef && (
+          <Tooltip title="Back to commentaries">
+            <IconButton size="small" onClick={() => onOpen(null)}>
+              <ArrowBack fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
+            Commentaries
+          </Typography>
+          <Typography variant="caption" color="text.secondary" noWrap sx={{ display: 'block' }}>
+            {openRef || verseRef || 'Select a verse'}
+          </Typography>
+        </Box>
+        <IconButton size="small" onClick={onClose}>
+          <Close fontSize="small" />
+        </IconButton>
+      </Box>
+
+      {onSyncChange && (
+        <Box sx={{ px: 2, pb: 1 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={syncEnabled}
+                onChange={(e) => onSyncChange(e.target.checked)}
+              />
+            }
+            label={<Typography variant="caption">Open commentaries together</Typography>}
+          />
+        </Box>
+      )}
+
+      <Divider />
+
+      <Box sx={{ flex: 1, overflow: 'auto' }}>
+        {openRef ? renderOpenCommentary() : (
+          <>
+            {linksLoading && (
+              <Box display="flex" justifyContent="center" p={3}>
+                <CircularProgress size={24} />
+              </Box>
+            )}
+
+            {linksError && (
+              <Alert severity="error" sx={{ m: 2 }}>
+                {linksError}
+              </Alert>
+            )}
+
+            {!linksLoading && !linksError && verseRef && groupedLinks.length === 0 && (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                No commentaries found
+              </Typography>
+            )}
+
+            {!linksLoading && groupedLinks.map(([category, categoryLinks]) => (
+              <Accordion
+                key={category}
+                disableGutters
+                elevation={0}
+                defaultExpanded={category === 'Commentary'}
+              >
+                <AccordionSummary expandIcon={<ExpandMore />}>
+                  <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                    {category} ({categoryLinks.length})
+                  </Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ p: 0 }}>
+                  <List dense disablePadding>
+                    {categoryLinks.map(link => (
+                      <ListItemButton key={link.ref} onClick={() => onOpen(link.ref)}>
+                        <ListItemText
+                          primary={getCommentatorName(link)}
+                          secondary={link.ref}
+                        />
+                      </ListItemButton>
+                    ))}
+                  </List>
+                </AccordionDetails>
+              </Accordion>
+            ))}
+          </>
+        )}
+      </Box>
+    </Paper>
+  )
+}
+
+export default CommentarySidebar
\ No newline at end of file
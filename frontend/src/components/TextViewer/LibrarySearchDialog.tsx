@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  TextField,
+  InputAdornment,
+  IconButton,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText,
+  Typography,
+  CircularProgress,
+  Alert
+} from '@mui/material'
+import {
+  Search,
+  Close
+} from '@mui/icons-material'
+import { LibrarySearchResult } from '../../types'
+import { sefariaService } from '../../services/sefariaService'
+
+interface LibrarySearchDialogProps {
+  open: boolean
+  initialQuery?: string
+  onSelect: (result: LibrarySearchResult) => void
+  onClose: () => void
+}
+
+const LibrarySearchDialog: React.FC<LibrarySearchDialogProps> = ({
+  open,
+  initialQuery = '',
+  onSelect,
+  onClose
+}) => {
+  const [query, setQuery] = useState(initialQuery)
+  const [categories, setCategories] = useState<string[]>([])
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([])
+  const [results, setResults] = useState<LibrarySearchResult[]>([])
+  const [searchedQuery, setSearchedQuery] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from whatever was typed in the section search
+  useEffect(() => {
+    if (open) {
+      setQuery(initialQuery)
+    }
+  }, [open, initialQuery])
+
+  useEffect(() => {
+    if (!open) return
+
+    sefariaService.getSearchCategories()
+      .then(setCategories)
+      .catch(error => console.error('Failed to load search categories:', error))
+  }, [open])
+
+  // Search as the query or filters change, once typing pauses
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (!open || !trimmed) {
+      setResults([])
+      setSearchedQuery('')
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      setLoading(true)
+      setError(null)
+
+      sefariaService.searchLibrary(trimmed, selectedCategories)
+        .then(found => {
+          if (cancelled) return
+          setResults(found)
+          setSearchedQuery(trimmed)
+        })
+        .catch(error => {
+          console.error('Library search failed:', error)
+          if (!cancelled) setError('Search failed. Please try again.')
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false)
+        })
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, query, selectedCategories])
+
+  const handleToggleCategory = (category: string) => {
+    setSelectedCategories(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    )
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        Search the library
+        <IconButton size="small" onClick={onClose} aria-label="Close search">
+          <Close />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <TextField
+          fullWidth
+          autoFocus
+          size="small"
+          placeholder="Words in English or Hebrew, e.g. בראשית or light"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search />
+              </InputAdornment>
+            ),
+            endAdornment: loading && (
+              <InputAdornment position="end">
+                <CircularProgress size={18} />
+              </InputAdornment>
+            )
+          }}
+        />
+
+        {categories.length > 0 && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 2 }}>
+            {categories.map(category => (
+              <Chip
+                key={category}
+                label={category}
+                size="small"
+                color={selectedCategories.includes(category) ? 'primary' : 'default'}
+                variant={selectedCategories.includes(category) ? 'filled' : 'outlined'}
+                onClick={() => handleToggleCategory(category)}
+              />
+            ))}
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {searchedQuery && !loading && !error && results.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            No texts found for "{searchedQuery}". Only texts that have been read on the platform
+            or imported into its library can be searched.
+          </Typography>
+        )}
+
+        <List dense sx={{ mt: 1 }}>
+          {results.map(result => (
+            <ListItemButton key={result.ref} onClick={() => onSelect(result)} sx={{ borderRadius: 1 }}>
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="subtitle2">{result.ref}</Typography>
+                    {result.categories[0] && (
+                      <Chip label={result.categories[0]} size="small" variant="outlined" />
+                    )}
+                  </Box>
+                }
+                secondary={
+                  <Typography
+                    component="span"
+                    variant="body2"
+                    color="text.secondary"
+                    dir={result.language === 'he' ? 'rtl' : 'ltr'}
+                    sx={{
+                      display: '-webkit-box',
+                      WebkitLineClamp: 2,
+                      WebkitBoxOrient: 'vertical',
+                      overflow: 'hidden',
+                      fontFamily: result.language === 'he' ? 'serif' : 'inherit'
+                    }}
+                  >
+                    {result.content}
+                  </Typography>
+                }
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default LibrarySearchDialog
\ No newline at end of file
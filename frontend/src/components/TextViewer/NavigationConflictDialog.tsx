@@ -26,6 +26,7 @@ import { NavigationConflict } from '../../types'
 interface NavigationConflictDialogProps {
   open: boolean
   conflict: NavigationConflict | null
+  currentUserId?: string
   onResolve: (chosenRef: string) => void
   onCancel: () => void
 }
@@ -33,6 +34,7 @@ interface NavigationConflictDialogProps {
 const NavigationConflictDialog: React.FC<NavigationConflictDialogProps> = ({
   open,
   conflict,
+  currentUserId,
   onResolve,
   onCancel
 }) => {
@@ -42,6 +44,18 @@ const NavigationConflictDialog: React.FC<NavigationConflictDialogProps> = ({
     return null
   }
 
+  // In a vote only the partners who disagreed choose, and they must pick the same section
+  const isVote = conflict.strategy === 'vote'
+  const voterIds = conflict.voterIds || []
+  const votes = conflict.votes || {}
+  const canVote = !isVote || (!!currentUserId && voterIds.includes(currentUserId))
+  const participantNames = Object.fromEntries(
+    conflict.conflictingRefs.flatMap(conflictRef => conflictRef.participants.map(p => [p.userId, p.userName]))
+  )
+  const waitingFor = voterIds
+    .filter(id => !votes[id] && id !== currentUserId)
+    .map(id => participantNames[id] || 'your partner')
+
   const getInitials = (name: string): string => {
     return name
       .split(' ')
@@ -89,8 +103,9 @@ const NavigationConflictDialog: React.FC<NavigationConflictDialogProps> = ({
 
       <DialogContent>
         <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-          Multiple participants are trying to navigate to different sections. 
-          Choose which section everyone should view together.
+          {isVote
+            ? 'You moved to different sections at the same time. Everyone in the conflict has to pick the same section before the session moves on.'
+            : 'Multiple participants are trying to navigate to different sections. Choose which section everyone should view together.'}
         </Typography>
 
         <List sx={{ bgcolor: 'background.paper' }}>
@@ -99,15 +114,15 @@ const NavigationConflictDialog: React.FC<NavigationConflictDialogProps> = ({
               <ListItem
                 sx={{
                   border: 1,
-                  borderColor: 'divider',
+                  borderColor: currentUserId && votes[currentUserId] === conflictRef.ref ? 'primary.main' : 'divider',
                   borderRadius: 1,
                   mb: 1,
-                  cursor: 'pointer',
+                  cursor: canVote ? 'pointer' : 'default',
                   '&:hover': {
-                    backgroundColor: 'action.hover'
+                    backgroundColor: canVote ? 'action.hover' : undefined
                   }
                 }}
-                onClick={() => onResolve(conflictRef.ref)}
+                onClick={() => canVote && onResolve(conflictRef.ref)}
               >
                 <ListItemAvatar>
                   <Avatar sx={{ bgcolor: 'primary.main' }}>
@@ -126,6 +141,14 @@ const NavigationConflictDialog: React.FC<NavigationConflictDialogProps> = ({
                         label={`${conflictRef.participants.length} participant${conflictRef.participants.length !== 1 ? 's' : ''}`}
                         variant="outlined"
                       />
+                      {isVote && voterIds.filter(id => votes[id] === conflictRef.ref).map(id => (
+                        <Chip
+                          key={id}
+                          size="small"
+                          color="primary"
+                          label={id === currentUserId ? 'Your pick' : `${participantNames[id] || 'Partner'}'s pick`}
+                        />
+                      ))}
                     </Box>
                   }
                   secondary={
@@ -181,7 +204,13 @@ const NavigationConflictDialog: React.FC<NavigationConflictDialogProps> = ({
         >
           <Group color="info" />
           <Typography variant="caption" color="info.dark">
-            Click on any section above to navigate all participants there
+            {!isVote
+              ? 'Click on any section above to navigate all participants there'
+              : !canVote
+                ? `Waiting for ${voterIds.map(id => participantNames[id] || 'your partners').join(' and ')} to agree`
+                : waitingFor.length > 0
+                  ? `Click a section to pick it. Waiting for ${waitingFor.join(' and ')}.`
+                  : 'Click a section to pick it. Pick the same one to move on together.'}
           </Typography>
         </Box>
       </DialogContent>
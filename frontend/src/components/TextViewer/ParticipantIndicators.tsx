@@ -6,6 +6,7 @@ import {
   Tooltip,
   Typography,
   Paper,
+  IconButton,
   useTheme
 } from '@mui/material'
 import {
@@ -18,12 +19,18 @@ interface ParticipantIndicatorsProps {
   participants: ParticipantPosition[]
   currentRef: string
   currentUserId?: string
+  highlightAuthors?: Array<{ userId: string, userName: string, color: string }>
+  hiddenHighlightUserIds?: string[]
+  onToggleHighlights?: (userId: string) => void
 }
 
 const ParticipantIndicators: React.FC<ParticipantIndicatorsProps> = ({
   participants,
   currentRef,
-  currentUserId
+  currentUserId,
+  highlightAuthors = [],
+  hiddenHighlightUserIds = [],
+  onToggleHighlights
 }) => {
   const theme = useTheme()
 
@@ -42,7 +49,7 @@ const ParticipantIndicators: React.FC<ParticipantIndicatorsProps> = ({
     p.currentRef !== currentRef && p.currentRef
   )
 
-  if (otherParticipants.length === 0) {
+  if (otherParticipants.length === 0 && highlightAuthors.length === 0) {
     return null
   }
 
@@ -193,6 +200,52 @@ const ParticipantIndicators: React.FC<ParticipantIndicatorsProps> = ({
         </Box>
       )}
 
+      {/* Highlight visibility per participant */}
+      {highlightAuthors.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            Highlights:
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+            {highlightAuthors.map((author) => {
+              const isHidden = hiddenHighlightUserIds.includes(author.userId)
+
+              return (
+                <Box
+                  key={author.userId}
+                  sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+                >
+                  <Box
+                    sx={{
+                      width: 14,
+                      height: 14,
+                      borderRadius: '2px',
+                      bgcolor: author.color,
+                      opacity: isHidden ? 0.3 : 1
+                    }}
+                  />
+                  <Typography variant="caption" sx={{ flex: 1 }}>
+                    {author.userId === currentUserId ? 'You' : author.userName}
+                  </Typography>
+                  <Tooltip title={isHidden ? 'Show highlights' : 'Hide highlights'}>
+                    <IconButton
+                      size="small"
+                      onClick={() => onToggleHighlights?.(author.userId)}
+                    >
+                      {isHidden ? (
+                        <VisibilityOff sx={{ fontSize: 16 }} />
+                      ) : (
+                        <Visibility sx={{ fontSize: 16 }} />
+                      )}
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              )
+            })}
+          </Box>
+        </Box>
+      )}
+
       {/* Connection status */}
       <Box sx={{ mt: 2, pt: 1, borderTop: 1, borderColor: 'divider' }}>
         <Typography variant="caption" color="text.secondary">
@@ -4,9 +4,11 @@ import {
   Typography,
   Paper,
   Skeleton,
+  Badge,
   useTheme
 } from '@mui/material'
-import { SefariaText, TextSection, SearchHighlight } from '../../types'
+import { Comment as CommentIcon } from '@mui/icons-material'
+import { SefariaText, TextSection, SearchHighlight, TextSelection } from '../../types'
 
 // Simple HTML sanitizer for Sefaria text
 const sanitizeHtml = (html: string): string => {
@@ -26,6 +28,65 @@ const sanitizeHtml = (html: string): string => {
   return sanitized
 }
 
+// Wrap highlighted ranges of an HTML line in colored spans.
+// Offsets are measured against the rendered text content, matching how selections are captured.
+const applyHighlightsToHtml = (html: string, highlights: SearchHighlight[], defaultColor: string): string => {
+  if (!highlights.length || typeof DOMParser === 'undefined') return html
+
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html')
+  const root = doc.body.firstElementChild
+  if (!root) return html
+
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  const textNodes: Text[] = []
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text)
+  }
+
+  let offset = 0
+  textNodes.forEach(node => {
+    const content = node.data
+    const nodeStart = offset
+    const nodeEnd = offset + content.length
+    offset = nodeEnd
+
+    const overlapping = highlights.filter(h => h.startIndex < nodeEnd && h.endIndex > nodeStart)
+    if (!overlapping.length) return
+
+    // Split the text node at every highlight boundary inside it
+    const boundaries = new Set([0, content.length])
+    overlapping.forEach(h => {
+      boundaries.add(Math.max(h.startIndex - nodeStart, 0))
+      boundaries.add(Math.min(h.endIndex - nodeStart, content.length))
+    })
+    const points = Array.from(boundaries).sort((a, b) => a - b)
+
+    const fragment = doc.createDocumentFragment()
+    for (let i = 0; i < points.length - 1; i++) {
+      const piece = content.slice(points[i], points[i + 1])
+      const pieceStart = nodeStart + points[i]
+      // Later highlights win where highlights overlap
+      const highlight = [...overlapping].reverse().find(h => h.startIndex <= pieceStart && h.endIndex > pieceStart)
+
+      if (!highlight) {
+        fragment.appendChild(doc.createTextNode(piece))
+        continue
+      }
+
+      const span = doc.createElement('span')
+      span.style.backgroundColor = highlight.color || defaultColor
+      span.style.borderRadius = '2px'
+      if (highlight.id) span.setAttribute('data-highlight-id', highlight.id)
+      if (highlight.userName) span.title = `Highlighted by ${highlight.userName}`
+      span.textContent = piece
+      fragment.appendChild(span)
+    }
+    node.parentNode?.replaceChild(fragment, node)
+  })
+
+  return root.innerHTML
+}
+
 // Component to render HTML content safely
 const HtmlContent: React.FC<{ html: string; className?: string; isHebrew?: boolean }> = ({ 
   html, 
@@ -51,6 +112,11 @@ interface TextContentProps {
   searchQuery?: string
   loading?: boolean
   isMobile?: boolean
+  annotationCounts?: Record<string, number>
+  selectedLineRef?: string | null
+  onLineSelect?: (lineRef: string) => void
+  onTextSelect?: (selection: TextSelection, position: { top: number, left: number }) => void
+  onHighlightClick?: (highlight: SearchHighlight, position: { top: number, left: number }) => void
 }
 
 interface HighlightedTextProps {
@@ -73,29 +139,42 @@ const HighlightedText: React.FC<HighlightedTextProps> = ({
   const highlightedText = useMemo(() => {
     // Check if text contains HTML tags
     const hasHtml = /<[^>]+>/.test(text)
+
+    // Find highlights for this specific line (collaborative highlights also carry a language)
+    const language = isHebrew ? 'he' : 'en'
+    const lineHighlights = highlights.filter(h =>
+      h.ref === lineRef && (!h.language || h.language === language)
+    )
     
-    if (!highlights.length && !searchQuery) {
+    if (!lineHighlights.length && !searchQuery) {
       return hasHtml ? <HtmlContent html={text} isHebrew={isHebrew} /> : text
     }
 
-    // For now, if there are highlights and HTML, we'll render HTML without highlighting
-    // This is a simplified approach - a full implementation would need to parse HTML and apply highlights
+    // Search matches aren't applied to HTML lines; explicit highlights are mapped onto the text nodes
     if (hasHtml) {
-      return <HtmlContent html={text} isHebrew={isHebrew} />
+      return (
+        <HtmlContent
+          html={applyHighlightsToHtml(text, lineHighlights, theme.palette.info.light)}
+          isHebrew={isHebrew}
+        />
+      )
     }
-
-    // Find highlights for this specific line
-    const lineHighlights = highlights.filter(h => h.ref === lineRef)
     
     // Also search for the current search query if provided
-    const allHighlights: Array<{ start: number, end: number, type: 'search' | 'highlight' }> = []
+    const allHighlights: Array<{
+      start: number
+      end: number
+      type: 'search' | 'highlight'
+      source?: SearchHighlight
+    }> = []
     
     // Add explicit highlights
     lineHighlights.forEach(h => {
       allHighlights.push({
         start: h.startIndex,
         end: h.endIndex,
-        type: 'highlight'
+        type: 'highlight',
+        source: h
       })
     })
     
@@ -126,12 +205,16 @@ const HighlightedText: React.FC<HighlightedTextProps> = ({
     // Sort highlights by start position
     allHighlights.sort((a, b) => a.start - b.start)
     
-    // Merge overlapping highlights
-    const mergedHighlights: Array<{ start: number, end: number, type: 'search' | 'highlight' }> = []
+    // Merge overlapping highlights; differently colored highlights are clipped instead of merged
+    const mergedHighlights: typeof allHighlights = []
     for (const highlight of allHighlights) {
       const last = mergedHighlights[mergedHighlights.length - 1]
       if (last && highlight.start <= last.end) {
-        last.end = Math.max(last.end, highlight.end)
+        if (last.type === highlight.type && last.source?.color === highlight.source?.color) {
+          last.end = Math.max(last.end, highlight.end)
+        } else if (highlight.end > last.end) {
+          mergedHighlights.push({ ...highlight, start: last.end })
+        }
       } else {
         mergedHighlights.push(highlight)
       }
@@ -149,10 +232,18 @@ const HighlightedText: React.FC<HighlightedTextProps> = ({
       
       // Add highlighted text
       const highlightedPart = text.substring(highlight.start, highlight.end)
+      const color = highlight.source?.color
       parts.push(
         <span
           key={index}
-          style={{
+          data-highlight-id={highlight.source?.id}
+          title={highlight.source?.userName ? `Highlighted by ${highlight.source.userName}` : undefined}
+          style={color ? {
+            backgroundColor: color,
+            color: theme.palette.getContrastText(color),
+            padding: '1px 0',
+            borderRadius: '2px'
+          } : {
             backgroundColor: highlight.type === 'search' 
               ? theme.palette.warning.light 
               : theme.palette.info.light,
@@ -182,13 +273,33 @@ const HighlightedText: React.FC<HighlightedTextProps> = ({
   return <>{highlightedText}</>
 }
 
+// Small marker shown at the end of lines that have shared annotations
+const AnnotationMarker: React.FC<{ count: number }> = ({ count }) => {
+  if (count === 0) return null
+
+  return (
+    <Badge
+      badgeContent={count}
+      color="secondary"
+      sx={{ mx: 1.5, '& .MuiBadge-badge': { fontSize: '0.6rem', height: 14, minWidth: 14 } }}
+    >
+      <CommentIcon sx={{ fontSize: '1rem', color: 'text.secondary', verticalAlign: 'middle' }} />
+    </Badge>
+  )
+}
+
 const TextContent: React.FC<TextContentProps> = ({
   text,
   section,
   highlights = [],
   searchQuery,
   loading = false,
-  isMobile = false
+  isMobile = false,
+  annotationCounts = {},
+  selectedLineRef = null,
+  onLineSelect,
+  onTextSelect,
+  onHighlightClick
 }) => {
   console.log('TextContent received text:', text)
   console.log('TextContent text.text:', text?.text)
@@ -210,6 +321,49 @@ const TextContent: React.FC<TextContentProps> = ({
     )
   }
 
+  const handleLineClick = (event: React.MouseEvent<HTMLElement>, lineRef: string) => {
+    const highlightElement = (event.target as HTMLElement).closest('[data-highlight-id]')
+    if (highlightElement && onHighlightClick) {
+      const highlight = highlights.find(h => h.id === highlightElement.getAttribute('data-highlight-id'))
+      if (highlight) {
+        const rect = highlightElement.getBoundingClientRect()
+        onHighlightClick(highlight, { top: rect.bottom, left: rect.left + rect.width / 2 })
+        return
+      }
+    }
+
+    // Don't treat the end of a text selection as a line click
+    if (window.getSelection()?.isCollapsed === false) return
+
+    onLineSelect?.(lineRef)
+  }
+
+  const handleLineMouseUp = (event: React.MouseEvent<HTMLElement>, lineRef: string, language: 'en' | 'he') => {
+    if (!onTextSelect) return
+
+    const selection = window.getSelection()
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return
+
+    const range = selection.getRangeAt(0)
+    const lineElement = event.currentTarget
+    if (!lineElement.contains(range.startContainer) || !lineElement.contains(range.endContainer)) return
+
+    const selectedText = range.toString()
+    if (!selectedText.trim()) return
+
+    // Offset of the selection within the line's rendered text
+    const preRange = document.createRange()
+    preRange.selectNodeContents(lineElement)
+    preRange.setEnd(range.startContainer, range.startOffset)
+    const startIndex = preRange.toString().length
+
+    const rect = range.getBoundingClientRect()
+    onTextSelect(
+      { ref: lineRef, language, startIndex, endIndex: startIndex + selectedText.length, text: selectedText },
+      { top: rect.bottom, left: rect.left + rect.width / 2 }
+    )
+  }
+
   const hasHebrew = text.he && text.he.length > 0
   const hasEnglish = text.text && text.text.length > 0
 
@@ -276,9 +430,19 @@ const TextContent: React.FC<TextContentProps> = ({
                   <Typography
                     key={index}
                     component="div"
+                    data-line-ref={lineRef}
+                    onClick={onLineSelect || onHighlightClick ? (e) => handleLineClick(e, lineRef) : undefined}
+                    onMouseUp={onTextSelect ? (e) => handleLineMouseUp(e, lineRef, 'he') : undefined}
                     sx={{
                       mb: 1,
                       minHeight: '1.5em',
+                      cursor: onLineSelect ? 'pointer' : 'inherit',
+                      ...(selectedLineRef === lineRef && {
+                        bgcolor: 'action.selected',
+                        borderRadius: 1,
+                        px: 1,
+                        mx: -1
+                      }),
                       '&:hover': {
                         bgcolor: 'action.hover',
                         borderRadius: 1,
@@ -324,6 +488,7 @@ const TextContent: React.FC<TextContentProps> = ({
                       lineRef={lineRef}
                       isHebrew={true}
                     />
+                    <AnnotationMarker count={annotationCounts[lineRef] || 0} />
                   </Typography>
                 )
               })}
@@ -361,9 +526,19 @@ const TextContent: React.FC<TextContentProps> = ({
                   <Typography
                     key={index}
                     component="div"
+                    data-line-ref={lineRef}
+                    onClick={onLineSelect || onHighlightClick ? (e) => handleLineClick(e, lineRef) : undefined}
+                    onMouseUp={onTextSelect ? (e) => handleLineMouseUp(e, lineRef, 'en') : undefined}
                     sx={{
                       mb: 1,
                       minHeight: '1.5em',
+                      cursor: onLineSelect ? 'pointer' : 'inherit',
+                      ...(selectedLineRef === lineRef && {
+                        bgcolor: 'action.selected',
+                        borderRadius: 1,
+                        px: 1,
+                        mx: -1
+                      }),
                       '&:hover': {
                         bgcolor: 'action.hover',
                         borderRadius: 1,
@@ -409,6 +584,7 @@ const TextContent: React.FC<TextContentProps> = ({
                       lineRef={lineRef}
                       isHebrew={false}
                     />
+                    <AnnotationMarker count={annotationCounts[lineRef] || 0} />
                   </Typography>
                 )
               })}
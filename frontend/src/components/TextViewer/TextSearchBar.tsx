@@ -11,6 +11,7 @@ import {
 import {
   Search,
   Clear,
+  LibraryBooks,
   KeyboardArrowUp,
   KeyboardArrowDown
 } from '@mui/icons-material'
@@ -22,6 +23,8 @@ interface TextSearchBarProps {
   resultsCount?: number
   disabled?: boolean
   placeholder?: string
+  // Opens a search across the whole library rather than the loaded section
+  onSearchLibrary?: () => void
 }
 
 const TextSearchBar: React.FC<TextSearchBarProps> = ({
@@ -30,7 +33,8 @@ const TextSearchBar: React.FC<TextSearchBarProps> = ({
   onSearch,
   resultsCount = 0,
   disabled = false,
-  placeholder = "Search in text..."
+  placeholder = "Search in text...",
+  onSearchLibrary
 }) => {
   const [isExpanded, setIsExpanded] = useState(false)
   const [currentResultIndex, setCurrentResultIndex] = useState(0)
@@ -108,15 +112,27 @@ const TextSearchBar: React.FC<TextSearchBarProps> = ({
               </IconButton>
             </InputAdornment>
           ),
-          endAdornment: value && (
+          endAdornment: (value || onSearchLibrary) && (
             <InputAdornment position="end">
-              <IconButton
-                size="small"
-                onClick={handleClear}
-                disabled={disabled}
-              >
-                <Clear />
-              </IconButton>
+              {value && (
+                <IconButton
+                  size="small"
+                  onClick={handleClear}
+                  disabled={disabled}
+                >
+                  <Clear />
+                </IconButton>
+              )}
+              {onSearchLibrary && (
+                <IconButton
+                  size="small"
+                  onClick={onSearchLibrary}
+                  disabled={disabled}
+                  title="Search the whole library"
+                >
+                  <LibraryBooks />
+                </IconButton>
+              )}
             </InputAdornment>
           )
         }}
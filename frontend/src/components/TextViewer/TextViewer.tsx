@@ -11,7 +11,9 @@ import {
   Snackbar,
   IconButton,
   Tooltip,
-  Button
+  Button,
+  Popover,
+  Badge
 } from '@mui/material'
 import { 
   Videocam, 
@@ -21,25 +23,42 @@ import {
   CallEnd,
   VolumeUp,
   ExpandMore,
-  ExpandLess
+  ExpandLess,
+  Comment,
+  Chat,
+  MenuBook
 } from '@mui/icons-material'
-import { SefariaText, TextSection, TextNavigation, SearchHighlight, NavigationEvent } from '../../types'
+import { SefariaText, TextSection, TextNavigation, SearchHighlight, NavigationEvent, Annotation, Highlight, TextSelection, ChatMessage, LibrarySearchResult } from '../../types'
 import { sefariaService } from '../../services/sefariaService'
 import { socketService } from '../../services/socketService'
+import { offlineService } from '../../services/offlineService'
+import { highlightService } from '../../services/highlightService'
+import { sessionService } from '../../services/sessionService'
 import { useCollaborativeNavigation } from '../../contexts/CollaborativeNavigationContext'
 import { webrtcService, VideoCallState, WebRTCCallbacks } from '../../services/webrtcService'
 import { authService } from '../../services/authService'
+import { useOnlineStatus } from '../../hooks/useOnlineStatus'
 import TextNavigationControls from './TextNavigationControls'
 import TextSearchBar from './TextSearchBar'
+import LibrarySearchDialog from './LibrarySearchDialog'
 import TextContent from './TextContent'
 import ParticipantIndicators from './ParticipantIndicators'
 import NavigationConflictDialog from './NavigationConflictDialog'
+import AnnotationMargin from './AnnotationMargin'
+import ChatPanel from './ChatPanel'
+import CommentarySidebar from './CommentarySidebar'
+import ChaburaControls from './ChaburaControls'
+
+// Colors offered when highlighting a selection
+const HIGHLIGHT_COLORS = ['#ffeb3b', '#a5d6a7', '#90caf9', '#f48fb1', '#ffcc80']
 
 interface TextViewerProps {
   bookTitle: string
   initialRef?: string
   sessionId?: string
   userId?: string
+  havrutaId?: string
+  isHavrutaOwner?: boolean
   onNavigationChange?: (ref: string) => void
   onSectionChange?: (section: TextSection) => void
   searchQuery?: string
@@ -54,6 +73,8 @@ const TextViewer: React.FC<TextViewerProps> = ({
   initialRef,
   sessionId,
   userId,
+  havrutaId,
+  isHavrutaOwner = false,
   onNavigationChange,
   onSectionChange,
   searchQuery: externalSearchQuery,
@@ -65,6 +86,7 @@ const TextViewer: React.FC<TextViewerProps> = ({
   const theme = useTheme()
   const isMobile = useMediaQuery(theme.breakpoints.down('md'))
   const collaborative = useCollaborativeNavigation()
+  const isOnline = useOnlineStatus()
   
   const [currentText, setCurrentText] = useState<SefariaText | null>(null)
   const [currentSection, setCurrentSection] = useState<TextSection | null>(null)
@@ -83,6 +105,38 @@ const TextViewer: React.FC<TextViewerProps> = ({
   const [isVideoCallInitializing, setIsVideoCallInitializing] = useState(false)
   const [isVideoCallMinimized, setIsVideoCallMinimized] = useState(false)
   const [showVideoCall, setShowVideoCall] = useState(false)
+
+  // Shared annotation state
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [selectedLineRef, setSelectedLineRef] = useState<string | null>(null)
+  const [showAnnotations, setShowAnnotations] = useState(false)
+
+  // Collaborative highlight state
+  const [collaborativeHighlights, setCollaborativeHighlights] = useState<Highlight[]>([])
+  const [hiddenHighlightUserIds, setHiddenHighlightUserIds] = useState<string[]>([])
+  const [highlightColor, setHighlightColor] = useState(() => localStorage.getItem('highlightColor') || HIGHLIGHT_COLORS[0])
+  const [pendingSelection, setPendingSelection] = useState<{
+    selection: TextSelection
+    position: { top: number, left: number }
+  } | null>(null)
+  const [activeHighlight, setActiveHighlight] = useState<{
+    highlight: SearchHighlight
+    position: { top: number, left: number }
+  } | null>(null)
+
+  // Session chat state
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [showChat, setShowChat] = useState(false)
+  const [unreadChatCount, setUnreadChatCount] = useState(0)
+
+  // Commentary sidebar state
+  const [showCommentary, setShowCommentary] = useState(false)
+  const [commentaryRef, setCommentaryRef] = useState<string | null>(null)
+  const [syncCommentary, setSyncCommentary] = useState(false)
+
+  // Library search state
+  const [showLibrarySearch, setShowLibrarySearch] = useState(false)
+  const [searchTargetRef, setSearchTargetRef] = useState<string | null>(null)
   // Removed isAuthReady - using userId prop directly
 
   // Memoized highlights combining external and search highlights
@@ -96,9 +150,43 @@ const TextViewer: React.FC<TextViewerProps> = ({
     if (searchResults) {
       highlights.push(...searchResults)
     }
+
+    // Partner highlights, unless hidden from the participant list
+    collaborativeHighlights
+      .filter(h => !hiddenHighlightUserIds.includes(h.userId))
+      .forEach(h => {
+        highlights.push({
+          id: h.id,
+          ref: h.ref,
+          language: h.language,
+          startIndex: h.startIndex,
+          endIndex: h.endIndex,
+          text: h.text,
+          color: h.color,
+          userId: h.userId,
+          userName: h.user.name
+        })
+      })
     
     return highlights
-  }, [externalHighlights, searchResults])
+  }, [externalHighlights, searchResults, collaborativeHighlights, hiddenHighlightUserIds])
+
+  // Everyone with highlights in the current section, using their latest color
+  const highlightAuthors = useMemo(() => {
+    const authors = new Map<string, { userId: string, userName: string, color: string }>()
+    collaborativeHighlights.forEach(h => {
+      authors.set(h.userId, { userId: h.userId, userName: h.user.name, color: h.color })
+    })
+    return Array.from(authors.values())
+  }, [collaborativeHighlights])
+
+  // Number of annotations on each line of the current section
+  const annotationCounts = useMemo(() => {
+    return annotations.reduce<Record<string, number>>((counts, annotation) => {
+      counts[annotation.ref] = (counts[annotation.ref] || 0) + 1
+      return counts
+    }, {})
+  }, [annotations])
 
   // Load text content
   const loadText = useCallback(async (ref: string) => {
@@ -228,20 +316,45 @@ const TextViewer: React.FC<TextViewerProps> = ({
     handleNavigation(sectionRef)
   }, [handleNavigation])
 
+  // Open the section of a library search result and point at the matching segment
+  const handleLibraryResultSelect = useCallback((result: LibrarySearchResult) => {
+    setShowLibrarySearch(false)
+    setSearchTargetRef(result.ref)
+    handleNavigation(result.sectionRef)
+  }, [handleNavigation])
+
   // Handle collaborative navigation events
   const handleCollaborativeNavigation = useCallback((event: NavigationEvent) => {
     // Don't sync to our own navigation events
     if (event.userId !== userId) {
+      // Chabura participants reading on their own stay put until they follow again
+      if (collaborative.state.chabura && !collaborative.state.isFollowing) {
+        return
+      }
       setNavigationNotification(`${event.userName} navigated to ${event.newRef}`)
       setIsNavigatingFromSync(true)
       handleNavigation(event.newRef, true)
       setIsNavigatingFromSync(false)
     }
-  }, [userId]) // Remove handleNavigation from dependencies
+  }, [userId, collaborative.state.chabura, collaborative.state.isFollowing]) // Remove handleNavigation from dependencies
+
+  // Jump back to where the chabura is and follow the leader again
+  const handleFollowLeader = useCallback(() => {
+    const leaderRef = collaborative.followLeader()
+    if (leaderRef && leaderRef !== currentRef) {
+      setIsNavigatingFromSync(true)
+      handleNavigation(leaderRef, true)
+      setIsNavigatingFromSync(false)
+    }
+  }, [collaborative, currentRef]) // Remove handleNavigation from dependencies
 
   // Handle conflict resolution
   const handleConflictResolution = useCallback((chosenRef: string) => {
     collaborative.resolveConflict(chosenRef)
+    // In a vote nobody moves until everyone agrees, then the winning navigation arrives
+    if (collaborative.state.currentConflict?.strategy === 'vote') {
+      return
+    }
     setIsNavigatingFromSync(true)
     handleNavigation(chosenRef, true)
     setIsNavigatingFromSync(false)
@@ -399,6 +512,347 @@ const TextViewer: React.FC<TextViewerProps> = ({
     }
   }, [isCollaborative, sessionId, userId, collaborative]) // Add collaborative to dependencies
 
+  // Load shared annotations for the current section
+  useEffect(() => {
+    setSelectedLineRef(null)
+
+    if (!havrutaId || !currentText?.ref) {
+      setAnnotations([])
+      return
+    }
+
+    let cancelled = false
+    const loadAnnotations = () => {
+      offlineService.getAnnotations(havrutaId, currentText.ref)
+        .then(result => {
+          if (!cancelled) setAnnotations(result)
+        })
+        .catch(error => {
+          console.error('Failed to load annotations:', error)
+        })
+    }
+
+    // Notes written offline get their real ids once synced
+    loadAnnotations()
+    offlineService.onSync(loadAnnotations)
+
+    return () => {
+      cancelled = true
+      offlineService.offSync(loadAnnotations)
+    }
+  }, [havrutaId, currentText?.ref])
+
+  // Select and scroll to the segment a library search result pointed at, once its section loads
+  useEffect(() => {
+    if (!searchTargetRef || !currentText || !searchTargetRef.startsWith(`${currentText.ref}:`)) return
+
+    setSelectedLineRef(searchTargetRef)
+    setSearchTargetRef(null)
+    document.querySelector(`[data-line-ref="${CSS.escape(searchTargetRef)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [currentText, searchTargetRef])
+
+  // Record progress and keep the next sections on hand for reading offline
+  useEffect(() => {
+    if (!havrutaId || !currentText?.ref) return
+
+    if (!isReadOnly) {
+      offlineService.saveProgress(havrutaId, currentText.ref).catch(error => {
+        console.error('Failed to save progress:', error)
+      })
+    }
+    offlineService.prefetchSections(currentText.ref)
+  }, [havrutaId, currentText?.ref, isReadOnly])
+
+  // Retry the section that failed to load once we're back online
+  useEffect(() => {
+    if (isOnline && error && currentRef) {
+      loadText(currentRef)
+    }
+  }, [isOnline]) // Only retry when connectivity changes
+
+  // Keep annotations in sync with other participants
+  useEffect(() => {
+    if (!havrutaId || !currentText?.ref) return
+
+    const sectionRef = currentText.ref
+    const isInSection = (annotation: { havrutaId: string, ref: string }) =>
+      annotation.havrutaId === havrutaId &&
+      (annotation.ref === sectionRef || annotation.ref.startsWith(`${sectionRef}:`))
+
+    const handleAnnotationSaved = (annotation: Annotation) => {
+      if (!isInSection(annotation)) return
+      setAnnotations(prev => {
+        const exists = prev.some(a => a.id === annotation.id)
+        return exists
+          ? prev.map(a => a.id === annotation.id ? annotation : a)
+          : [...prev, annotation]
+      })
+    }
+
+    const handleAnnotationDeleted = (data: { id: string, havrutaId: string, ref: string }) => {
+      if (!isInSection(data)) return
+      setAnnotations(prev => prev.filter(a => a.id !== data.id))
+    }
+
+    socketService.on('annotation-created', handleAnnotationSaved)
+    socketService.on('annotation-updated', handleAnnotationSaved)
+    socketService.on('annotation-deleted', handleAnnotationDeleted)
+
+    return () => {
+      socketService.off('annotation-created', handleAnnotationSaved)
+      socketService.off('annotation-updated', handleAnnotationSaved)
+      socketService.off('annotation-deleted', handleAnnotationDeleted)
+    }
+  }, [havrutaId, currentText?.ref])
+
+  const handleLineSelect = useCallback((lineRef: string) => {
+    setSelectedLineRef(prev => prev === lineRef ? null : lineRef)
+    if (havrutaId && !showCommentary) {
+      setShowAnnotations(true)
+    }
+  }, [havrutaId, showCommentary])
+
+  const handleAddAnnotation = useCallback(async (ref: string, content: string) => {
+    if (!havrutaId) return
+    try {
+      const annotation = await offlineService.createAnnotation(havrutaId, ref, content, {
+        id: userId || '',
+        name: 'You'
+      })
+      setAnnotations(prev => prev.some(a => a.id === annotation.id) ? prev : [...prev, annotation])
+    } catch (error) {
+      console.error('Failed to add annotation:', error)
+      setNavigationNotification('Failed to add note')
+    }
+  }, [havrutaId, userId])
+
+  const handleUpdateAnnotation = useCallback(async (annotationId: string, content: string) => {
+    if (!havrutaId) return
+    try {
+      const annotation = await offlineService.updateAnnotation(havrutaId, annotationId, content)
+      setAnnotations(prev => prev.map(a => a.id !== annotationId ? a : annotation || { ...a, content }))
+    } catch (error) {
+      console.error('Failed to update annotation:', error)
+      setNavigationNotification('Failed to update note')
+    }
+  }, [havrutaId])
+
+  const handleDeleteAnnotation = useCallback(async (annotationId: string) => {
+    if (!havrutaId) return
+    try {
+      await offlineService.deleteAnnotation(havrutaId, annotationId)
+      setAnnotations(prev => prev.filter(a => a.id !== annotationId))
+    } catch (error) {
+      console.error('Failed to delete annotation:', error)
+      setNavigationNotification('Failed to delete note')
+    }
+  }, [havrutaId])
+
+  // Load collaborative highlights for the current section
+  useEffect(() => {
+    setPendingSelection(null)
+    setActiveHighlight(null)
+
+    if (!havrutaId || !currentText?.ref) {
+      setCollaborativeHighlights([])
+      return
+    }
+
+    let cancelled = false
+    highlightService.getHighlights(havrutaId, currentText.ref)
+      .then(result => {
+        if (!cancelled) setCollaborativeHighlights(result)
+      })
+      .catch(error => {
+        console.error('Failed to load highlights:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [havrutaId, currentText?.ref])
+
+  // Show partners' highlights as they are made
+  useEffect(() => {
+    if (!havrutaId || !currentText?.ref) return
+
+    const sectionRef = currentText.ref
+    const isInSection = (highlight: { havrutaId: string, ref: string }) =>
+      highlight.havrutaId === havrutaId &&
+      (highlight.ref === sectionRef || highlight.ref.startsWith(`${sectionRef}:`))
+
+    const handleHighlightCreated = (highlight: Highlight) => {
+      if (!isInSection(highlight)) return
+      setCollaborativeHighlights(prev => prev.some(h => h.id === highlight.id) ? prev : [...prev, highlight])
+    }
+
+    const handleHighlightDeleted = (data: { id: string, havrutaId: string, ref: string }) => {
+      if (!isInSection(data)) return
+      setCollaborativeHighlights(prev => prev.filter(h => h.id !== data.id))
+    }
+
+    socketService.on('highlight-created', handleHighlightCreated)
+    socketService.on('highlight-deleted', handleHighlightDeleted)
+
+    return () => {
+      socketService.off('highlight-created', handleHighlightCreated)
+      socketService.off('highlight-deleted', handleHighlightDeleted)
+    }
+  }, [havrutaId, currentText?.ref])
+
+  const handleTextSelect = useCallback((selection: TextSelection, position: { top: number, left: number }) => {
+    setActiveHighlight(null)
+    setPendingSelection({ selection, position })
+  }, [])
+
+  const handleHighlightClick = useCallback((highlight: SearchHighlight, position: { top: number, left: number }) => {
+    setPendingSelection(null)
+    setActiveHighlight({ highlight, position })
+  }, [])
+
+  const handleCreateHighlight = useCallback(async (color: string) => {
+    if (!havrutaId || !pendingSelection) return
+
+    setHighlightColor(color)
+    localStorage.setItem('highlightColor', color)
+
+    try {
+      const highlight = await highlightService.createHighlight(havrutaId, {
+        ...pendingSelection.selection,
+        color
+      })
+      setCollaborativeHighlights(prev => prev.some(h => h.id === highlight.id) ? prev : [...prev, highlight])
+      window.getSelection()?.removeAllRanges()
+    } catch (error) {
+      console.error('Failed to create highlight:', error)
+      setNavigationNotification('Failed to save highlight')
+    } finally {
+      setPendingSelection(null)
+    }
+  }, [havrutaId, pendingSelection])
+
+  const handleRemoveHighlight = useCallback(async () => {
+    if (!havrutaId || !activeHighlight?.highlight.id) return
+
+    const highlightId = activeHighlight.highlight.id
+    try {
+      await highlightService.deleteHighlight(havrutaId, highlightId)
+      setCollaborativeHighlights(prev => prev.filter(h => h.id !== highlightId))
+    } catch (error) {
+      console.error('Failed to remove highlight:', error)
+      setNavigationNotification('Failed to remove highlight')
+    } finally {
+      setActiveHighlight(null)
+    }
+  }, [havrutaId, activeHighlight])
+
+  const handleToggleHighlights = useCallback((highlightUserId: string) => {
+    setHiddenHighlightUserIds(prev => prev.includes(highlightUserId)
+      ? prev.filter(id => id !== highlightUserId)
+      : [...prev, highlightUserId]
+    )
+  }, [])
+
+  // Load the session chat and reload it whenever the session room is (re)joined
+  useEffect(() => {
+    if (!isCollaborative || !sessionId) return
+
+    const loadChatMessages = () => {
+      sessionService.getSessionMessages(sessionId)
+        .then(setChatMessages)
+        .catch(error => {
+          console.error('Failed to load chat messages:', error)
+        })
+    }
+
+    const handleSessionJoined = (data: { sessionId: string }) => {
+      if (data.sessionId === sessionId) loadChatMessages()
+    }
+
+    const handleChatMessage = (message: ChatMessage) => {
+      if (message.sessionId !== sessionId) return
+      setChatMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
+    }
+
+    loadChatMessages()
+    socketService.on('session-joined', handleSessionJoined)
+    socketService.on('chat-message', handleChatMessage)
+
+    return () => {
+      socketService.off('session-joined', handleSessionJoined)
+      socketService.off('chat-message', handleChatMessage)
+    }
+  }, [isCollaborative, sessionId])
+
+  // Count messages from partners that arrive while the chat is closed
+  useEffect(() => {
+    if (showChat) {
+      setUnreadChatCount(0)
+      return
+    }
+
+    const handleChatMessage = (message: ChatMessage) => {
+      if (message.sessionId === sessionId && message.userId !== userId) {
+        setUnreadChatCount(prev => prev + 1)
+      }
+    }
+
+    socketService.on('chat-message', handleChatMessage)
+    return () => {
+      socketService.off('chat-message', handleChatMessage)
+    }
+  }, [showChat, sessionId, userId])
+
+  const handleSendChatMessage = useCallback((content: string) => {
+    if (!sessionId) return
+    socketService.emit('send-chat-message', { sessionId, content })
+  }, [sessionId])
+
+  // Open the commentary partners opened, when syncing is on
+  useEffect(() => {
+    if (!isCollaborative || !sessionId || !syncCommentary) return
+
+    const handleCommentarySynced = (data: { sessionId: string, ref: string | null, userId: string, userName: string }) => {
+      if (data.sessionId !== sessionId || data.userId === userId) return
+
+      setCommentaryRef(data.ref)
+      if (data.ref) {
+        setShowCommentary(true)
+        setNavigationNotification(`${data.userName} opened ${data.ref}`)
+      }
+    }
+
+    socketService.on('commentary-synced', handleCommentarySynced)
+    return () => {
+      socketService.off('commentary-synced', handleCommentarySynced)
+    }
+  }, [isCollaborative, sessionId, syncCommentary, userId])
+
+  const handleOpenCommentary = useCallback((ref: string | null) => {
+    setCommentaryRef(ref)
+    if (syncCommentary && isCollaborative && sessionId) {
+      socketService.emit('sync-commentary', { sessionId, ref })
+    }
+  }, [syncCommentary, isCollaborative, sessionId])
+
+  // Surface chabura refusals (e.g. navigating without control)
+  useEffect(() => {
+    if (!isCollaborative) return
+
+    const handleChaburaMessage = (data: { sessionId: string, message: string }) => {
+      setNavigationNotification(data.message)
+    }
+
+    socketService.on('navigation:rejected', handleChaburaMessage)
+    socketService.on('chabura:error', handleChaburaMessage)
+
+    return () => {
+      socketService.off('navigation:rejected', handleChaburaMessage)
+      socketService.off('chabura:error', handleChaburaMessage)
+    }
+  }, [isCollaborative])
+
   // Set up collaborative navigation listener
   useEffect(() => {
     if (isCollaborative) {
@@ -418,7 +872,8 @@ const TextViewer: React.FC<TextViewerProps> = ({
     )
   }
 
-  if (error) {
+  // Offline, a missing section is reported in the banner and the last one stays open
+  if (error && (isOnline || !currentText)) {
     return (
       <Alert severity="error" sx={{ m: 2 }}>
         {error}
@@ -744,9 +1199,46 @@ const TextViewer: React.FC<TextViewerProps> = ({
     >
       {/* Header with book title and search */}
       <Box sx={{ p: 2, borderBottom: 1, borderColor: 'divider' }}>
-        <Typography variant="h6" gutterBottom>
-          {bookTitle}
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="h6" gutterBottom>
+            {bookTitle}
+          </Typography>
+          <Box>
+            <Tooltip title={showCommentary ? 'Hide commentaries' : 'Show commentaries'}>
+              <IconButton
+                size="small"
+                color={showCommentary ? 'primary' : 'default'}
+                onClick={() => setShowCommentary(prev => !prev)}
+              >
+                <MenuBook />
+              </IconButton>
+            </Tooltip>
+            {isCollaborative && sessionId && (
+              <Tooltip title={showChat ? 'Hide chat' : 'Show chat'}>
+                <IconButton
+                  size="small"
+                  color={showChat ? 'primary' : 'default'}
+                  onClick={() => setShowChat(prev => !prev)}
+                >
+                  <Badge badgeContent={unreadChatCount} color="error">
+                    <Chat />
+                  </Badge>
+                </IconButton>
+              </Tooltip>
+            )}
+            {havrutaId && (
+              <Tooltip title={showAnnotations ? 'Hide shared notes' : 'Show shared notes'}>
+                <IconButton
+                  size="small"
+                  color={showAnnotations ? 'primary' : 'default'}
+                  onClick={() => setShowAnnotations(prev => !prev)}
+                >
+                  <Comment />
+                </IconButton>
+              </Tooltip>
+            )}
+          </Box>
+        </Box>
         
         {!isReadOnly && (
           <TextSearchBar
@@ -755,10 +1247,32 @@ const TextViewer: React.FC<TextViewerProps> = ({
             onSearch={handleSearch}
             resultsCount={searchResults.length}
             disabled={loading}
+            onSearchLibrary={() => setShowLibrarySearch(true)}
           />
         )}
       </Box>
 
+      {!isOnline && (
+        <Alert severity={error ? 'warning' : 'info'} sx={{ borderRadius: 0 }}>
+          {error || "You're offline. Saved sections are still readable, and your notes and progress will sync when you reconnect."}
+        </Alert>
+      )}
+
+      {/* Chabura leader and raised hands */}
+      {isCollaborative && collaborative.state.chabura && (
+        <ChaburaControls
+          chabura={collaborative.state.chabura}
+          currentUserId={userId}
+          isFollowing={collaborative.state.isFollowing}
+          isReadOnly={isReadOnly}
+          onRaiseHand={collaborative.raiseHand}
+          onLowerHand={collaborative.lowerHand}
+          onGrantControl={collaborative.grantControl}
+          onRevokeControl={collaborative.revokeControl}
+          onFollowLeader={handleFollowLeader}
+        />
+      )}
+
       {/* Navigation controls */}
       {navigation && !isReadOnly && (
         <>
@@ -773,159 +1287,266 @@ const TextViewer: React.FC<TextViewerProps> = ({
       )}
 
       {/* Text content */}
-      <Box sx={{ flex: 1, overflow: 'auto', position: 'relative' }}>
-        {currentText && currentSection ? (
-          <TextContent
-            text={currentText}
-            section={currentSection}
-            highlights={allHighlights}
-            searchQuery={searchQuery}
-            loading={loading}
-            isMobile={isMobile}
+      <Box sx={{ flex: 1, display: 'flex', overflow: 'hidden' }}>
+        <Box sx={{ flex: 1, overflow: 'auto', position: 'relative' }}>
+          {currentText && currentSection ? (
+            <TextContent
+              text={currentText}
+              section={currentSection}
+              highlights={allHighlights}
+              searchQuery={searchQuery}
+              loading={loading}
+              isMobile={isMobile}
+              annotationCounts={annotationCounts}
+              selectedLineRef={selectedLineRef}
+              onLineSelect={handleLineSelect}
+              onTextSelect={havrutaId && !isReadOnly ? handleTextSelect : undefined}
+              onHighlightClick={havrutaId ? handleHighlightClick : undefined}
+            />
+          ) : (
+            <Box display="flex" justifyContent="center" alignItems="center" minHeight={200}>
+              <Typography variant="body2" color="text.secondary">
+                No text loaded
+              </Typography>
+            </Box>
+          )}
+
+          {/* Participant indicators for collaborative sessions */}
+          {((isCollaborative && collaborative.state.isConnected) || highlightAuthors.length > 0) && (
+            <ParticipantIndicators
+              participants={collaborative.state.participants}
+              currentRef={currentRef}
+              currentUserId={collaborative.state.sessionId || undefined}
+              highlightAuthors={highlightAuthors}
+              hiddenHighlightUserIds={hiddenHighlightUserIds}
+              onToggleHighlights={handleToggleHighlights}
+            />
+          )}
+
+          {/* Video Call Panel */}
+          <VideoCallPanel />
+
+          {/* Debug Panel - Remove this in production */}
+          {isCollaborative && (
+            <Paper 
+              elevation={1} 
+              sx={{ 
+                position: 'absolute',
+                bottom: 16,
+                left: 16,
+                p: 2,
+                bgcolor: 'rgba(0,0,0,0.8)',
+                color: 'white',
+                fontSize: '0.75rem',
+                maxWidth: 300,
+                zIndex: 5
+              }}
+            >
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Debug Info:
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Collaborative: {isCollaborative ? 'Yes' : 'No'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Session ID: {sessionId || 'None'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                User ID: {userId || 'None'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Auth Token: {authService.getToken() ? 'Yes' : 'No'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Auth Status: {authService.isAuthenticated() ? 'Yes' : 'No'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                User ID Available: {userId ? 'Yes' : 'No'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Socket Connected: {socketService.isConnected() ? 'Yes' : 'No'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Collaborative Connected: {collaborative.state.isConnected ? 'Yes' : 'No'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Video Call Initializing: {isVideoCallInitializing ? 'Yes' : 'No'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Video Call Visible: {showVideoCall ? 'Yes' : 'No'}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
+                Video Call Error: {videoCallError || 'None'}
+              </Typography>
+              <Box sx={{ mt: 1, display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                <button 
+                  onClick={() => initializeVideoCall()} 
+                  style={{ 
+                    fontSize: '10px', 
+                    padding: '2px 4px',
+                    backgroundColor: '#1976d2',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '2px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Test Video Call
+                </button>
+                <button 
+                  onClick={async () => {
+                    const user = await authService.getCurrentUser()
+                    console.log('Current user:', user)
+                    console.log('Auth token:', authService.getToken())
+                    console.log('Is authenticated:', authService.isAuthenticated())
+                  }} 
+                  style={{ 
+                    fontSize: '10px', 
+                    padding: '2px 4px',
+                    backgroundColor: '#dc004e',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '2px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Check Auth
+                </button>
+                <button 
+                  onClick={async () => {
+                    try {
+                      const user = await authService.getCurrentUser()
+                      if (user) {
+                        console.log('Attempting socket connection with user:', user.name)
+                        await socketService.connect(user)
+                        console.log('Socket connection successful')
+                      } else {
+                        console.log('No user available for socket connection')
+                      }
+                    } catch (error) {
+                      console.error('Socket connection failed:', error)
+                    }
+                  }} 
+                  style={{ 
+                    fontSize: '10px', 
+                    padding: '2px 4px',
+                    backgroundColor: '#4caf50',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '2px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Test Socket
+                </button>
+              </Box>
+            </Paper>
+          )}
+        </Box>
+
+        {/* Shared annotations margin */}
+        {havrutaId && showAnnotations && (
+          <AnnotationMargin
+            annotations={annotations}
+            selectedLineRef={selectedLineRef}
+            currentUserId={userId}
+            isOwner={isHavrutaOwner}
+            onAdd={handleAddAnnotation}
+            onUpdate={handleUpdateAnnotation}
+            onDelete={handleDeleteAnnotation}
+            onClose={() => setShowAnnotations(false)}
           />
-        ) : (
-          <Box display="flex" justifyContent="center" alignItems="center" minHeight={200}>
-            <Typography variant="body2" color="text.secondary">
-              No text loaded
-            </Typography>
-          </Box>
         )}
 
-        {/* Participant indicators for collaborative sessions */}
-        {isCollaborative && collaborative.state.isConnected && (
-          <ParticipantIndicators
-            participants={collaborative.state.participants}
-            currentRef={currentRef}
-            currentUserId={collaborative.state.sessionId || undefined}
+        {/* Commentary sidebar for the focused verse */}
+        {showCommentary && (
+          <CommentarySidebar
+            verseRef={selectedLineRef || currentText?.ref || null}
+            openRef={commentaryRef}
+            onOpen={handleOpenCommentary}
+            syncEnabled={syncCommentary}
+            onSyncChange={isCollaborative && sessionId ? setSyncCommentary : undefined}
+            onClose={() => setShowCommentary(false)}
           />
         )}
 
-        {/* Video Call Panel */}
-        <VideoCallPanel />
-
-        {/* Debug Panel - Remove this in production */}
-        {isCollaborative && (
-          <Paper 
-            elevation={1} 
-            sx={{ 
-              position: 'absolute',
-              bottom: 16,
-              left: 16,
-              p: 2,
-              bgcolor: 'rgba(0,0,0,0.8)',
-              color: 'white',
-              fontSize: '0.75rem',
-              maxWidth: 300,
-              zIndex: 5
-            }}
-          >
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Debug Info:
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Collaborative: {isCollaborative ? 'Yes' : 'No'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Session ID: {sessionId || 'None'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              User ID: {userId || 'None'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Auth Token: {authService.getToken() ? 'Yes' : 'No'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Auth Status: {authService.isAuthenticated() ? 'Yes' : 'No'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              User ID Available: {userId ? 'Yes' : 'No'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Socket Connected: {socketService.isConnected() ? 'Yes' : 'No'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Collaborative Connected: {collaborative.state.isConnected ? 'Yes' : 'No'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Video Call Initializing: {isVideoCallInitializing ? 'Yes' : 'No'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Video Call Visible: {showVideoCall ? 'Yes' : 'No'}
-            </Typography>
-            <Typography variant="caption" sx={{ color: 'white', display: 'block' }}>
-              Video Call Error: {videoCallError || 'None'}
-            </Typography>
-            <Box sx={{ mt: 1, display: 'flex', gap: 1, flexWrap: 'wrap' }}>
-              <button 
-                onClick={() => initializeVideoCall()} 
-                style={{ 
-                  fontSize: '10px', 
-                  padding: '2px 4px',
-                  backgroundColor: '#1976d2',
-                  color: 'white',
-                  border: 'none',
-                  borderRadius: '2px',
-                  cursor: 'pointer'
-                }}
-              >
-                Test Video Call
-              </button>
-              <button 
-                onClick={async () => {
-                  const user = await authService.getCurrentUser()
-                  console.log('Current user:', user)
-                  console.log('Auth token:', authService.getToken())
-                  console.log('Is authenticated:', authService.isAuthenticated())
-                }} 
-                style={{ 
-                  fontSize: '10px', 
-                  padding: '2px 4px',
-                  backgroundColor: '#dc004e',
-                  color: 'white',
-                  border: 'none',
-                  borderRadius: '2px',
-                  cursor: 'pointer'
-                }}
-              >
-                Check Auth
-              </button>
-              <button 
-                onClick={async () => {
-                  try {
-                    const user = await authService.getCurrentUser()
-                    if (user) {
-                      console.log('Attempting socket connection with user:', user.name)
-                      await socketService.connect(user)
-                      console.log('Socket connection successful')
-                    } else {
-                      console.log('No user available for socket connection')
-                    }
-                  } catch (error) {
-                    console.error('Socket connection failed:', error)
-                  }
-                }} 
-                style={{ 
-                  fontSize: '10px', 
-                  padding: '2px 4px',
-                  backgroundColor: '#4caf50',
-                  color: 'white',
-                  border: 'none',
-                  borderRadius: '2px',
-                  cursor: 'pointer'
-                }}
-              >
-                Test Socket
-              </button>
-            </Box>
-          </Paper>
+        {/* Session chat */}
+        {isCollaborative && sessionId && showChat && (
+          <ChatPanel
+            messages={chatMessages}
+            currentUserId={userId}
+            disabled={!collaborative.state.isConnected}
+            onSend={handleSendChatMessage}
+            onRefClick={handleJumpToSection}
+            onClose={() => setShowChat(false)}
+          />
         )}
       </Box>
 
+      {/* Highlight color picker for the current selection */}
+      <Popover
+        open={!!pendingSelection}
+        anchorReference="anchorPosition"
+        anchorPosition={pendingSelection?.position}
+        onClose={() => setPendingSelection(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'center' }}
+      >
+        <Box sx={{ p: 1, display: 'flex', gap: 1 }}>
+          {HIGHLIGHT_COLORS.map(color => (
+            <Tooltip key={color} title="Highlight">
+              <Box
+                onClick={() => handleCreateHighlight(color)}
+                sx={{
+                  width: 24,
+                  height: 24,
+                  borderRadius: '50%',
+                  bgcolor: color,
+                  cursor: 'pointer',
+                  border: 2,
+                  borderColor: color === highlightColor ? 'text.primary' : 'transparent'
+                }}
+              />
+            </Tooltip>
+          ))}
+        </Box>
+      </Popover>
+
+      {/* Details for a clicked highlight */}
+      <Popover
+        open={!!activeHighlight}
+        anchorReference="anchorPosition"
+        anchorPosition={activeHighlight?.position}
+        onClose={() => setActiveHighlight(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'center' }}
+      >
+        <Box sx={{ p: 1.5, display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="caption">
+            Highlighted by {activeHighlight?.highlight.userId === userId ? 'you' : activeHighlight?.highlight.userName}
+          </Typography>
+          {(activeHighlight?.highlight.userId === userId || isHavrutaOwner) && (
+            <Button size="small" color="error" onClick={handleRemoveHighlight}>
+              Remove
+            </Button>
+          )}
+        </Box>
+      </Popover>
+
+      {/* Search across the whole library */}
+      <LibrarySearchDialog
+        open={showLibrarySearch}
+        initialQuery={searchQuery}
+        onSelect={handleLibraryResultSelect}
+        onClose={() => setShowLibrarySearch(false)}
+      />
+
       {/* Navigation conflict dialog */}
       {isCollaborative && (
         <NavigationConflictDialog
           open={!!collaborative.state.currentConflict}
           conflict={collaborative.state.currentConflict}
+          currentUserId={userId}
           onResolve={handleConflictResolution}
           onCancel={() => {}}
         />
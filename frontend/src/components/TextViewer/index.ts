@@ -1,6 +1,11 @@
 export { default as TextViewer } from './TextViewer'
 export { default as TextNavigationControls } from './TextNavigationControls'
 export { default as TextSearchBar } from './TextSearchBar'
+export { default as LibrarySearchDialog } from './LibrarySearchDialog'
 export { default as TextContent } from './TextContent'
 export { default as ParticipantIndicators } from './ParticipantIndicators'
-export { default as NavigationConflictDialog } from './NavigationConflictDialog'
\ No newline at end of file
+export { default as NavigationConflictDialog } from './NavigationConflictDialog'
+export { default as AnnotationMargin } from './AnnotationMargin'
+export { default as ChatPanel } from './ChatPanel'
+export { default as CommentarySidebar } from './CommentarySidebar'
+export { default as ChaburaControls } from './ChaburaControls'
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react'
 import { User, AuthState } from '../types'
 import authService from '../services/authService'
+import offlineService from '../services/offlineService'
 
 // Action types
 type AuthAction =
@@ -9,6 +10,7 @@ type AuthAction =
   | { type: 'LOGIN_FAILURE'; payload: string }
   | { type: 'LOGOUT' }
   | { type: 'CLEAR_ERROR' }
+  | { type: 'UPDATE_USER'; payload: Partial<User> }
 
 // Initial state
 const initialState: AuthState = {
@@ -56,6 +58,11 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         ...state,
         error: null,
       }
+    case 'UPDATE_USER':
+      return {
+        ...state,
+        user: state.user ? { ...state.user, ...action.payload } : null,
+      }
     default:
       return state
   }
@@ -68,6 +75,7 @@ interface AuthContextType {
   handleOAuthCallback: (code: string, provider: 'google' | 'apple') => Promise<void>
   logout: () => void
   clearError: () => void
+  updateUser: (updates: Partial<User>) => void
 }
 
 // Create context
@@ -104,6 +112,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuth()
   }, [])
 
+  // Offline changes are queued and replayed for the signed-in user only
+  useEffect(() => {
+    offlineService.setUser(state.user?.id ?? null)
+  }, [state.user?.id])
+
   const login = async (provider: 'google' | 'apple') => {
     dispatch({ type: 'LOGIN_START' })
     try {
@@ -131,6 +144,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = () => {
     authService.logout()
+    offlineService.clearUserData()
+      .catch(error => console.warn('Failed to clear offline data:', error))
     dispatch({ type: 'LOGOUT' })
   }
 
@@ -138,12 +153,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     dispatch({ type: 'CLEAR_ERROR' })
   }
 
+  const updateUser = (updates: Partial<User>) => {
+    dispatch({ type: 'UPDATE_USER', payload: updates })
+  }
+
   const value: AuthContextType = {
     state,
     login,
     handleOAuthCallback,
     logout,
     clearError,
+    updateUser,
   }
 
   return (
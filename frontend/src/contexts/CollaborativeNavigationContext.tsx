@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode, useCallback } from 'react'
-import { ParticipantPosition, NavigationEvent, NavigationConflict, CollaborativeState } from '../types'
+import { ParticipantPosition, NavigationEvent, NavigationConflict, CollaborativeState, ChaburaState } from '../types'
 import { socketService } from '../services/socketService'
 import type { SocketEvents } from '../services/socketService'
 import { useAuth } from './AuthContext'
@@ -14,6 +14,8 @@ type CollaborativeAction =
   | { type: 'UPDATE_PARTICIPANT_POSITION'; payload: { userId: string, ref: string } }
   | { type: 'SET_CONFLICT'; payload: NavigationConflict | null }
   | { type: 'SET_NAVIGATION_LOCKED'; payload: boolean }
+  | { type: 'SET_CHABURA'; payload: ChaburaState | null }
+  | { type: 'SET_FOLLOWING'; payload: boolean }
   | { type: 'RESET_STATE' }
 
 // Initial state
@@ -23,6 +25,8 @@ const initialState: CollaborativeState = {
   participants: [],
   currentConflict: null,
   isNavigationLocked: false,
+  chabura: null,
+  isFollowing: true,
 }
 
 // Reducer
@@ -56,7 +60,9 @@ const collaborativeReducer = (state: CollaborativeState, action: CollaborativeAc
           p.userId === action.payload.userId
             ? { ...p, currentRef: action.payload.ref, timestamp: new Date(), isActive: true }
             : p
-        )
+        ),
+        // Only the leader or their driver can move a chabura, so this is where the group is
+        chabura: state.chabura && { ...state.chabura, currentSection: action.payload.ref }
       }
     
     case 'SET_CONFLICT':
@@ -65,6 +71,12 @@ const collaborativeReducer = (state: CollaborativeState, action: CollaborativeAc
     case 'SET_NAVIGATION_LOCKED':
       return { ...state, isNavigationLocked: action.payload }
     
+    case 'SET_CHABURA':
+      return { ...state, chabura: action.payload }
+    
+    case 'SET_FOLLOWING':
+      return { ...state, isFollowing: action.payload }
+    
     case 'RESET_STATE':
       return initialState
     
@@ -83,6 +95,12 @@ interface CollaborativeNavigationContextType {
   resolveConflict: (chosenRef: string) => void
   onNavigationUpdate: (callback: (event: NavigationEvent) => void) => void
   offNavigationUpdate: (callback: (event: NavigationEvent) => void) => void
+  canNavigate: boolean // False for chabura participants who aren't driving
+  followLeader: () => string | null // Start following again; returns where the group is
+  raiseHand: () => void
+  lowerHand: () => void
+  grantControl: (userId: string) => void
+  revokeControl: () => void
 }
 
 // Create context
@@ -139,6 +157,12 @@ export const CollaborativeNavigationProvider: React.FC<CollaborativeNavigationPr
     console.log('Successfully joined session:', data.sessionId)
   }, [])
 
+  const handleSessionReconnecting = useCallback((data: { sessionId: string }) => {
+    // The session is resumed once the socket is back; until then we're out of sync
+    console.warn('Connection lost, reconnecting to session:', data.sessionId)
+    dispatch({ type: 'SET_CONNECTED', payload: false })
+  }, [])
+
   const handleSessionLeft = useCallback((data: { sessionId: string, participantCount: number, roomDeleted: boolean }) => {
     dispatch({ type: 'RESET_STATE' })
     console.log('Left session:', data.sessionId)
@@ -149,6 +173,16 @@ export const CollaborativeNavigationProvider: React.FC<CollaborativeNavigationPr
     dispatch({ type: 'SET_CONNECTED', payload: false })
   }, [])
 
+  const handleChaburaState = useCallback((chabura: ChaburaState) => {
+    dispatch({ type: 'SET_CHABURA', payload: chabura })
+  }, [])
+
+  const handleNavigationRejected = useCallback((data: { sessionId: string, message: string }) => {
+    // The server didn't move anyone else, so this user is now off on their own
+    console.warn('Navigation rejected:', data.message)
+    dispatch({ type: 'SET_FOLLOWING', payload: false })
+  }, [])
+
   // Set up socket event listeners
   useEffect(() => {
     if (!user) {
@@ -184,11 +218,6 @@ export const CollaborativeNavigationProvider: React.FC<CollaborativeNavigationPr
     // Connect to socket service only if not already connected
     connectSocket()
 
-    // Cleanup function
-    return () => {
-      isMounted = false
-    }
-
     // Register event handlers
     socketService.on('navigation:update', handleNavigationUpdate)
     socketService.on('navigation:conflict', handleNavigationConflict)
@@ -198,9 +227,14 @@ export const CollaborativeNavigationProvider: React.FC<CollaborativeNavigationPr
     socketService.on('participant:positions', handleParticipantPositions)
     socketService.on('session-joined', handleSessionJoined)
     socketService.on('session-left', handleSessionLeft)
+    socketService.on('session:reconnecting', handleSessionReconnecting)
     socketService.on('error', handleSessionError)
+    socketService.on('chabura:state', handleChaburaState)
+    socketService.on('navigation:rejected', handleNavigationRejected)
 
     return () => {
+      isMounted = false
+
       // Clean up event listeners
       socketService.off('navigation:update', handleNavigationUpdate)
       socketService.off('navigation:conflict', handleNavigationConflict)
@@ -210,7 +244,10 @@ export const CollaborativeNavigationProvider: React.FC<CollaborativeNavigationPr
       socketService.off('participant:positions', handleParticipantPositions)
       socketService.off('session-joined', handleSessionJoined)
       socketService.off('session-left', handleSessionLeft)
+      socketService.off('session:reconnecting', handleSessionReconnecting)
       socketService.off('error', handleSessionError)
+      socketService.off('chabura:state', handleChaburaState)
+      socketService.off('navigation:rejected', handleNavigationRejected)
     }
   }, [user?.id]) // Only depend on user ID to prevent reconnections
 
@@ -275,13 +312,43 @@ export const CollaborativeNavigationProvider: React.FC<CollaborativeNavigationPr
     dispatch({ type: 'RESET_STATE' })
   }, [])
 
+  const canNavigate = !state.chabura ||
+    state.chabura.leaderId === user?.id ||
+    state.chabura.driverId === user?.id
+
   const broadcastNavigation = useCallback((ref: string) => {
     if (state.isNavigationLocked) {
       console.warn('Navigation is locked due to conflict')
       return
     }
+    if (!canNavigate) {
+      // Reading ahead on your own in a chabura stops following the leader
+      dispatch({ type: 'SET_FOLLOWING', payload: false })
+      return
+    }
     socketService.broadcastNavigation(ref)
-  }, [state.isNavigationLocked])
+  }, [state.isNavigationLocked, canNavigate])
+
+  const followLeader = useCallback(() => {
+    dispatch({ type: 'SET_FOLLOWING', payload: true })
+    return state.chabura?.currentSection || null
+  }, [state.chabura])
+
+  const raiseHand = useCallback(() => {
+    socketService.raiseHand()
+  }, [])
+
+  const lowerHand = useCallback(() => {
+    socketService.lowerHand()
+  }, [])
+
+  const grantControl = useCallback((userId: string) => {
+    socketService.grantControl(userId)
+  }, [])
+
+  const revokeControl = useCallback(() => {
+    socketService.revokeControl()
+  }, [])
 
   const syncToReference = useCallback((ref: string) => {
     socketService.syncToReference(ref)
@@ -289,9 +356,13 @@ export const CollaborativeNavigationProvider: React.FC<CollaborativeNavigationPr
 
   const resolveConflict = useCallback((chosenRef: string) => {
     socketService.resolveConflict(chosenRef)
+    // A vote stays open until everyone agrees; the server then sends navigation:sync
+    if (state.currentConflict?.strategy === 'vote') {
+      return
+    }
     dispatch({ type: 'SET_CONFLICT', payload: null })
     dispatch({ type: 'SET_NAVIGATION_LOCKED', payload: false })
-  }, [])
+  }, [state.currentConflict])
 
   const onNavigationUpdate = useCallback((callback: (event: NavigationEvent) => void) => {
     socketService.on('navigation:update', callback)
@@ -310,6 +381,12 @@ export const CollaborativeNavigationProvider: React.FC<CollaborativeNavigationPr
     resolveConflict,
     onNavigationUpdate,
     offNavigationUpdate,
+    canNavigate,
+    followLeader,
+    raiseHand,
+    lowerHand,
+    grantControl,
+    revokeControl,
   }
 
   return (
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Havruta, Session } from '../types'
+import { Havruta, HavrutaVisibility, Session } from '../types'
 import { havrutaService } from '../services/havrutaService'
 import { sessionService } from '../services/sessionService'
 import { schedulingService } from '../services/schedulingService'
@@ -16,11 +16,13 @@ interface DashboardData {
     currentSection: string
     startTime: Date
     isRecurring: boolean
+    recurrencePatternId: string | null
     participants: Array<{
       user: {
         id: string
         name: string
         email: string
+        timeZone?: string
       }
     }>
   }>
@@ -49,6 +51,8 @@ interface UseDashboardDataReturn extends DashboardData {
     bookId: string
     bookTitle: string
     currentSection?: string
+    visibility?: HavrutaVisibility
+    description?: string
   }) => Promise<void>
 }
 
@@ -140,6 +144,7 @@ export const useDashboardData = (): UseDashboardDataReturn => {
         currentSection: session.havruta.currentSection,
         startTime: new Date(session.startTime),
         isRecurring: session.isRecurring || false,
+        recurrencePatternId: session.recurrencePatternId || null,
         participants: session.participants || []
       }))
 
@@ -244,6 +249,8 @@ export const useDashboardData = (): UseDashboardDataReturn => {
     bookId: string
     bookTitle: string
     currentSection?: string
+    visibility?: HavrutaVisibility
+    description?: string
   }) => {
     try {
       await havrutaService.createHavruta(data)
@@ -7,4 +7,13 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>,
-)
\ No newline at end of file
+)
+
+// Cache the app shell so saved texts can be read without a connection
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service worker registration failed:', error)
+    })
+  })
+}
\ No newline at end of file
@@ -20,6 +20,7 @@ import {
   IconButton,
   Alert,
   Snackbar,
+  LinearProgress,
 } from '@mui/material'
 import { 
   Add, 
@@ -32,6 +33,15 @@ import {
   Sort,
   PersonAdd,
   Bolt,
+  EventNote,
+  TrendingUp,
+  EventRepeat,
+  HowToVote,
+  Diversity3,
+  Explore,
+  Share,
+  ManageAccounts,
+  RecordVoiceOver,
 } from '@mui/icons-material'
 import { useAuth } from '../contexts/AuthContext'
 import { useDashboardData } from '../hooks/useDashboardData'
@@ -41,14 +51,31 @@ import { CreateHavrutaDialog } from '../components/CreateHavrutaDialog'
 import { ParticipantInvitationDialog } from '../components/ParticipantInvitationDialog'
 import SessionSchedulingDialog from '../components/SessionSchedulingDialog'
 import InstantSessionNotification from '../components/InstantSessionNotification'
-import { Havruta } from '../types'
-import { useNavigate } from 'react-router-dom'
+import StudyPlanDialog from '../components/StudyPlanDialog'
+import ProgressSummaryDialog from '../components/ProgressSummaryDialog'
+import RecurringSeriesDialog from '../components/RecurringSeriesDialog'
+import SchedulingPollDialog from '../components/SchedulingPollDialog'
+import SchedulingPollsCard from '../components/SchedulingPollsCard'
+import PartnerMatchingDialog from '../components/PartnerMatchingDialog'
+import BrowseHavrutotDialog from '../components/BrowseHavrutotDialog'
+import HavrutaSharingDialog from '../components/HavrutaSharingDialog'
+import HavrutaMembersDialog from '../components/HavrutaMembersDialog'
+import JoinRequestsCard from '../components/JoinRequestsCard'
+import { Havruta, ProgressSummary, StudyPlan, StudyPlanStatus, SessionMode } from '../types'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { testLogin, isTestMode } from '../utils/testAuth'
 import { runWebRTCTests } from '../utils/webrtcTest'
+import { getUserTimeZone, formatInTimeZone } from '../utils/timeZone'
+import { getHavrutaRole, canHost } from '../utils/havrutaRoles'
 import { socketService, InstantSessionInvitation } from '../services/socketService'
+import { PENDING_INVITE_KEY } from '../services/invitationService'
+
+// A chabura is for groups, not a pair
+const CHABURA_MIN_PARTICIPANTS = 3
 
 const DashboardPage: React.FC = () => {
   const { state: authState } = useAuth()
+  const timeZone = getUserTimeZone(authState.user)
   const navigate = useNavigate()
   const theme = useTheme()
   const isMobile = useMediaQuery(theme.breakpoints.down('md'))
@@ -67,6 +94,19 @@ const DashboardPage: React.FC = () => {
   const [selectedHavrutaForInvitation, setSelectedHavrutaForInvitation] = React.useState<Havruta | null>(null)
   const [selectedHavrutaForScheduling, setSelectedHavrutaForScheduling] = React.useState<Havruta | null>(null)
   const [instantSessionInvitation, setInstantSessionInvitation] = React.useState<InstantSessionInvitation | null>(null)
+  const [studyPlans, setStudyPlans] = React.useState<Record<string, { plan: StudyPlan | null; status: StudyPlanStatus | null }>>({})
+  const [selectedHavrutaForPlan, setSelectedHavrutaForPlan] = React.useState<Havruta | null>(null)
+  const [progressSummaries, setProgressSummaries] = React.useState<Record<string, ProgressSummary>>({})
+  const [selectedHavrutaForProgress, setSelectedHavrutaForProgress] = React.useState<Havruta | null>(null)
+  const [selectedSeries, setSelectedSeries] = React.useState<{ patternId: string; havrutaName: string } | null>(null)
+  const [selectedHavrutaForPoll, setSelectedHavrutaForPoll] = React.useState<Havruta | null>(null)
+  const [pollsRefreshKey, setPollsRefreshKey] = React.useState(0)
+  const [matchingDialogOpen, setMatchingDialogOpen] = React.useState(false)
+  const [browseDialogOpen, setBrowseDialogOpen] = React.useState(false)
+  const [selectedHavrutaForSharing, setSelectedHavrutaForSharing] = React.useState<Havruta | null>(null)
+  const [selectedHavrutaForMembers, setSelectedHavrutaForMembers] = React.useState<Havruta | null>(null)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const linkedHavrutaId = searchParams.get('join') // Set when opening a shared join link
 
   // Use the dashboard data hook
   const {
@@ -83,6 +123,15 @@ const DashboardPage: React.FC = () => {
     createHavruta,
   } = useDashboardData()
 
+  // Pick up an invite link that was opened before signing in
+  React.useEffect(() => {
+    const pendingInvite = sessionStorage.getItem(PENDING_INVITE_KEY)
+    if (pendingInvite) {
+      sessionStorage.removeItem(PENDING_INVITE_KEY)
+      navigate(`/invite/${pendingInvite}`)
+    }
+  }, [navigate])
+
   // Set up WebSocket connection and instant session notifications
   React.useEffect(() => {
     if (authState.user && authState.isAuthenticated) {
@@ -105,6 +154,48 @@ const DashboardPage: React.FC = () => {
     }
   }, [authState.user, authState.isAuthenticated])
 
+  // Load study plans so each Havruta card can show whether it is ahead or behind
+  React.useEffect(() => {
+    let cancelled = false
+
+    Promise.all(havrutot.map(async (havruta) => {
+      try {
+        return [havruta.id, await havrutaService.getStudyPlan(havruta.id)] as const
+      } catch (error) {
+        console.error(`Failed to load study plan for ${havruta.id}:`, error)
+        return [havruta.id, { plan: null, status: null }] as const
+      }
+    })).then(entries => {
+      if (!cancelled) setStudyPlans(Object.fromEntries(entries))
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [havrutot])
+
+  // Load completion percentages for the Havruta cards
+  React.useEffect(() => {
+    let cancelled = false
+
+    Promise.all(havrutot.map(async (havruta) => {
+      try {
+        return [havruta.id, await havrutaService.getProgressSummary(havruta.id)] as const
+      } catch (error) {
+        console.error(`Failed to load progress summary for ${havruta.id}:`, error)
+        return null
+      }
+    })).then(entries => {
+      if (!cancelled) {
+        setProgressSummaries(Object.fromEntries(entries.filter((entry): entry is NonNullable<typeof entry> => entry !== null)))
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [havrutot])
+
   // Filter and sort upcoming sessions
   const filteredAndSortedSessions = React.useMemo(() => {
     let filtered = upcomingSessions.filter(session => {
@@ -209,6 +300,7 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
         const params = new URLSearchParams({
           sessionId: havrutaId, // This is actually the havruta ID for WebSocket connection
           collaborative: 'true',
+          havrutaId: havruta.id,
           ref: havruta.lastPlace
         })
         const url = `/study/${encodeURIComponent(havruta.bookTitle)}?${params.toString()}`
@@ -255,6 +347,50 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
     refetch() // Refresh dashboard data
   }
 
+  const handleStudyPlanSuccess = (message: string, plan: StudyPlan | null, status: StudyPlanStatus | null) => {
+    if (selectedHavrutaForPlan) {
+      setStudyPlans(prev => ({ ...prev, [selectedHavrutaForPlan.id]: { plan, status } }))
+    }
+    setSnackbar({
+      open: true,
+      message,
+      severity: 'success'
+    })
+  }
+
+  const getStudyPlanChip = (havrutaId: string) => {
+    const status = studyPlans[havrutaId]?.status
+    if (!status) return null
+
+    const periods = Math.abs(status.periodsAhead)
+    const unit = studyPlans[havrutaId]?.plan?.period === 'week' ? 'week' : 'day'
+    const labels: Record<StudyPlanStatus['status'], string> = {
+      'not-started': 'Plan not started',
+      'on-track': 'On track',
+      'ahead': periods > 0 ? `${periods} ${unit}${periods === 1 ? '' : 's'} ahead` : 'Ahead',
+      'behind': `${periods} ${unit}${periods === 1 ? '' : 's'} behind`,
+      'completed': 'Plan completed'
+    }
+    const colors: Record<StudyPlanStatus['status'], 'default' | 'success' | 'info' | 'warning'> = {
+      'not-started': 'default',
+      'on-track': 'success',
+      'ahead': 'info',
+      'behind': 'warning',
+      'completed': 'success'
+    }
+
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <Chip size="small" label={labels[status.status]} color={colors[status.status]} />
+        {status.status !== 'completed' && (
+          <Typography variant="caption" color="text.secondary">
+            Today: {status.expectedRef === status.expectedEndRef ? status.expectedRef : `${status.expectedRef} - ${status.expectedEndRef}`} · {status.percentComplete}% done
+          </Typography>
+        )}
+      </Box>
+    )
+  }
+
   const handleInviteParticipant = (havrutaId: string) => {
     const havruta = havrutot.find(h => h.id === havrutaId)
     if (havruta) {
@@ -278,16 +414,18 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
     return activeSessions.find(session => session.havrutaId === havrutaId)
   }
 
-  const handleStartInstantSession = async (havrutaId: string) => {
+  const handleStartInstantSession = async (havrutaId: string, mode: SessionMode = 'havruta') => {
     try {
-      const session = await sessionService.createInstantSession(havrutaId)
+      const session = await sessionService.createInstantSession(havrutaId, mode)
       
       // Refresh dashboard data to update button states
       await refetch()
       
       setSnackbar({
         open: true,
-        message: 'Instant session started! Participants have been notified.',
+        message: mode === 'chabura'
+          ? 'Chabura started! You lead, and everyone follows your place in the text.'
+          : 'Instant session started! Participants have been notified.',
         severity: 'success'
       })
 
@@ -297,6 +435,7 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
         const params = new URLSearchParams({
           sessionId: session.id,
           collaborative: 'true',
+          havrutaId: havruta.id,
           ref: havruta.lastPlace
         })
         const url = `/study/${encodeURIComponent(havruta.bookTitle)}?${params.toString()}`
@@ -337,6 +476,7 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
         const params = new URLSearchParams({
           sessionId: activeSession.id,
           collaborative: 'true',
+          havrutaId: havruta.id,
           ref: havruta.lastPlace
         })
         const url = `/study/${encodeURIComponent(havruta.bookTitle)}?${params.toString()}`
@@ -551,7 +691,7 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
                     {nextSession.name}
                   </Typography>
                   <Typography color="text.secondary" gutterBottom>
-                    Scheduled for {nextSession.scheduledTime.toLocaleString()}
+                    Scheduled for {formatInTimeZone(nextSession.scheduledTime, timeZone)}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     Continue from {nextSession.lastPlace}
@@ -596,6 +736,20 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
         </Box>
       )}
 
+      {/* Join Requests for Havrutot the user owns */}
+      <JoinRequestsCard
+        onResponded={(message) => {
+          setSnackbar({ open: true, message, severity: 'success' })
+          refetch().catch(console.error)
+        }}
+      />
+
+      {/* Availability Polls */}
+      <SchedulingPollsCard
+        refreshKey={pollsRefreshKey}
+        onScheduled={handleSchedulingSuccess}
+      />
+
       {/* Upcoming Sessions */}
       <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 3 }}>
         <Typography variant="h5" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -706,9 +860,16 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
                     <Schedule fontSize="small" color="action" />
                     <Typography variant="body2" color="text.secondary">
-                      {session.startTime.toLocaleString()}
+                      {formatInTimeZone(session.startTime, timeZone)}
                     </Typography>
                   </Box>
+                  {session.participants
+                    .filter(p => p.user.id !== authState.user?.id && p.user.timeZone && p.user.timeZone !== timeZone)
+                    .map(p => (
+                      <Typography key={p.user.id} variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+                        {p.user.name}: {formatInTimeZone(session.startTime, p.user.timeZone!)}
+                      </Typography>
+                    ))}
                   
                   <Typography variant="body2" sx={{ mb: 2 }}>
                     Continue from: {session.lastPlace}
@@ -765,6 +926,20 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
                     >
                       Reschedule
                     </Button>
+                    {session.recurrencePatternId && (
+                      <Button
+                        variant="outlined"
+                        size="small"
+                        startIcon={<EventRepeat />}
+                        onClick={() => setSelectedSeries({
+                          patternId: session.recurrencePatternId!,
+                          havrutaName: session.havrutaName
+                        })}
+                        sx={{ flex: 1, minWidth: 'fit-content' }}
+                      >
+                        Series
+                      </Button>
+                    )}
                   </Box>
                 </CardContent>
               </Card>
@@ -831,13 +1006,29 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
             <MenuBook color="primary" />
             My Havrutot ({havrutot.length})
           </Typography>
-          <Button
-            variant="outlined"
-            startIcon={<Add />}
-            onClick={handleCreateHavruta}
-          >
-            New Havruta
-          </Button>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<Explore />}
+              onClick={() => setBrowseDialogOpen(true)}
+            >
+              Browse
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Diversity3 />}
+              onClick={() => setMatchingDialogOpen(true)}
+            >
+              Find a Partner
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Add />}
+              onClick={handleCreateHavruta}
+            >
+              New Havruta
+            </Button>
+          </Box>
         </Box>
 
         {havrutot.length > 0 ? (
@@ -855,9 +1046,26 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
                     <Typography variant="body2" sx={{ mb: 2 }}>
                       {havruta.participants.length} participants
                     </Typography>
+                    {progressSummaries[havruta.id] && (
+                      <Box sx={{ mb: 2 }}>
+                        <Typography variant="caption" color="text.secondary">
+                          {progressSummaries[havruta.id].percentComplete}% of {havruta.bookTitle} complete
+                        </Typography>
+                        <LinearProgress
+                          variant="determinate"
+                          value={progressSummaries[havruta.id].percentComplete}
+                          sx={{ height: 6, borderRadius: 3 }}
+                        />
+                      </Box>
+                    )}
+                    {getStudyPlanChip(havruta.id)}
                     <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
                       {(() => {
                         const activeSession = getActiveSessionForHavruta(havruta.id)
+                        // Only owners and co-hosts can start a session; everyone can join one
+                        if (!activeSession && !canHost(getHavrutaRole(havruta, authState.user?.id))) {
+                          return null
+                        }
                         return (
                           <Button
                             variant="contained"
@@ -876,6 +1084,18 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
                           </Button>
                         )
                       })()}
+                      {/* Groups beyond a pair can study as a chabura, with the starter leading */}
+                      {!getActiveSessionForHavruta(havruta.id) &&
+                        havruta.participants.length >= CHABURA_MIN_PARTICIPANTS &&
+                        canHost(getHavrutaRole(havruta, authState.user?.id)) && (
+                        <Button
+                          size="small"
+                          startIcon={<RecordVoiceOver />}
+                          onClick={() => handleStartInstantSession(havruta.id, 'chabura')}
+                        >
+                          Lead Chabura
+                        </Button>
+                      )}
                       <Button
                         size="small"
                         startIcon={<Schedule />}
@@ -883,12 +1103,55 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
                       >
                         Schedule
                       </Button>
+                      {getHavrutaRole(havruta, authState.user?.id) !== 'observer' && (
+                        <Button
+                          size="small"
+                          startIcon={<PersonAdd />}
+                          onClick={() => handleInviteParticipant(havruta.id)}
+                        >
+                          Invite
+                        </Button>
+                      )}
                       <Button
                         size="small"
-                        startIcon={<PersonAdd />}
-                        onClick={() => handleInviteParticipant(havruta.id)}
+                        startIcon={<TrendingUp />}
+                        onClick={() => setSelectedHavrutaForProgress(havruta)}
                       >
-                        Invite
+                        Progress
+                      </Button>
+                      {canHost(getHavrutaRole(havruta, authState.user?.id)) && (
+                        <Button
+                          size="small"
+                          startIcon={<EventNote />}
+                          onClick={() => setSelectedHavrutaForPlan(havruta)}
+                        >
+                          Plan
+                        </Button>
+                      )}
+                      {canHost(getHavrutaRole(havruta, authState.user?.id)) && (
+                        <Button
+                          size="small"
+                          startIcon={<HowToVote />}
+                          onClick={() => setSelectedHavrutaForPoll(havruta)}
+                        >
+                          Find a Time
+                        </Button>
+                      )}
+                      {canHost(getHavrutaRole(havruta, authState.user?.id)) && (
+                        <Button
+                          size="small"
+                          startIcon={<Share />}
+                          onClick={() => setSelectedHavrutaForSharing(havruta)}
+                        >
+                          Share
+                        </Button>
+                      )}
+                      <Button
+                        size="small"
+                        startIcon={<ManageAccounts />}
+                        onClick={() => setSelectedHavrutaForMembers(havruta)}
+                      >
+                        Members
                       </Button>
                     </Box>
                   </CardContent>
@@ -949,6 +1212,89 @@ STUN: ${results.stunConnectivity.success ? '✓' : '✗'} ${results.stunConnecti
         onSuccess={handleSchedulingSuccess}
       />
 
+      {/* Study Plan Dialog */}
+      <StudyPlanDialog
+        open={!!selectedHavrutaForPlan}
+        onClose={() => setSelectedHavrutaForPlan(null)}
+        havruta={selectedHavrutaForPlan}
+        plan={selectedHavrutaForPlan ? studyPlans[selectedHavrutaForPlan.id]?.plan || null : null}
+        onSuccess={handleStudyPlanSuccess}
+      />
+
+      {/* Progress Summary Dialog */}
+      <ProgressSummaryDialog
+        open={!!selectedHavrutaForProgress}
+        onClose={() => setSelectedHavrutaForProgress(null)}
+        havruta={selectedHavrutaForProgress}
+      />
+
+      {/* Recurring Series Dialog */}
+      <RecurringSeriesDialog
+        open={!!selectedSeries}
+        onClose={() => setSelectedSeries(null)}
+        patternId={selectedSeries?.patternId || null}
+        havrutaName={selectedSeries?.havrutaName || ''}
+        onChanged={() => {
+          refetch().catch(console.error)
+        }}
+      />
+
+      {/* Scheduling Poll Dialog */}
+      <SchedulingPollDialog
+        open={!!selectedHavrutaForPoll}
+        onClose={() => setSelectedHavrutaForPoll(null)}
+        havruta={selectedHavrutaForPoll}
+        onSuccess={(message) => {
+          setSnackbar({ open: true, message, severity: 'success' })
+          setPollsRefreshKey(key => key + 1)
+        }}
+      />
+
+      {/* Partner Matching Dialog */}
+      <PartnerMatchingDialog
+        open={matchingDialogOpen}
+        onClose={() => setMatchingDialogOpen(false)}
+        onMatched={(message) => {
+          setSnackbar({ open: true, message, severity: 'success' })
+          refetch().catch(console.error)
+        }}
+      />
+
+      {/* Public Havrutot Catalog */}
+      <BrowseHavrutotDialog
+        open={browseDialogOpen || !!linkedHavrutaId}
+        onClose={() => {
+          setBrowseDialogOpen(false)
+          if (linkedHavrutaId) {
+            setSearchParams({}, { replace: true })
+          }
+        }}
+        linkedHavrutaId={linkedHavrutaId}
+        onRequested={(message) => setSnackbar({ open: true, message, severity: 'success' })}
+      />
+
+      {/* Havruta Sharing Dialog */}
+      <HavrutaSharingDialog
+        open={!!selectedHavrutaForSharing}
+        onClose={() => setSelectedHavrutaForSharing(null)}
+        havruta={selectedHavrutaForSharing}
+        onSuccess={(message) => {
+          setSnackbar({ open: true, message, severity: 'success' })
+          refetch().catch(console.error)
+        }}
+      />
+
+      {/* Havruta Members Dialog */}
+      <HavrutaMembersDialog
+        open={!!selectedHavrutaForMembers}
+        onClose={() => setSelectedHavrutaForMembers(null)}
+        havruta={selectedHavrutaForMembers}
+        onChanged={(message) => {
+          setSnackbar({ open: true, message, severity: 'success' })
+          refetch().catch(console.error)
+        }}
+      />
+
       {/* Instant Session Notification */}
       <InstantSessionNotification
         invitation={instantSessionInvitation}
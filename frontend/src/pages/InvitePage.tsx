@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Alert,
+  Avatar,
+  CircularProgress,
+} from '@mui/material'
+import { Group } from '@mui/icons-material'
+import { useAuth } from '../contexts/AuthContext'
+import { invitationService, PENDING_INVITE_KEY } from '../services/invitationService'
+import { InvitationPreview } from '../types'
+import { getUserTimeZone, formatInTimeZone } from '../utils/timeZone'
+
+const InvitePage: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const { state: authState } = useAuth()
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isResponding, setIsResponding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        setInvitation(await invitationService.getInvitation(token))
+      } catch (error) {
+        console.error('Error loading invitation:', error)
+        setError(error instanceof Error ? error.message : 'Failed to load invitation')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadInvitation()
+  }, [token])
+
+  const handleSignIn = () => {
+    sessionStorage.setItem(PENDING_INVITE_KEY, token)
+    navigate('/login')
+  }
+
+  const handleAccept = async () => {
+    setIsResponding(true)
+    setError(null)
+    try {
+      await invitationService.acceptInvitation(token)
+      navigate('/dashboard', { replace: true })
+    } catch (error) {
+      console.error('Error accepting invitation:', error)
+      setError(error instanceof Error ? error.message : 'Failed to accept invitation')
+      setIsResponding(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    setIsResponding(true)
+    setError(null)
+    try {
+      await invitationService.declineInvitation(token)
+      navigate(authState.isAuthenticated ? '/dashboard' : '/login', { replace: true })
+    } catch (error) {
+      console.error('Error declining invitation:', error)
+      setError(error instanceof Error ? error.message : 'Failed to decline invitation')
+      setIsResponding(false)
+    }
+  }
+
+  const renderDetails = (invitation: InvitationPreview) => (
+    <>
+      <Avatar src={invitation.inviter.profilePicture || undefined} sx={{ width: 56, height: 56, mx: 'auto', mb: 2 }}>
+        {invitation.inviter.name.charAt(0)}
+      </Avatar>
+      <Typography variant="body1" color="text.secondary">
+        {invitation.inviter.name} invited you to learn together
+      </Typography>
+      <Typography variant="h5" sx={{ mt: 1 }}>
+        {invitation.havruta.name}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {invitation.havruta.bookTitle}
+      </Typography>
+      {invitation.expiresAt && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+          This invitation expires {formatInTimeZone(invitation.expiresAt, getUserTimeZone(authState.user))}
+        </Typography>
+      )}
+    </>
+  )
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        minHeight: '100vh',
+        bgcolor: 'grey.100',
+      }}
+    >
+      <Paper
+        elevation={3}
+        sx={{
+          p: 4,
+          maxWidth: 420,
+          width: '100%',
+          textAlign: 'center',
+        }}
+      >
+        <Typography variant="h4" component="h1" gutterBottom sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
+          <Group color="primary" fontSize="large" />
+          Join a Havruta
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading || authState.isLoading ? (
+          <CircularProgress sx={{ my: 3 }} />
+        ) : invitation ? (
+          <>
+            {renderDetails(invitation)}
+            {authState.isAuthenticated ? (
+              <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                {invitation.type === 'email' && (
+                  <Button onClick={handleDecline} disabled={isResponding}>
+                    Decline
+                  </Button>
+                )}
+                <Button
+                  variant="contained"
+                  onClick={handleAccept}
+                  disabled={isResponding}
+                  startIcon={isResponding ? <CircularProgress size={20} /> : null}
+                >
+                  {isResponding ? 'Joining...' : 'Accept & Join'}
+                </Button>
+              </Box>
+            ) : (
+              <Button variant="contained" onClick={handleSignIn}>
+                Sign In to Join
+              </Button>
+            )}
+          </>
+        ) : (
+          <Button variant="outlined" onClick={() => navigate('/dashboard')}>
+            Go to Dashboard
+          </Button>
+        )}
+      </Paper>
+    </Box>
+  )
+}
+
+export default InvitePage
\ No newline at end of file
@@ -1,6 +1,9 @@
-import React from 'react'
+import React, { useState, useEffect } from 'react'
 import {
   Box,
+  Button,
+  TextField,
+  Alert,
   Typography,
   Paper,
   Avatar,
@@ -10,9 +13,66 @@ import {
   ListItemText,
 } from '@mui/material'
 import { useAuth } from '../contexts/AuthContext'
+import { schedulingService } from '../services/schedulingService'
+import { userService } from '../services/userService'
+import { getUserTimeZone, getSupportedTimeZones, formatInTimeZone } from '../utils/timeZone'
 
 const ProfilePage: React.FC = () => {
-  const { state: authState } = useAuth()
+  const { state: authState, updateUser } = useAuth()
+  const [timeZone, setTimeZone] = useState(() => getUserTimeZone(authState.user))
+  const [timeZoneMessage, setTimeZoneMessage] = useState<string | null>(null)
+  const [timeZoneError, setTimeZoneError] = useState<string | null>(null)
+  const [isSavingTimeZone, setIsSavingTimeZone] = useState(false)
+  const [calendarUrl, setCalendarUrl] = useState('')
+  const [calendarMessage, setCalendarMessage] = useState<string | null>(null)
+  const [calendarError, setCalendarError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!authState.user) return
+
+    schedulingService.getCalendarFeedUrl()
+      .then(setCalendarUrl)
+      .catch(error => {
+        console.error('Failed to load calendar feed URL:', error)
+        setCalendarError('Failed to load calendar feed URL')
+      })
+  }, [authState.user])
+
+  const handleCopyCalendarUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(calendarUrl)
+      setCalendarMessage('Calendar link copied')
+    } catch (error) {
+      console.error('Failed to copy calendar link:', error)
+      setCalendarError('Failed to copy calendar link')
+    }
+  }
+
+  const handleResetCalendarUrl = async () => {
+    try {
+      setCalendarUrl(await schedulingService.resetCalendarFeedUrl())
+      setCalendarMessage('Calendar link reset. Existing subscriptions will stop updating.')
+      setCalendarError(null)
+    } catch (error) {
+      console.error('Failed to reset calendar link:', error)
+      setCalendarError('Failed to reset calendar link')
+    }
+  }
+
+  const handleSaveTimeZone = async () => {
+    setIsSavingTimeZone(true)
+    setTimeZoneError(null)
+    try {
+      await userService.updateUserProfile({ timeZone })
+      updateUser({ timeZone })
+      setTimeZoneMessage('Time zone saved. New sessions will be scheduled in this zone.')
+    } catch (error) {
+      console.error('Failed to save time zone:', error)
+      setTimeZoneError('Failed to save time zone')
+    } finally {
+      setIsSavingTimeZone(false)
+    }
+  }
 
   if (!authState.user) {
     return (
@@ -80,6 +140,85 @@ const ProfilePage: React.FC = () => {
             />
           </ListItem>
         </List>
+
+        <Divider sx={{ my: 3 }} />
+
+        <Typography variant="h6" gutterBottom>
+          Time Zone
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Recurring sessions keep their local time in this zone, including across daylight saving changes.
+          It's currently {formatInTimeZone(new Date(), timeZone, { hour: 'numeric', minute: '2-digit', timeZoneName: 'short' })} there.
+        </Typography>
+
+        {timeZoneError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setTimeZoneError(null)}>
+            {timeZoneError}
+          </Alert>
+        )}
+        {timeZoneMessage && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setTimeZoneMessage(null)}>
+            {timeZoneMessage}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            select
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+            size="small"
+            fullWidth
+            SelectProps={{ native: true }}
+          >
+            {getSupportedTimeZones().map(zone => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </TextField>
+          <Button
+            variant="outlined"
+            onClick={handleSaveTimeZone}
+            disabled={isSavingTimeZone || timeZone === authState.user.timeZone}
+          >
+            Save
+          </Button>
+        </Box>
+
+        <Divider sx={{ my: 3 }} />
+
+        <Typography variant="h6" gutterBottom>
+          Calendar Subscription
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see your Havruta sessions there.
+          Keep it private: anyone with the link can see your schedule.
+        </Typography>
+
+        {calendarError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setCalendarError(null)}>
+            {calendarError}
+          </Alert>
+        )}
+        {calendarMessage && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setCalendarMessage(null)}>
+            {calendarMessage}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            value={calendarUrl}
+            size="small"
+            fullWidth
+            InputProps={{ readOnly: true }}
+          />
+          <Button variant="outlined" onClick={handleCopyCalendarUrl} disabled={!calendarUrl}>
+            Copy
+          </Button>
+          <Button color="error" onClick={handleResetCalendarUrl} disabled={!calendarUrl}>
+            Reset
+          </Button>
+        </Box>
       </Paper>
     </Box>
   )
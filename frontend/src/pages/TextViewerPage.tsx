@@ -18,6 +18,8 @@ const TextViewerPage: React.FC = () => {
   const sessionId = searchParams.get('sessionId')
   const isCollaborative = searchParams.get('collaborative') === 'true'
   const initialRef = searchParams.get('ref') || undefined
+  // Lets notes and progress work offline, before the session details load
+  const linkedHavrutaId = searchParams.get('havrutaId') || undefined
 
   const [exitDialogOpen, setExitDialogOpen] = React.useState(false)
   const [sessionData, setSessionData] = React.useState<any>(null)
@@ -137,6 +139,9 @@ const TextViewerPage: React.FC = () => {
   // Check if user is current session owner (may have been transferred)
   const isSessionOwner = sessionData?.currentState?.isCurrentUserOwner || sessionData?.havruta?.ownerId === user?.id
 
+  // Observers follow the text and video but don't drive navigation
+  const isObserver = sessionData?.currentState?.currentUserRole === 'observer'
+
   return (
     <Box sx={{ height: '100vh', display: 'flex', flexDirection: 'column' }}>
       {/* Header */}
@@ -186,7 +191,7 @@ const TextViewerPage: React.FC = () => {
               fontWeight: 'medium'
             }}
           >
-            COLLABORATIVE MODE
+            {isObserver ? 'OBSERVING' : sessionData?.currentState?.mode === 'chabura' ? 'CHABURA' : 'COLLABORATIVE MODE'}
           </Typography>
         )}
       </Paper>
@@ -198,7 +203,10 @@ const TextViewerPage: React.FC = () => {
           initialRef={initialRef}
           sessionId={sessionId || undefined}
           userId={user?.id}
+          havrutaId={sessionData?.havrutaId || linkedHavrutaId}
+          isHavrutaOwner={sessionData?.havruta?.ownerId === user?.id}
           isCollaborative={isCollaborative}
+          isReadOnly={isObserver}
           onNavigationChange={(ref) => {
             console.log('Navigation changed to:', ref)
           }}
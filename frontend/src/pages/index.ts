@@ -3,4 +3,5 @@ export { default as DashboardPage } from './DashboardPage'
 export { default as ProfilePage } from './ProfilePage'
 export { default as OAuthCallbackPage } from './OAuthCallbackPage'
 export { default as AuthSuccessPage } from './AuthSuccessPage'
-export { default as TextViewerPage } from './TextViewerPage'
\ No newline at end of file
+export { default as TextViewerPage } from './TextViewerPage'
+export { default as InvitePage } from './InvitePage'
\ No newline at end of file
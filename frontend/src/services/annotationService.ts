@@ -0,0 +1,60 @@
+import { Annotation } from '../types'
+import { HttpError } from '../utils/errorHandler'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
+
+class AnnotationService {
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const token = localStorage.getItem('authToken')
+
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new HttpError(errorData.error || `HTTP error! status: ${response.status}`, response.status)
+    }
+
+    if (response.status === 204) {
+      return undefined as T
+    }
+
+    return response.json()
+  }
+
+  async getAnnotations(havrutaId: string, ref?: string): Promise<Annotation[]> {
+    const queryString = ref ? `?${new URLSearchParams({ ref }).toString()}` : ''
+    return this.makeRequest<Annotation[]>(`/havrutot/${havrutaId}/annotations${queryString}`)
+  }
+
+  async createAnnotation(havrutaId: string, ref: string, content: string): Promise<Annotation> {
+    return this.makeRequest<Annotation>(`/havrutot/${havrutaId}/annotations`, {
+      method: 'POST',
+      body: JSON.stringify({ ref, content }),
+    })
+  }
+
+  async updateAnnotation(havrutaId: string, annotationId: string, content: string): Promise<Annotation> {
+    return this.makeRequest<Annotation>(`/havrutot/${havrutaId}/annotations/${annotationId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ content }),
+    })
+  }
+
+  async deleteAnnotation(havrutaId: string, annotationId: string): Promise<void> {
+    await this.makeRequest<void>(`/havrutot/${havrutaId}/annotations/${annotationId}`, {
+      method: 'DELETE',
+    })
+  }
+}
+
+export const annotationService = new AnnotationService()
\ No newline at end of file
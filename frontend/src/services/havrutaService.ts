@@ -1,4 +1,15 @@
-import { Havruta } from '../types'
+import {
+  Havruta,
+  HavrutaRole,
+  HavrutaVisibility,
+  InviteLink,
+  JoinRequest,
+  ProgressSummary,
+  PublicHavruta,
+  StudyPlan,
+  StudyPlanStatus,
+} from '../types'
+import { HttpError } from '../utils/errorHandler'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
 
@@ -20,7 +31,11 @@ class HavrutaService {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`)
+      throw new HttpError(errorData.error || `HTTP error! status: ${response.status}`, response.status)
+    }
+
+    if (response.status === 204) {
+      return undefined as T
     }
 
     return response.json()
@@ -65,6 +80,46 @@ class HavrutaService {
     }>(endpoint)
   }
 
+  async getPublicHavrutot(params?: {
+    page?: number
+    limit?: number
+    book?: string
+    search?: string
+    day?: number
+  }): Promise<{
+    havrutot: PublicHavruta[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      totalPages: number
+    }
+  }> {
+    const searchParams = new URLSearchParams()
+
+    if (params?.page) searchParams.append('page', params.page.toString())
+    if (params?.limit) searchParams.append('limit', params.limit.toString())
+    if (params?.book) searchParams.append('book', params.book)
+    if (params?.search) searchParams.append('search', params.search)
+    if (params?.day !== undefined) searchParams.append('day', params.day.toString())
+
+    const queryString = searchParams.toString()
+
+    return this.makeRequest<{
+      havrutot: PublicHavruta[]
+      pagination: {
+        page: number
+        limit: number
+        total: number
+        totalPages: number
+      }
+    }>(`/havrutot/public${queryString ? `?${queryString}` : ''}`)
+  }
+
+  async getHavrutaPreview(id: string): Promise<PublicHavruta> {
+    return this.makeRequest<PublicHavruta>(`/havrutot/${id}/preview`)
+  }
+
   async getActiveHavrutot(): Promise<Havruta[]> {
     return this.makeRequest<Havruta[]>('/havrutot/active')
   }
@@ -78,6 +133,8 @@ class HavrutaService {
     bookId: string
     bookTitle: string
     lastPlace?: string
+    visibility?: HavrutaVisibility
+    description?: string
   }): Promise<Havruta> {
     return this.makeRequest<Havruta>('/havrutot', {
       method: 'POST',
@@ -98,9 +155,39 @@ class HavrutaService {
     })
   }
 
-  async joinHavruta(id: string): Promise<void> {
-    await this.makeRequest<void>(`/havrutot/${id}/join`, {
+  async requestToJoin(id: string, message: string = ''): Promise<{
+    message: string
+    request: JoinRequest
+  }> {
+    return this.makeRequest<{
+      message: string
+      request: JoinRequest
+    }>(`/havrutot/${id}/join`, {
       method: 'POST',
+      body: JSON.stringify({ message }),
+    })
+  }
+
+  async cancelJoinRequest(id: string): Promise<void> {
+    await this.makeRequest<void>(`/havrutot/${id}/join`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getJoinRequests(): Promise<{ requests: JoinRequest[] }> {
+    return this.makeRequest<{ requests: JoinRequest[] }>('/havrutot/join-requests')
+  }
+
+  async respondToJoinRequest(havrutaId: string, requestId: string, approve: boolean): Promise<{
+    message: string
+    request: JoinRequest
+  }> {
+    return this.makeRequest<{
+      message: string
+      request: JoinRequest
+    }>(`/havrutot/${havrutaId}/join-requests/${requestId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ approve }),
     })
   }
 
@@ -110,6 +197,20 @@ class HavrutaService {
     })
   }
 
+  async updateParticipantRole(havrutaId: string, userId: string, role: Exclude<HavrutaRole, 'owner'>): Promise<void> {
+    await this.makeRequest<void>(`/havrutot/${havrutaId}/participants/${userId}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    })
+  }
+
+  async transferOwnership(havrutaId: string, userId: string): Promise<Havruta> {
+    return this.makeRequest<Havruta>(`/havrutot/${havrutaId}/transfer`, {
+      method: 'POST',
+      body: JSON.stringify({ userId }),
+    })
+  }
+
   async updateProgress(id: string, lastPlace: string): Promise<void> {
     await this.makeRequest<void>(`/havrutot/${id}/progress`, {
       method: 'PUT',
@@ -117,6 +218,10 @@ class HavrutaService {
     })
   }
 
+  async getProgressSummary(id: string): Promise<ProgressSummary> {
+    return this.makeRequest<ProgressSummary>(`/havrutot/${id}/progress/summary`)
+  }
+
   async getHavrutaState(id: string): Promise<any> {
     return this.makeRequest<any>(`/havrutot/${id}/state`)
   }
@@ -137,6 +242,62 @@ class HavrutaService {
       body: JSON.stringify({ emails }),
     })
   }
+
+  async createInviteLink(havrutaId: string, options: {
+    maxUses?: number | null
+    expiresInDays?: number | null
+  } = {}): Promise<InviteLink> {
+    return this.makeRequest<InviteLink>(`/havrutot/${havrutaId}/invite-links`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    })
+  }
+
+  async getInviteLinks(havrutaId: string): Promise<{ links: InviteLink[] }> {
+    return this.makeRequest<{ links: InviteLink[] }>(`/havrutot/${havrutaId}/invite-links`)
+  }
+
+  async revokeInviteLink(havrutaId: string, linkId: string): Promise<void> {
+    await this.makeRequest<void>(`/havrutot/${havrutaId}/invite-links/${linkId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getStudyPlan(havrutaId: string): Promise<{
+    plan: StudyPlan | null
+    status: StudyPlanStatus | null
+  }> {
+    return this.makeRequest<{
+      plan: StudyPlan | null
+      status: StudyPlanStatus | null
+    }>(`/havrutot/${havrutaId}/plan`)
+  }
+
+  async saveStudyPlan(havrutaId: string, data: {
+    startRef: string
+    endRef: string
+    amount: number
+    unit: StudyPlan['unit']
+    period: StudyPlan['period']
+    startDate: string
+  }): Promise<{
+    plan: StudyPlan
+    status: StudyPlanStatus | null
+  }> {
+    return this.makeRequest<{
+      plan: StudyPlan
+      status: StudyPlanStatus | null
+    }>(`/havrutot/${havrutaId}/plan`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteStudyPlan(havrutaId: string): Promise<void> {
+    await this.makeRequest<void>(`/havrutot/${havrutaId}/plan`, {
+      method: 'DELETE',
+    })
+  }
 }
 
 export const havrutaService = new HavrutaService()
\ No newline at end of file
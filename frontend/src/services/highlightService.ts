@@ -0,0 +1,59 @@
+import { Highlight } from '../types'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
+
+class HighlightService {
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const token = localStorage.getItem('authToken')
+
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`)
+    }
+
+    if (response.status === 204) {
+      return undefined as T
+    }
+
+    return response.json()
+  }
+
+  async getHighlights(havrutaId: string, ref?: string): Promise<Highlight[]> {
+    const queryString = ref ? `?${new URLSearchParams({ ref }).toString()}` : ''
+    return this.makeRequest<Highlight[]>(`/havrutot/${havrutaId}/highlights${queryString}`)
+  }
+
+  async createHighlight(havrutaId: string, data: {
+    ref: string
+    language: 'en' | 'he'
+    startIndex: number
+    endIndex: number
+    text: string
+    color: string
+  }): Promise<Highlight> {
+    return this.makeRequest<Highlight>(`/havrutot/${havrutaId}/highlights`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteHighlight(havrutaId: string, highlightId: string): Promise<void> {
+    await this.makeRequest<void>(`/havrutot/${havrutaId}/highlights/${highlightId}`, {
+      method: 'DELETE',
+    })
+  }
+}
+
+export const highlightService = new HighlightService()
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { InvitationPreview } from '../types'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
+
+// Remembers an invite opened before signing in, so it can be picked up afterwards
+export const PENDING_INVITE_KEY = 'pendingInviteToken'
+
+class InvitationService {
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const token = localStorage.getItem('authToken')
+    
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`)
+    }
+
+    return response.json()
+  }
+
+  /**
+   * Get what an email invitation or invite link is for
+   */
+  async getInvitation(token: string): Promise<InvitationPreview> {
+    return this.makeRequest<InvitationPreview>(`/invitations/${encodeURIComponent(token)}`)
+  }
+
+  /**
+   * Accept an email invitation or join through an invite link
+   */
+  async acceptInvitation(token: string): Promise<{ message: string; havrutaId?: string }> {
+    return this.makeRequest<{ message: string; havrutaId?: string }>(`/invitations/${encodeURIComponent(token)}/accept`, {
+      method: 'POST',
+    })
+  }
+
+  /**
+   * Decline an email invitation
+   */
+  async declineInvitation(token: string): Promise<{ message: string }> {
+    return this.makeRequest<{ message: string }>(`/invitations/${encodeURIComponent(token)}/decline`, {
+      method: 'POST',
+    })
+  }
+}
+
+export const invitationService = new InvitationService()
\ No newline at end of file
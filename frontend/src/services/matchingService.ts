@@ -0,0 +1,95 @@
+import { MatchingProfile, MatchSuggestion, MatchRequest } from '../types'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
+
+class MatchingService {
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const token = localStorage.getItem('authToken')
+    
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`)
+    }
+
+    return response.json()
+  }
+
+  /**
+   * Get the current user's matching profile, or null if they have none
+   */
+  async getProfile(): Promise<{ profile: MatchingProfile | null }> {
+    return this.makeRequest<{ profile: MatchingProfile | null }>('/matching/profile')
+  }
+
+  /**
+   * Create or update the current user's matching profile
+   */
+  async saveProfile(profile: Partial<MatchingProfile> & Pick<MatchingProfile, 'books'>): Promise<{ profile: MatchingProfile }> {
+    return this.makeRequest<{ profile: MatchingProfile }>('/matching/profile', {
+      method: 'PUT',
+      body: JSON.stringify(profile),
+    })
+  }
+
+  /**
+   * Get suggested partners, best matches first
+   */
+  async getSuggestions(limit: number = 10): Promise<{ suggestions: MatchSuggestion[] }> {
+    return this.makeRequest<{ suggestions: MatchSuggestion[] }>(`/matching/suggestions?limit=${limit}`)
+  }
+
+  /**
+   * Get pending requests sent to and by the current user
+   */
+  async getRequests(): Promise<{ incoming: MatchRequest[]; outgoing: MatchRequest[] }> {
+    return this.makeRequest<{ incoming: MatchRequest[]; outgoing: MatchRequest[] }>('/matching/requests')
+  }
+
+  /**
+   * Ask a partner to learn a book together; returns the new Havruta's ID if they had already asked
+   */
+  async sendRequest(recipientId: string, bookTitle: string): Promise<{
+    message: string
+    request: MatchRequest
+    havrutaId: string | null
+  }> {
+    return this.makeRequest<{
+      message: string
+      request: MatchRequest
+      havrutaId: string | null
+    }>('/matching/requests', {
+      method: 'POST',
+      body: JSON.stringify({ recipientId, bookTitle }),
+    })
+  }
+
+  /**
+   * Accept or decline a request; accepting creates the Havruta
+   */
+  async respondToRequest(requestId: string, accept: boolean): Promise<{
+    message: string
+    request: MatchRequest
+  }> {
+    return this.makeRequest<{
+      message: string
+      request: MatchRequest
+    }>(`/matching/requests/${requestId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ accept }),
+    })
+  }
+}
+
+export const matchingService = new MatchingService()
\ No newline at end of file
@@ -0,0 +1,358 @@
+import { Annotation, SefariaText } from '../types'
+import { sefariaService } from './sefariaService'
+import { havrutaService } from './havrutaService'
+import { annotationService } from './annotationService'
+import { getAllRecords, getRecord, putRecord, deleteRecord, clearRecords } from '../utils/offlineStore'
+import { HttpError } from '../utils/errorHandler'
+
+// Changes made while offline, replayed in order once the connection is back
+export type OfflineAction =
+  | { type: 'progress', havrutaId: string, lastPlace: string }
+  | {
+      type: 'create-annotation'
+      havrutaId: string
+      tempId: string
+      ref: string
+      content: string
+      user: Annotation['user']
+      createdAt: string
+    }
+  | { type: 'update-annotation', havrutaId: string, annotationId: string, content: string }
+  | { type: 'delete-annotation', havrutaId: string, annotationId: string }
+
+interface QueuedAction {
+  id?: number
+  userId: string // Who made the change; only they can replay it
+  action: OfflineAction
+  queuedAt: number
+}
+
+const PREFETCH_SECTIONS = 10
+const OFFLINE_ID_PREFIX = 'offline-'
+// Client errors that may succeed later: expired sign-in, timeout, rate limiting
+const RETRYABLE_STATUSES = [401, 408, 429]
+
+class OfflineService {
+  private userId: string | null = null
+  private syncing: Promise<void> | null = null
+  private prefetching = new Set<string>()
+  private syncListeners: Array<() => void> = []
+
+  constructor() {
+    if (typeof window === 'undefined') return
+
+    window.addEventListener('online', () => {
+      this.syncPending()
+    })
+  }
+
+  /**
+   * Set who is signed in. Changes are queued and replayed for this user only,
+   * and anything they left over from the last visit is flushed.
+   */
+  setUser(userId: string | null): void {
+    this.userId = userId
+    if (userId && this.isOnline()) {
+      this.syncPending()
+    }
+  }
+
+  /**
+   * Forget saved notes and unsynced changes when the user signs out, so the
+   * next person on this device doesn't see or send them
+   */
+  async clearUserData(): Promise<void> {
+    this.userId = null
+    await Promise.all([clearRecords('annotations'), clearRecords('queue')])
+  }
+
+  isOnline(): boolean {
+    return navigator.onLine
+  }
+
+  // fetch rejects with a TypeError when the request never reached the server
+  isNetworkError(error: unknown): boolean {
+    return !navigator.onLine || error instanceof TypeError
+  }
+
+  // The server refused the change itself, so sending it again won't help
+  isRejected(error: unknown): boolean {
+    return error instanceof HttpError &&
+      error.status >= 400 && error.status < 500 &&
+      !RETRYABLE_STATUSES.includes(error.status)
+  }
+
+  isOfflineAnnotation(annotationId: string): boolean {
+    return annotationId.startsWith(OFFLINE_ID_PREFIX)
+  }
+
+  /**
+   * Save the sections following fromRef so the Havruta can keep reading
+   * without a connection. Sections already saved are skipped.
+   */
+  async prefetchSections(fromRef: string, count: number = PREFETCH_SECTIONS): Promise<void> {
+    if (!this.isOnline() || this.prefetching.has(fromRef)) return
+
+    this.prefetching.add(fromRef)
+    try {
+      let ref: string | null | undefined = fromRef
+      for (let i = 0; i <= count && ref; i++) {
+        const text: SefariaText = await sefariaService.getOfflineText(ref) || await sefariaService.getText(ref)
+        ref = text.next
+      }
+    } catch (error) {
+      console.warn('Stopped saving sections for offline reading:', error)
+    } finally {
+      this.prefetching.delete(fromRef)
+    }
+  }
+
+  async saveProgress(havrutaId: string, lastPlace: string): Promise<void> {
+    if (this.isOnline()) {
+      try {
+        await havrutaService.updateProgress(havrutaId, lastPlace)
+        return
+      } catch (error) {
+        if (!this.isNetworkError(error)) throw error
+      }
+    }
+
+    // Only the latest place matters, so replace any progress still waiting
+    const queue = await this.getQueue()
+    await Promise.all(queue
+      .filter(item => item.action.type === 'progress' && item.action.havrutaId === havrutaId)
+      .map(item => deleteRecord('queue', item.id!)))
+    await this.enqueue({ type: 'progress', havrutaId, lastPlace })
+  }
+
+  /**
+   * Annotations for a section, falling back to the last copy seen online.
+   * Notes written offline are included until they are synced.
+   */
+  async getAnnotations(havrutaId: string, ref: string): Promise<Annotation[]> {
+    const key = `${havrutaId}:${ref}`
+    let annotations: Annotation[]
+
+    try {
+      annotations = await annotationService.getAnnotations(havrutaId, ref)
+      putRecord('annotations', { key, annotations, savedAt: Date.now() })
+        .catch(error => console.warn('Failed to save annotations for offline reading:', error))
+    } catch (error) {
+      if (!this.isNetworkError(error)) throw error
+      const saved = await getRecord<{ annotations: Annotation[] }>('annotations', key).catch(() => undefined)
+      annotations = saved?.annotations || []
+    }
+
+    return this.applyPendingAnnotations(havrutaId, ref, annotations)
+  }
+
+  async createAnnotation(
+    havrutaId: string,
+    ref: string,
+    content: string,
+    user: Annotation['user']
+  ): Promise<Annotation> {
+    if (this.isOnline()) {
+      try {
+        return await annotationService.createAnnotation(havrutaId, ref, content)
+      } catch (error) {
+        if (!this.isNetworkError(error)) throw error
+      }
+    }
+
+    const action: OfflineAction = {
+      type: 'create-annotation',
+      havrutaId,
+      tempId: `${OFFLINE_ID_PREFIX}${Date.now()}`,
+      ref,
+      content,
+      user,
+      createdAt: new Date().toISOString()
+    }
+    await this.enqueue(action)
+    return this.toAnnotation(action)
+  }
+
+  async updateAnnotation(havrutaId: string, annotationId: string, content: string): Promise<Annotation | null> {
+    if (this.isOfflineAnnotation(annotationId)) {
+      const pending = await this.findPendingCreate(annotationId)
+      if (!pending) return null
+
+      const action = { ...pending.action, content } as Extract<OfflineAction, { type: 'create-annotation' }>
+      await putRecord('queue', { ...pending, action })
+      return this.toAnnotation(action)
+    }
+
+    if (this.isOnline()) {
+      try {
+        return await annotationService.updateAnnotation(havrutaId, annotationId, content)
+      } catch (error) {
+        if (!this.isNetworkError(error)) throw error
+      }
+    }
+
+    await this.enqueue({ type: 'update-annotation', havrutaId, annotationId, content })
+    return null
+  }
+
+  async deleteAnnotation(havrutaId: string, annotationId: string): Promise<void> {
+    if (this.isOfflineAnnotation(annotationId)) {
+      // Never reached the server, so dropping it from the queue is enough
+      const pending = await this.findPendingCreate(annotationId)
+      if (pending) {
+        await deleteRecord('queue', pending.id!)
+      }
+      return
+    }
+
+    if (this.isOnline()) {
+      try {
+        await annotationService.deleteAnnotation(havrutaId, annotationId)
+        return
+      } catch (error) {
+        if (!this.isNetworkError(error)) throw error
+      }
+    }
+
+    await this.enqueue({ type: 'delete-annotation', havrutaId, annotationId })
+  }
+
+  /**
+   * Replay queued changes in the order they were made. Stops at the first
+   * network, server or sign-in failure and leaves the rest for the next time
+   * we're online.
+   */
+  syncPending(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.flushQueue()
+        .catch(error => console.error('Failed to sync offline changes:', error))
+        .finally(() => {
+          this.syncing = null
+        })
+    }
+    return this.syncing
+  }
+
+  onSync(listener: () => void): void {
+    this.syncListeners.push(listener)
+  }
+
+  offSync(listener: () => void): void {
+    this.syncListeners = this.syncListeners.filter(l => l !== listener)
+  }
+
+  private async flushQueue(): Promise<void> {
+    if (!this.isOnline() || !this.userId) return
+
+    const queue = await this.getQueue(false)
+    let synced = 0
+
+    for (const item of queue) {
+      if (item.userId !== this.userId) {
+        // Left by someone else who used this device; it must not be sent as the current user
+        await deleteRecord('queue', item.id!)
+        continue
+      }
+
+      try {
+        await this.replay(item.action)
+      } catch (error) {
+        if (!this.isRejected(error)) {
+          console.warn('Offline changes will sync later:', error)
+          break
+        }
+        // The server refused it (e.g. the note was deleted meanwhile), so retrying won't help
+        console.error('Dropping offline change the server rejected:', item.action, error)
+      }
+      await deleteRecord('queue', item.id!)
+      synced++
+    }
+
+    if (synced > 0) {
+      console.log(`Synced ${synced} offline change(s)`)
+      this.syncListeners.forEach(listener => listener())
+    }
+  }
+
+  private async replay(action: OfflineAction): Promise<void> {
+    switch (action.type) {
+      case 'progress':
+        await havrutaService.updateProgress(action.havrutaId, action.lastPlace)
+        break
+      case 'create-annotation':
+        await annotationService.createAnnotation(action.havrutaId, action.ref, action.content)
+        break
+      case 'update-annotation':
+        await annotationService.updateAnnotation(action.havrutaId, action.annotationId, action.content)
+        break
+      case 'delete-annotation':
+        await annotationService.deleteAnnotation(action.havrutaId, action.annotationId)
+        break
+    }
+  }
+
+  private async applyPendingAnnotations(
+    havrutaId: string,
+    sectionRef: string,
+    annotations: Annotation[]
+  ): Promise<Annotation[]> {
+    const queue = await this.getQueue()
+    const isInSection = (ref: string) => ref === sectionRef || ref.startsWith(`${sectionRef}:`)
+
+    return queue.reduce((result, { action }) => {
+      if (action.havrutaId !== havrutaId) return result
+
+      switch (action.type) {
+        case 'create-annotation':
+          return isInSection(action.ref) ? [...result, this.toAnnotation(action)] : result
+        case 'update-annotation':
+          return result.map(a => a.id === action.annotationId ? { ...a, content: action.content } : a)
+        case 'delete-annotation':
+          return result.filter(a => a.id !== action.annotationId)
+        default:
+          return result
+      }
+    }, annotations)
+  }
+
+  private async findPendingCreate(tempId: string): Promise<QueuedAction | undefined> {
+    const queue = await this.getQueue()
+    return queue.find(item => item.action.type === 'create-annotation' && item.action.tempId === tempId)
+  }
+
+  private toAnnotation(action: Extract<OfflineAction, { type: 'create-annotation' }>): Annotation {
+    return {
+      id: action.tempId,
+      ref: action.ref,
+      content: action.content,
+      createdAt: action.createdAt,
+      updatedAt: action.createdAt,
+      userId: action.user.id,
+      havrutaId: action.havrutaId,
+      user: action.user
+    }
+  }
+
+  private async enqueue(action: OfflineAction): Promise<void> {
+    if (!this.userId) {
+      throw new Error('Sign in to save changes while offline')
+    }
+    await putRecord<QueuedAction>('queue', { userId: this.userId, action, queuedAt: Date.now() })
+  }
+
+  /**
+   * Queued changes, by default only the signed-in user's
+   */
+  private async getQueue(ownOnly: boolean = true): Promise<QueuedAction[]> {
+    try {
+      const queue = await getAllRecords<QueuedAction>('queue')
+      return ownOnly ? queue.filter(item => item.userId === this.userId) : queue
+    } catch (error) {
+      console.warn('Offline queue is unavailable:', error)
+      return []
+    }
+  }
+}
+
+export const offlineService = new OfflineService()
+export default offlineService
\ No newline at end of file
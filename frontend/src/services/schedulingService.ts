@@ -1,4 +1,4 @@
-import { Session } from '../types'
+import { HavrutaRole, Session, UserNotification } from '../types'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
 
@@ -7,6 +7,83 @@ export interface RecurrencePattern {
   interval: number
   endDate?: string
   daysOfWeek: number[]
+  timeZone?: string
+  holidayPolicy?: HolidayPolicy
+  avoidFastDays?: boolean
+  latitude?: number
+  longitude?: number
+}
+
+export type HolidayPolicy = 'none' | 'skip' | 'shift'
+
+export interface HolidayWindow {
+  name: string
+  type: 'shabbat' | 'yom_tov' | 'fast'
+  start: string
+  end: string
+}
+
+export interface CalendarImportPreview {
+  startTime: string | null
+  recurrencePattern: RecurrencePattern
+  count: number | null
+  unsupported: string[]
+}
+
+export interface RecurrenceException {
+  originalStartTime: string
+  originalStartingSection: string
+  isSkipped: boolean
+  reason?: string | null
+}
+
+export interface SeriesOccurrence {
+  id: string
+  status: 'scheduled' | 'active' | 'completed' | 'cancelled'
+  startTime: string
+  startingSection: string
+  exception: RecurrenceException | null
+}
+
+export type PollAvailability = 'yes' | 'maybe' | 'no'
+
+export interface PollSlot {
+  id: string
+  startTime: string
+  responses: Array<{
+    id: string
+    availability: PollAvailability
+    user: {
+      id: string
+      name: string
+    }
+  }>
+}
+
+export interface SchedulingPoll {
+  id: string
+  title: string
+  status: 'open' | 'closed'
+  timeZone: string
+  createdAt: string
+  closedAt: string | null
+  chosenSlotId: string | null
+  recurrencePatternId: string | null
+  havrutaId: string
+  createdById: string
+  havruta: {
+    id: string
+    name: string
+    ownerId: string
+    participants: Array<{
+      role?: HavrutaRole
+      user: {
+        id: string
+        name: string
+      }
+    }>
+  }
+  slots: PollSlot[]
 }
 
 export interface ScheduledSessionData {
@@ -29,9 +106,11 @@ export interface UpcomingSession extends Session {
       id: string
       name: string
       email: string
+      timeZone?: string
     }
   }>
   recurrencePattern?: RecurrencePattern
+  recurrencePatternId?: string | null
 }
 
 class SchedulingService {
@@ -78,6 +157,64 @@ class SchedulingService {
     })
   }
 
+  /**
+   * Schedule recurring sessions that follow the Havruta's study plan
+   */
+  async scheduleStudyPlanSessions(data: {
+    havrutaId: string
+    startTime: string
+    participantIds: string[]
+  }): Promise<{
+    message: string
+    sessions: Session[]
+    recurrencePatternId: string
+  }> {
+    return this.makeRequest<{
+      message: string
+      sessions: Session[]
+      recurrencePatternId: string
+    }>('/scheduling/study-plan-sessions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Read an ICS file or RRULE and show how it maps onto a recurrence pattern
+   */
+  async previewCalendarImport(calendar: string, timeZone?: string): Promise<CalendarImportPreview> {
+    return this.makeRequest<CalendarImportPreview>('/scheduling/import/preview', {
+      method: 'POST',
+      body: JSON.stringify({ calendar, timeZone }),
+    })
+  }
+
+  /**
+   * Create recurring sessions from an ICS file or RRULE
+   */
+  async importCalendar(data: {
+    havrutaId: string
+    calendar: string
+    startTime?: string
+    participantIds: string[]
+    timeZone?: string
+  }): Promise<{
+    message: string
+    sessions: Session[]
+    recurrencePatternId: string
+    unsupported: string[]
+  }> {
+    return this.makeRequest<{
+      message: string
+      sessions: Session[]
+      recurrencePatternId: string
+      unsupported: string[]
+    }>('/scheduling/import', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
   /**
    * Get upcoming sessions for the current user
    */
@@ -139,6 +276,165 @@ class SchedulingService {
     })
   }
 
+  /**
+   * Move, skip or change the starting point of one occurrence of a series
+   */
+  async updateOccurrence(
+    sessionId: string,
+    data: { startTime?: string; startingSection?: string; isSkipped?: boolean }
+  ): Promise<{
+    message: string
+    session: Session
+  }> {
+    return this.makeRequest<{
+      message: string
+      session: Session
+    }>(`/scheduling/sessions/${sessionId}/occurrence`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Undo the changes to one occurrence of a series
+   */
+  async restoreOccurrence(sessionId: string): Promise<{
+    message: string
+    session: Session
+  }> {
+    return this.makeRequest<{
+      message: string
+      session: Session
+    }>(`/scheduling/sessions/${sessionId}/occurrence`, {
+      method: 'DELETE',
+    })
+  }
+
+  /**
+   * Get every occurrence of a recurring series with its exceptions
+   */
+  async getSeries(patternId: string): Promise<{
+    pattern: RecurrencePattern & { id: string }
+    sessions: SeriesOccurrence[]
+  }> {
+    return this.makeRequest<{
+      pattern: RecurrencePattern & { id: string }
+      sessions: SeriesOccurrence[]
+    }>(`/scheduling/patterns/${patternId}/series`)
+  }
+
+  /**
+   * Get Shabbat and Yom Tov windows (and optionally fast days) in a date range
+   */
+  async getHolidayWindows(params: {
+    from: string
+    to: string
+    timeZone: string
+    latitude?: number
+    longitude?: number
+    includeFastDays?: boolean
+  }): Promise<{ windows: HolidayWindow[] }> {
+    const query = new URLSearchParams({
+      from: params.from,
+      to: params.to,
+      timeZone: params.timeZone,
+      ...(params.latitude !== undefined && { latitude: String(params.latitude) }),
+      ...(params.longitude !== undefined && { longitude: String(params.longitude) }),
+      ...(params.includeFastDays && { includeFastDays: 'true' }),
+    })
+    return this.makeRequest<{ windows: HolidayWindow[] }>(`/scheduling/holidays?${query}`)
+  }
+
+  /**
+   * Propose time slots for a Havruta (owner only)
+   */
+  async createPoll(data: {
+    havrutaId: string
+    title?: string
+    timeZone?: string
+    slots: string[]
+  }): Promise<{
+    message: string
+    poll: SchedulingPoll
+  }> {
+    return this.makeRequest<{
+      message: string
+      poll: SchedulingPoll
+    }>('/scheduling/polls', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Get open polls across the user's Havrutot
+   */
+  async getPolls(havrutaId?: string): Promise<{
+    polls: SchedulingPoll[]
+  }> {
+    const queryString = havrutaId ? `?${new URLSearchParams({ havrutaId }).toString()}` : ''
+    return this.makeRequest<{
+      polls: SchedulingPoll[]
+    }>(`/scheduling/polls${queryString}`)
+  }
+
+  /**
+   * Mark the user's availability for a poll's slots
+   */
+  async respondToPoll(
+    pollId: string,
+    responses: Array<{ slotId: string; availability: PollAvailability }>
+  ): Promise<{
+    poll: SchedulingPoll
+  }> {
+    return this.makeRequest<{
+      poll: SchedulingPoll
+    }>(`/scheduling/polls/${pollId}/responses`, {
+      method: 'PUT',
+      body: JSON.stringify({ responses }),
+    })
+  }
+
+  /**
+   * Schedule a poll's slot as a session or recurring series (owner only)
+   */
+  async convertPoll(
+    pollId: string,
+    data: {
+      slotId?: string
+      recurrencePattern?: Omit<RecurrencePattern, 'interval' | 'daysOfWeek' | 'timeZone'> &
+        Partial<Pick<RecurrencePattern, 'interval' | 'daysOfWeek'>>
+    } = {}
+  ): Promise<{
+    message: string
+    poll: SchedulingPoll
+    sessions: Session[]
+    recurrencePatternId: string
+  }> {
+    return this.makeRequest<{
+      message: string
+      poll: SchedulingPoll
+      sessions: Session[]
+      recurrencePatternId: string
+    }>(`/scheduling/polls/${pollId}/convert`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Delete a poll (owner only)
+   */
+  async deletePoll(pollId: string): Promise<{
+    message: string
+  }> {
+    return this.makeRequest<{
+      message: string
+    }>(`/scheduling/polls/${pollId}`, {
+      method: 'DELETE',
+    })
+  }
+
   /**
    * Get recurrence pattern details
    */
@@ -182,6 +478,48 @@ class SchedulingService {
     })
   }
 
+  /**
+   * Get delivered notifications for a user, newest first
+   */
+  async getNotifications(userId: string): Promise<{
+    notifications: UserNotification[]
+  }> {
+    return this.makeRequest<{
+      notifications: UserNotification[]
+    }>(`/scheduling/notifications/${userId}`)
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  async markNotificationAsRead(notificationId: string): Promise<{
+    message: string
+  }> {
+    return this.makeRequest<{
+      message: string
+    }>(`/scheduling/notifications/${notificationId}/read`, {
+      method: 'PUT',
+    })
+  }
+
+  /**
+   * Get the URL of the current user's subscribable calendar feed
+   */
+  async getCalendarFeedUrl(): Promise<string> {
+    const { token } = await this.makeRequest<{ token: string }>('/scheduling/calendar-token')
+    return `${API_BASE_URL}/scheduling/calendar/${token}.ics`
+  }
+
+  /**
+   * Replace the calendar feed URL, cutting off existing subscriptions
+   */
+  async resetCalendarFeedUrl(): Promise<string> {
+    const { token } = await this.makeRequest<{ token: string }>('/scheduling/calendar-token/reset', {
+      method: 'POST',
+    })
+    return `${API_BASE_URL}/scheduling/calendar/${token}.ics`
+  }
+
   /**
    * Quick schedule a session for a Havruta (simplified version)
    */
@@ -1,5 +1,6 @@
 import axios from 'axios'
-import { SefariaText, SefariaIndex, SefariaTextStructure, SefariaSearchResult, SefariaLink } from '../types'
+import { SefariaText, SefariaIndex, SefariaTextStructure, SefariaSearchResult, SefariaLink, LibrarySearchResult } from '../types'
+import { getRecord, putRecord } from '../utils/offlineStore'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
 
@@ -53,8 +54,42 @@ class SefariaService {
     return this.cachedRequest<SefariaIndex[]>('/index')
   }
 
+  /**
+   * Texts are also kept in the browser's offline store, so sections read or
+   * prefetched earlier still open without a connection
+   */
   async getText(ref: string): Promise<SefariaText> {
-    return this.cachedRequest<SefariaText>(`/texts/${encodeURIComponent(ref)}`)
+    try {
+      const text = await this.cachedRequest<SefariaText>(`/texts/${encodeURIComponent(ref)}`)
+      this.saveOfflineText(ref, text)
+      return text
+    } catch (error) {
+      const saved = await this.getOfflineText(ref)
+      if (saved) {
+        return saved
+      }
+      if (!navigator.onLine) {
+        throw new Error(`${ref} isn't available offline yet. Open it once while connected to save it.`)
+      }
+      throw error
+    }
+  }
+
+  async getOfflineText(ref: string): Promise<SefariaText | null> {
+    try {
+      const record = await getRecord<{ ref: string, text: SefariaText }>('texts', ref)
+      return record?.text || null
+    } catch (error) {
+      console.warn('Offline text lookup failed:', error)
+      return null
+    }
+  }
+
+  private saveOfflineText(ref: string, text: SefariaText): void {
+    // Sefaria may normalize the ref, so keep the text under both names
+    const refs = ref === text.ref ? [ref] : [ref, text.ref]
+    Promise.all(refs.map(key => putRecord('texts', { ref: key, text, savedAt: Date.now() })))
+      .catch(error => console.warn('Failed to save text for offline reading:', error))
   }
 
   async getTextStructure(title: string): Promise<SefariaTextStructure> {
@@ -68,6 +103,22 @@ class SefariaService {
     })
   }
 
+  /**
+   * Search every text the server has mirrored or cached, optionally within
+   * some top-level categories (e.g. Tanakh, Talmud)
+   */
+  async searchLibrary(query: string, categories: string[] = [], limit: number = 20): Promise<LibrarySearchResult[]> {
+    return this.cachedRequest<LibrarySearchResult[]>('/library-search', {
+      q: query,
+      ...(categories.length > 0 && { categories: categories.join(',') }),
+      limit
+    })
+  }
+
+  async getSearchCategories(): Promise<string[]> {
+    return this.cachedRequest<string[]>('/library-search/categories')
+  }
+
   async getLinks(ref: string): Promise<SefariaLink[]> {
     return this.cachedRequest<SefariaLink[]>(`/links/${encodeURIComponent(ref)}`)
   }
@@ -1,4 +1,4 @@
-import { Session } from '../types'
+import { Session, ChatMessage, SessionMode } from '../types'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
 
@@ -102,10 +102,14 @@ class SessionService {
     return this.makeRequest<any>(`/sessions/${id}/state`)
   }
 
-  async createInstantSession(havrutaId: string): Promise<Session> {
+  async getSessionMessages(id: string): Promise<ChatMessage[]> {
+    return this.makeRequest<ChatMessage[]>(`/sessions/${id}/messages`)
+  }
+
+  async createInstantSession(havrutaId: string, mode: SessionMode = 'havruta'): Promise<Session> {
     return this.makeRequest<Session>('/sessions/instant', {
       method: 'POST',
-      body: JSON.stringify({ havrutaId }),
+      body: JSON.stringify({ havrutaId, mode }),
     })
   }
 
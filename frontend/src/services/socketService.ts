@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client'
-import { User } from '../types'
+import { User, Annotation, Highlight, ChatMessage, UserNotification, ChaburaState } from '../types'
 import { authService } from './authService'
 
 export interface ParticipantPosition {
@@ -16,14 +16,19 @@ export interface NavigationEvent {
   userName: string
   newRef: string
   timestamp: Date
+  seq?: number // Session event number, used to catch up after a reconnect
 }
 
 export interface NavigationConflict {
   sessionId: string
+  conflictId?: string
+  strategy?: 'vote'
   conflictingRefs: Array<{
     ref: string
     participants: Array<{ userId: string, userName: string }>
   }>
+  voterIds?: string[]
+  votes?: Record<string, string>
   timestamp: Date
 }
 
@@ -37,11 +42,25 @@ export interface InstantSessionInvitation {
   timestamp: string
 }
 
+export interface SessionJoinedEvent {
+  sessionId: string
+  roomState?: any
+  participants?: any[]
+  reconnectToken?: string
+  seq?: number
+  resumed?: boolean // True when the server put us back in after a dropped connection
+}
+
 export interface SocketEvents {
   // Navigation events
   'navigation:update': (event: NavigationEvent) => void
   'navigation:conflict': (conflict: NavigationConflict) => void
   'navigation:sync': (ref: string) => void
+  'navigation:rejected': (data: { sessionId: string, message: string }) => void
+
+  // Chabura events
+  'chabura:state': (state: ChaburaState) => void
+  'chabura:error': (data: { sessionId: string, message: string }) => void
   
   // Participant events
   'participant:joined': (participant: { userId: string, userName: string }) => void
@@ -49,8 +68,9 @@ export interface SocketEvents {
   'participant:positions': (positions: ParticipantPosition[]) => void
   
   // Session events (new Redis-based)
-  'session-joined': (data: { sessionId: string, roomState?: any, participants?: any[] }) => void
+  'session-joined': (data: SessionJoinedEvent) => void
   'session-left': (data: { sessionId: string, participantCount: number, roomDeleted: boolean }) => void
+  'session:reconnecting': (data: { sessionId: string }) => void // Raised locally while a dropped connection is retried
   
   // Legacy Havruta events
   'havruta-joined': (data: { havrutaId: string }) => void
@@ -69,6 +89,24 @@ export interface SocketEvents {
   'webrtc-offer': (data: { from: string, offer: RTCSessionDescriptionInit }) => void
   'webrtc-answer': (data: { from: string, answer: RTCSessionDescriptionInit }) => void
   'webrtc-ice-candidate': (data: { from: string, candidate: RTCIceCandidateInit }) => void
+
+  // Annotation events
+  'annotation-created': (annotation: Annotation) => void
+  'annotation-updated': (annotation: Annotation) => void
+  'annotation-deleted': (data: { id: string, havrutaId: string, ref: string }) => void
+
+  // Highlight events
+  'highlight-created': (highlight: Highlight) => void
+  'highlight-deleted': (data: { id: string, havrutaId: string, ref: string }) => void
+
+  // Chat events
+  'chat-message': (message: ChatMessage) => void
+
+  // Commentary events
+  'commentary-synced': (data: { sessionId: string, ref: string | null, userId: string, userName: string }) => void
+
+  // Notification events
+  'notification': (notification: UserNotification) => void
 }
 
 class SocketService {
@@ -77,6 +115,8 @@ class SocketService {
   private currentUser: User | null = null
   private eventListeners: Map<string, Function[]> = new Map()
   private isConnecting: boolean = false
+  private reconnectToken: string | null = null
+  private lastSeq: number = 0 // Latest session event received, replayed from here on resume
 
   constructor() {
     // Listen for token refresh events
@@ -149,9 +189,16 @@ class SocketService {
         timeout: 10000 // 10 second timeout
       })
 
+      let hasConnected = false
       this.socket.on('connect', () => {
         console.log('✅ Connected to WebSocket server for user:', user.name)
         this.isConnecting = false
+
+        // Socket.IO reconnects on its own after a drop; pick the session back up where we left off
+        if (hasConnected && this.currentSessionId) {
+          this.resumeSession()
+        }
+        hasConnected = true
         resolve()
       })
 
@@ -172,6 +219,10 @@ class SocketService {
       this.socket.on('disconnect', (reason) => {
         console.log('🔌 Disconnected from WebSocket server:', reason)
         this.isConnecting = false
+
+        if (this.currentSessionId && reason !== 'io client disconnect') {
+          this.notifyListeners('session:reconnecting', { sessionId: this.currentSessionId })
+        }
         
         if (reason === 'io server disconnect') {
           console.log('🚫 Server disconnected the client - likely authentication issue')
@@ -203,6 +254,8 @@ class SocketService {
     this.currentSessionId = null
     this.currentUser = null
     this.isConnecting = false
+    this.reconnectToken = null
+    this.lastSeq = 0
     this.eventListeners.clear()
   }
 
@@ -214,6 +267,8 @@ class SocketService {
       }
 
       this.currentSessionId = sessionId
+      this.reconnectToken = null
+      this.lastSeq = 0
       
       this.socket.emit('join-session', {
         sessionId: sessionId
@@ -246,6 +301,28 @@ class SocketService {
         sessionId: this.currentSessionId
       })
       this.currentSessionId = null
+      this.reconnectToken = null
+      this.lastSeq = 0
+    }
+  }
+
+  /**
+   * Get back into the current session after the connection dropped. The
+   * server replays what we missed since lastSeq, or joins us afresh if our
+   * grace period is over.
+   */
+  private resumeSession(): void {
+    if (!this.socket || !this.currentSessionId) return
+
+    console.log('🔄 Resuming session after reconnect:', this.currentSessionId, 'from event', this.lastSeq)
+    if (this.reconnectToken) {
+      this.socket.emit('resume-session', {
+        sessionId: this.currentSessionId,
+        reconnectToken: this.reconnectToken,
+        lastSeq: this.lastSeq
+      })
+    } else {
+      this.socket.emit('join-session', { sessionId: this.currentSessionId })
     }
   }
 
@@ -291,6 +368,35 @@ class SocketService {
     })
   }
 
+  // Chabura floor control
+  raiseHand(): void {
+    this.emitChabura('chabura:raise-hand')
+  }
+
+  lowerHand(): void {
+    this.emitChabura('chabura:lower-hand')
+  }
+
+  grantControl(userId: string): void {
+    this.emitChabura('chabura:grant-control', { userId })
+  }
+
+  revokeControl(): void {
+    this.emitChabura('chabura:revoke-control')
+  }
+
+  private emitChabura(event: string, data: Record<string, string> = {}): void {
+    if (!this.socket || !this.currentSessionId) {
+      console.warn(`Cannot send ${event}: socket not ready`)
+      return
+    }
+
+    this.socket.emit(event, {
+      sessionId: this.currentSessionId,
+      ...data
+    })
+  }
+
   // WebRTC signaling methods
   emit(event: string, data: any): void {
     if (!this.socket) {
@@ -326,6 +432,9 @@ class SocketService {
       'navigation:update',
       'navigation:conflict',
       'navigation:sync',
+      'navigation:rejected',
+      'chabura:state',
+      'chabura:error',
       'participant:joined',
       'participant:left',
       'participant:positions',
@@ -342,19 +451,47 @@ class SocketService {
       'existing-call-participants',
       'webrtc-offer',
       'webrtc-answer',
-      'webrtc-ice-candidate'
+      'webrtc-ice-candidate',
+      'annotation-created',
+      'annotation-updated',
+      'annotation-deleted',
+      'highlight-created',
+      'highlight-deleted',
+      'chat-message',
+      'commentary-synced',
+      'notification'
     ]
 
     events.forEach(event => {
       this.socket!.on(event, (...args: any[]) => {
-        const listeners = this.eventListeners.get(event)
-        if (listeners) {
-          listeners.forEach(callback => callback(...args))
-        }
+        this.trackSessionProgress(event, args[0])
+        this.notifyListeners(event, ...args)
       })
     })
   }
 
+  private notifyListeners(event: keyof SocketEvents, ...args: any[]): void {
+    const listeners = this.eventListeners.get(event)
+    if (listeners) {
+      listeners.forEach(callback => callback(...args))
+    }
+  }
+
+  // Remember our reconnect token and the latest session event, so a resume knows where to pick up
+  private trackSessionProgress(event: keyof SocketEvents, payload: any): void {
+    if (event === 'session-joined' && payload?.sessionId === this.currentSessionId) {
+      this.reconnectToken = payload.reconnectToken || this.reconnectToken
+      if (typeof payload.seq === 'number') {
+        this.lastSeq = payload.seq
+      }
+      return
+    }
+
+    if (typeof payload?.seq === 'number' && payload.seq > this.lastSeq) {
+      this.lastSeq = payload.seq
+    }
+  }
+
   // Utility methods
   isConnected(): boolean {
     return this.socket?.connected === true
@@ -1,4 +1,4 @@
-import { socketService } from './socketService'
+import { socketService, SessionJoinedEvent } from './socketService'
 
 export interface VideoCallState {
   isConnected: boolean
@@ -102,9 +102,15 @@ class WebRTCService {
   }
 
   private setupSocketListeners() {
+    // Get back into the call once the session is resumed after a dropped connection
+    socketService.off('session-joined', this.handleSessionResumed)
+    socketService.on('session-joined', this.handleSessionResumed)
+
     // Handle new participant joining
     socketService.on('participant-joined-call', async (data: { participantId: string }) => {
       if (data.participantId !== this.userId) {
+        // A participant coming back from a reconnect replaces their old connection
+        this.removePeerConnection(data.participantId)
         await this.createPeerConnection(data.participantId, true)
         this.callbacks?.onParticipantJoined(data.participantId)
       }
@@ -139,6 +145,26 @@ class WebRTCService {
     })
   }
 
+  private handleSessionResumed = (data: SessionJoinedEvent) => {
+    if (data.resumed && data.sessionId === this.sessionId && this.state.isConnected) {
+      this.rejoinCall()
+    }
+  }
+
+  // Our peer connections are stale after a reconnect, so drop them and let the others call us again
+  private rejoinCall(): void {
+    if (!this.sessionId || !this.userId) return
+
+    this.peerConnections.forEach(pc => pc.close())
+    this.peerConnections.clear()
+    this.state.remoteStreams.clear()
+    this.state.participants = []
+    this.reconnectAttempts.clear()
+    this.notifyStateChange()
+
+    socketService.emit('join-video-call', { sessionId: this.sessionId, userId: this.userId })
+  }
+
   private async createPeerConnection(participantId: string, isInitiator: boolean): Promise<void> {
     const peerConnection = new RTCPeerConnection({ iceServers: this.iceServers })
     this.peerConnections.set(participantId, peerConnection)
@@ -403,6 +429,7 @@ class WebRTCService {
     // Close all peer connections
     this.peerConnections.forEach(pc => pc.close())
     this.peerConnections.clear()
+    socketService.off('session-joined', this.handleSessionResumed)
 
     // Stop local stream
     if (this.localStream) {
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { HttpError } from '../utils/errorHandler'
+
+// In-memory stand-in for the IndexedDB stores
+const stores = vi.hoisted(() => ({
+  records: {
+    texts: new Map<any, any>(),
+    annotations: new Map<any, any>(),
+    queue: new Map<any, any>()
+  } as Record<string, Map<any, any>>,
+  nextId: 1
+}))
+
+vi.mock('../utils/offlineStore', () => ({
+  getRecord: vi.fn(async (store: string, key: any) => stores.records[store].get(key)),
+  getAllRecords: vi.fn(async (store: string) => [...stores.records[store].values()]),
+  putRecord: vi.fn(async (store: string, record: any) => {
+    const key = store === 'queue' ? (record.id ?? stores.nextId++) : store === 'texts' ? record.ref : record.key
+    stores.records[store].set(key, store === 'queue' ? { ...record, id: key } : record)
+    return key
+  }),
+  deleteRecord: vi.fn(async (store: string, key: any) => {
+    stores.records[store].delete(key)
+  }),
+  clearRecords: vi.fn(async (store: string) => {
+    stores.records[store].clear()
+  })
+}))
+
+vi.mock('../services/havrutaService', () => ({
+  havrutaService: {
+    updateProgress: vi.fn()
+  }
+}))
+
+vi.mock('../services/annotationService', () => ({
+  annotationService: {
+    getAnnotations: vi.fn(),
+    createAnnotation: vi.fn(),
+    updateAnnotation: vi.fn(),
+    deleteAnnotation: vi.fn()
+  }
+}))
+
+vi.mock('../services/sefariaService', () => ({
+  sefariaService: {
+    getText: vi.fn(),
+    getOfflineText: vi.fn()
+  }
+}))
+
+import { offlineService } from '../services/offlineService'
+import { havrutaService } from '../services/havrutaService'
+import { annotationService } from '../services/annotationService'
+
+const user = { id: 'user-1', name: 'Test User', email: 'test@example.com' } as any
+
+const queuedActions = () => [...stores.records.queue.values()].map(item => item.action)
+
+describe('OfflineService', () => {
+  const network = { onLine: false }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    Object.values(stores.records).forEach(store => store.clear())
+    network.onLine = false
+    vi.stubGlobal('navigator', network)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    offlineService.setUser(user.id)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('progress', () => {
+    it('should keep only the latest place for each Havruta', async () => {
+      await offlineService.saveProgress('havruta-1', 'Genesis 1')
+      await offlineService.saveProgress('havruta-2', 'Exodus 1')
+      await offlineService.saveProgress('havruta-1', 'Genesis 2')
+
+      expect(queuedActions()).toEqual([
+        { type: 'progress', havrutaId: 'havruta-2', lastPlace: 'Exodus 1' },
+        { type: 'progress', havrutaId: 'havruta-1', lastPlace: 'Genesis 2' }
+      ])
+      expect(havrutaService.updateProgress).not.toHaveBeenCalled()
+    })
+
+    it('should queue progress when the request never reaches the server', async () => {
+      network.onLine = true
+      vi.mocked(havrutaService.updateProgress).mockRejectedValue(new TypeError('Failed to fetch'))
+
+      await offlineService.saveProgress('havruta-1', 'Genesis 3')
+
+      expect(queuedActions()).toEqual([{ type: 'progress', havrutaId: 'havruta-1', lastPlace: 'Genesis 3' }])
+    })
+  })
+
+  describe('notes written offline', () => {
+    it('should edit the queued note instead of queueing an update', async () => {
+      const note = await offlineService.createAnnotation('havruta-1', 'Genesis 1:1', 'First thought', user)
+      expect(offlineService.isOfflineAnnotation(note.id)).toBe(true)
+
+      const updated = await offlineService.updateAnnotation('havruta-1', note.id, 'Second thought')
+
+      expect(updated).toMatchObject({ id: note.id, content: 'Second thought' })
+      expect(queuedActions()).toEqual([
+        expect.objectContaining({ type: 'create-annotation', tempId: note.id, content: 'Second thought' })
+      ])
+    })
+
+    it('should drop the queued note when it is deleted before syncing', async () => {
+      const note = await offlineService.createAnnotation('havruta-1', 'Genesis 1:1', 'Never mind', user)
+
+      await offlineService.deleteAnnotation('havruta-1', note.id)
+
+      expect(queuedActions()).toEqual([])
+      expect(annotationService.deleteAnnotation).not.toHaveBeenCalled()
+    })
+
+    it('should show pending changes on top of the saved notes', async () => {
+      vi.mocked(annotationService.getAnnotations).mockRejectedValue(new TypeError('Failed to fetch'))
+      stores.records.annotations.set('havruta-1:Genesis 1', {
+        key: 'havruta-1:Genesis 1',
+        annotations: [{ id: 'note-1', ref: 'Genesis 1:2', content: 'Old' }, { id: 'note-2', ref: 'Genesis 1:3', content: 'Gone' }]
+      })
+
+      await offlineService.updateAnnotation('havruta-1', 'note-1', 'New')
+      await offlineService.deleteAnnotation('havruta-1', 'note-2')
+      const note = await offlineService.createAnnotation('havruta-1', 'Genesis 1:4', 'Added', user)
+
+      const annotations = await offlineService.getAnnotations('havruta-1', 'Genesis 1')
+
+      expect(annotations.map(a => [a.id, a.content])).toEqual([['note-1', 'New'], [note.id, 'Added']])
+    })
+  })
+
+  describe('syncPending', () => {
+    it('should replay changes in the order they were made', async () => {
+      const calls: string[] = []
+      vi.mocked(annotationService.createAnnotation).mockImplementation(async () => {
+        calls.push('create')
+        return {} as any
+      })
+      vi.mocked(havrutaService.updateProgress).mockImplementation(async () => {
+        calls.push('progress')
+      })
+      vi.mocked(annotationService.deleteAnnotation).mockImplementation(async () => {
+        calls.push('delete')
+      })
+      const listener = vi.fn()
+      offlineService.onSync(listener)
+
+      await offlineService.createAnnotation('havruta-1', 'Genesis 1:1', 'A note', user)
+      await offlineService.saveProgress('havruta-1', 'Genesis 2')
+      await offlineService.deleteAnnotation('havruta-1', 'note-1')
+
+      network.onLine = true
+      await offlineService.syncPending()
+      offlineService.offSync(listener)
+
+      expect(calls).toEqual(['create', 'progress', 'delete'])
+      expect(annotationService.createAnnotation).toHaveBeenCalledWith('havruta-1', 'Genesis 1:1', 'A note')
+      expect(queuedActions()).toEqual([])
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop at a network error and keep the rest queued', async () => {
+      await offlineService.saveProgress('havruta-1', 'Genesis 2')
+      await offlineService.deleteAnnotation('havruta-1', 'note-1')
+      network.onLine = true
+      vi.mocked(havrutaService.updateProgress).mockRejectedValue(new TypeError('Failed to fetch'))
+
+      await offlineService.syncPending()
+
+      expect(annotationService.deleteAnnotation).not.toHaveBeenCalled()
+      expect(queuedActions()).toHaveLength(2)
+    })
+
+    it('should keep changes when the server is down or the sign-in expired', async () => {
+      await offlineService.saveProgress('havruta-1', 'Genesis 2')
+      network.onLine = true
+
+      for (const status of [401, 429, 502, 503]) {
+        vi.mocked(havrutaService.updateProgress).mockRejectedValueOnce(new HttpError('Unavailable', status))
+        await offlineService.syncPending()
+      }
+
+      expect(havrutaService.updateProgress).toHaveBeenCalledTimes(4)
+      expect(queuedActions()).toHaveLength(1)
+    })
+
+    it('should drop changes the server rejects and carry on', async () => {
+      await offlineService.updateAnnotation('havruta-1', 'note-1', 'Edited')
+      await offlineService.saveProgress('havruta-1', 'Genesis 2')
+      network.onLine = true
+      vi.mocked(annotationService.updateAnnotation).mockRejectedValue(new HttpError('Annotation not found', 404))
+
+      await offlineService.syncPending()
+
+      expect(havrutaService.updateProgress).toHaveBeenCalledWith('havruta-1', 'Genesis 2')
+      expect(queuedActions()).toEqual([])
+    })
+
+    it('should drop changes queued by someone else on this device', async () => {
+      offlineService.setUser('user-2')
+      await offlineService.saveProgress('havruta-1', 'Genesis 9')
+      offlineService.setUser(user.id)
+      await offlineService.saveProgress('havruta-1', 'Genesis 2')
+      network.onLine = true
+
+      await offlineService.syncPending()
+
+      expect(havrutaService.updateProgress).toHaveBeenCalledTimes(1)
+      expect(havrutaService.updateProgress).toHaveBeenCalledWith('havruta-1', 'Genesis 2')
+      expect(queuedActions()).toEqual([])
+    })
+  })
+
+  describe('clearUserData', () => {
+    it('should forget saved notes and unsynced changes on logout', async () => {
+      stores.records.annotations.set('havruta-1:Genesis 1', { key: 'havruta-1:Genesis 1', annotations: [] })
+      stores.records.texts.set('Genesis 1', { ref: 'Genesis 1' })
+      await offlineService.saveProgress('havruta-1', 'Genesis 2')
+
+      await offlineService.clearUserData()
+
+      expect(stores.records.annotations.size).toBe(0)
+      expect(queuedActions()).toEqual([])
+      expect(stores.records.texts.size).toBe(1)
+      await expect(offlineService.saveProgress('havruta-1', 'Genesis 3'))
+        .rejects.toThrow('Sign in to save changes while offline')
+    })
+  })
+})
\ No newline at end of file
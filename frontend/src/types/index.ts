@@ -6,6 +6,7 @@ export interface User {
   profilePicture?: string
   oauthProvider: 'google' | 'apple'
   oauthId: string
+  timeZone?: string
   createdAt: Date
   lastActiveAt: Date
 }
@@ -19,6 +20,11 @@ export interface AuthState {
 }
 
 // Havruta types
+export type HavrutaRole = 'owner' | 'co-host' | 'participant' | 'observer'
+
+// How a Havruta settles two people navigating to different places at once
+export type ConflictStrategy = 'last-writer-wins' | 'leader-wins' | 'vote'
+
 export interface Havruta {
   id: string
   name: string
@@ -32,11 +38,13 @@ export interface Havruta {
     profilePicture?: string
   }
   participants: Array<{
+    role?: HavrutaRole
     user: {
       id: string
       name: string
       email: string
       profilePicture?: string
+      timeZone?: string
     }
   }>
   lastPlace: string
@@ -44,6 +52,210 @@ export interface Havruta {
   createdAt: Date
   lastStudiedAt: Date
   totalSessions: number
+  visibility?: HavrutaVisibility
+  description?: string
+  conflictStrategy?: ConflictStrategy
+}
+
+// Public catalog types
+export type HavrutaVisibility = 'private' | 'link-only' | 'public'
+
+export interface PublicHavruta {
+  id: string
+  name: string
+  bookId: string
+  bookTitle: string
+  description: string
+  lastPlace: string
+  visibility: HavrutaVisibility
+  owner: {
+    id: string
+    name: string
+    profilePicture: string | null
+  }
+  participantCount: number
+  nextSessionAt: string | null
+  sessionDays: number[] // Weekdays of upcoming sessions in the viewer's time zone, 0=Sunday
+  isParticipant: boolean
+  joinRequestStatus: 'pending' | 'approved' | 'declined' | null
+}
+
+export interface JoinRequest {
+  id: string
+  message: string
+  status: 'pending' | 'approved' | 'declined'
+  createdAt: string
+  respondedAt: string | null
+  userId: string
+  havrutaId: string
+  user: {
+    id: string
+    name: string
+    profilePicture: string | null
+  }
+  havruta: {
+    id: string
+    name: string
+    bookTitle: string
+  }
+}
+
+// Study plan types
+export interface StudyPlan {
+  id: string
+  havrutaId: string
+  startRef: string
+  endRef: string
+  amount: number
+  unit: 'chapter' | 'daf' | 'amud'
+  period: 'day' | 'week'
+  startDate: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface StudyPlanStatus {
+  status: 'not-started' | 'behind' | 'on-track' | 'ahead' | 'completed'
+  expectedRef: string
+  expectedEndRef: string
+  currentRef: string
+  sectionsAhead: number
+  periodsAhead: number
+  percentComplete: number
+  endDate: string
+}
+
+// Progress summary types
+export interface ParticipantProgressSummary {
+  user: {
+    id: string
+    name: string
+    profilePicture?: string
+  }
+  lastSection: string
+  totalTimeStudied: number
+  percentComplete: number
+  sections: number[]
+}
+
+export interface ProgressSummary {
+  havrutaId: string
+  bookTitle: string
+  sectionName: string
+  totalSections: number
+  percentComplete: number
+  sections: Array<{
+    ref: string
+    coverage: number
+  }>
+  participants: ParticipantProgressSummary[]
+}
+
+// Notification types
+export interface UserNotification {
+  id: string
+  type: 'session_reminder' | 'session_starting' | 'session_cancelled' | 'instant_session_invitation'
+  message: string
+  metadata?: {
+    havrutaId?: string
+    havrutaName?: string
+    creatorName?: string
+    joinUrl?: string
+  } | null
+  scheduledFor: string
+  sentAt: string | null
+  readAt: string | null
+  createdAt: string
+  userId: string
+  sessionId: string | null
+}
+
+// Invitation types
+export interface InviteLink {
+  id: string
+  token: string
+  maxUses: number | null // Unlimited when null
+  useCount: number
+  expiresAt: string | null
+  revokedAt: string | null
+  createdAt: string
+  havrutaId: string
+  uses: Array<{
+    id: string
+    joinedAt: string
+    user: {
+      id: string
+      name: string
+      email: string
+      profilePicture?: string | null
+    }
+  }>
+}
+
+export interface InvitationPreview {
+  type: 'email' | 'link'
+  id: string
+  status: string
+  createdAt: string
+  expiresAt: string | null
+  inviteeEmail?: string
+  remainingUses?: number | null
+  havruta: {
+    id: string
+    name: string
+    bookTitle: string
+  }
+  inviter: {
+    name: string
+    profilePicture?: string | null
+  }
+}
+
+// Partner matching types
+export type MatchingLanguage = 'hebrew' | 'english' | 'either'
+export type MatchingLevel = 'beginner' | 'intermediate' | 'advanced'
+
+export interface AvailabilityWindow {
+  day: number // 0=Sunday ... 6=Saturday
+  start: string // "HH:MM" in the user's time zone
+  end: string
+}
+
+export interface MatchingProfile {
+  books: string[]
+  language: MatchingLanguage
+  level: MatchingLevel
+  availability: AvailabilityWindow[]
+  bio: string
+  isPublished: boolean
+}
+
+export interface MatchUser {
+  id: string
+  name: string
+  profilePicture: string | null
+  timeZone: string
+}
+
+export interface MatchSuggestion {
+  user: MatchUser
+  profile: Pick<MatchingProfile, 'books' | 'language' | 'level' | 'bio'>
+  sharedBooks: string[]
+  overlapMinutes: number
+  score: number
+}
+
+export interface MatchRequest {
+  id: string
+  bookTitle: string
+  status: 'pending' | 'accepted' | 'declined'
+  createdAt: string
+  respondedAt: string | null
+  havrutaId: string | null
+  requesterId: string
+  recipientId: string
+  requester?: MatchUser
+  recipient?: MatchUser
 }
 
 // Session types
@@ -52,10 +264,26 @@ export interface Session {
   havrutaId: string
   startTime: Date
   endTime?: Date
+  status?: 'scheduled' | 'active' | 'completed' | 'cancelled'
   participantIds: string[]
   sectionsStudied: string[]
   isRecurring: boolean
   recurrencePattern?: RecurrencePattern
+  chatMessages?: ChatMessage[]
+}
+
+export interface ChatMessage {
+  id: string
+  content: string
+  refs: string[]
+  createdAt: string
+  userId: string
+  sessionId: string
+  user: {
+    id: string
+    name: string
+    profilePicture?: string | null
+  }
 }
 
 export interface RecurrencePattern {
@@ -76,6 +304,22 @@ export interface Progress {
   updatedAt: Date
 }
 
+// Annotation types
+export interface Annotation {
+  id: string
+  ref: string
+  content: string
+  createdAt: string
+  updatedAt: string
+  userId: string
+  havrutaId: string
+  user: {
+    id: string
+    name: string
+    profilePicture?: string | null
+  }
+}
+
 // Sefaria types
 export interface SefariaText {
   ref: string
@@ -169,6 +413,18 @@ export interface SefariaSearchResult {
   lang: string
 }
 
+// A match from the server's library-wide search, at its best-matching segment
+export interface LibrarySearchResult {
+  ref: string // Segment, e.g. "Genesis 1:2"
+  sectionRef: string
+  heSectionRef: string
+  book: string
+  categories: string[]
+  language: 'en' | 'he'
+  content: string
+  rank: number
+}
+
 export interface SefariaLink {
   ref: string
   heRef: string
@@ -176,6 +432,12 @@ export interface SefariaLink {
   anchorHeRef: string
   type: string
   category: string
+  index_title?: string
+  collectiveTitle?: {
+    en: string
+    he: string
+  }
+  sourceHasEn?: boolean
 }
 
 // Text viewer types
@@ -203,6 +465,37 @@ export interface SearchHighlight {
   startIndex: number
   endIndex: number
   ref: string
+  // Set for collaborative highlights shared with the Havruta
+  id?: string
+  language?: 'en' | 'he'
+  color?: string
+  userId?: string
+  userName?: string
+}
+
+export interface TextSelection {
+  ref: string
+  language: 'en' | 'he'
+  startIndex: number
+  endIndex: number
+  text: string
+}
+
+export interface Highlight {
+  id: string
+  ref: string
+  language: 'en' | 'he'
+  startIndex: number
+  endIndex: number
+  text: string
+  color: string
+  createdAt: string
+  userId: string
+  havrutaId: string
+  user: {
+    id: string
+    name: string
+  }
 }
 
 // Collaborative navigation types
@@ -220,14 +513,19 @@ export interface NavigationEvent {
   userName: string
   newRef: string
   timestamp: Date
+  seq?: number // Session event number, used to catch up after a reconnect
 }
 
 export interface NavigationConflict {
   sessionId: string
+  conflictId?: string
+  strategy?: 'vote' // Everyone in the conflict must pick the same section
   conflictingRefs: Array<{
     ref: string
     participants: Array<{ userId: string, userName: string }>
   }>
+  voterIds?: string[]
+  votes?: Record<string, string> // userId -> chosen ref
   timestamp: Date
 }
 
@@ -237,4 +535,24 @@ export interface CollaborativeState {
   participants: ParticipantPosition[]
   currentConflict: NavigationConflict | null
   isNavigationLocked: boolean
+  chabura: ChaburaState | null // Set when the session is a chabura led by one person
+  isFollowing: boolean // Whether this user follows the leader's navigation
+}
+
+// 'havruta' lets everyone navigate; in a 'chabura' the leader drives
+export type SessionMode = 'havruta' | 'chabura'
+
+export interface ChaburaState {
+  sessionId: string
+  havrutaId: string
+  leaderId: string
+  leaderName: string
+  driverId: string | null
+  driverName: string | null
+  raisedHands: Array<{
+    userId: string
+    userName: string
+    raisedAt: string
+  }>
+  currentSection: string | null
 }
\ No newline at end of file
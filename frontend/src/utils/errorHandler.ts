@@ -51,6 +51,14 @@ export class ServiceUnavailableError extends Error {
   }
 }
 
+// A response the server sent back with an error status
+export class HttpError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
 // Error notification system
 class ErrorNotificationManager {
   private notifications: ErrorNotification[] = []
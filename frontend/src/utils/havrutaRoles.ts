@@ -0,0 +1,27 @@
+import { Havruta, HavrutaRole } from '../types'
+
+export const ROLE_LABELS: Record<HavrutaRole, string> = {
+  owner: 'Owner',
+  'co-host': 'Co-host',
+  participant: 'Participant',
+  observer: 'Observer',
+}
+
+/**
+ * The user's role in a Havruta. Participants loaded before roles existed
+ * have none, so the owner is still recognized by ownerId.
+ */
+export const getHavrutaRole = (havruta: Havruta, userId?: string): HavrutaRole | null => {
+  if (!userId) return null
+  if (havruta.ownerId === userId) return 'owner'
+  const participant = havruta.participants.find(p => p.user.id === userId)
+  return participant ? participant.role || 'participant' : null
+}
+
+/**
+ * Owners and co-hosts run sessions, schedule, and manage the study plan, sharing,
+ * invite links and join requests
+ */
+export const canHost = (role: HavrutaRole | null): boolean => {
+  return role === 'owner' || role === 'co-host'
+}
\ No newline at end of file
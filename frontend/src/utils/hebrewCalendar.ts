@@ -0,0 +1,11 @@
+/**
+ * Hebrew date of an instant's civil day in a zone, e.g. "1 Tishri 5786"
+ */
+export const formatHebrewDate = (date: Date | string, timeZone: string): string => {
+  return new Intl.DateTimeFormat('en-u-ca-hebrew', {
+    timeZone,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  }).format(new Date(date))
+}
\ No newline at end of file
@@ -0,0 +1,75 @@
+// Thin promise wrapper around the browser's IndexedDB, used to keep texts,
+// annotations and not-yet-synced changes available without a connection
+
+const DB_NAME = 'havruta-offline'
+const DB_VERSION = 1
+
+export type OfflineStoreName = 'texts' | 'annotations' | 'queue'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Offline storage is not supported in this browser'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains('texts')) {
+        db.createObjectStore('texts', { keyPath: 'ref' })
+      }
+      if (!db.objectStoreNames.contains('annotations')) {
+        db.createObjectStore('annotations', { keyPath: 'key' })
+      }
+      if (!db.objectStoreNames.contains('queue')) {
+        db.createObjectStore('queue', { keyPath: 'id', autoIncrement: true })
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+const runRequest = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+
+    transaction.oncomplete = () => resolve(request.result as T)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export const getRecord = <T>(storeName: OfflineStoreName, key: IDBValidKey): Promise<T | undefined> =>
+  runRequest<T | undefined>(storeName, 'readonly', store => store.get(key))
+
+export const getAllRecords = <T>(storeName: OfflineStoreName): Promise<T[]> =>
+  runRequest<T[]>(storeName, 'readonly', store => store.getAll())
+
+export const putRecord = <T>(storeName: OfflineStoreName, record: T): Promise<IDBValidKey> =>
+  runRequest<IDBValidKey>(storeName, 'readwrite', store => store.put(record))
+
+export const deleteRecord = (storeName: OfflineStoreName, key: IDBValidKey): Promise<void> =>
+  runRequest<void>(storeName, 'readwrite', store => store.delete(key))
+
+export const clearRecords = (storeName: OfflineStoreName): Promise<void> =>
+  runRequest<void>(storeName, 'readwrite', store => store.clear())
\ No newline at end of file
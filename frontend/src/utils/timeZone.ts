@@ -0,0 +1,99 @@
+import { User } from '../types'
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+/**
+ * The time zone the browser is running in
+ */
+export const getBrowserTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE
+}
+
+/**
+ * The zone a user schedules in. Accounts that never picked one are still on
+ * the server default, so fall back to the browser's zone for them.
+ */
+export const getUserTimeZone = (user?: Pick<User, 'timeZone'> | null): string => {
+  if (user?.timeZone && user.timeZone !== DEFAULT_TIME_ZONE) {
+    return user.timeZone
+  }
+  return getBrowserTimeZone()
+}
+
+/**
+ * All IANA zones the browser knows about, for pickers
+ */
+export const getSupportedTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : []
+  return zones.includes(DEFAULT_TIME_ZONE) ? zones : [DEFAULT_TIME_ZONE, ...zones]
+}
+
+/**
+ * Format an instant as wall-clock time in a zone, e.g. "Mon, Mar 4, 9:00 PM EST"
+ */
+export const formatInTimeZone = (
+  date: Date | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  }
+): string => {
+  return new Intl.DateTimeFormat(undefined, { ...options, timeZone }).format(new Date(date))
+}
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  const values: Record<string, number> = {}
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  })
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = parseInt(part.value, 10)
+    }
+  }
+  return values
+}
+
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Value for a datetime-local input showing the instant in a zone
+ */
+export const toDateTimeInputValue = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date, timeZone)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`
+}
+
+/**
+ * Read a datetime-local input value as wall-clock time in a zone
+ */
+export const fromDateTimeInputValue = (value: string, timeZone: string): Date => {
+  const [datePart, timePart = '00:00'] = value.split('T')
+  const [year, month, day] = datePart.split('-').map(Number)
+  const [hour, minute] = timePart.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  // The zone's offset depends on the instant, so refine the guess once
+  let utc = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone)
+  utc = wallClock - getTimeZoneOffset(new Date(utc), timeZone)
+
+  return new Date(utc)
+}
\ No newline at end of file